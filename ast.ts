@@ -4,64 +4,93 @@
 export type Type =
   | {tag: "number"}
   | {tag: "bool"}
+  | {tag: "str"}
   | {tag: "none"}
   | {tag: "list", type: Type}
   | {tag: "class", name: string, genericArgs?: Array<Type>}
   | {tag: "either", left: Type, right: Type }
   | {tag: "generator", type: Type } // generator type
   | {tag: "set", valueType: Type }
+  | {tag: "dict", key: Type, value: Type }
+  | {tag: "tuple", contentTypes: Array<Type> }
+  | {tag: "callable", params: Array<Type>, ret: Type }
   | {tag: "type-var"}
 
 export type SourceLocation = { line: number, column: number, srcCode: string }
 
-export type Parameter<A> = { name: string, type: Type }
+export type Parameter<A> = { name: string, type: Type, value?: Literal<A> } // value is the default, for calls that leave it out
 
 export type Program<A> = { a?: A, funs: Array<FunDef<A>>, inits: Array<VarInit<A>>, classes: Array<Class<A>>, stmts: Array<Stmt<A>> }
 
-export type Class<A> = { a?: A, name: string, generics?: Array<string>, fields: Array<VarInit<A>>, methods: Array<FunDef<A>>}
+export type Class<A> = { a?: A, name: string, generics?: Array<string>, superclass?: string, fields: Array<VarInit<A>>, methods: Array<FunDef<A>>}
 
 export type VarInit<A> = { a?: A, name: string, type: Type, value: Literal<A> }
 
-export type FunDef<A> = { a?: A, name: string, parameters: Array<Parameter<A>>, ret: Type, inits: Array<VarInit<A>>, body: Array<Stmt<A>> }
+export type FunDef<A> = { a?: A, name: string, parameters: Array<Parameter<A>>, ret: Type, inits: Array<VarInit<A>>, funs?: Array<FunDef<A>>, nonlocals?: Array<string>, globals?: Array<string>, body: Array<Stmt<A>> }
 
 export type Stmt<A> =
   | {  a?: A, tag: "assign", name: string, value: Expr<A> }
   | {  a?: A, tag: "assign-destr", destr: DestructureLHS<A>[], rhs:Expr<A> }
   | {  a?: A, tag: "return", value: Expr<A> }
+  | {  a?: A, tag: "yield", value: Expr<A> } // makes the function it is in a generator function
   | {  a?: A, tag: "expr", expr: Expr<A> }
   | {  a?: A, tag: "pass" }
   | {  a?: A, tag: "field-assign", obj: Expr<A>, field: string, value: Expr<A> }
   | {  a?: A, tag: "index-assign", obj: Expr<A>, index: Expr<A>, value: Expr<A> }
+  // target op= value. The type checker binds the object and index of the target to names first,
+  // so they are evaluated once, and makes value the result of the operation on the target.
+  | {  a?: A, tag: "aug-assign", target: AssignTarget<A>, op: BinOp, value: Expr<A>, bindings?: Array<[string, Expr<A>]> }
   | {  a?: A, tag: "if", cond: Expr<A>, thn: Array<Stmt<A>>, els: Array<Stmt<A>> }
   | {  a?: A, tag: "while", cond: Expr<A>, body: Array<Stmt<A>> }
   | {  a?: A, tag: "for", vars: Expr<A>, iterable: Expr<A>, body: Array<Stmt<A>>, elseBody?: Array<Stmt<A>> }
   | {  a?: A, tag: "break", loopCounter?: number }
   | {  a?: A, tag: "continue", loopCounter?: number }
+  | {  a?: A, tag: "raise", value?: Expr<A> } // a bare raise re-raises the exception being handled
+  | {  a?: A, tag: "assert", test: Expr<A>, msg?: Expr<A> } // raises AssertionError with msg when test is False
+  | {  a?: A, tag: "try", body: Array<Stmt<A>>, handlers: Array<ExceptHandler<A>>, elseBody: Array<Stmt<A>>, finallyBody: Array<Stmt<A>> }
+
+// an except clause without types catches everything
+export type ExceptHandler<A> = { a?: A, types: Array<string>, name?: string, body: Array<Stmt<A>> }
 
 export type Expr<A> =
     {  a?: A, tag: "literal", value: Literal<A> }
   | {  a?: A, tag: "id", name: string}
   | {  a?: A, tag: "binop", op: BinOp, left: Expr<A>, right: Expr<A>}
+  | {  a?: A, tag: "comparison", left: Expr<A>, ops: Array<BinOp>, comparators: Array<Expr<A>> } // a chain like a < b <= c, single comparisons are binops
+  | {  a?: A, tag: "bind", name: string, value: Expr<A> } // evaluates to value after storing it in name, the type checker introduces it for comparison chains
   | {  a?: A, tag: "uniop", op: UniOp, expr: Expr<A> }
-  | {  a?: A, tag: "call", name: string, arguments: Array<Expr<A>>, genericArgs?: Array<Type>} 
+  | {  a?: A, tag: "call", name: string, arguments: Array<Expr<A>>, keywords?: Array<[string, Expr<A>]>, genericArgs?: Array<Type>, argOrder?: Array<number>} // keywords as in f(a, b=c), the type checker matches them to parameters
   | {  a?: A, tag: "lookup", obj: Expr<A>, field: string }
   | {  a?: A, tag: "listliteral", elements: Array<Expr<A>> }
   | {  a?: A, tag: "index", obj: Expr<A>, index: Expr<A> }
-  | {  a?: A, tag: "method-call", obj: Expr<A>, method: string, arguments: Array<Expr<A>> }
-  | {  a?: A, tag: "construct", name: string }
+  | {  a?: A, tag: "slice", obj: Expr<A>, start?: Expr<A>, stop?: Expr<A>, step?: Expr<A> } // a[start:stop:step], a new list
+  | {  a?: A, tag: "method-call", obj: Expr<A>, method: string, arguments: Array<Expr<A>>, keywords?: Array<[string, Expr<A>]>, argOrder?: Array<number> }
+  | {  a?: A, tag: "construct", name: string, arguments?: Array<Expr<A>>, argOrder?: Array<number> } // arguments passed on to __init__
   | {  a?: A, tag: "set", values: Array<Expr<A>>}
-  | {  a?: A, tag: "comprehension", type: Type, lhs: Expr<A>, item: string, iterable: Expr<A>, ifcond?: Expr<A> } // comprehension expression
+  | {  a?: A, tag: "dict", entries: Array<[Expr<A>, Expr<A>]> }
+  | {  a?: A, tag: "tuple", elements: Array<Expr<A>> }
+  | {  a?: A, tag: "comprehension", type: Type, lhs: Expr<A>, fors: Array<ComprehensionFor<A>> } // comprehension expression
   | {  a?: A, tag: "ternary", exprIfTrue: Expr<A>, ifcond: Expr<A>, exprIfFalse: Expr<A> } // ternary expression
   | {  a?: A, tag: "non-paren-vals", values: Array<Expr<A>> }
+  | {  a?: A, tag: "call-expr", fn: Expr<A>, arguments: Array<Expr<A>> } // call of a function value
+  | {  a?: A, tag: "lambda", params: Array<string>, body: Expr<A> }
+  | {  a?: A, tag: "func-ref", name: string } // a named function used as a value
+
+// for items in iterable if ifconds, a tuple is unpacked into several items.
+// The type checker annotates it with the type of the values iterated over.
+export type ComprehensionFor<A> = { a?: A, items: Array<string>, iterable: Expr<A>, ifconds: Array<Expr<A>> }
 
 export type Literal<A> = 
-    { a?: A, tag: "num", value: number }
+    { a?: A, tag: "num", value: bigint }
   | { a?: A, tag: "bool", value: boolean }
+  | { a?: A, tag: "str", value: string }
   | { a?: A, tag: "none" }
   | { a?: A, tag: "TypeVar" }
 
 // TODO: should we split up arithmetic ops from bool ops?
-export enum BinOp { Plus, Minus, Mul, IDiv, Mod, Eq, Neq, Lte, Gte, Lt, Gt, Is, And, Or};
+// In is turned into a method call by the type checker, NotIn and IsNot into the negation of In and Is.
+// A typed In binop binds its left operand, the item, and then has the value of the call on its right.
+export enum BinOp { Plus, Minus, Mul, IDiv, Mod, Eq, Neq, Lte, Gte, Lt, Gt, Is, And, Or, In, Pow, NotIn, IsNot};
 
 export enum UniOp { Neg, Not };
 
@@ -0,0 +1,115 @@
+import { BinOp, Literal } from "./ast";
+import * as IR from "./ir";
+
+// Ints in [-2^30, 2^30) are passed around unboxed as plain i32s. Anything
+// outside that range lives on the heap as [signed limb count, limb0, limb1, ...]
+// (32 bit limbs, least significant first) and is referred to by its address
+// plus BIG_TAG, so a value is boxed exactly when it is >= BIG_TAG as a signed i32.
+export const BIG_TAG = 0x40000000;
+export const MIN_SMALL = BigInt(-BIG_TAG);
+export const MAX_SMALL = BigInt(BIG_TAG - 1);
+
+export function isBig(value: number): boolean {
+  return value >= BIG_TAG;
+}
+
+export function loadInt(memory: WebAssembly.Memory, value: number): bigint {
+  if (!isBig(value)) {
+    return BigInt(value);
+  }
+  const heap = new Uint32Array(memory.buffer);
+  const start = (value - BIG_TAG) / 4;
+  const size = heap[start] | 0;
+  var result = BigInt(0);
+  for (var i = Math.abs(size); i > 0; i--) {
+    result = (result << BigInt(32)) + BigInt(heap[start + i]);
+  }
+  return size < 0 ? -result : result;
+}
+
+export function storeInt(importObject: any, n: bigint): number {
+  if (n >= MIN_SMALL && n <= MAX_SMALL) {
+    return Number(n);
+  }
+  const limbs: Array<number> = [];
+  var magnitude = n < 0 ? -n : n;
+  while (magnitude > 0) {
+    limbs.push(Number(magnitude & BigInt(0xffffffff)));
+    magnitude >>= BigInt(32);
+  }
+  const address = importObject.libmemory.alloc(limbs.length + 1);
+  const heap = new Uint32Array(importObject.js.memory.buffer);
+  heap[address / 4] = n < 0 ? -limbs.length : limbs.length;
+  limbs.forEach((limb, i) => heap[address / 4 + 1 + i] = limb);
+  return address + BIG_TAG;
+}
+
+// Python rounds // toward negative infinity and gives % the sign of the divisor,
+// while bigint (like i32.div_s / i32.rem_s) truncates toward zero
+export function floorDiv(left: bigint, right: bigint): bigint {
+  const quotient = left / right;
+  return (left % right !== BigInt(0)) && ((left < 0) !== (right < 0)) ? quotient - BigInt(1) : quotient;
+}
+
+export function floorMod(left: bigint, right: bigint): bigint {
+  const remainder = left % right;
+  return (remainder !== BigInt(0)) && ((remainder < 0) !== (right < 0)) ? remainder + right : remainder;
+}
+
+// pow on ints. There are no floats, so a negative exponent truncates toward
+// zero: only 1 and -1 have a nonzero power then.
+export function intPow(base: bigint, exp: bigint): bigint {
+  if (exp >= 0) {
+    return base ** exp;
+  }
+  if (base === BigInt(1) || base === BigInt(-1)) {
+    return exp % BigInt(2) === BigInt(0) ? BigInt(1) : base;
+  }
+  return BigInt(0);
+}
+
+// Whether folding op with a constant right operand would hide an error:
+// x // 0, x % 0 and x ** -1 are left alone by both optimizers so the
+// division_by_zero and negative_exponent checks still fire at runtime
+export function raisesAtRuntime(op: BinOp, rhs: Literal<unknown> | IR.Value<unknown>): boolean {
+  if (op === BinOp.Pow)
+    return rhs.tag === "num" && rhs.value < BigInt(0);
+  return (op === BinOp.IDiv || op === BinOp.Mod) && rhs.tag === "num" && rhs.value === BigInt(0);
+}
+
+// Slow paths of the int$ helpers in stdlib/bignum.wat, taken whenever an operand
+// is boxed or a small result overflows. op is the numeric value of the BinOp.
+export function big_binop(importObject: any, op: number, left: number, right: number): number {
+  const memory = importObject.js.memory;
+  const l = loadInt(memory, left);
+  const r = loadInt(memory, right);
+  switch (op) {
+    case BinOp.Plus:
+      return storeInt(importObject, l + r);
+    case BinOp.Minus:
+      return storeInt(importObject, l - r);
+    case BinOp.Mul:
+      return storeInt(importObject, l * r);
+    case BinOp.IDiv:
+      return storeInt(importObject, floorDiv(l, r));
+    case BinOp.Mod:
+      return storeInt(importObject, floorMod(l, r));
+    case BinOp.Pow:
+      return storeInt(importObject, l ** r);
+    default:
+      throw new Error(`Unsupported bignum operation: ${op}`);
+  }
+}
+
+export function big_cmp(importObject: any, left: number, right: number): number {
+  const memory = importObject.js.memory;
+  const l = loadInt(memory, left);
+  const r = loadInt(memory, right);
+  return l < r ? -1 : l > r ? 1 : 0;
+}
+
+// Calls one of the builtins of builtinlib.ts marked bigints, which work on
+// bigints, with ints boxed like the int$ helpers' and boxes its result
+export function big_builtin(importObject: any, body: Function, ...args: Array<number>): number {
+  return storeInt(importObject, body(...args.map(arg => loadInt(importObject.js.memory, arg))));
+}
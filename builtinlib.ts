@@ -2,47 +2,58 @@ import { Type } from './ast';
 import { RunTimeError } from './error_reporting';
 import { BOOL, NONE, NUM } from './utils';
 import { splitString, stackTrace } from './runtime_error'
+import { intPow } from './bignum'
 
 type BuiltinFunc = {
   name: string
   body: Function
   typeSig: [Type[], Type]
+  // takes and returns ints as bigints, the import object calls it through
+  // big_builtin from bignum.ts so that boxed ints work, and the optimizer folds it
+  bigints?: boolean
 }
 // here to register builtinFunctions
 export const BuiltinLib:BuiltinFunc[] = [
   {
     name: "factorial",
     body: factorial,
+    bigints: true,
     typeSig: [[NUM], NUM]
   },
   {
     name: "randint",
     body: randint,
+    bigints: true,
     typeSig: [[NUM,NUM,NUM,NUM], NUM]
   },
   {
     name: "gcd",
     body: gcd,
+    bigints: true,
     typeSig: [[NUM,NUM,NUM,NUM], NUM]
   },
   {
     name: "lcm",
     body: lcm,
+    bigints: true,
     typeSig: [[NUM,NUM,NUM,NUM], NUM]
   },
   {
     name: "comb",
     body: comb,
+    bigints: true,
     typeSig: [[NUM,NUM,NUM,NUM], NUM]
   },
   {
     name: "perm",
     body: perm,
+    bigints: true,
     typeSig: [[NUM,NUM,NUM,NUM], NUM]
   },
   {
     name: "randrange",
     body: randrange,
+    bigints: true,
     typeSig: [[NUM,NUM, NUM,NUM,NUM], NUM]
   },
   {
@@ -67,87 +78,93 @@ export const BuiltinLib:BuiltinFunc[] = [
   },
   {
     name: "abs",
-    body: Math.abs,
+    body: (x:bigint)=>x<0 ? -x : x,
+    bigints: true,
     typeSig: [[NUM], NUM]
   },
   {
     name: "min",
-    body: Math.min,
+    body: (x:bigint, y:bigint)=>x<y ? x : y,
+    bigints: true,
     typeSig: [[NUM, NUM], NUM]
   },
   {
     name: "max",
-    body: Math.max,
+    body: (x:bigint, y:bigint)=>x>y ? x : y,
+    bigints: true,
     typeSig: [[NUM, NUM], NUM]
   },
   {
     name: "pow",
-    body: Math.pow,
+    body: intPow,
+    bigints: true,
     typeSig: [[NUM, NUM], NUM]
   }
 ]
 
 
-function factorial(x:number):number{
-  return x>0 ? x*factorial(x-1): 1 
+// line and col are passed as the last arguments by the parser
+function paramError(what:string, line:bigint, col:bigint):RunTimeError{
+  const src = splitString()[Number(line)-1].trim();
+  return new RunTimeError(stackTrace() + `\nRUNTIME ERROR: ${what} in line ` + line.toString() + " at column " + col.toString() + "\n" + src);
 }
 
-function randint(x:number, y:number, line: number, col: number):number{
-  if(y<x) { 
-    var message = stackTrace() + `\nRUNTIME ERROR: randint range error, upperBound less than lowerBound in line ` + line.toString() + " at column " + col.toString() + "\n" + splitString()[line-1].trim(); 
-    // throw new RunTimeError("randint range error, upperBound less than lowerBound");
-    throw new RunTimeError(message);
+function factorial(x:bigint):bigint{
+  let result = BigInt(1)
+  for (let i = BigInt(2); i <= x; i++) {
+    result *= i
   }
-  return Math.floor(Math.random()*(y-x+1) + x);
+  return result
+}
+
+function randint(x:bigint, y:bigint, line:bigint, col:bigint):bigint{
+  if(y<x) {
+    throw paramError("randint range error, upperBound less than lowerBound", line, col);
+  }
+  return x + BigInt(Math.floor(Math.random()*Number(y-x+BigInt(1))));
 }
 
-function gcd(a:number,b:number, line: number, col:number):number{
-  if (a<0 || b<0 || a==0 && b==0) {
-    var message = stackTrace() + `\nRUNTIME ERROR: gcd param error, eq or less than 0 in line ` + line.toString() + " at column " + col.toString() + "\n" + splitString()[line-1].trim(); 
-    // throw new RunTimeError("gcd param error, eq or less than 0");
-    throw new RunTimeError(message);
+function gcd(a:bigint, b:bigint, line:bigint, col:bigint):bigint{
+  if (a<0 || b<0 || a==BigInt(0) && b==BigInt(0)) {
+    throw paramError("gcd param error, eq or less than 0", line, col);
+  }
+  while (b != BigInt(0)) {
+    [a, b] = [b, a % b]
   }
-  return b==0 ? a : gcd(b,a % b, line, col);
+  return a
 }
 
-function lcm(x:number, y:number, line: number, col:number):number{
-  if (x<=0 || y<=0 || x==0 && y==0) {
-    var message = stackTrace() + `\nRUNTIME ERROR: lcm param negative error, eq or less than 0 in line ` + line.toString() + " at column " + col.toString() + "\n" + splitString()[line-1].trim(); 
-    // throw new RunTimeError("lcm param negative error, eq or less than 0");
-    throw new RunTimeError(message);
+function lcm(x:bigint, y:bigint, line:bigint, col:bigint):bigint{
+  if (x<=0 || y<=0) {
+    throw paramError("lcm param negative error, eq or less than 0", line, col);
   }
-  return Math.floor(x*y/gcd(x,y, line, col))
+  return x*y/gcd(x, y, line, col)
 }
 
-function comb(x:number, y:number, line:number, col:number):number{
+function comb(x:bigint, y:bigint, line:bigint, col:bigint):bigint{
   if (x < y || x < 0 || y < 0) {
-    var message = stackTrace() + `\nRUNTIME ERROR: comb param error in line ` + line.toString() + " at column " + col.toString() + "\n" + splitString()[line-1].trim(); 
-    // throw new RunTimeError("comb param error");
-    throw new RunTimeError(message);
+    throw paramError("comb param error", line, col);
   }
-	return perm(x, y, line, col) / perm(y, y, line, col)
+  return perm(x, y, line, col) / perm(y, y, line, col)
 }
 
-function perm(x:number, y:number, line:number, col:number):number{
+function perm(x:bigint, y:bigint, line:bigint, col:bigint):bigint{
   if (x < y || x < 0 || y < 0){
-    var message = stackTrace() + `\nRUNTIME ERROR: perm param error in line ` + line.toString() + " at column " + col.toString() + "\n" + splitString()[line-1].trim(); 
-    // throw new RunTimeError("perm param error");
-    throw new RunTimeError(message);
+    throw paramError("perm param error", line, col);
   }
-  let result = 1
-  for (var i = 0; i < y; i++) {
+  let result = BigInt(1)
+  for (let i = BigInt(0); i < y; i++) {
     result *= (x - i)
   }
   return result
 }
-function randrange(x:number, y:number, step:number,line:number, col:number){
-  if(y<x){
-    var message = stackTrace() + `\nRUNTIME ERROR: randrange range error, upperBound less than lowerBound in line ` + line.toString() + " at column " + col.toString() + "\n" + splitString()[line-1].trim();  
-    // throw new RunTimeError("randrange range error, upperBound less than lowerBound");
-    throw new RunTimeError(message);
+
+function randrange(x:bigint, y:bigint, step:bigint, line:bigint, col:bigint):bigint{
+  if(y<x || step == BigInt(0)){
+    throw paramError("randrange range error, upperBound less than lowerBound", line, col);
   }
   let result = randint(x, y, line, col)
-  while ((result - x) % step !== 0) {
+  while ((result - x) % step != BigInt(0)) {
     result = randint(x, y, line, col)
   }
   return result
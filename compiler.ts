@@ -1,11 +1,15 @@
-import { Program, Stmt, Expr, Value, Class, VarInit, FunDef } from "./ir"
+import { Program, Stmt, Expr, Value, Class, VarInit, FunDef, BasicBlock } from "./ir"
 import { BinOp, Type, UniOp, SourceLocation } from "./ast"
-import { BOOL, NONE, NUM } from "./utils";
-import { RunTimeError } from "./error_reporting";
+import { builtinErrors } from "./runtime_error";
+import { MIN_SMALL, MAX_SMALL } from "./bignum";
 
 export type GlobalEnv = {
   globals: Map<string, boolean>;
   classes: Map<string, Map<string, [number, Value<[Type, SourceLocation]>]>>;  
+  vtables: Map<string, Array<[string, string]>>; // class -> [method, implementing function] per slot
+  funcTable: Array<string>; // functions in wasm table order, vtables hold indices into this
+  functions: Set<string>; // functions of the program so far, calls to the rest are runtime helpers
+  printTypes: Array<Type>; // types of the values printed or compared by equal, which get an index into this (see runtime_print.ts)
   locals: Set<string>;
   labels: Array<string>;
   offset: number;
@@ -14,6 +18,10 @@ export type GlobalEnv = {
 export const emptyEnv : GlobalEnv = { 
   globals: new Map(), 
   classes: new Map(),
+  vtables: new Map(),
+  funcTable: [],
+  functions: new Set(),
+  printTypes: [],
   locals: new Set(),
   labels: [],
   offset: 0 
@@ -36,10 +44,17 @@ export function makeLocals(locals: Set<string>) : Array<string> {
 
 export function compile(ast: Program<[Type, SourceLocation]>, env: GlobalEnv) : CompileResult {
   const withDefines = env;
+  ast.funs.forEach(f => env.functions.add(f.name));
+  ast.classes.forEach(cls => cls.methods.forEach(method => env.functions.add(`${cls.name}$${method.name}`)));
 
   const definedVars : Set<string> = new Set(); //getLocals(ast);
   definedVars.add("$last");
   definedVars.add("$selector");
+  if (hasHandlers(ast.body)) {
+    definedVars.add("$handler");
+    definedVars.add("$caught");
+    definedVars.add("$depth");
+  }
   definedVars.forEach(env.locals.add, env.locals);
   const localDefines = makeLocals(definedVars);
   const globalNames = ast.inits.map(init => init.name);
@@ -53,20 +68,7 @@ export function compile(ast: Program<[Type, SourceLocation]>, env: GlobalEnv) :
   // const stmts = ast.filter((stmt) => stmt.tag !== "fun");
   const inits = ast.inits.map(init => codeGenInit(init, withDefines)).flat();
   withDefines.labels = ast.body.map(block => block.label);
-  var bodyCommands = "(local.set $$selector (i32.const 0))\n"
-  bodyCommands += "(loop $loop\n"
-
-  var blockCommands = "(local.get $$selector)\n"
-  blockCommands += `(br_table ${ast.body.map(block => block.label).join(" ")})`;
-  ast.body.forEach(block => {
-    blockCommands = `(block ${block.label}
-              ${blockCommands}    
-            ) ;; end ${block.label}
-            ${block.stmts.map(stmt => codeGenStmt(stmt, withDefines).join('\n')).join('\n')}
-            `
-  })
-  bodyCommands += blockCommands;
-  bodyCommands += ") ;; end $loop"
+  const bodyCommands = codeGenBody(ast.body, withDefines);
 
   // const commandGroups = ast.stmts.map((stmt) => codeGenStmt(stmt, withDefines));
   const allCommands = [...localDefines, ...inits, `(call $stack_clear)`, bodyCommands];
@@ -79,6 +81,60 @@ export function compile(ast: Program<[Type, SourceLocation]>, env: GlobalEnv) :
   };
 }
 
+function hasHandlers(blocks: Array<BasicBlock<[Type, SourceLocation]>>) : boolean {
+  return blocks.some(block => block.stmts.some(stmt => stmt.tag === "handler"));
+}
+
+// Basic blocks run inside a loop that jumps to the block numbered $selector.
+// When the blocks handle exceptions, the loop body is a try: an exception
+// thrown while $handler holds a block number continues at that block, with
+// the exception object in $caught. Errors raised by the JS runtime become
+// instances of the builtin exception classes, see builtin_exception. The calls
+// the exception left are popped off the runtime stack, back to the $depth it
+// had when the function started.
+function codeGenBody(blocks: Array<BasicBlock<[Type, SourceLocation]>>, env: GlobalEnv) : string {
+  var blockCommands = "(local.get $$selector)\n"
+  blockCommands += `(br_table ${blocks.map(block => block.label).join(" ")})`;
+  blocks.forEach(block => {
+    blockCommands = `(block ${block.label}
+              ${blockCommands}    
+            ) ;; end ${block.label}
+            ${block.stmts.map(stmt => codeGenStmt(stmt, env).join('\n')).join('\n')}
+            `
+  })
+  if (hasHandlers(blocks)) {
+    const unhandled = `(if (i32.lt_s (local.get $$handler) (i32.const 0)) (then (rethrow 1)))`;
+    const vtables = builtinErrors.map(name => `(global.get $${name}$vtable)`).join(" ");
+    blockCommands = `(try
+            (do
+              ${blockCommands}
+            )
+            (catch $exception
+              (local.set $$caught)
+              ${unhandled}
+              (call $stack_truncate (local.get $$depth))
+              (local.set $$selector (local.get $$handler))
+              (br $loop))
+            (catch_all
+              ${unhandled}
+              (call $stack_truncate (local.get $$depth))
+              (local.set $$caught (call $builtin_exception ${vtables}))
+              (if (i32.eqz (local.get $$caught)) (then (rethrow 1)))
+              (local.set $$selector (local.get $$handler))
+              (br $loop)))`
+    return `(local.set $$selector (i32.const 0))
+    (local.set $$handler (i32.const -1))
+    (local.set $$depth (call $stack_depth))
+    (loop $loop
+      ${blockCommands}
+    ) ;; end $loop`
+  }
+  return `(local.set $$selector (i32.const 0))
+    (loop $loop
+      ${blockCommands}
+    ) ;; end $loop`
+}
+
 function codeGenStmt(stmt: Stmt<[Type, SourceLocation]>, env: GlobalEnv): Array<string> {
   switch (stmt.tag) {
     case "store":
@@ -128,6 +184,13 @@ function codeGenStmt(stmt: Stmt<[Type, SourceLocation]>, env: GlobalEnv): Array<
       const lblIdx = env.labels.findIndex(e => e === stmt.lbl);
       return [`(local.set $$selector (i32.const ${lblIdx}))`, `(br $loop)`]
 
+    case "throw":
+      return [...codeGenValue(stmt.value, env), `(throw $exception)`]
+
+    case "handler":
+      const handlerIdx = stmt.lbl === undefined ? -1 : env.labels.findIndex(e => e === stmt.lbl);
+      return [`(local.set $$handler (i32.const ${handlerIdx}))`]
+
   }
 }
 
@@ -145,51 +208,43 @@ function codeGenExpr(expr: Expr<[Type, SourceLocation]>, env: GlobalEnv): Array<
 
         divbyzero = `(i32.const ${expr.a[1].line})(i32.const ${expr.a[1].column})(call $division_by_zero)`;
       }
-      return [...lhsStmts, ...rhsStmts, divbyzero, codeGenBinOp(expr.op)]
+      if(expr.op === BinOp.Pow) {
+        divbyzero = `(i32.const ${expr.a[1].line})(i32.const ${expr.a[1].column})(call $negative_exponent)`;
+      }
+      return [...lhsStmts, ...rhsStmts, divbyzero, codeGenBinOp(expr.op, expr.left, expr.right)]
 
     case "uniop":
       const exprStmts = codeGenValue(expr.expr, env);
       switch(expr.op){
         case UniOp.Neg:
-          return [`(i32.const 0)`, ...exprStmts, `(i32.sub)`];
+          return [...exprStmts, `(call $int$neg)`];
         case UniOp.Not:
           return [`(i32.const 0)`, ...exprStmts, `(i32.eq)`];
       }
 
     case "call":
-      if (expr.name=="print"){
-        if (expr.arguments[0].a[0].tag === "set") {
-          let argCode = codeGenValue(expr.arguments[0], env);
-          argCode.push("(call $set$print)");
-          return argCode;
-        }
-        var valStmts = expr.arguments.map(arg=>{
-          let argCode = codeGenValue(arg, env);
-          switch (arg.a[0]){
-            case NUM:
-              argCode.push("(call $print_num)");
-              break;
-            case BOOL:
-              argCode.push("(call $print_bool)");
-              break;
-            case NONE:
-              argCode.push("(call $print_none)");
-              break;
-            default:
-              throw new RunTimeError("not implemented object print")
-          }
-          argCode.push("drop");
-          return argCode;
-        }).flat();
-        return valStmts.slice(0,-1);
-      }
+      // only calls of the program's functions are on the runtime stack, for
+      // tracebacks and the recursion limit
+      const traced = env.functions.has(expr.name);
       var valStmts = expr.arguments.map((arg) => codeGenValue(arg, env)).flat();
-      valStmts.push(`(i32.const ${expr.a[1].line})`);
-      valStmts.push(`(call $stack_push)`);
+      if (traced)
+        valStmts.push(`(i32.const ${expr.a[1].line})`, `(call $stack_push)`);
       if(expr.name === 'assert_not_none'){
         valStmts.push(`(i32.const ${expr.a[1].line})(i32.const ${expr.a[1].column}) `);
       }
       valStmts.push(`(call $${expr.name})`);
+      if (traced)
+        valStmts.push(`(call $stack_pop)`);
+      return valStmts;
+
+    case "call_indirect":
+      // the function table only holds functions of the program
+      var valStmts = expr.arguments.map((arg) => codeGenValue(arg, env)).flat();
+      valStmts.push(`(i32.const ${expr.a[1].line})`);
+      valStmts.push(`(call $stack_push)`);
+      valStmts.push(...codeGenValue(expr.fn, env));
+      valStmts.push(`(call_indirect${" (param i32)".repeat(expr.arguments.length)} (result i32))`);
+      valStmts.push(`(call $stack_pop)`);
       return valStmts;
 
     case "alloc":
@@ -205,13 +260,16 @@ function codeGenExpr(expr: Expr<[Type, SourceLocation]>, env: GlobalEnv): Array<
         ...codeGenValue(expr.offset, env),
         `call $load`
       ]
+
+    case "caught":
+      return [`(local.get $$caught)`]
   }
 }
 
 function codeGenValue(val: Value<[Type, SourceLocation]>, env: GlobalEnv): Array<string> {
   switch (val.tag) {
     case "num":
-      return ["(i32.const " + val.value + ")"];
+      return codeGenInt(BigInt(val.value));
     case "wasmint":
       return ["(i32.const " + val.value + ")"];
     case "bool":
@@ -227,30 +285,58 @@ function codeGenValue(val: Value<[Type, SourceLocation]>, env: GlobalEnv): Array
   }
 }
 
-function codeGenBinOp(op : BinOp) : string {
+// Literals too big for an unboxed int are rebuilt at runtime out of 15 bit chunks
+function codeGenInt(value: bigint): Array<string> {
+  if (value >= MIN_SMALL && value <= MAX_SMALL) {
+    return [`(i32.const ${value})`];
+  }
+  var magnitude = value < 0 ? -value : value;
+  const chunks: Array<bigint> = [];
+  while (magnitude > 0) {
+    chunks.unshift(magnitude & BigInt(0x7fff));
+    magnitude >>= BigInt(15);
+  }
+  const code = [`(i32.const ${chunks[0]})`];
+  chunks.slice(1).forEach(chunk => {
+    code.push(`(i32.const 32768)`, `(call $int$mul)`, `(i32.const ${chunk})`, `(call $int$add)`);
+  });
+  if (value < 0) {
+    code.push(`(call $int$neg)`);
+  }
+  return code;
+}
+
+// Arithmetic and comparisons on ints go through the int$ helpers in
+// stdlib/bignum.wat; wasmint operands only show up in compiler generated
+// address and counter arithmetic, which stays on plain i32 instructions
+function codeGenBinOp(op : BinOp, left: Value<[Type, SourceLocation]>, right: Value<[Type, SourceLocation]>) : string {
+  const isInt = left.tag !== "wasmint" && right.tag !== "wasmint" && left.a !== undefined && left.a[0].tag === "number";
+  const raw = left.tag === "wasmint" || right.tag === "wasmint";
   switch(op) {
     case BinOp.Plus:
-      return "(i32.add)"
+      return raw ? "(i32.add)" : "(call $int$add)"
     case BinOp.Minus:
-      return "(i32.sub)"
+      return raw ? "(i32.sub)" : "(call $int$sub)"
     case BinOp.Mul:
-      return "(i32.mul)"
+      return raw ? "(i32.mul)" : "(call $int$mul)"
     case BinOp.IDiv:
-      return "(i32.div_s)"
+      return raw ? "(i32.div_s)" : "(call $int$div)"
     case BinOp.Mod:
-      return "(i32.rem_s)"
+      return raw ? "(i32.rem_s)" : "(call $int$mod)"
+    case BinOp.Pow:
+      return "(call $int$pow)"
     case BinOp.Eq:
-      return "(i32.eq)"
+      return isInt ? "(call $int$eq)" : "(i32.eq)"
     case BinOp.Neq:
-      return "(i32.ne)"
+      return isInt ? "(call $int$neq)" : "(i32.ne)"
     case BinOp.Lte:
-      return "(i32.le_s)"
+      return raw ? "(i32.le_s)" : "(call $int$lte)"
     case BinOp.Gte:
-      return "(i32.ge_s)"
+      return raw ? "(i32.ge_s)" : "(call $int$gte)"
     case BinOp.Lt:
-      return "(i32.lt_s)"
+      return raw ? "(i32.lt_s)" : "(call $int$lt)"
     case BinOp.Gt:
-      return "(i32.gt_s)"
+      return raw ? "(i32.gt_s)" : "(call $int$gt)"
     case BinOp.Is:
       return "(i32.eq)";
     case BinOp.And:
@@ -274,6 +360,11 @@ function codeGenDef(def : FunDef<[Type, SourceLocation]>, env : GlobalEnv) : Arr
   def.inits.forEach(v => definedVars.add(v.name));
   definedVars.add("$last");
   definedVars.add("$selector");
+  if (hasHandlers(def.body)) {
+    definedVars.add("$handler");
+    definedVars.add("$caught");
+    definedVars.add("$depth");
+  }
   // def.parameters.forEach(p => definedVars.delete(p.name));
   definedVars.forEach(env.locals.add, env.locals);
   def.parameters.forEach(p => env.locals.add(p.name));
@@ -282,20 +373,7 @@ function codeGenDef(def : FunDef<[Type, SourceLocation]>, env : GlobalEnv) : Arr
   const locals = localDefines.join("\n");
   const inits = def.inits.map(init => codeGenInit(init, env)).flat().join("\n");
   var params = def.parameters.map(p => `(param $${p.name} i32)`).join(" ");
-  var bodyCommands = "(local.set $$selector (i32.const 0))\n"
-  bodyCommands += "(loop $loop\n"
-
-  var blockCommands = "(local.get $$selector)\n"
-  blockCommands += `(br_table ${def.body.map(block => block.label).join(" ")})`;
-  def.body.forEach(block => {
-    blockCommands = `(block ${block.label}
-              ${blockCommands}    
-            ) ;; end ${block.label}
-            ${block.stmts.map(stmt => codeGenStmt(stmt, env).join('\n')).join('\n')}
-            `
-  })
-  bodyCommands += blockCommands;
-  bodyCommands += ") ;; end $loop"
+  const bodyCommands = codeGenBody(def.body, env);
   env.locals.clear();
   return [`(func $${def.name} ${params} (result i32)
     ${locals}
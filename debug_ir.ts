@@ -10,50 +10,6 @@ import { CliRenderer } from "@diagrams-ts/graphviz-cli-renderer";
 import { optimizeAst } from './optimize_ast';
 import { optimizeIr, liveness_analysis, live_predicate, needed_predicate, needednessAnalysis, needednessDCE} from './optimize_ir';
 
-const builtinClasses : string = `
-class Range(object):
-  cur : int = 0
-  min : int = 0
-  max : int = 0
-  stp : int = 0
-  def new(self : Range, min : int, max : int, stp : int)->Range:
-    if stp == 0:
-      return None
-    if min <= max and stp < 0:
-      stp = 1
-    if min >= max and stp > 0:
-      stp = -1
-    self.min = min
-    self.cur = min
-    self.max = max
-    self.stp = stp
-    return self
-  def next(self : Range)->int:
-    c : int = 0
-    c = self.cur
-    self.cur = self.cur + self.stp
-    return c
-  def hasnext(self : Range)->bool:
-    return self.cur < self.max if self.stp >=0 else self.cur > self.max
-
-class generator(object):
-  size : int = 0
-  addr : int = 0
-  def new(self : generator, size : int, addr : int)->generator:
-    self.size = size
-    self.addr = addr
-    return self
-  def next(self : generator)->int:
-    c : int = 0
-    c = self.addr
-    self.size = self.size - 1
-    self.addr = self.addr + 4
-    return c
-  def hasnext(self : generator)->bool:
-    return self.size < 1
-
-`
-
 export function printProgIR(p: ir.Program<[Type, SourceLocation]>) {
   // p.body.map(bb => bb.stmts.map(stmt => printStmt(stmt)));
   console.log("--------------Inits-------------")
@@ -143,6 +99,12 @@ function printStmt(stmt: ir.Stmt<[Type, SourceLocation]>) {
   case "jmp":
     console.log(" --> " + stmt.lbl);
     break;
+  case "throw":
+    console.log(" THROW " + valStr(stmt.value));
+    break;
+  case "handler":
+    console.log(" EXCEPT --> " + (stmt.lbl || "caller"));
+    break;
   case "store":
     // console.log(" Not handled yet " + stmt.tag);
     console.log(valStr(stmt.start) + "." + valStr(stmt.offset) + " <-- " + valStr(stmt.value));
@@ -162,10 +124,14 @@ function exprStr(expr: ir.Expr<[Type, SourceLocation]>): string {
   case "call":
     const argStrs = expr.arguments.map(valStr).join(", ");
     return `${expr.name}(${argStrs})`;
+  case "call_indirect":
+    return `table[${valStr(expr.fn)}](${expr.arguments.map(valStr).join(", ")})`;
   case "alloc":
     return ("alloc: " + valStr(expr.amount));
   case "load":
     return ("load: " + valStr(expr.start) + " " + valStr(expr.offset));
+  case "caught":
+    return "caught";
   }
 }
 
@@ -300,6 +266,10 @@ function inLineStmt(stmt: ir.Stmt<[Type, SourceLocation]>, curBlock: string, i:
     case "jmp":
       const jmpLabel = "goto: " + stmt.lbl;
       return [jmpLabel, [createEdge([`${curBlock}`, `ins${i.toString()}`], [`${stmt.lbl}`, "lbl"], JumpType.GOTO)]];
+    case "throw":
+      return ["throw " + valInline(stmt.value), []];
+    case "handler":
+      return ["except: " + (stmt.lbl || "caller"), []];
     case "store":
       const storeLabel = "st " + valInline(stmt.value) + " to " + valInline(stmt.start) + " + " + valInline(stmt.offset);
       return [storeLabel, []];
@@ -317,10 +287,14 @@ function exprInline(expr: ir.Expr<[Type, SourceLocation]>): string {
     case "call":
       const argStrs = expr.arguments.map(valInline);
       return expr.name + "(" + argStrs.join(", ") + ")";
+    case "call_indirect":
+      return "table[" + valInline(expr.fn) + "](" + expr.arguments.map(valInline).join(", ") + ")";
     case "alloc":
       return "alloc " + expr.amount;
     case "load":
       return "ld " + expr.start + ", " + expr.offset
+    case "caught":
+      return "caught";
     }
 }
 
@@ -360,7 +334,7 @@ print(p)
   if (optAst)
     tprogram = optimizeAst(tprogram);
   console.log("ast -----------");
-  console.log(JSON.stringify(tprogram, null, 2));
+  console.log(JSON.stringify(tprogram, (_, v) => typeof v === "bigint" ? v.toString() : v, 2));
   const globalEnv = augmentEnv(config.env, tprogram);
   var irprogram = lowerProgram(tprogram, globalEnv);
   printProgIR(irprogram);
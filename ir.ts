@@ -18,6 +18,8 @@ export type Stmt<A> =
   | {  a: A, tag: "pass" }
   | {  a: A, tag: "ifjmp", cond: Value<A>, thn: string, els: string }
   | {  a: A, tag: "jmp", lbl: string }
+  | {  a: A, tag: "throw", value: Value<A> }
+  | {  a: A, tag: "handler", lbl?: string } // exceptions thrown from here on jump to lbl, or leave the function without one
 
   | { a: A, tag: "store", start: Value<A>, offset: Value<A>, value: Value<A> } // start should be an id
 
@@ -26,9 +28,11 @@ export type Expr<A> =
   | {  a: A, tag: "binop", op: BinOp, left: Value<A>, right: Value<A>}
   | {  a: A, tag: "uniop", op: UniOp, expr: Value<A> }
   | {  a: A, tag: "call", name: string, arguments: Array<Value<A>> } 
+  | {  a: A, tag: "call_indirect", fn: Value<A>, arguments: Array<Value<A>> } // fn is an index into the function table
 
   | {  a: A, tag: "alloc", amount: Value<A> }
   | {  a: A, tag: "load", start: Value<A>, offset: Value<A> }
+  | {  a: A, tag: "caught" } // the exception that made control reach the current handler
 
 
 export type Value<A> = 
@@ -2,7 +2,7 @@ import * as AST from './ast';
 import * as IR from './ir';
 import { Type, SourceLocation } from './ast';
 import { GlobalEnv } from './compiler';
-import { NUM, BOOL, NONE, CLASS } from "./utils";
+import { NUM, BOOL, STR, NONE, CLASS } from "./utils";
 
 const nameCounters : Map<string, number> = new Map();
 function generateName(base : string) : string {
@@ -24,29 +24,730 @@ function generateName(base : string) : string {
 
 export function lowerProgram(p : AST.Program<[Type, SourceLocation]>, env : GlobalEnv) : IR.Program<[Type, SourceLocation]> {
     resetLoopLabels();
+    liftedFuns = [];
+    iteratorNexts = new Map();
+    handling = emptyHandling();
+    generating = undefined;
+    const genexprFuns : Array<AST.FunDef<[Type, SourceLocation]>> = [];
+    liftGeneratorExprs(p.stmts, undefined, genexprFuns);
+    // the lifted generator expressions are lifted already
+    p.funs.forEach(liftFunGeneratorExprs);
+    p.classes.forEach(cls => cls.methods.forEach(liftFunGeneratorExprs));
     var blocks : Array<IR.BasicBlock<[Type, SourceLocation]>> = [];
     var firstBlock : IR.BasicBlock<[Type, SourceLocation]> = {  a: p.a, label: generateName("$startProg"), stmts: [] }
     blocks.push(firstBlock);
+    var vtableInits = flattenVtables(p.classes, blocks, env);
+    var strInits = flattenStrInits(p.inits, blocks, env);
     var inits = flattenStmts(p.stmts, blocks, env);
+    const funs = lowerFunDefs([...p.funs, ...genexprFuns], env);
+    const classes = lowerClasses(p.classes, env);
     return {
         a: p.a,
-        funs: lowerFunDefs(p.funs, env),
-        inits: [...inits, ...lowerVarInits(p.inits, env)],
-        classes: lowerClasses(p.classes, env),
+        funs: [...funs, ...liftedFuns],
+        inits: [...vtableInits, ...strInits, ...inits, ...lowerVarInits(p.inits, env)],
+        classes,
         body: blocks
     }
 }
 
-function lowerFunDefs(fs : Array<AST.FunDef<[Type, SourceLocation]>>, env : GlobalEnv) : Array<IR.FunDef<[Type, SourceLocation]>> {
-    return fs.map(f => lowerFunDef(f, env)).flat();
+function lowerFunDefs(fs : Array<AST.FunDef<[Type, SourceLocation]>>, env : GlobalEnv, prefix : string = "") : Array<IR.FunDef<[Type, SourceLocation]>> {
+    return fs.map(f => lowerFunDef(f, env, prefix)).flat();
 }
 
-function lowerFunDef(f : AST.FunDef<[Type, SourceLocation]>, env : GlobalEnv) : IR.FunDef<[Type, SourceLocation]> {
+function lowerFunDef(f : AST.FunDef<[Type, SourceLocation]>, env : GlobalEnv, prefix : string = "") : IR.FunDef<[Type, SourceLocation]> {
+  const closures = analyzeClosures(f);
+  return lowerNestedFunDef(f, f.name, `${prefix}${f.name}`, closures, new Map(), env);
+}
+
+// Nested functions are lifted to top level functions named after their enclosing
+// functions. Every variable shared between a function and the functions nested
+// in it lives in a one word heap cell, which is passed down as an extra parameter.
+type Closure = { locals: Set<string>, free: Set<string>, boxed: Set<string> }
+
+// visible nested function name -> [lifted name, variables whose cells it takes]
+var nestedFuns : Map<string, [string, Array<string>]> = new Map();
+var liftedFuns : Array<IR.FunDef<[Type, SourceLocation]>> = [];
+
+// name is the name f is compiled under, irName the prefix for the functions nested in it
+function lowerNestedFunDef(f : AST.FunDef<[Type, SourceLocation]>, name : string, irName : string, closures : Map<AST.FunDef<[Type, SourceLocation]>, Closure>, scope : Map<string, [string, Array<string>]>, env : GlobalEnv) : IR.FunDef<[Type, SourceLocation]> {
+  const closure = closures.get(f);
+  const funs = f.funs || [];
+  const innerScope = new Map(scope);
+  funs.forEach(g => innerScope.set(g.name, [`${irName}$${g.name}`, Array.from(closures.get(g).free)]));
+  funs.forEach(g => liftedFuns.push(lowerNestedFunDef(g, `${irName}$${g.name}`, `${irName}$${g.name}`, closures, innerScope, env)));
+
+  const outerFuns = nestedFuns;
+  const outerHandling = handling;
+  const outerGenerating = generating;
+  nestedFuns = innerScope;
+  handling = emptyHandling();
+  generating = hasYield(f.body) ? { gen: "$gen", resumes: [], spills: [] } : undefined;
   var blocks : Array<IR.BasicBlock<[Type, SourceLocation]>> = [];
   var firstBlock : IR.BasicBlock<[Type, SourceLocation]> = {  a: f.a, label: generateName("$startFun"), stmts: [] }
   blocks.push(firstBlock);
+  var strInits = flattenStrInits(f.inits, blocks, env);
   var bodyinits = flattenStmts(f.body, blocks, env);
-    return {...f, inits: [...bodyinits, ...lowerVarInits(f.inits, env)], body: blocks, a: f.a}
+  const generator = generating;
+  nestedFuns = outerFuns;
+  handling = outerHandling;
+  generating = outerGenerating;
+
+  // cells of captured locals are created on entry, holding the initial value
+  const ownCells = Array.from(closure.boxed).filter(v => closure.locals.has(v));
+  const parameters = [...f.parameters, ...Array.from(closure.free).map(v => ({ a: f.a, name: `${v}$cell`, type: NUM }))];
+  const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [
+    ...strInits, ...bodyinits, ...lowerVarInits(f.inits, env),
+    ...ownCells.map(v => ({ a: f.a, name: `${v}$cell`, type: NUM, value: { a: f.a, tag: "none" } as IR.Value<[Type, SourceLocation]> }))
+  ];
+  const vars = Array.from(new Set([...parameters.map(p => p.name), ...inits.map(i => i.name)]));
+  if (generator !== undefined) {
+    spillGeneratorVars(blocks, generator, vars);
+  }
+  const cellInits = boxCells(blocks, closure.boxed);
+  blocks[0].stmts.unshift(...ownCells.flatMap((v) : Array<IR.Stmt<[Type, SourceLocation]>> => [
+    { a: f.a, tag: "assign", name: `${v}$cell`, value: { a: f.a, tag: "alloc", amount: { a: f.a, tag: "wasmint", value: 1 } } },
+    { a: f.a, tag: "store", start: { a: f.a, tag: "id", name: `${v}$cell` }, offset: { a: f.a, tag: "wasmint", value: 0 }, value: { a: f.a, tag: "id", name: v } }
+  ]));
+  const lowered : IR.FunDef<[Type, SourceLocation]> = {
+    ...f,
+    name,
+    parameters,
+    inits: [...inits, ...cellInits],
+    body: blocks,
+    a: f.a
+  };
+  return generator === undefined ? lowered : lowerGenerator(lowered, generator, vars, env);
+}
+
+// The generator function being lowered. Its yields store the state to resume
+// from in the generator object gen and return, see lowerGenerator; resumes
+// holds the label each state resumes at and spills the returns of the yields.
+type GeneratorState = { gen : string, resumes : Array<string>, spills : Array<IR.Stmt<[Type, SourceLocation]>> }
+
+var generating : GeneratorState = undefined;
+
+// Yields, generator expressions included, but not those of nested functions
+function hasYield(stmts : Array<AST.Stmt<[Type, SourceLocation]>>) : boolean {
+  return stmts.some(stmt => stmt.tag === "yield" || stmtExprs(stmt).some(exprHasYield) || stmtBodies(stmt).some(hasYield));
+}
+
+function exprHasYield(e : AST.Expr<[Type, SourceLocation]>) : boolean {
+  return (e.tag === "comprehension" && e.a[0].tag === "generator") || subExprs(e).some(exprHasYield);
+}
+
+function flattenYield(a : [Type, SourceLocation], val : IR.Value<[Type, SourceLocation]>, blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>) {
+  const resumeLbl = generateName("$genresume");
+  generating.resumes.push(resumeLbl);
+  const ret : IR.Stmt<[Type, SourceLocation]> = { a, tag: "return", value: val };
+  generating.spills.push(ret);
+  pushStmtsToLastBlock(blocks,
+    { a, tag: "store", start: { a, tag: "id", name: generating.gen }, offset: { a, tag: "wasmint", value: 1 }, value: { a, tag: "wasmint", value: generating.resumes.length } },
+    ret);
+  // the handler is a local of the resume function, which starts out without one
+  blocks.push({ a, label: resumeLbl, stmts: handling.handler === undefined ? [] : [{ a, tag: "handler", lbl: handling.handler }] });
+}
+
+// Every yield saves all variables in the generator object before returning,
+// the variable at index i goes to slot i + 2
+function spillGeneratorVars(blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>, generator : GeneratorState, vars : Array<string>) {
+  blocks.forEach(block => {
+    block.stmts = block.stmts.flatMap(s => {
+      if (!generator.spills.includes(s)) { return [s]; }
+      return [...vars.map((v, i) : IR.Stmt<[Type, SourceLocation]> => ({
+        a: s.a, tag: "store", start: { a: s.a, tag: "id", name: generator.gen }, offset: { a: s.a, tag: "wasmint", value: i + 2 }, value: { a: s.a, tag: "id", name: v }
+      })), s];
+    });
+  });
+}
+
+// A generator function only creates the generator object [function table index
+// of its resume function, state, variables...] holding the arguments. The resume
+// function runs the body from where the state says: 0 is the start and k the
+// kth yield. While it runs the state is -1, which marks the generator finished,
+// so leaving the body other than by a yield finishes it. Resuming a finished
+// generator returns right away, leaving it finished.
+function lowerGenerator(fun : IR.FunDef<[Type, SourceLocation]>, generator : GeneratorState, vars : Array<string>, env : GlobalEnv) : IR.FunDef<[Type, SourceLocation]> {
+  const a = fun.a;
+  const resumeName = `${fun.name}$resume`;
+  const gen : IR.Value<[Type, SourceLocation]> = { a, tag: "id", name: generator.gen };
+  const wasmint = (value : number) : IR.Value<[Type, SourceLocation]> => ({ a, tag: "wasmint", value });
+  const idVal = (name : string) : IR.Value<[Type, SourceLocation]> => ({ a, tag: "id", name });
+  const restore = (v : string) : IR.Stmt<[Type, SourceLocation]> => ({ a, tag: "assign", name: v, value: { a, tag: "load", start: gen, offset: wasmint(vars.indexOf(v) + 2) } });
+  const params = fun.parameters.map(p => p.name);
+  const stateName = generateName("genstate");
+  const condName = generateName("genresuming");
+  const restoreLbl = generateName("$genrestore");
+  const checkLbl = generateName("$gencheck");
+  const finishedLbl = generateName("$genfinished");
+  const isState = (state : number) : IR.Stmt<[Type, SourceLocation]> =>
+    ({ a, tag: "assign", name: condName, value: { a, tag: "binop", op: AST.BinOp.Eq, left: idVal(stateName), right: wasmint(state) } });
+
+  const entry : Array<IR.BasicBlock<[Type, SourceLocation]>> = [{ a, label: generateName("$startGen"), stmts: [
+    { a, tag: "assign", name: stateName, value: { a, tag: "load", start: gen, offset: wasmint(1) } },
+    { a, tag: "store", start: gen, offset: wasmint(1), value: wasmint(-1) },
+    ...params.map(restore),
+    isState(0),
+    { a, tag: "ifjmp", cond: idVal(condName), thn: fun.body[0].label, els: checkLbl }] }];
+  entry.push({ a, label: checkLbl, stmts: [isState(-1), { a, tag: "ifjmp", cond: idVal(condName), thn: finishedLbl, els: restoreLbl }] });
+  entry.push({ a, label: restoreLbl, stmts: vars.filter(v => !params.includes(v)).map(restore) });
+  generator.resumes.forEach((lbl, k) => {
+    const nextLbl = generateName("$genrestore");
+    pushStmtsToLastBlock(entry, isState(k + 1), { a, tag: "ifjmp", cond: idVal(condName), thn: lbl, els: nextLbl });
+    entry.push({ a, label: nextLbl, stmts: [] });
+  });
+  pushStmtsToLastBlock(entry, { a, tag: "jmp", lbl: finishedLbl });
+  entry.push({ a, label: finishedLbl, stmts: [{ a, tag: "return", value: { a, tag: "none" } }] });
+  liftedFuns.push({
+    a,
+    name: resumeName,
+    parameters: [{ name: generator.gen, type: fun.ret }],
+    ret: fun.ret.tag === "generator" ? fun.ret.type : NONE,
+    inits: [
+      ...fun.inits,
+      ...fun.parameters.map(p => ({ a, name: p.name, type: p.type, value: { a, tag: "none" } as IR.Value<[Type, SourceLocation]> })),
+      { a, name: stateName, type: NUM, value: { a, tag: "none" } },
+      { a, name: condName, type: BOOL, value: { a, tag: "none" } }],
+    body: [...entry, ...fun.body]
+  });
+  env.funcTable.push(resumeName);
+
+  return {
+    a,
+    name: fun.name,
+    parameters: fun.parameters,
+    ret: fun.ret,
+    inits: [{ a, name: generator.gen, type: fun.ret, value: { a, tag: "none" } }],
+    body: [{ a, label: generateName("$startFun"), stmts: [
+      { a, tag: "assign", name: generator.gen, value: { a, tag: "alloc", amount: wasmint(vars.length + 2) } },
+      { a, tag: "store", start: gen, offset: wasmint(0), value: wasmint(env.funcTable.indexOf(resumeName)) },
+      { a, tag: "store", start: gen, offset: wasmint(1), value: wasmint(0) },
+      ...params.map((p) : IR.Stmt<[Type, SourceLocation]> => ({ a, tag: "store", start: gen, offset: wasmint(vars.indexOf(p) + 2), value: idVal(p) })),
+      { a, tag: "return", value: gen }] }]
+  };
+}
+
+// Resumes the generator gen through the function table, adding what it needs to
+// inits and stmts. The state of gen is -1 afterwards if it finished instead.
+function generatorResume(a : [Type, SourceLocation], gen : IR.Value<[Type, SourceLocation]>, inits : Array<IR.VarInit<[Type, SourceLocation]>>, stmts : Array<IR.Stmt<[Type, SourceLocation]>>) : IR.Expr<[Type, SourceLocation]> {
+  const indexName = generateName("genindex");
+  inits.push({ a, name: indexName, type: NUM, value: { a, tag: "none" } });
+  stmts.push({ a, tag: "assign", name: indexName, value: { a, tag: "load", start: gen, offset: { a, tag: "wasmint", value: 0 } } });
+  return { a, tag: "call_indirect", fn: { a, tag: "id", name: indexName }, arguments: [gen] };
+}
+
+// Assigns to name whether the generator gen is finished
+function generatorDone(a : [Type, SourceLocation], gen : IR.Value<[Type, SourceLocation]>, name : string, inits : Array<IR.VarInit<[Type, SourceLocation]>>, stmts : Array<IR.Stmt<[Type, SourceLocation]>>) {
+  const stateName = generateName("genstate");
+  inits.push({ a, name: stateName, type: NUM, value: { a, tag: "none" } });
+  stmts.push(
+    { a, tag: "assign", name: stateName, value: { a, tag: "load", start: gen, offset: { a, tag: "wasmint", value: 1 } } },
+    { a, tag: "assign", name, value: { a, tag: "binop", op: AST.BinOp.Eq, left: { a, tag: "id", name: stateName }, right: { a, tag: "wasmint", value: -1 } } });
+}
+
+// Generator expressions become generator functions nested in the function they
+// are in, or top level ones, which get passed the first iterable as Python
+// evaluates that one right away. The items of comprehensions become variables
+// of the function they are in so that nested functions can capture them.
+function liftGeneratorExprs(stmts : Array<AST.Stmt<[Type, SourceLocation]>>, fun : AST.FunDef<[Type, SourceLocation]>, funs : Array<AST.FunDef<[Type, SourceLocation]>>) {
+  stmts.forEach(stmt => {
+    mapStmtExprs(stmt, e => liftGeneratorExpr(e, fun, funs));
+    stmtBodies(stmt).forEach(body => liftGeneratorExprs(body, fun, funs));
+  });
+}
+
+function liftGeneratorExpr(e : AST.Expr<[Type, SourceLocation]>, fun : AST.FunDef<[Type, SourceLocation]>, funs : Array<AST.FunDef<[Type, SourceLocation]>>) : AST.Expr<[Type, SourceLocation]> {
+  if (e.tag !== "comprehension") {
+    mapSubExprs(e, sub => liftGeneratorExpr(sub, fun, funs));
+    return e;
+  }
+  const a : [Type, SourceLocation] = [NONE, e.a[1]];
+  const itemInits = (target : AST.FunDef<[Type, SourceLocation]>) => e.fors.forEach(compFor => compFor.items.forEach((item, i) => {
+    const itemTyp = compFor.items.length > 1 && compFor.a[0].tag === "tuple" ? compFor.a[0].contentTypes[i] : compFor.a[0];
+    if (target !== undefined && !target.inits.some(init => init.name === item)) {
+      target.inits.push({ a, name: item, type: itemTyp, value: { a, tag: "none" } });
+    }
+  }));
+  e.fors[0].iterable = liftGeneratorExpr(e.fors[0].iterable, fun, funs);
+  const liftRest = (target : AST.FunDef<[Type, SourceLocation]>, targetFuns : Array<AST.FunDef<[Type, SourceLocation]>>) => {
+    itemInits(target);
+    e.lhs = liftGeneratorExpr(e.lhs, target, targetFuns);
+    e.fors.forEach((compFor, i) => {
+      if (i > 0) { compFor.iterable = liftGeneratorExpr(compFor.iterable, target, targetFuns); }
+      compFor.ifconds = compFor.ifconds.map(cond => liftGeneratorExpr(cond, target, targetFuns));
+    });
+  };
+  if (e.a[0].tag !== "generator") {
+    liftRest(fun, funs);
+    return e;
+  }
+  const iterable = e.fors[0].iterable;
+  const param = generateName("genexpr$iter");
+  const genFun : AST.FunDef<[Type, SourceLocation]> = {
+    a,
+    name: generateName("genexpr"),
+    parameters: [{ name: param, type: iterable.a[0] }],
+    ret: e.a[0],
+    inits: [],
+    funs: [],
+    body: []
+  };
+  liftRest(genFun, genFun.funs);
+  e.fors[0] = { ...e.fors[0], iterable: { a: iterable.a, tag: "id", name: param } };
+  genFun.body.push({ a, tag: "expr", expr: e });
+  funs.push(genFun);
+  return { a: e.a, tag: "call", name: genFun.name, arguments: [iterable] };
+}
+
+function liftFunGeneratorExprs(f : AST.FunDef<[Type, SourceLocation]>) {
+  (f.funs || []).forEach(liftFunGeneratorExprs);
+  f.funs = f.funs || [];
+  liftGeneratorExprs(f.body, f, f.funs);
+}
+
+// Works out which variables each function in the tree of f reads from or passes
+// on to enclosing functions (free), and which ones it has to keep in cells (boxed)
+function analyzeClosures(f : AST.FunDef<[Type, SourceLocation]>) : Map<AST.FunDef<[Type, SourceLocation]>, Closure> {
+  const closures : Map<AST.FunDef<[Type, SourceLocation]>, Closure> = new Map();
+  const parents : Map<AST.FunDef<[Type, SourceLocation]>, AST.FunDef<[Type, SourceLocation]>> = new Map();
+  const refs : Map<AST.FunDef<[Type, SourceLocation]>, Set<string>> = new Map();
+  const calls : Map<AST.FunDef<[Type, SourceLocation]>, Set<string>> = new Map();
+  const all : Array<AST.FunDef<[Type, SourceLocation]>> = [];
+  const visit = (g : AST.FunDef<[Type, SourceLocation]>) => {
+    all.push(g);
+    const locals = new Set([...g.parameters.map(p => p.name), ...g.inits.map(i => i.name)]);
+    closures.set(g, { locals, free: new Set(), boxed: new Set() });
+    refs.set(g, new Set());
+    calls.set(g, new Set());
+    collectNames(g.body, refs.get(g), calls.get(g));
+    // a name declared global is never one of an enclosing function
+    (g.globals || []).forEach(name => refs.get(g).delete(name));
+    (g.funs || []).forEach(h => { parents.set(h, g); visit(h); });
+  };
+  visit(f);
+
+  // locals of enclosing functions, the only names that can be captured
+  const bound = (g : AST.FunDef<[Type, SourceLocation]>) : Set<string> => {
+    const names : Set<string> = new Set();
+    for (var p = parents.get(g); p !== undefined; p = parents.get(p)) {
+      closures.get(p).locals.forEach(v => names.add(v));
+    }
+    return names;
+  };
+  const resolve = (g : AST.FunDef<[Type, SourceLocation]>, name : string) : AST.FunDef<[Type, SourceLocation]> => {
+    for (var p = g; p !== undefined; p = parents.get(p)) {
+      const found = (p.funs || []).find(h => h.name === name);
+      if (found !== undefined) { return found; }
+    }
+    return undefined;
+  };
+  const capture = (g : AST.FunDef<[Type, SourceLocation]>, names : Iterable<string>) : boolean => {
+    const closure = closures.get(g);
+    const outer = bound(g);
+    var changed = false;
+    for (const v of Array.from(names)) {
+      if (!closure.locals.has(v) && outer.has(v) && !closure.free.has(v)) {
+        closure.free.add(v);
+        changed = true;
+      }
+    }
+    return changed;
+  };
+
+  all.forEach(g => capture(g, refs.get(g)));
+  // calling a nested function means handing it its cells, so they are needed too
+  var changed = true;
+  while (changed) {
+    changed = false;
+    all.forEach(g => calls.get(g).forEach(name => {
+      const callee = resolve(g, name);
+      if (callee !== undefined && capture(g, closures.get(callee).free)) { changed = true; }
+    }));
+  }
+
+  all.forEach(g => {
+    const closure = closures.get(g);
+    closure.free.forEach(v => closure.boxed.add(v));
+    for (var p = parents.get(g); p !== undefined; p = parents.get(p)) {
+      const owner = closures.get(p);
+      closure.free.forEach(v => { if (owner.locals.has(v)) { owner.boxed.add(v); } });
+    }
+  });
+  return closures;
+}
+
+// Collects the variable names and called function names in a function body,
+// not looking into nested function definitions
+function collectNames(stmts : Array<AST.Stmt<[Type, SourceLocation]>>, refs : Set<string>, calls : Set<string>) {
+  const collectTarget = (target : AST.AssignTarget<[Type, SourceLocation]>) => {
+    if (target.tag === "id") { refs.add(target.name); }
+  };
+  stmts.forEach(stmt => {
+    if (stmt.tag === "assign") { refs.add(stmt.name); }
+    if (stmt.tag === "assign-destr") { stmt.destr.forEach(destr => collectTarget(destr.lhs)); }
+    if (stmt.tag === "aug-assign") { collectTarget(stmt.target); }
+    stmtExprs(stmt).forEach(e => collectExprNames(e, refs, calls));
+    stmtBodies(stmt).forEach(body => collectNames(body, refs, calls));
+  });
+}
+
+function collectExprNames(e : AST.Expr<[Type, SourceLocation]>, refs : Set<string>, calls : Set<string>) {
+  if (e.tag === "id") { refs.add(e.name); }
+  if (e.tag === "call" || e.tag === "func-ref") { calls.add(e.name); }
+  subExprs(e).forEach(sub => collectExprNames(sub, refs, calls));
+}
+
+type ExprMap = (e : AST.Expr<[Type, SourceLocation]>) => AST.Expr<[Type, SourceLocation]>;
+
+// Replaces each expression directly in stmt, and not in the statements nested
+// in it, by what f makes of it. Every kind of statement has a case, so a new one
+// fails to compile until it gets one.
+function mapStmtExprs(stmt : AST.Stmt<[Type, SourceLocation]>, f : ExprMap) {
+  switch (stmt.tag) {
+    case "assign":
+    case "return":
+    case "yield":
+      stmt.value = f(stmt.value);
+      return;
+    case "assign-destr":
+      stmt.destr.forEach(destr => mapTargetExprs(destr.lhs, f));
+      stmt.rhs = f(stmt.rhs);
+      return;
+    case "expr":
+      stmt.expr = f(stmt.expr);
+      return;
+    case "field-assign":
+      stmt.obj = f(stmt.obj);
+      stmt.value = f(stmt.value);
+      return;
+    case "index-assign":
+      stmt.obj = f(stmt.obj);
+      stmt.index = f(stmt.index);
+      stmt.value = f(stmt.value);
+      return;
+    case "aug-assign":
+      (stmt.bindings || []).forEach(binding => { binding[1] = f(binding[1]); });
+      mapTargetExprs(stmt.target, f);
+      stmt.value = f(stmt.value);
+      return;
+    case "if":
+    case "while":
+      stmt.cond = f(stmt.cond);
+      return;
+    case "for":
+      stmt.vars = f(stmt.vars);
+      stmt.iterable = f(stmt.iterable);
+      return;
+    case "raise":
+      if (stmt.value !== undefined) { stmt.value = f(stmt.value); }
+      return;
+    case "assert":
+      stmt.test = f(stmt.test);
+      if (stmt.msg !== undefined) { stmt.msg = f(stmt.msg); }
+      return;
+    case "pass":
+    case "break":
+    case "continue":
+    case "try":
+      return;
+  }
+  const unhandled : never = stmt;
+  return unhandled;
+}
+
+function mapTargetExprs(target : AST.AssignTarget<[Type, SourceLocation]>, f : ExprMap) {
+  switch (target.tag) {
+    case "id":
+      return;
+    case "lookup":
+      target.obj = f(target.obj);
+      return;
+    case "index":
+      target.obj = f(target.obj);
+      target.index = f(target.index);
+      return;
+  }
+  const unhandled : never = target;
+  return unhandled;
+}
+
+// The statement lists nested in stmt, the bodies of except clauses included
+function stmtBodies(stmt : AST.Stmt<[Type, SourceLocation]>) : Array<Array<AST.Stmt<[Type, SourceLocation]>>> {
+  switch (stmt.tag) {
+    case "if":
+      return [stmt.thn, stmt.els];
+    case "while":
+      return [stmt.body];
+    case "for":
+      return [stmt.body, stmt.elseBody || []];
+    case "try":
+      return [stmt.body, ...stmt.handlers.map(handler => handler.body), stmt.elseBody, stmt.finallyBody];
+    case "assign":
+    case "assign-destr":
+    case "return":
+    case "yield":
+    case "expr":
+    case "pass":
+    case "field-assign":
+    case "index-assign":
+    case "aug-assign":
+    case "break":
+    case "continue":
+    case "raise":
+    case "assert":
+      return [];
+  }
+  const unhandled : never = stmt;
+  return unhandled;
+}
+
+// Replaces each subexpression directly in e by what f makes of it, the lhs and
+// the iterables and conditions of a comprehension included
+function mapSubExprs(e : AST.Expr<[Type, SourceLocation]>, f : ExprMap) {
+  switch (e.tag) {
+    case "literal":
+    case "id":
+    case "func-ref":
+      return;
+    case "binop":
+      e.left = f(e.left);
+      e.right = f(e.right);
+      return;
+    case "comparison":
+      e.left = f(e.left);
+      e.comparators = e.comparators.map(f);
+      return;
+    case "bind":
+      e.value = f(e.value);
+      return;
+    case "uniop":
+      e.expr = f(e.expr);
+      return;
+    case "call":
+      e.arguments = e.arguments.map(f);
+      (e.keywords || []).forEach(keyword => { keyword[1] = f(keyword[1]); });
+      return;
+    case "method-call":
+      e.obj = f(e.obj);
+      e.arguments = e.arguments.map(f);
+      (e.keywords || []).forEach(keyword => { keyword[1] = f(keyword[1]); });
+      return;
+    case "lookup":
+      e.obj = f(e.obj);
+      return;
+    case "index":
+      e.obj = f(e.obj);
+      e.index = f(e.index);
+      return;
+    case "slice":
+      e.obj = f(e.obj);
+      if (e.start !== undefined) { e.start = f(e.start); }
+      if (e.stop !== undefined) { e.stop = f(e.stop); }
+      if (e.step !== undefined) { e.step = f(e.step); }
+      return;
+    case "construct":
+      if (e.arguments !== undefined) { e.arguments = e.arguments.map(f); }
+      return;
+    case "listliteral":
+    case "tuple":
+      e.elements = e.elements.map(f);
+      return;
+    case "set":
+    case "non-paren-vals":
+      e.values = e.values.map(f);
+      return;
+    case "dict":
+      e.entries = e.entries.map(([key, value]) : [AST.Expr<[Type, SourceLocation]>, AST.Expr<[Type, SourceLocation]>] => [f(key), f(value)]);
+      return;
+    case "comprehension":
+      e.lhs = f(e.lhs);
+      e.fors.forEach(compFor => {
+        compFor.iterable = f(compFor.iterable);
+        compFor.ifconds = compFor.ifconds.map(f);
+      });
+      return;
+    case "ternary":
+      e.exprIfTrue = f(e.exprIfTrue);
+      e.ifcond = f(e.ifcond);
+      e.exprIfFalse = f(e.exprIfFalse);
+      return;
+    case "call-expr":
+      e.fn = f(e.fn);
+      e.arguments = e.arguments.map(f);
+      return;
+    case "lambda":
+      e.body = f(e.body);
+      return;
+  }
+  const unhandled : never = e;
+  return unhandled;
+}
+
+// The expressions directly in stmt, see mapStmtExprs
+function stmtExprs(stmt : AST.Stmt<[Type, SourceLocation]>) : Array<AST.Expr<[Type, SourceLocation]>> {
+  const exprs : Array<AST.Expr<[Type, SourceLocation]>> = [];
+  mapStmtExprs(stmt, e => { exprs.push(e); return e; });
+  return exprs;
+}
+
+// The subexpressions directly in e, see mapSubExprs
+function subExprs(e : AST.Expr<[Type, SourceLocation]>) : Array<AST.Expr<[Type, SourceLocation]>> {
+  const exprs : Array<AST.Expr<[Type, SourceLocation]>> = [];
+  mapSubExprs(e, sub => { exprs.push(sub); return sub; });
+  return exprs;
+}
+
+// A function value is a record [function table index, cells...]. The table entry
+// is an adapter taking the record first, which calls the function with its cells.
+function flattenFuncRef(a : [Type, SourceLocation], name : string, env : GlobalEnv) : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, IR.Value<[Type, SourceLocation]>] {
+  const [funName, cells] = nestedFuns.get(name) || [name, []];
+  const fnTyp = a[0];
+  if (fnTyp.tag !== "callable") { throw new Error("Report this as a bug to the compiler developer, function reference is not callable"); }
+  const adapterName = `${funName}$ref`;
+  if (!env.funcTable.includes(adapterName)) {
+    const args = fnTyp.params.map((_, i) => `arg${i}`);
+    const cellNames = cells.map((_, i) => `cell${i}`);
+    const result : IR.Stmt<[Type, SourceLocation]> = { a, tag: "assign", name: "result", value: { a, tag: "call", name: funName, arguments: [...args, ...cellNames].map((v) : IR.Value<[Type, SourceLocation]> => ({ a, tag: "id", name: v })) } };
+    liftedFuns.push({
+      a,
+      name: adapterName,
+      parameters: [{ name: "closure", type: fnTyp }, ...args.map((arg, i) => ({ name: arg, type: fnTyp.params[i] }))],
+      ret: fnTyp.ret,
+      inits: [...cellNames, "result"].map(v => ({ a, name: v, type: NUM, value: { a, tag: "none" } })),
+      body: [{ a, label: generateName("$startFun"), stmts: [
+        ...cellNames.map((cell, i) : IR.Stmt<[Type, SourceLocation]> => ({ a, tag: "assign", name: cell, value: { a, tag: "load", start: { a, tag: "id", name: "closure" }, offset: { a, tag: "wasmint", value: i + 1 } } })),
+        result,
+        { a, tag: "return", value: { a, tag: "id", name: "result" } }
+      ] }]
+    });
+    env.funcTable.push(adapterName);
+  }
+  const recordName = generateName("funval");
+  const record : IR.Value<[Type, SourceLocation]> = { a, tag: "id", name: recordName };
+  return [
+    [ { a, name: recordName, type: fnTyp, value: { a, tag: "none" } } ],
+    [ { a, tag: "assign", name: recordName, value: { a, tag: "alloc", amount: { a, tag: "wasmint", value: cells.length + 1 } } },
+      { a, tag: "store", start: record, offset: { a, tag: "wasmint", value: 0 }, value: { a, tag: "wasmint", value: env.funcTable.indexOf(adapterName) } },
+      ...cells.map((v, i) : IR.Stmt<[Type, SourceLocation]> => ({ a, tag: "store", start: record, offset: { a, tag: "wasmint", value: i + 1 }, value: { a, tag: "id", name: `${v}$cell` } })) ],
+    record
+  ];
+}
+
+// Turns reads and writes of the boxed variables into loads and stores of their cells
+function boxCells(blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>, boxed : Set<string>) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  if (boxed.size === 0) { return []; }
+  const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+  blocks.forEach(block => {
+    const stmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+    const unbox = (v : IR.Value<[Type, SourceLocation]>) : IR.Value<[Type, SourceLocation]> => {
+      if (v.tag !== "id" || !boxed.has(v.name)) { return v; }
+      const tmp = generateName("cellval");
+      inits.push({ a: v.a, name: tmp, type: v.a[0], value: { a: v.a, tag: "none" } });
+      stmts.push({ a: v.a, tag: "assign", name: tmp, value: { a: v.a, tag: "load", start: { a: v.a, tag: "id", name: `${v.name}$cell` }, offset: { a: v.a, tag: "wasmint", value: 0 } } });
+      return { ...v, name: tmp };
+    };
+    const unboxExpr = (e : IR.Expr<[Type, SourceLocation]>) : IR.Expr<[Type, SourceLocation]> => {
+      switch (e.tag) {
+        case "value":
+          return { ...e, value: unbox(e.value) };
+        case "binop":
+          return { ...e, left: unbox(e.left), right: unbox(e.right) };
+        case "uniop":
+          return { ...e, expr: unbox(e.expr) };
+        case "call":
+          return { ...e, arguments: e.arguments.map(unbox) };
+        case "call_indirect":
+          return { ...e, fn: unbox(e.fn), arguments: e.arguments.map(unbox) };
+        case "alloc":
+          return { ...e, amount: unbox(e.amount) };
+        case "load":
+          return { ...e, start: unbox(e.start), offset: unbox(e.offset) };
+        case "caught":
+          return e;
+      }
+    };
+    block.stmts.forEach(s => {
+      switch (s.tag) {
+        case "assign":
+          const value = unboxExpr(s.value);
+          if (!boxed.has(s.name)) {
+            stmts.push({ ...s, value });
+            return;
+          }
+          const tmp = generateName("cellval");
+          inits.push({ a: s.a, name: tmp, type: s.value.a[0], value: { a: s.a, tag: "none" } });
+          stmts.push({ ...s, name: tmp, value },
+            { a: s.a, tag: "store", start: { a: s.a, tag: "id", name: `${s.name}$cell` }, offset: { a: s.a, tag: "wasmint", value: 0 }, value: { a: s.a, tag: "id", name: tmp } });
+          return;
+        case "return":
+        case "throw":
+          stmts.push({ ...s, value: unbox(s.value) });
+          return;
+        case "expr":
+          stmts.push({ ...s, expr: unboxExpr(s.expr) });
+          return;
+        case "ifjmp":
+          stmts.push({ ...s, cond: unbox(s.cond) });
+          return;
+        case "store":
+          stmts.push({ ...s, start: unbox(s.start), offset: unbox(s.offset), value: unbox(s.value) });
+          return;
+        default:
+          stmts.push(s);
+      }
+    });
+    block.stmts = stmts;
+  });
+  return inits;
+}
+
+// Each class gets a global pointing at its vtable, a block of memory holding the
+// vtable of the superclass (0 for object) followed by the function table index
+// of the method in each slot (see augmentEnv)
+function flattenVtables(classes: Array<AST.Class<[Type, SourceLocation]>>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env: GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  return classes.map(cls => {
+    const vtableName = `${cls.name}$vtable`;
+    const vtable = env.vtables.get(cls.name);
+    const superclass = cls.superclass || "object";
+    const superVtable : IR.Value<[Type, SourceLocation]> = superclass === "object" ? { a: cls.a, tag: "wasmint", value: 0 } : { a: cls.a, tag: "id", name: `${superclass}$vtable` };
+    pushStmtsToLastBlock(blocks,
+      { a: cls.a, tag: "assign", name: vtableName, value: { a: cls.a, tag: "alloc", amount: { a: cls.a, tag: "wasmint", value: vtable.length + 1 } } },
+      { a: cls.a, tag: "store", start: { a: cls.a, tag: "id", name: vtableName }, offset: { a: cls.a, tag: "wasmint", value: 0 }, value: superVtable },
+      ...vtable.map(([_, funName], slot) : IR.Stmt<[Type, SourceLocation]> => ({
+        a: cls.a,
+        tag: "store",
+        start: { a: cls.a, tag: "id", name: vtableName },
+        offset: { a: cls.a, tag: "wasmint", value: slot + 1 },
+        value: { a: cls.a, tag: "wasmint", value: env.funcTable.indexOf(funName) }
+      })));
+    return { a: cls.a, name: vtableName, type: NUM, value: { a: cls.a, tag: "none" } };
+  });
+}
+
+// Method calls are dispatched on the runtime class of the receiver: slot 0 of
+// the object holds its vtable, and the vtable slot holds a function table index
+function flattenMethodCall(a: [Type, SourceLocation], objval: IR.Value<[Type, SourceLocation]>, className: string, method: string, argvals: Array<IR.Value<[Type, SourceLocation]>>, env: GlobalEnv) : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, IR.Expr<[Type, SourceLocation]>] {
+  const slot = env.vtables.get(className).findIndex(([name, _]) => name === method);
+  const vtableName = generateName("vtable");
+  const funName = generateName("method");
+  return [
+    [ { a, name: vtableName, type: NUM, value: { a, tag: "none" } }, { a, name: funName, type: NUM, value: { a, tag: "none" } } ],
+    [ { a, tag: "assign", name: vtableName, value: { a, tag: "load", start: objval, offset: { a, tag: "wasmint", value: 0 } } },
+      { a, tag: "assign", name: funName, value: { a, tag: "load", start: { a, tag: "id", name: vtableName }, offset: { a, tag: "wasmint", value: slot + 1 } } } ],
+    { a, tag: "call_indirect", fn: { a, tag: "id", name: funName }, arguments: [objval, ...argvals] }
+  ];
+}
+
+// String initializers need heap allocation, so they start out as None
+// and get their value assigned at the top of the enclosing body
+function flattenStrInits(inits: Array<AST.VarInit<[Type, SourceLocation]>>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env: GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  var strInits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+  inits.forEach(init => {
+    if (init.value.tag !== "str") { return; }
+    const [sinits, sstmts, sval] = flattenStrLiteral(init.value.value, init.a);
+    pushStmtsToLastBlock(blocks, ...sstmts, { a: init.a, tag: "assign", name: init.name, value: { a: init.a, tag: "value", value: sval } });
+    strInits.push(...sinits);
+  });
+  return strInits;
 }
 
 function lowerVarInits(inits: Array<AST.VarInit<[Type, SourceLocation]>>, env: GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
@@ -70,18 +771,20 @@ function lowerClass(cls: AST.Class<[Type, SourceLocation]>, env : GlobalEnv) : I
         ...cls,
         a: cls.a, 
         fields: lowerVarInits(cls.fields, env),
-        methods: lowerFunDefs(cls.methods, env)
+        methods: lowerFunDefs(cls.methods, env, `${cls.name}$`)
     }
 }
 
 function literalToVal(lit: AST.Literal<[Type, SourceLocation]>) : IR.Value<[Type, SourceLocation]> {
     switch(lit.tag) {
         case "num":
-            return { ...lit, value: BigInt(lit.value), a:[NUM, lit.a[1]] }
+            return { ...lit, a:[NUM, lit.a[1]] }
         case "bool":
             return {...lit, a:[BOOL, lit.a[1]]}
         case "none":
             return {...lit, a:[NONE, lit.a[1]]}        
+        case "str":
+            return {tag: "none", a:[NONE, lit.a[1]]}
     }
 }
 
@@ -109,12 +812,16 @@ function flattenStmt(s : AST.Stmt<[Type, SourceLocation]>, blocks: Array<IR.Basi
       var rhs = s.rhs
       lowerAllDestructureAssignments(blocks, lhs, rhs, env, allinits, s.a[1]);
       return allinits
+    case "yield": {
+      const [yinits, ystmts, yval] = flattenExprToVal(s.value, blocks, env);
+      pushStmtsToLastBlock(blocks, ...ystmts);
+      flattenYield(s.a, yval, blocks);
+      return yinits;
+    }
     case "return":
     var [valinits, valstmts, val] = flattenExprToVal(s.value, blocks, env);
-    blocks[blocks.length - 1].stmts.push(
-         ...valstmts,
-         {tag: "return", a: s.a, value: val}
-    );
+    blocks[blocks.length - 1].stmts.push(...valstmts);
+    flattenReturnValue(s.a, val, blocks);
     return valinits;
     // return [valinits, [
     //     ...valstmts,
@@ -154,26 +861,55 @@ function flattenStmt(s : AST.Stmt<[Type, SourceLocation]>, blocks: Array<IR.Basi
       const [iinits, istmts, ival] = flattenExprToVal(s.index, blocks, env);
       var [ninits, nstmts, nval] = flattenExprToVal(s.value, blocks, env);
 
-      const offsetValue: IR.Value<[Type, SourceLocation]> = listIndexOffsets(iinits, istmts, ival, oval);
+      if (s.obj.a[0].tag === "dict") {
+        pushStmtsToLastBlock(blocks,
+          ...ostmts, ...istmts, ...nstmts, {
+            tag: "expr",
+            a: s.a,
+            expr: { a: s.a, tag: "call", name: "dict$set", arguments: [oval, ival, nval, strKeyFlag(s.obj.a[0], s.a)] }
+          });
+        return [...oinits, ...iinits, ...ninits];
+      }
 
       if (s.obj.a[0].tag === "list") {
+        const index = checkIndex(iinits, istmts, ival, oval);
+        const elements = listElements(iinits, istmts, oval);
         pushStmtsToLastBlock(blocks,
           ...ostmts, ...istmts, ...nstmts, {
             tag: "store",
             a: s.a,
-            start: oval,
-            offset: offsetValue,
+            start: elements,
+            offset: index,
             value: nval
           });
         return [...oinits, ...iinits, ...ninits];
       }
-      // if (s.obj.a[0].tag === "dict") {
-      //   ...
-      // }
-
       else { throw new Error("Compiler's cursed, go home."); }
     }
 
+    case "aug-assign": {
+      // the object and index of the target are evaluated once into the names
+      // the type checker reads and writes the target through
+      const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+      s.bindings.forEach(([name, bound]) => {
+        const [binits, bstmts, bval] = flattenExprToVal(bound, blocks, env);
+        inits.push(...binits, { a: s.a, name, type: bound.a[0], value: { a: s.a, tag: "none" } });
+        pushStmtsToLastBlock(blocks, ...bstmts, { a: s.a, tag: "assign", name, value: { a: s.a, tag: "value", value: bval } });
+      });
+      const target = s.target;
+      var write : AST.Stmt<[Type, SourceLocation]>;
+      if (target.tag === "id") {
+        write = { a: s.a, tag: "assign", name: target.name, value: s.value };
+      } else if (target.tag === "lookup") {
+        write = { a: s.a, tag: "field-assign", obj: target.obj, field: target.field, value: s.value };
+      } else if (target.obj.a[0].tag === "class") {
+        write = { a: s.a, tag: "expr", expr: { a: s.a, tag: "method-call", obj: target.obj, method: "__setitem__", arguments: [target.index, s.value] } };
+      } else {
+        write = { a: s.a, tag: "index-assign", obj: target.obj, index: target.index, value: s.value };
+      }
+      return [...inits, ...flattenStmt(write, blocks, env)];
+    }
+
     case "if":
       var thenLbl = generateName("$then")
       var elseLbl = generateName("$else")
@@ -214,7 +950,7 @@ function flattenStmt(s : AST.Stmt<[Type, SourceLocation]>, blocks: Array<IR.Basi
       pushStmtsToLastBlock(blocks, ...cstmts, { a: s.a, tag: "ifjmp", cond: cexpr, thn: whilebodyLbl, els: whileEndLbl });
 
       blocks.push({  a: s.a, label: whilebodyLbl, stmts: [] })
-      var bodyinits = flattenStmts(s.body, blocks, env);
+      var bodyinits = flattenLoopBody(s.body, blocks, env);
       pushStmtsToLastBlock(blocks, { a:s.a, tag: "jmp", lbl: whileStartLbl });
 
       blocks.push({  a: s.a, label: whileEndLbl, stmts: [] })
@@ -227,23 +963,31 @@ function flattenStmt(s : AST.Stmt<[Type, SourceLocation]>, blocks: Array<IR.Basi
       var forElseLbl = generateName("$forelse")
       var forEndLbl = generateName("$whileend");
       var iterableObject = generateName("$iterableobject")
+
+      if (["dict", "set", "list", "str"].includes(s.iterable.a[0].tag)) {
+        return flattenIndexedFor(s, forStartLbl, forbodyLbl, forElseLbl, forEndLbl, blocks, env);
+      }
+      if (s.iterable.a[0].tag === "generator") {
+        return flattenGeneratorFor(s, forStartLbl, forbodyLbl, forElseLbl, forEndLbl, blocks, env);
+      }
       
+      // any other iterable is an iterator here, see tcIter in type-check.ts
+      if (s.iterable.a[0].tag !== "class") { throw new Error("Compiler's cursed, go home."); }
       var [in_inits, in_stmts, in_expr] = flattenExprToExpr(s.iterable, blocks, env);
+      var iterDone = generateName("$iterdone")
+      // a tuple of targets is unpacked from the item once __next__ returned it
+      var itemName = s.vars.tag === "id" ? s.vars.name : generateName("$foritem");
+      if (s.vars.tag !== "id")
+        in_inits.push({ a: s.vars.a, name: itemName, type: s.vars.a[0], value: { a: s.a, tag: "none" } });
       pushStmtsToLastBlock(blocks, ...in_stmts, {a:[NONE, s.a[1]],  tag: "assign", name: iterableObject, value: in_expr} );
+      pushStmtsToLastBlock(blocks, { a: s.a, tag: "assign", name: iterDone, value: { a: s.a, tag: "alloc", amount: { a: s.a, tag: "wasmint", value: 1 } } });
       pushStmtsToLastBlock(blocks, { a: s.a, tag: "jmp", lbl: forStartLbl })
       blocks.push({  a: s.a, label: forStartLbl, stmts: [] })
-
-      let condExpr:AST.Expr<[AST.Type, SourceLocation]>  = { a:[BOOL, s.a[1]],tag: "method-call", obj: {a:s.iterable.a, tag: "id", name: iterableObject} , method: "hasnext", arguments: []}
-      var [cinits, cstmts, cexpr] = flattenExprToVal(condExpr, blocks, env);
-      pushStmtsToLastBlock(blocks, ...cstmts, { a: s.a, tag: "ifjmp", cond: cexpr, thn: forbodyLbl, els: forElseLbl });
-      blocks.push({  a: s.a, label: forbodyLbl, stmts: [] })
-
-      const iterVal: AST.Expr<[AST.Type, SourceLocation]> = {a: s.a, tag: "method-call", obj: {a:s.iterable.a, tag: "id", name: iterableObject} , method: "next", arguments: []}
-      var [s_inits, s_stmts,s_expr] = flattenExprToExpr(iterVal, blocks, env);
-      //@ts-ignore
-      pushStmtsToLastBlock(blocks, ...s_stmts, {a:[NONE, s.a[1]],  tag: "assign", name: s.vars.name, value: s_expr } );
+      var ninits = flattenIteratorNext(s.vars.a, { a: s.iterable.a, tag: "id", name: iterableObject }, { a: s.a, tag: "id", name: iterDone }, s.iterable.a[0].name, itemName, forElseLbl, blocks, env);
+      if (s.vars.tag !== "id")
+        pushStmtsToLastBlock(blocks, ...flattenForTargets(s, { a: s.vars.a, tag: "id", name: itemName }));
       
-      var bodyinits = flattenStmts(s.body, blocks, env);
+      var bodyinits = flattenLoopBody(s.body, blocks, env);
       pushStmtsToLastBlock(blocks, { a:s.a, tag: "jmp", lbl: forStartLbl });
       blocks.push({  a: s.a, label: forElseLbl, stmts: [] })
 
@@ -251,43 +995,259 @@ function flattenStmt(s : AST.Stmt<[Type, SourceLocation]>, blocks: Array<IR.Basi
       pushStmtsToLastBlock(blocks, { a:s.a, tag: "jmp", lbl: forEndLbl });
       blocks.push({  a: s.a, label: forEndLbl, stmts: [] })
 
-      return [...in_inits, ...cinits, ...s_inits, ...bodyinits, ...elsebodyinits, { a: s.iterable.a, name: iterableObject, type: s.iterable.a[0], value: { a:s.a, tag: "none" } }]
+      return [...in_inits, ...ninits, ...bodyinits, ...elsebodyinits, { a: s.iterable.a, name: iterableObject, type: s.iterable.a[0], value: { a:s.a, tag: "none" } }, { a: s.a, name: iterDone, type: NUM, value: { a:s.a, tag: "none" } }]
     
     case "break":
       var counter = s.loopCounter;
-      pushStmtsToLastBlock(blocks, { a: s.a, tag: "jmp", lbl: "$whileend" + counter});
+      flattenLoopJump(s.a, "$whileend" + counter, handling.loops[handling.loops.length - 1], blocks);
       return []
     case "continue":
       var counter = s.loopCounter;
-      pushStmtsToLastBlock(blocks, { a: s.a, tag: "jmp", lbl: "$whilestart" + counter});
+      flattenLoopJump(s.a, "$whilestart" + counter, handling.loops[handling.loops.length - 1], blocks);
       return []
+
+    case "raise": {
+      if (s.value === undefined) {
+        // re-raise the exception of the innermost except clause
+        const exn = handling.caught[handling.caught.length - 1];
+        pushStmtsToLastBlock(blocks, { a: s.a, tag: "throw", value: { a: s.a, tag: "id", name: exn } });
+        return [];
+      }
+      const [rinits, rstmts, rval] = flattenExprToVal(s.value, blocks, env);
+      pushStmtsToLastBlock(blocks, ...rstmts, { a: s.a, tag: "throw", value: rval });
+      return rinits;
+    }
+
+    case "assert": {
+      // the message is only evaluated when the assert fails
+      var assertOkLbl = generateName("$assertok");
+      var assertFailLbl = generateName("$assertfail");
+      const [tinits, tstmts, tval] = flattenExprToVal(s.test, blocks, env);
+      pushStmtsToLastBlock(blocks, ...tstmts, { a: s.a, tag: "ifjmp", cond: tval, thn: assertOkLbl, els: assertFailLbl });
+      blocks.push({ a: s.a, label: assertFailLbl, stmts: [] });
+      const [minits, mstmts, mval] : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, IR.Value<[Type, SourceLocation]>] =
+        s.msg === undefined ? [[], [], { a: s.a, tag: "none" }] : flattenExprToVal(s.msg, blocks, env);
+      pushStmtsToLastBlock(blocks, ...mstmts,
+        { a: s.a, tag: "expr", expr: { a: s.a, tag: "call", name: "assertion_failed", arguments: [
+          mval, { a: s.a, tag: "wasmint", value: s.a[1].line }, { a: s.a, tag: "wasmint", value: s.a[1].column }] } },
+        { a: s.a, tag: "jmp", lbl: assertOkLbl });
+      blocks.push({ a: s.a, label: assertOkLbl, stmts: [] });
+      return [...tinits, ...minits];
+    }
+
+    case "try":
+      return flattenTry(s, blocks, env);
+  }
+}
+
+// Exception handling state of the function being lowered. Exceptions thrown at
+// the current point go to the block labelled handler (out of the function when
+// undefined); the IR tracks this at runtime through handler statements.
+// finallys are the finally clauses a return, break or continue has to run
+// before leaving, loops the state at each enclosing loop and caught the
+// variables holding the exceptions of the enclosing except clauses.
+type HandlerState = { handler : string, finallys : Array<FinallyClause>, loops : Array<LoopState>, caught : Array<string> }
+type LoopState = { handler : string, finallys : number }
+
+// Control enters a finally clause with mode set to 0 when the try finished
+// normally, 1 when an exception is propagating and 2 when returning, with the
+// exception or return value in value. Breaks and continues out of the clause
+// use the modes from 3 up, one for each exit.
+type FinallyClause = { lbl : string, mode : string, value : string, returns : boolean, exits : Array<[string, LoopState]> }
+
+var handling : HandlerState = emptyHandling();
+
+function emptyHandling() : HandlerState {
+  return { handler: undefined, finallys: [], loops: [], caught: [] };
+}
+
+function setHandler(a : [Type, SourceLocation], lbl : string, blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>) {
+  handling.handler = lbl;
+  pushStmtsToLastBlock(blocks, { a, tag: "handler", lbl });
+}
+
+function flattenLoopBody(body : Array<AST.Stmt<[Type, SourceLocation]>>, blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  handling.loops.push({ handler: handling.handler, finallys: handling.finallys.length });
+  const inits = flattenStmts(body, blocks, env);
+  handling.loops.pop();
+  return inits;
+}
+
+function setMode(a : [Type, SourceLocation], clause : FinallyClause, mode : number) : IR.Stmt<[Type, SourceLocation]> {
+  return { a, tag: "assign", name: clause.mode, value: { a, tag: "value", value: { a, tag: "wasmint", value: mode } } };
+}
+
+function flattenReturnValue(a : [Type, SourceLocation], val : IR.Value<[Type, SourceLocation]>, blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>) {
+  if (handling.finallys.length === 0) {
+    pushStmtsToLastBlock(blocks, { a, tag: "return", value: val });
+    return;
+  }
+  const clause = handling.finallys[handling.finallys.length - 1];
+  clause.returns = true;
+  pushStmtsToLastBlock(blocks,
+    { a, tag: "assign", name: clause.value, value: { a, tag: "value", value: val } },
+    setMode(a, clause, 2),
+    { a, tag: "jmp", lbl: clause.lbl });
+}
+
+function flattenLoopJump(a : [Type, SourceLocation], lbl : string, loop : LoopState, blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>) {
+  if (handling.finallys.length > loop.finallys) {
+    const clause = handling.finallys[handling.finallys.length - 1];
+    clause.exits.push([lbl, loop]);
+    pushStmtsToLastBlock(blocks, setMode(a, clause, clause.exits.length + 2), { a, tag: "jmp", lbl: clause.lbl });
+    return;
+  }
+  if (loop.handler !== handling.handler) {
+    pushStmtsToLastBlock(blocks, { a, tag: "handler", lbl: loop.handler });
+  }
+  pushStmtsToLastBlock(blocks, { a, tag: "jmp", lbl });
+}
+
+// The body runs with exceptions going to a block that tries the except clauses
+// in order and throws the exception on when none matches. The finally clause
+// gets entered from everywhere the statement can be left, see FinallyClause.
+function flattenTry(s : AST.Stmt<[Type, SourceLocation]>, blocks : Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  if (s.tag !== "try") { throw new Error("Compiler's cursed, go home."); }
+  const a = s.a;
+  const outer = handling.handler;
+  const exceptLbl = generateName("$except");
+  const finallyExnLbl = generateName("$finallyexn");
+  const endLbl = generateName("$tryend");
+  const hasFinally = s.finallyBody.length > 0;
+  const clause : FinallyClause = { lbl: generateName("$finally"), mode: generateName("finallymode"), value: generateName("finallyvalue"), returns: false, exits: [] };
+  const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+  const idVal = (name : string, typ : Type) : IR.Value<[Type, SourceLocation]> => ({ a: [typ, a[1]], tag: "id", name });
+  // exceptions from the else and except clauses still have to run the finally clause
+  const clauseHandler = hasFinally ? finallyExnLbl : outer;
+  const leave : Array<IR.Stmt<[Type, SourceLocation]>> = hasFinally ? [setMode(a, clause, 0), { a, tag: "jmp", lbl: clause.lbl }] : [{ a, tag: "jmp", lbl: endLbl }];
+  if (hasFinally) {
+    handling.finallys.push(clause);
+    inits.push({ a, name: clause.mode, type: NUM, value: { a, tag: "none" } }, { a, name: clause.value, type: NUM, value: { a, tag: "none" } });
+  }
+
+  setHandler(a, s.handlers.length > 0 ? exceptLbl : clauseHandler, blocks);
+  inits.push(...flattenStmts(s.body, blocks, env));
+  setHandler(a, clauseHandler, blocks);
+  inits.push(...flattenStmts(s.elseBody, blocks, env));
+  pushStmtsToLastBlock(blocks, ...leave);
+
+  if (s.handlers.length > 0) {
+    const exnTyp = CLASS("BaseException");
+    const exn = generateName("exn");
+    inits.push({ a, name: exn, type: exnTyp, value: { a, tag: "none" } });
+    blocks.push({ a, label: exceptLbl, stmts: [{ a, tag: "assign", name: exn, value: { a: [exnTyp, a[1]], tag: "caught" } }] });
+    setHandler(a, clauseHandler, blocks);
+    s.handlers.forEach(handler => {
+      const bodyLbl = generateName("$exceptbody");
+      const nextLbl = generateName("$exceptnext");
+      if (handler.types.length === 0) {
+        pushStmtsToLastBlock(blocks, { a, tag: "jmp", lbl: bodyLbl });
+      }
+      handler.types.forEach(name => {
+        const matches = generateName("exnmatches");
+        const nextTypeLbl = generateName("$excepttype");
+        inits.push({ a, name: matches, type: BOOL, value: { a, tag: "none" } });
+        pushStmtsToLastBlock(blocks,
+          { a, tag: "assign", name: matches, value: { a: [BOOL, a[1]], tag: "call", name: "object$isinstance", arguments: [idVal(exn, exnTyp), idVal(`${name}$vtable`, NUM)] } },
+          { a, tag: "ifjmp", cond: idVal(matches, BOOL), thn: bodyLbl, els: nextTypeLbl });
+        blocks.push({ a, label: nextTypeLbl, stmts: [] });
+      });
+      pushStmtsToLastBlock(blocks, { a, tag: "jmp", lbl: nextLbl });
+
+      blocks.push({ a, label: bodyLbl, stmts: [] });
+      if (handler.name !== undefined) {
+        pushStmtsToLastBlock(blocks, { a, tag: "assign", name: handler.name, value: { a: [exnTyp, a[1]], tag: "value", value: idVal(exn, exnTyp) } });
+      }
+      handling.caught.push(exn);
+      inits.push(...flattenStmts(handler.body, blocks, env));
+      handling.caught.pop();
+      pushStmtsToLastBlock(blocks, ...leave);
+      blocks.push({ a, label: nextLbl, stmts: [] });
+    });
+    pushStmtsToLastBlock(blocks, { a, tag: "throw", value: idVal(exn, exnTyp) });
+  }
+
+  if (hasFinally) {
+    handling.finallys.pop();
+    blocks.push({ a, label: finallyExnLbl, stmts: [
+      { a, tag: "assign", name: clause.value, value: { a, tag: "caught" } },
+      setMode(a, clause, 1),
+      { a, tag: "jmp", lbl: clause.lbl }
+    ] });
+    blocks.push({ a, label: clause.lbl, stmts: [] });
+    setHandler(a, outer, blocks);
+    inits.push(...flattenStmts(s.finallyBody, blocks, env));
+    // then carry on with whatever entered the finally clause
+    const onMode = (mode : number, continuation : () => void) => {
+      const isMode = generateName("finallyis");
+      const thenLbl = generateName("$finallythen");
+      const nextLbl = generateName("$finallynext");
+      inits.push({ a, name: isMode, type: BOOL, value: { a, tag: "none" } });
+      pushStmtsToLastBlock(blocks,
+        { a, tag: "assign", name: isMode, value: { a: [BOOL, a[1]], tag: "binop", op: AST.BinOp.Eq, left: idVal(clause.mode, NUM), right: { a, tag: "wasmint", value: mode } } },
+        { a, tag: "ifjmp", cond: idVal(isMode, BOOL), thn: thenLbl, els: nextLbl });
+      blocks.push({ a, label: thenLbl, stmts: [] });
+      continuation();
+      blocks.push({ a, label: nextLbl, stmts: [] });
+    };
+    onMode(1, () => pushStmtsToLastBlock(blocks, { a, tag: "throw", value: idVal(clause.value, NUM) }));
+    if (clause.returns) {
+      onMode(2, () => flattenReturnValue(a, idVal(clause.value, NUM), blocks));
+    }
+    clause.exits.forEach(([lbl, loop], i) => onMode(i + 3, () => flattenLoopJump(a, lbl, loop, blocks)));
+    pushStmtsToLastBlock(blocks, { a, tag: "jmp", lbl: endLbl });
   }
+  blocks.push({ a, label: endLbl, stmts: [] });
+  handling.handler = outer;
+  return inits;
 }
 
 function lowerAllDestructureAssignments(blocks: { a: [AST.Type, AST.SourceLocation]; label: string; stmts: IR.Stmt<[AST.Type, AST.SourceLocation]>[]; }[], lhs: AST.DestructureLHS<[AST.Type, AST.SourceLocation]>[], rhs: AST.Expr<[AST.Type, AST.SourceLocation]>, env: GlobalEnv, allinits: Array<IR.VarInit<[Type, SourceLocation]>>, dummyLoc:SourceLocation) {
   switch(rhs.tag){
     case "non-paren-vals":
+      if(rhs.values.length === 1 && rhs.values[0].a[0].tag === "tuple") {
+        // a, b = t evaluates t once, then assigns each of its elements in turn
+        const tupleTyp = rhs.values[0].a[0];
+        const tupleName = generateName("tupleval");
+        var [tinits, tstmts, texpr] = flattenExprToExpr(rhs.values[0], blocks, env);
+        allinits.push(...tinits, { a: rhs.values[0].a, name: tupleName, type: tupleTyp, value: { a: rhs.values[0].a, tag: "none" } });
+        pushStmtsToLastBlock(blocks, ...tstmts, { a: rhs.values[0].a, tag: "assign", name: tupleName, value: texpr });
+        lhs.forEach((l, i) => {
+          const index : AST.Expr<[Type, SourceLocation]> = { a: [NUM, dummyLoc], tag: "literal", value: { a: [NUM, dummyLoc], tag: "num", value: BigInt(i) } };
+          const element : AST.Expr<[Type, SourceLocation]> = { a: [tupleTyp.contentTypes[i], dummyLoc], tag: "index", obj: { a: rhs.values[0].a, tag: "id", name: tupleName }, index };
+          lowerDestructAssignment(blocks, l.lhs, element, env, allinits);
+        });
+        break;
+      }
+      // every value is evaluated before any target is assigned, so a, b = b, a swaps
+      const evaluated : Array<[AST.AssignTarget<[Type, SourceLocation]>, AST.Expr<[Type, SourceLocation]>]> = [];
+      const evaluate = (l : AST.AssignTarget<[Type, SourceLocation]>, r : AST.Expr<[Type, SourceLocation]>) => {
+        const valName = generateName("destrval");
+        const [vinits, vstmts, vexpr] = flattenExprToExpr(r, blocks, env);
+        allinits.push(...vinits, { a: r.a, name: valName, type: r.a[0], value: { a: r.a, tag: "none" } });
+        pushStmtsToLastBlock(blocks, ...vstmts, { a: r.a, tag: "assign", name: valName, value: vexpr });
+        evaluated.push([l, { a: r.a, tag: "id", name: valName }]);
+      };
       let lhs_index = 0
       let rhs_index = 0
       while (lhs_index < lhs.length && rhs_index < rhs.values.length) {
         let l = lhs[lhs_index].lhs
         let r = rhs.values[rhs_index]
-        if(r.a[0].tag==="class"){ //for all iterable classes
+        if(r.tag === "method-call" && r.method === "__iter__"){ // iterable objects, see tcIter in type-check.ts
           var [valinits, valstmts, va] = flattenExprToVal(r, blocks, env);
           allinits.push(...valinits);
           pushStmtsToLastBlock(blocks, ...valstmts);
-          const iterClassName = r.a[0].name;
           if(va.tag==="id"){
-            var dummyNext: AST.Expr<[Type, SourceLocation]> = { tag: "call", name: `${iterClassName}$next`, arguments: [va] , a:[{ tag: "none" }, dummyLoc]}
-            var dummyHasNext: AST.Expr<[Type, SourceLocation]> = { tag: "call", name: `${iterClassName}$hasNext`, arguments: [va] , a:[{ tag: "none" }, dummyLoc]}
+            const iterator: AST.Expr<[Type, SourceLocation]> = { a: r.a, tag: "id", name: va.name };
+            const iterTyp = r.a[0];
+            var dummyNext: AST.Expr<[Type, SourceLocation]> = iterTyp.tag === "generator"
+              ? { tag: "call", name: "next", arguments: [iterator], a: [iterTyp.type, dummyLoc] }
+              : { tag: "method-call", obj: iterator, method: "__next__", arguments: [], a: [{ tag: "none" }, dummyLoc] }
           
             //will probably fail for cases like 'a,b,c = range(1,3),5
             while(lhs_index < lhs.length){
               l = lhs[lhs_index].lhs
-              var [inits, stmts, val] = flattenExprToVal(dummyHasNext, blocks, env);
-              pushStmtsToLastBlock(blocks, ...stmts);
-              allinits.push(...inits);
-              lowerDestructAssignment(blocks, l, dummyNext, env, allinits);
+              evaluate(l, dummyNext);
               lhs_index++;
             }
             rhs_index++;
@@ -297,11 +1257,12 @@ function lowerAllDestructureAssignments(blocks: { a: [AST.Type, AST.SourceLocati
         if(lhs_index < lhs.length && rhs_index < rhs.values.length){
           l = lhs[lhs_index].lhs
           r = rhs.values[rhs_index]
-          lowerDestructAssignment(blocks, l, r, env, allinits);
+          evaluate(l, r);
           rhs_index++;
           lhs_index++;
         }else break;
       }
+      evaluated.forEach(([l, v]) => lowerDestructAssignment(blocks, l, v, env, allinits));
       break;
       default:
         throw new Error("Not supported rhs for destructuring!")
@@ -352,8 +1313,36 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
         expr: val
       }];
     case "binop":
+      if (e.op === AST.BinOp.And || e.op === AST.BinOp.Or) {
+        return flattenExprToExprWithBlocks(e, blocks, env);
+      }
+      if (e.op === AST.BinOp.In) {
+        // the bind of the item, then the contains call that reads it
+        const [iinits, istmts] = flattenExprToVal(e.left, blocks, env);
+        const [cinits, cstmts, cexpr] = flattenExprToExpr(e.right, blocks, env);
+        return [[...iinits, ...cinits], [...istmts, ...cstmts], cexpr];
+      }
       var [linits, lstmts, lval] = flattenExprToVal(e.left, blocks, env);
       var [rinits, rstmts, rval] = flattenExprToVal(e.right, blocks, env);
+      if (e.left.a[0].tag === "list" || e.right.a[0].tag === "list") {
+        // the list comes first for list$repeat, whichever side of * it is on
+        const [listval, otherval] = e.left.a[0].tag === "list" ? [lval, rval] : [rval, lval];
+        const lists = e.op === AST.BinOp.Plus ? [lval, rval] : [listval];
+        const checkLists : Array<IR.Stmt<[Type, SourceLocation]>> = lists.map(list => ({ a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: "assert_not_none", arguments: [list] } }));
+        const loc : Array<IR.Value<[Type, SourceLocation]>> = [{ a: e.a, tag: "wasmint", value: e.a[1].line }, { a: e.a, tag: "wasmint", value: e.a[1].column }];
+        return [[...linits, ...rinits], [...lstmts, ...rstmts, ...checkLists], e.op === AST.BinOp.Plus
+          ? { a: e.a, tag: "call", name: "list$concat", arguments: [lval, rval] }
+          : { a: e.a, tag: "call", name: "list$repeat", arguments: [listval, otherval, ...loc] }];
+      }
+      if (e.left.a[0].tag === "str") {
+        const strMethods = new Map([[AST.BinOp.Plus, "str$concat"], [AST.BinOp.Eq, "str$eq"], [AST.BinOp.Neq, "str$neq"]]);
+        return [[...linits, ...rinits], [...lstmts, ...rstmts], {
+          a: e.a,
+          tag: "call",
+          name: strMethods.get(e.op),
+          arguments: [lval, rval]
+        }];
+      }
       return [[...linits, ...rinits], [...lstmts, ...rstmts], {
           ...e,
           a: e.a, 
@@ -386,10 +1375,73 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
           ];  
         }
       }
-      const callpairs = e.arguments.map(a => flattenExprToVal(a, blocks, env));
-      const callinits = callpairs.map(cp => cp[0]).flat();
-      const callstmts = callpairs.map(cp => cp[1]).flat();
-      const callvals = callpairs.map(cp => cp[2]).flat();
+      if (e.name === "isinstance" && e.arguments[1].tag === "id") {
+        // everything, None too, is an instance of object, the other classes are looked up through the vtable chain
+        const [oinits, ostmts, oval] = flattenExprToVal(e.arguments[0], blocks, env);
+        if (e.arguments[1].name === "object")
+          return [oinits, ostmts, { a: e.a, tag: "value", value: { a: e.a, tag: "bool", value: true } }];
+        const vtable : IR.Value<[Type, SourceLocation]> = { a: e.arguments[1].a, tag: "id", name: `${e.arguments[1].name}$vtable` };
+        return [oinits, ostmts, { a: e.a, tag: "call", name: "object$isinstance", arguments: [oval, vtable] }];
+      }
+      if (e.name === "print") {
+        // every argument is printed followed by sep, the last one by end; None for either
+        // means the default, see runtime_print.ts
+        const keywords = new Map(e.keywords || []);
+        const afterArg = (name : string) : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, IR.Value<[Type, SourceLocation]>] =>
+          keywords.has(name) ? flattenExprToVal(keywords.get(name), blocks, env) : [[], [], { a: e.a, tag: "none" }];
+        const argpairs = e.arguments.map(a => flattenExprToVal(a, blocks, env));
+        const [sepinits, sepstmts, sepval] = afterArg("sep");
+        const [endinits, endstmts, endval] = afterArg("end");
+        const printCall = (value : IR.Value<[Type, SourceLocation]>, typeIndex : number, isEnd : boolean) : IR.Expr<[Type, SourceLocation]> => ({
+          a: e.a,
+          tag: "call",
+          name: "print",
+          arguments: [value, { a: e.a, tag: "wasmint", value: typeIndex }, isEnd ? endval : sepval, { a: e.a, tag: "wasmint", value: isEnd ? 1 : 0 }]
+        });
+        const printStmts : Array<IR.Stmt<[Type, SourceLocation]>> = argpairs.slice(0, -1).map(([_i, _s, val], i) =>
+          ({ a: e.a, tag: "expr", expr: printCall(val, printTypeIndex(env, e.arguments[i].a[0]), false) }));
+        // print() prints nothing but the end
+        const last = argpairs.length === 0 ? -1 : argpairs.length - 1;
+        const lastCall = printCall(last < 0 ? { a: e.a, tag: "none" } : argpairs[last][2], last < 0 ? -1 : printTypeIndex(env, e.arguments[last].a[0]), true);
+        return [
+          [...argpairs.map(cp => cp[0]).flat(), ...sepinits, ...endinits],
+          [...argpairs.map(cp => cp[1]).flat(), ...sepstmts, ...endstmts, ...printStmts],
+          lastCall
+        ];
+      }
+      if (e.name === "next") {
+        // a finished generator raises StopIteration
+        const [ginits, gstmts, gval] = flattenExprToVal(e.arguments[0], blocks, env);
+        const valueName = generateName("nextvalue");
+        const ninits : Array<IR.VarInit<[Type, SourceLocation]>> = [...ginits, { a: e.a, name: valueName, type: e.a[0], value: { a: e.a, tag: "none" } }];
+        const nstmts : Array<IR.Stmt<[Type, SourceLocation]>> = [...gstmts];
+        const resume = generatorResume(e.a, gval, ninits, nstmts);
+        nstmts.push({ a: e.a, tag: "assign", name: valueName, value: resume });
+        const stateName = generateName("nextstate");
+        ninits.push({ a: e.a, name: stateName, type: NUM, value: { a: e.a, tag: "none" } });
+        nstmts.push(
+          { a: e.a, tag: "assign", name: stateName, value: { a: e.a, tag: "load", start: gval, offset: { a: e.a, tag: "wasmint", value: 1 } } },
+          { a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: "stop_iteration", arguments: [
+            { a: e.a, tag: "id", name: stateName }, { a: e.a, tag: "wasmint", value: e.a[1].line }, { a: e.a, tag: "wasmint", value: e.a[1].column }] } });
+        return [ninits, nstmts, { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: valueName } }];
+      }
+      if (e.name === "len") {
+        const [linits, lstmts, lval] = flattenExprToVal(e.arguments[0], blocks, env);
+        if (e.arguments[0].a[0].tag === "set") {
+          return [linits, lstmts, { a: e.a, tag: "call", name: "set$length", arguments: [lval] }];
+        }
+        if (e.arguments[0].a[0].tag === "dict") {
+          return [linits, lstmts, { a: e.a, tag: "call", name: "dict$length", arguments: [lval] }];
+        }
+        // strings and lists both keep their length in the first word
+        return [linits, lstmts, { a: e.a, tag: "load", start: lval, offset: { a: e.a, tag: "wasmint", value: 0 } }];
+      }
+      const [callinits, callstmts, callvals] = flattenArguments(e.arguments, e.argOrder, blocks, env);
+      if (nestedFuns.has(e.name)) {
+        const [liftedName, cells] = nestedFuns.get(e.name);
+        const cellvals = cells.map((v) : IR.Value<[Type, SourceLocation]> => ({ a: e.a, tag: "id", name: `${v}$cell` }));
+        return [ callinits, callstmts, { a: e.a, tag: "call", name: liftedName, arguments: [...callvals, ...cellvals] } ];
+      }
       return [ callinits, callstmts,
         {
           ...e,
@@ -397,12 +1449,24 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
           arguments: callvals
         }
       ];
+    case "func-ref": {
+      const [finits, fstmts, fval] = flattenFuncRef(e.a, e.name, env);
+      return [finits, fstmts, { a: e.a, tag: "value", value: fval }];
+    }
+    case "call-expr": {
+      const [fninits, fnstmts, fnval] = flattenExprToVal(e.fn, blocks, env);
+      const argpairs = e.arguments.map(a => flattenExprToVal(a, blocks, env));
+      const indexName = generateName("funindex");
+      return [
+        [...fninits, ...argpairs.map(cp => cp[0]).flat(), { a: e.a, name: indexName, type: NUM, value: { a: e.a, tag: "none" } }],
+        [...fnstmts, ...argpairs.map(cp => cp[1]).flat(),
+          { a: e.a, tag: "assign", name: indexName, value: { a: e.a, tag: "load", start: fnval, offset: { a: e.a, tag: "wasmint", value: 0 } } }],
+        { a: e.a, tag: "call_indirect", fn: { a: e.a, tag: "id", name: indexName }, arguments: [fnval, ...argpairs.map(cp => cp[2])] }
+      ];
+    }
     case "method-call": {
       const [objinits, objstmts, objval] = flattenExprToVal(e.obj, blocks, env);
-      const argpairs = e.arguments.map(a => flattenExprToVal(a, blocks, env));
-      const arginits = argpairs.map(cp => cp[0]).flat();
-      const argstmts = argpairs.map(cp => cp[1]).flat();
-      const argvals = argpairs.map(cp => cp[2]).flat();
+      const [arginits, argstmts, argvals] = flattenArguments(e.arguments, e.argOrder, blocks, env);
 
       var objTyp = e.obj.a[0];
       if(objTyp.tag === "set") {
@@ -418,14 +1482,16 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
           const newargstmts = newargpairs.map(cp => cp[1]).flat();
           const newargvals = newargpairs.map(cp => cp[2]).flat();
 
-          const callMethod : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: `set$${e.method}`, arguments: [objval, ...newargvals] } 
+          const callMethod : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: `set$${e.method}`, arguments: [objval, ...newargvals, strKeyFlag(objTyp, e.a)] } 
           return [
             [...objinits, ...newarginits],
             [...objstmts, ...newargstmts],
             callMethod
           ];
         } else {
-          const callMethod : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: `set$${e.method}`, arguments: [objval, ...argvals] }
+          // the methods that take a value hash or compare it
+          const keyArgs = argvals.length > 0 ? [strKeyFlag(objTyp, e.a)] : [];
+          const callMethod : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: `set$${e.method}`, arguments: [objval, ...argvals, ...keyArgs] }
           return [
             [...objinits, ...arginits],
             [...objstmts, ...argstmts],
@@ -433,15 +1499,52 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
           ];
         }
       }
+      if(objTyp.tag === "dict") {
+        // only lookups need to know how the keys are hashed
+        const keyArgs = e.method === "contains" ? [strKeyFlag(objTyp, e.a)] : [];
+        const callMethod : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: `dict$${e.method}`, arguments: [objval, ...argvals, ...keyArgs] }
+        return [
+          [...objinits, ...arginits],
+          [...objstmts, ...argstmts],
+          callMethod
+        ];
+      }
+      if(objTyp.tag === "list") {
+        const line : IR.Value<[Type, SourceLocation]> = { a: e.a, tag: "wasmint", value: e.a[1].line };
+        const col : IR.Value<[Type, SourceLocation]> = { a: e.a, tag: "wasmint", value: e.a[1].column };
+        const checkList : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: "assert_not_none", arguments: [objval] } };
+        var listArgs : Array<IR.Value<[Type, SourceLocation]>>;
+        switch (e.method) {
+          case "pop":
+            // pop() takes the last element, same as pop(-1)
+            const lastIndex : IR.Value<[Type, SourceLocation]> = { a: e.a, tag: "wasmint", value: -1 };
+            listArgs = [argvals.length > 0 ? argvals[0] : lastIndex, line, col];
+            break;
+          case "remove":
+            listArgs = [...argvals, listEqKind(objTyp, env, e.a), line, col];
+            break;
+          case "contains":
+            listArgs = [...argvals, listEqKind(objTyp, env, e.a)];
+            break;
+          case "repeatInPlace":
+            listArgs = [...argvals, line, col];
+            break;
+          default:
+            listArgs = argvals;
+        }
+        return [
+          [...objinits, ...arginits],
+          [...objstmts, ...argstmts, checkList],
+          { a: e.a, tag: "call", name: `list$${e.method}`, arguments: [objval, ...listArgs] }
+        ];
+      }
       if(objTyp.tag !== "class") { // I don't think this error can happen
         throw new Error("Report this as a bug to the compiler developer, this shouldn't happen " + objTyp.tag);
       }
-      const className = objTyp.name;
-      const checkObj : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: `assert_not_none`, arguments: [objval]}}
-      const callMethod : IR.Expr<[Type, SourceLocation]> = { a:e.a, tag: "call", name: `${className}$${e.method}`, arguments: [objval, ...argvals] }
+      const [callinits, callstmts, callMethod] = flattenMethodCall(e.a, objval, objTyp.name, e.method, argvals, env);
       return [
-        [...objinits, ...arginits],
-        [...objstmts, checkObj, ...argstmts],
+        [...objinits, ...arginits, ...callinits],
+        [...objstmts, ...argstmts, ...callstmts],
         callMethod
       ];
     }
@@ -460,32 +1563,79 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
       const [oinits, ostmts, oval] = flattenExprToVal(e.obj, blocks, env);
       const [iinits, istmts, ival] = flattenExprToVal(e.index, blocks, env);
 
-      // if(equalType(e.a[0], CLASS("str"))){
-      //   return [[...oinits, ...iinits], [...ostmts, ...istmts], {tag: "call", name: "str$access", arguments: [oval, ival]} ]
-      // }
+      if (e.obj.a[0].tag === "tuple") {
+        // the type checker has already turned the index into an in-range constant
+        return [[...oinits, ...iinits], [...ostmts, ...istmts], { a: e.a, tag: "load", start: oval, offset: ival }];
+      }
+      if (e.obj.a[0].tag === "dict") {
+        return [[...oinits, ...iinits], [...ostmts, ...istmts], {
+          a: e.a,
+          tag: "call",
+          name: "dict$get",
+          arguments: [oval, ival, strKeyFlag(e.obj.a[0], e.a), { a: e.a, tag: "wasmint", value: e.a[1].line }, { a: e.a, tag: "wasmint", value: e.a[1].column }]
+        }];
+      }
+      if (e.obj.a[0].tag === "str") {
+        // strings keep their length in the first word like lists, so the same bounds check applies
+        const strIndex = checkIndex(iinits, istmts, ival, oval);
+        return [[...oinits, ...iinits], [...ostmts, ...istmts], { a: e.a, tag: "call", name: "str$access", arguments: [oval, strIndex] }];
+      }
       if (e.obj.a[0].tag === "list") { 
-        const offsetValue: IR.Value<[Type, SourceLocation]> = listIndexOffsets(iinits, istmts, ival, oval);
+        const listIndex = checkIndex(iinits, istmts, ival, oval);
+        const elements = listElements(iinits, istmts, oval);
         return [[...oinits, ...iinits], [...ostmts, ...istmts], {
           a: e.a,
           tag: "load",
-          start: oval,
-          offset: offsetValue
+          start: elements,
+          offset: listIndex
         }];
       }
-      // if(e.obj.a[0].tag === "dict")){
-      //   ...
-      // }
       // if(e.obj.a[0].tag === "tuple")){
       //   ...
       // }
       throw new Error("Compiler's cursed, go home");
+    case "slice": {
+      const [sinits, sstmts, sval] = flattenExprToVal(e.obj, blocks, env);
+      // bounds that were left out are passed as 0 with their bit in given unset, see list$slice
+      var given = 0;
+      const bounds = [e.start, e.stop, e.step].map((bound, i) => {
+        if (bound === undefined)
+          return { a: e.a, tag: "wasmint", value: i === 2 ? 1 : 0 } as IR.Value<[Type, SourceLocation]>;
+        given |= i < 2 ? 1 << i : 0;
+        const [binits, bstmts, bval] = flattenExprToVal(bound, blocks, env);
+        sinits.push(...binits);
+        sstmts.push(...bstmts);
+        return bval;
+      });
+      sstmts.push({ a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: "assert_not_none", arguments: [sval] } });
+      return [sinits, sstmts, {
+        a: e.a,
+        tag: "call",
+        name: "list$slice",
+        arguments: [sval, ...bounds, { a: e.a, tag: "wasmint", value: given }, { a: e.a, tag: "wasmint", value: e.a[1].line }, { a: e.a, tag: "wasmint", value: e.a[1].column }]
+      }];
+    }
     case "construct":
       const classdata = env.classes.get(e.name);
       const fields = [...classdata.entries()];
       const newName = generateName("newObj");
-      const alloc : IR.Expr<[Type, SourceLocation]> = { a:e.a, tag: "alloc", amount: { a:e.a, tag: "wasmint", value: fields.length } };
+      // the header holds the vtable and the size of the object, see stdlib/objects.wat
+      const alloc : IR.Expr<[Type, SourceLocation]> = { a:e.a, tag: "alloc", amount: { a:e.a, tag: "wasmint", value: fields.length + 2 } };
+      const storeHeader : Array<IR.Stmt<[Type, SourceLocation]>> = [
+        { a: e.a, tag: "store", start: { a: e.a, tag: "id", name: newName }, offset: { a: e.a, tag: "wasmint", value: 0 }, value: { a: e.a, tag: "id", name: `${e.name}$vtable` } },
+        { a: e.a, tag: "store", start: { a: e.a, tag: "id", name: newName }, offset: { a: e.a, tag: "wasmint", value: 1 }, value: { a: e.a, tag: "wasmint", value: fields.length + 2 } }];
+      const [_, initName] = env.vtables.get(e.name).find(([name, _]) => name === "__init__");
+      const objInits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+      const strStmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
       const assigns : IR.Stmt<[Type, SourceLocation]>[] = fields.map(f => {
-        const [_, [index, value]] = f;
+        var [_, [index, value]] = f;
+        const literal = value as AST.Literal<[Type, SourceLocation]>;
+        if (literal.tag === "str") {
+          const [sinits, sstmts, sval] = flattenStrLiteral(literal.value, e.a);
+          objInits.push(...sinits);
+          strStmts.push(...sstmts);
+          value = sval;
+        }
         return {
           a: e.a,
           tag: "store",
@@ -495,25 +1645,26 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
         }
       });
 
+      // the arguments are evaluated first, and the fields get their defaults before __init__ sees the object
+      const [ainits, argStmts, avals] = flattenArguments(e.arguments || [], e.argOrder, blocks, env);
+      objInits.push(...ainits);
+      const initArgs : Array<IR.Value<[Type, SourceLocation]>> = [{ a: e.a, tag: "id", name: newName }, ...avals];
+
       return [
-        [ { a: e.a, name: newName, type: e.a[0], value: { a: e.a, tag: "none" } }],
-        [ { a: e.a, tag: "assign", name: newName, value: alloc }, ...assigns,
-          { a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: `${e.name}$__init__`, arguments: [{ a: e.a, tag: "id", name: newName }] } }
+        [ { a: e.a, name: newName, type: e.a[0], value: { a: e.a, tag: "none" } }, ...objInits],
+        [ ...argStmts, ...strStmts, { a: e.a, tag: "assign", name: newName, value: alloc }, ...storeHeader, ...assigns,
+          { a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: initName, arguments: initArgs } }
         ],
         { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: newName } }
       ];
     case "listliteral":
       const newListName = generateName("newList");
-      const allocList : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "alloc", amount: { a: e.a, tag: "wasmint", value: e.elements.length + 1 } };
+      const newList : IR.Value<[Type, SourceLocation]> = { a: e.a, tag: "id", name: newListName };
+      const allocList : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: "list$new", arguments: [{ a: e.a, tag: "wasmint", value: e.elements.length }] };
       var inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
       var stmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
-      var storeLength : IR.Stmt<[Type, SourceLocation]> = {
-        a: e.a, 
-        tag: "store",
-        start: { a: e.a, tag: "id", name: newListName },
-        offset: { a:e.a, tag: "wasmint", value: 0 },
-        value: { a: [{tag: "number"}, e.a[1]], tag: "num", value: BigInt(e.elements.length) }
-      }
+      const listStmts : Array<IR.Stmt<[Type, SourceLocation]>> = [{ a: e.a, tag: "assign", name: newListName, value: allocList }];
+      const newElements = listElements(inits, listStmts, newList);
       const assignsList : IR.Stmt<[Type, SourceLocation]>[] = e.elements.map((e, i) => {
         const [init, stmt, val] = flattenExprToVal(e, blocks, env);
         inits = [...inits, ...init];
@@ -521,25 +1672,30 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
         return {
           a: e.a, 
           tag: "store",
-          start: { a: e.a, tag: "id", name: newListName },
-          offset: { a: e.a, tag: "wasmint", value: i+1 },
+          start: newElements,
+          offset: { a: e.a, tag: "wasmint", value: i },
           value: val
         }
       })
       return [
         [ { a:e.a, name: newListName, type: e.a[0], value: { a: e.a, tag: "none" } }, ...inits ],
-        [ { a: e.a, tag: "assign", name: newListName, value: allocList }, ...stmts, storeLength, ...assignsList ],
-        { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: newListName } }
+        [ ...stmts, ...listStmts, ...assignsList ],
+        { a: e.a, tag: "value", value: newList }
       ];
     case "id":
       return [[], [], {a: e.a, tag: "value", value: { ...e, a: e.a }} ];
     case "literal":
+      if (e.value.tag === "str") {
+        const [sinits, sstmts, sval] = flattenStrLiteral(e.value.value, e.a);
+        return [sinits, sstmts, { a: e.a, tag: "value", value: sval }];
+      }
       return [[], [], {a: e.a, tag: "value", value: literalToVal(e.value) } ];
 
     case "set":
       const newSetName = generateName("newSet");
       // 10 buckets for now
       const allocSet : IR.Expr<[Type, SourceLocation]> = {a: e.a, tag: "alloc", amount: {a: e.a, tag: "wasmint", value: 10}};
+      const setStrKey = strKeyFlag(e.a[0], e.a);
       //const allocSet : IR.Expr<[Type, SourceLocation]> = {tag: "alloc", amount: {tag: "wasmint", value: e.contents.length}};
       var inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
       var stmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
@@ -551,7 +1707,7 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
         return {
           a: e.a,
           tag: "expr",
-          expr: { a: e.a, tag: "call", name: `set$add`, arguments: [{ a: e.a, tag: "id", name: newSetName}, value]}
+          expr: { a: e.a, tag: "call", name: `set$add`, arguments: [{ a: e.a, tag: "id", name: newSetName}, value, setStrKey]}
         }
       })
       return [
@@ -561,17 +1717,302 @@ function flattenExprToExpr(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<I
         { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: newSetName } }
       ];
 
+    case "dict":
+      const newDictName = generateName("newDict");
+      const allocDict : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: "dict$new", arguments: [] };
+      var inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+      var stmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+      e.entries.forEach(([k, v]) => {
+        const [kinits, kstmts, kval] = flattenExprToVal(k, blocks, env);
+        const [vinits, vstmts, vval] = flattenExprToVal(v, blocks, env);
+        inits.push(...kinits, ...vinits);
+        stmts.push(...kstmts, ...vstmts, {
+          a: e.a,
+          tag: "expr",
+          expr: { a: e.a, tag: "call", name: "dict$set", arguments: [{ a: e.a, tag: "id", name: newDictName }, kval, vval, strKeyFlag(e.a[0], e.a)] }
+        });
+      });
+      return [
+        [ { a: e.a, name: newDictName, type: e.a[0], value: { a: e.a, tag: "none" } }, ...inits ],
+        [ { a: e.a, tag: "assign", name: newDictName, value: allocDict }, ...stmts ],
+        { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: newDictName } }
+      ];
+    case "tuple":
+      const newTupleName = generateName("newTuple");
+      const allocTuple : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "alloc", amount: { a: e.a, tag: "wasmint", value: e.elements.length } };
+      var inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+      var stmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+      const storesTuple : IR.Stmt<[Type, SourceLocation]>[] = e.elements.map((element, i) => {
+        const [einits, estmts, elemval] = flattenExprToVal(element, blocks, env);
+        inits.push(...einits);
+        stmts.push(...estmts);
+        return {
+          a: e.a,
+          tag: "store",
+          start: { a: e.a, tag: "id", name: newTupleName },
+          offset: { a: e.a, tag: "wasmint", value: i },
+          value: elemval
+        }
+      });
+      return [
+        [ { a: e.a, name: newTupleName, type: e.a[0], value: { a: e.a, tag: "none" } }, ...inits ],
+        [ ...stmts, { a: e.a, tag: "assign", name: newTupleName, value: allocTuple }, ...storesTuple ],
+        { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: newTupleName } }
+      ];
+    case "bind":
+      const [binits, bstmts, bval] = flattenExprToVal(e.value, blocks, env);
+      return [
+        [ { a: e.a, name: e.name, type: e.a[0], value: { a: e.a, tag: "none" } }, ...binits ],
+        [ ...bstmts, { a: e.a, tag: "assign", name: e.name, value: { a: e.a, tag: "value", value: bval } } ],
+        { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: e.name } }
+      ];
     case "ternary":
     case "comprehension":
       return flattenExprToExprWithBlocks(e, blocks, env);
   }
 }
 
+// Dict and set operations that hash or compare keys need to know whether the
+// keys are strings, see stdlib/dicts.wat and stdlib/sets.wat
+function strKeyFlag(t : Type, a : [Type, SourceLocation]) : IR.Value<[Type, SourceLocation]> {
+  const strKey = (t.tag === "dict" && t.key.tag === "str") || (t.tag === "set" && t.valueType.tag === "str");
+  return { a: a, tag: "wasmint", value: strKey ? 1 : 0 };
+}
+
+// Index into lists and strs, and into a snapshot of the keys of a dict or the
+// values of a set, which are lists
+function flattenIndexedFor(s : AST.Stmt<[Type, SourceLocation]>, startLbl : string, bodyLbl : string, elseLbl : string, endLbl : string, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  if (s.tag !== "for") { throw new Error("Compiler's cursed, go home."); }
+  const iterTyp = s.iterable.a[0];
+  const iterName = generateName("$foriter");
+  const itemName = generateName("$foritem");
+  const indexName = generateName("$forindex");
+  const lengthName = generateName("$forlength");
+  const condName = generateName("$forcond");
+  const idVal = (name : string) : IR.Value<[Type, SourceLocation]> => ({ a: s.a, tag: "id", name });
+  const wasmint = (value : number) : IR.Value<[Type, SourceLocation]> => ({ a: s.a, tag: "wasmint", value });
+  const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [
+    { a: s.a, name: iterName, type: iterTyp.tag === "str" ? STR : { tag: "list", type: s.vars.a[0] }, value: { a: s.a, tag: "none" } },
+    { a: s.a, name: itemName, type: s.vars.a[0], value: { a: s.a, tag: "none" } },
+    { a: s.a, name: indexName, type: NUM, value: { a: s.a, tag: "none" } },
+    { a: s.a, name: lengthName, type: NUM, value: { a: s.a, tag: "none" } },
+    { a: s.a, name: condName, type: BOOL, value: { a: s.a, tag: "none" } }];
+
+  const [iinits, istmts, ival] = flattenExprToVal(s.iterable, blocks, env);
+  inits.push(...iinits);
+  pushStmtsToLastBlock(blocks, ...istmts, { a: s.a, tag: "expr", expr: { a: s.a, tag: "call", name: "assert_not_none", arguments: [ival] } });
+  if (iterTyp.tag === "dict" || iterTyp.tag === "set") {
+    const snapshot = iterTyp.tag === "dict" ? "dict$keys" : "set$items";
+    pushStmtsToLastBlock(blocks, { a: s.a, tag: "assign", name: iterName, value: { a: s.a, tag: "call", name: snapshot, arguments: [ival] } });
+  } else {
+    pushStmtsToLastBlock(blocks, { a: s.a, tag: "assign", name: iterName, value: { a: s.a, tag: "value", value: ival } });
+  }
+  pushStmtsToLastBlock(blocks,
+    { a: s.a, tag: "assign", name: indexName, value: { a: s.a, tag: "value", value: wasmint(0) } },
+    { a: s.a, tag: "jmp", lbl: startLbl });
+
+  // lists may grow while being iterated, so their length is loaded every time
+  blocks.push({ a: s.a, label: startLbl, stmts: [
+    { a: s.a, tag: "assign", name: lengthName, value: { a: s.a, tag: "load", start: idVal(iterName), offset: wasmint(0) } },
+    { a: s.a, tag: "assign", name: condName, value: { a: s.a, tag: "binop", op: AST.BinOp.Lt, left: idVal(indexName), right: idVal(lengthName) } },
+    { a: s.a, tag: "ifjmp", cond: idVal(condName), thn: bodyLbl, els: elseLbl }
+  ] });
+
+  // advance the index before the body runs so that continue can jump straight to the start
+  const bodyStmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+  if (iterTyp.tag === "str") {
+    bodyStmts.push({ a: s.a, tag: "assign", name: itemName, value: { a: s.a, tag: "call", name: "str$access", arguments: [idVal(iterName), idVal(indexName)] } });
+  } else {
+    const elements = listElements(inits, bodyStmts, idVal(iterName));
+    bodyStmts.push({ a: s.a, tag: "assign", name: itemName, value: { a: s.a, tag: "load", start: elements, offset: idVal(indexName) } });
+  }
+  bodyStmts.push(
+    { a: s.a, tag: "assign", name: indexName, value: { a: s.a, tag: "binop", op: AST.BinOp.Plus, left: idVal(indexName), right: wasmint(1) } },
+    ...flattenForTargets(s, idVal(itemName)));
+  blocks.push({ a: s.a, label: bodyLbl, stmts: bodyStmts });
+  const bodyinits = flattenLoopBody(s.body, blocks, env);
+  pushStmtsToLastBlock(blocks, { a: s.a, tag: "jmp", lbl: startLbl });
+
+  blocks.push({ a: s.a, label: elseLbl, stmts: [] });
+  const elsebodyinits = flattenStmts(s.elseBody, blocks, env);
+  pushStmtsToLastBlock(blocks, { a: s.a, tag: "jmp", lbl: endLbl });
+  blocks.push({ a: s.a, label: endLbl, stmts: [] });
+
+  return [...inits, ...bodyinits, ...elsebodyinits];
+}
+
+// Assign the item of a for loop to its targets, for i, x in unpacks the item,
+// a tuple, into the names
+function flattenForTargets(s : AST.Stmt<[Type, SourceLocation]>, item : IR.Value<[Type, SourceLocation]>) : Array<IR.Stmt<[Type, SourceLocation]>> {
+  if (s.tag !== "for") { throw new Error("Compiler's cursed, go home."); }
+  if (s.vars.tag === "id")
+    return [{ a: s.a, tag: "assign", name: s.vars.name, value: { a: s.a, tag: "value", value: item } }];
+  if (s.vars.tag !== "tuple") { throw new Error("Compiler's cursed, go home."); }
+  return s.vars.elements.map((target, k) : IR.Stmt<[Type, SourceLocation]> => {
+    if (target.tag !== "id") { throw new Error("Compiler's cursed, go home."); }
+    return { a: s.a, tag: "assign", name: target.name, value: { a: s.a, tag: "load", start: item, offset: { a: s.a, tag: "wasmint", value: k } } };
+  });
+}
+
+// Resume the generator until it finishes, see lowerGenerator
+// Assigns the next value of the iterator iter, an object of class className, to
+// name, or jumps to doneLbl when its __next__ method raises StopIteration. The
+// call goes through iteratorNext, with the one word cell done taking the flag,
+// so that the loop around it has no exception handler in the way of the IR
+// optimizer.
+function flattenIteratorNext(a : [Type, SourceLocation], iter : IR.Value<[Type, SourceLocation]>, done : IR.Value<[Type, SourceLocation]>, className : string, name : string, doneLbl : string, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  const value = generateName("itervalue");
+  const finished = generateName("iterfinished");
+  const nextLbl = generateName("$iternext");
+  // name keeps its last value once the iterator is finished
+  pushStmtsToLastBlock(blocks,
+    { a, tag: "assign", name: value, value: { a, tag: "call", name: iteratorNext(a, className, env), arguments: [iter, done] } },
+    { a, tag: "assign", name: finished, value: { a: [BOOL, a[1]], tag: "load", start: done, offset: { a, tag: "wasmint", value: 0 } } },
+    { a, tag: "ifjmp", cond: { a: [BOOL, a[1]], tag: "id", name: finished }, thn: doneLbl, els: nextLbl });
+  blocks.push({ a, label: nextLbl, stmts: [{ a, tag: "assign", name, value: { a, tag: "value", value: { a, tag: "id", name: value } } }] });
+  return [{ a, name: value, type: a[0], value: { a, tag: "none" } }, { a, name: finished, type: BOOL, value: { a, tag: "none" } }];
+}
+
+// The functions calling __next__ on iterators of each class, for the program being lowered
+var iteratorNexts : Map<string, string> = new Map();
+
+// Returns the function that calls __next__ on an iterator of class className,
+// storing in the cell it also takes whether that raised StopIteration instead
+function iteratorNext(a : [Type, SourceLocation], className : string, env : GlobalEnv) : string {
+  if (iteratorNexts.has(className)) {
+    return iteratorNexts.get(className);
+  }
+  const name = generateName(`${className}$iternext`);
+  iteratorNexts.set(className, name);
+  const exnTyp = CLASS("BaseException");
+  const exn = generateName("exn");
+  const matches = generateName("exnmatches");
+  const value = generateName("itervalue");
+  const stopLbl = generateName("$iterstop");
+  const doneLbl = generateName("$iterdone");
+  const rethrowLbl = generateName("$iterrethrow");
+  const iter : IR.Value<[Type, SourceLocation]> = { a: [CLASS(className), a[1]], tag: "id", name: "iter" };
+  const done : IR.Value<[Type, SourceLocation]> = { a, tag: "id", name: "done" };
+  const idVal = (name : string, typ : Type) : IR.Value<[Type, SourceLocation]> => ({ a: [typ, a[1]], tag: "id", name });
+  const setDone = (flag : boolean) : IR.Stmt<[Type, SourceLocation]> => ({ a, tag: "store", start: done, offset: { a, tag: "wasmint", value: 0 }, value: { a, tag: "wasmint", value: flag ? 1 : 0 } });
+  const [ninits, nstmts, callNext] = flattenMethodCall(a, iter, className, "__next__", [], env);
+  liftedFuns.push({
+    a,
+    name,
+    parameters: [{ name: "iter", type: CLASS(className) }, { name: "done", type: NUM }],
+    ret: a[0],
+    inits: [...ninits,
+      { a, name: exn, type: exnTyp, value: { a, tag: "none" } },
+      { a, name: matches, type: BOOL, value: { a, tag: "none" } },
+      { a, name: value, type: a[0], value: { a, tag: "none" } }],
+    body: [
+      { a, label: generateName("$startFun"), stmts: [
+        { a, tag: "handler", lbl: stopLbl },
+        ...nstmts,
+        { a, tag: "assign", name: value, value: callNext },
+        { a, tag: "handler", lbl: undefined },
+        setDone(false),
+        { a, tag: "return", value: idVal(value, a[0]) }] },
+      { a, label: stopLbl, stmts: [
+        { a, tag: "assign", name: exn, value: { a: [exnTyp, a[1]], tag: "caught" } },
+        { a, tag: "handler", lbl: undefined },
+        { a, tag: "assign", name: matches, value: { a: [BOOL, a[1]], tag: "call", name: "object$isinstance", arguments: [idVal(exn, exnTyp), idVal("StopIteration$vtable", NUM)] } },
+        { a, tag: "ifjmp", cond: idVal(matches, BOOL), thn: doneLbl, els: rethrowLbl }] },
+      { a, label: doneLbl, stmts: [setDone(true), { a, tag: "return", value: { a, tag: "none" } }] },
+      { a, label: rethrowLbl, stmts: [{ a, tag: "throw", value: idVal(exn, exnTyp) }] }]
+  });
+  return name;
+}
+
+function flattenGeneratorFor(s : AST.Stmt<[Type, SourceLocation]>, startLbl : string, bodyLbl : string, elseLbl : string, endLbl : string, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  if (s.tag !== "for") { throw new Error("Compiler's cursed, go home."); }
+  const genName = generateName("$generator");
+  const doneName = generateName("$generatordone");
+  const gen : IR.Value<[Type, SourceLocation]> = { a: s.iterable.a, tag: "id", name: genName };
+
+  const [ginits, gstmts, gval] = flattenExprToVal(s.iterable, blocks, env);
+  pushStmtsToLastBlock(blocks, ...gstmts,
+    { a: s.a, tag: "assign", name: genName, value: { a: s.a, tag: "value", value: gval } },
+    { a: s.a, tag: "jmp", lbl: startLbl });
+
+  const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [...ginits,
+    { a: s.a, name: genName, type: s.iterable.a[0], value: { a: s.a, tag: "none" } },
+    { a: s.a, name: doneName, type: BOOL, value: { a: s.a, tag: "none" } }];
+  const startStmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+  const resume = generatorResume(s.a, gen, inits, startStmts);
+  // the variable keeps its last value once the generator is finished
+  const valueName = generateName("$generatorvalue");
+  inits.push({ a: s.a, name: valueName, type: s.vars.a[0], value: { a: s.a, tag: "none" } });
+  startStmts.push({ a: s.a, tag: "assign", name: valueName, value: resume });
+  generatorDone(s.a, gen, doneName, inits, startStmts);
+  startStmts.push({ a: s.a, tag: "ifjmp", cond: { a: s.a, tag: "id", name: doneName }, thn: elseLbl, els: bodyLbl });
+  blocks.push({ a: s.a, label: startLbl, stmts: startStmts });
+
+  blocks.push({ a: s.a, label: bodyLbl, stmts: flattenForTargets(s, { a: s.a, tag: "id", name: valueName }) });
+  const bodyinits = flattenLoopBody(s.body, blocks, env);
+  pushStmtsToLastBlock(blocks, { a: s.a, tag: "jmp", lbl: startLbl });
+
+  blocks.push({ a: s.a, label: elseLbl, stmts: [] });
+  const elsebodyinits = flattenStmts(s.elseBody, blocks, env);
+  pushStmtsToLastBlock(blocks, { a: s.a, tag: "jmp", lbl: endLbl });
+  blocks.push({ a: s.a, label: endLbl, stmts: [] });
+  return [...inits, ...bodyinits, ...elsebodyinits];
+}
+
+function flattenStrLiteral(value : string, a : [Type, SourceLocation]) : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, IR.Value<[Type, SourceLocation]>] {
+  const newStrName = generateName("newStr");
+  const strA : [Type, SourceLocation] = [STR, a[1]];
+  const allocStr : IR.Expr<[Type, SourceLocation]> = { a: strA, tag: "alloc", amount: { a: strA, tag: "wasmint", value: value.length + 1 } };
+  const storeLength : IR.Stmt<[Type, SourceLocation]> = {
+    a: strA,
+    tag: "store",
+    start: { a: strA, tag: "id", name: newStrName },
+    offset: { a: strA, tag: "wasmint", value: 0 },
+    value: { a: [NUM, a[1]], tag: "num", value: BigInt(value.length) }
+  };
+  const storeChars : Array<IR.Stmt<[Type, SourceLocation]>> = value.split("").map((ch, i) => {
+    return {
+      a: strA,
+      tag: "store",
+      start: { a: strA, tag: "id", name: newStrName },
+      offset: { a: strA, tag: "wasmint", value: i + 1 },
+      value: { a: strA, tag: "wasmint", value: ch.charCodeAt(0) }
+    }
+  });
+  return [
+    [ { a: strA, name: newStrName, type: STR, value: { a: strA, tag: "none" } } ],
+    [ { a: strA, tag: "assign", name: newStrName, value: allocStr }, storeLength, ...storeChars ],
+    { a: strA, tag: "id", name: newStrName }
+  ];
+}
+
 function flattenExprToExprWithBlocks(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, IR.Expr<[Type, SourceLocation]>] {
   switch(e.tag) {
+    case "binop": {
+      // and/or only evaluate the right operand if the left one does not decide the result
+      const [sinits, sstmts, sval] = flattenExprToVal(e.left, blocks, env);
+      const shortName = generateName("shortVal");
+      const shortInit : IR.VarInit<[Type, SourceLocation]> = { a: e.a, name: shortName, type: BOOL, value: { a: e.a, tag: "none" } };
+      const rightLbl = generateName("$shortRight");
+      const shortEndLbl = generateName("$shortEnd");
+      const isAnd = e.op === AST.BinOp.And;
+
+      pushStmtsToLastBlock(blocks, ...sstmts,
+        { a: e.a, tag: "assign", name: shortName, value: { a: e.a, tag: "value", value: sval } },
+        { a: e.a, tag: "ifjmp", cond: sval, thn: isAnd ? rightLbl : shortEndLbl, els: isAnd ? shortEndLbl : rightLbl });
+      blocks.push({ a: e.a, label: rightLbl, stmts: [] });
+      const [rinits, rstmts, rval] = flattenExprToVal(e.right, blocks, env);
+      pushStmtsToLastBlock(blocks, ...rstmts,
+        { a: e.a, tag: "assign", name: shortName, value: { a: e.a, tag: "value", value: rval } },
+        { a: e.a, tag: "jmp", lbl: shortEndLbl });
+      blocks.push({ a: e.a, label: shortEndLbl, stmts: [] });
+
+      return [[...sinits, ...rinits, shortInit],
+        [],
+        { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: shortName } }
+      ];
+    }
     case "ternary":
-      var [tinits, tstmts, tval] = flattenExprToExpr(e.exprIfTrue, blocks, env);
-      var [finits, fstmts, fval] = flattenExprToExpr(e.exprIfFalse, blocks, env);
       var [condinits, condstmts, condval] = flattenExprToVal(e.ifcond, blocks, env);
 
       const resultName = generateName("resultVal");
@@ -584,142 +2025,158 @@ function flattenExprToExprWithBlocks(e : AST.Expr<[Type, SourceLocation]>, block
       const condjmp : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "ifjmp", cond: condval, thn: thenLbl, els: elseLbl };
       const endjmp : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "jmp", lbl: endLbl };
 
-      const assignTrue : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "assign", name: resultName, value: tval };
-      const assignFalse : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "assign", name: resultName, value: fval };
-
       // in case of a lonely ternary expression in the program
       if (blocks.length == 0) {
         blocks.push({ a: e.a, label: generateName("$ternaryBlock"), stmts: [] });
       }
       
+      // the branches are flattened once their blocks exist, as they may add blocks of their own
       pushStmtsToLastBlock(blocks, ...condstmts)
       pushStmtsToLastBlock(blocks, condjmp);
-      blocks.push({ a: e.a, label: thenLbl, stmts: [...tstmts, assignTrue] });
-      pushStmtsToLastBlock(blocks, endjmp);
-      blocks.push({ a: e.a, label: elseLbl, stmts: [...fstmts, assignFalse] });
-      pushStmtsToLastBlock(blocks, endjmp);
+      blocks.push({ a: e.a, label: thenLbl, stmts: [] });
+      var [tinits, tstmts, tval] = flattenExprToExpr(e.exprIfTrue, blocks, env);
+      pushStmtsToLastBlock(blocks, ...tstmts, { a: e.a, tag: "assign", name: resultName, value: tval }, endjmp);
+      blocks.push({ a: e.a, label: elseLbl, stmts: [] });
+      var [finits, fstmts, fval] = flattenExprToExpr(e.exprIfFalse, blocks, env);
+      pushStmtsToLastBlock(blocks, ...fstmts, { a: e.a, tag: "assign", name: resultName, value: fval }, endjmp);
       blocks.push({ a: e.a, label: endLbl, stmts: [] });
 
       return [[...tinits, ...condinits, ...finits, resultInit],
         [],
         { a: e.a, tag: "value", value: { a: e.a, tag: "id", name: resultName } }
       ];
-    case "comprehension":
-      // obtain the iterable obj
-      const [objinits, objstmts, objval] = flattenExprToVal(e.iterable, blocks, env);
-      var objTyp = e.iterable.a[0];
-      if(objTyp.tag !== "class") { // I don't think this error can happen
-        throw new Error("Report this as a bug to the compiler developer, this shouldn't happen " + objTyp.tag);
-      }
-      const objClassName = objTyp.name;
-      const checkObj : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: `assert_not_none`, arguments: [objval]}};
-      // method calls
-      const callHasnext : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: `${objClassName}$hasnext`, arguments: [objval] };
-      const callNext : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "call", name: `${objClassName}$next`, arguments: [objval] }
-
-      const whileStartLbl = generateName("$whilestart");
-      const whilebodyLbl = generateName("$whilebody");
-      const whileEndLbl = generateName("$whileend");
-
-      // jump to start
-      pushStmtsToLastBlock(blocks, ...objstmts, checkObj, { a: e.a, tag: "jmp", lbl: whileStartLbl });
-      blocks.push({  a: e.a, label: whileStartLbl, stmts: [] });
-      // call hasnext
-      const hasnextValName = generateName("condVal");
-      const hasnextVal : IR.VarInit<[Type, SourceLocation]> = { a: e.a, name: hasnextValName, type: { tag: "bool" }, value: { a: e.a, tag: "bool", value: false } };
-      const hasnextValAssign : IR.Stmt<[Type, SourceLocation]> =  { a: e.a, tag: "assign", name: hasnextValName, value: callHasnext };
-      const hasnext : IR.Value<[Type, SourceLocation]> = { a: e.a, tag: "id", name: hasnextValName };
-      const hasnextjmp : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "ifjmp", cond: hasnext, thn: whilebodyLbl, els: whileEndLbl };
-      pushStmtsToLastBlock(blocks, hasnextValAssign, hasnextjmp);
-
-      // body: call next and print result
-      blocks.push({  a: e.a, label: whilebodyLbl, stmts: [] })
-      const nextValName = e.item;
-      var nextValType = undefined;
-      switch (e.a[0].tag) {
-        case "generator":
-        case "list":
-          nextValType = e.a[0].type;
-          break;
-        case "set":
-        // case "dictionary":
-          nextValType = e.a[0].valueType;
-          break;
-        case "class":
-          nextValType = NONE; // any way to access type info here?
-          break;
-        default:
-          throw new Error("Iterable is cursed, go home!");
-      }
-      const nextVal : IR.VarInit<[Type, SourceLocation]> = { a: e.a, name: nextValName, type: nextValType, value: { a: e.a, tag: "none" } };
-      const nextValAssign : IR.Stmt<[Type, SourceLocation]> =  { a: e.a, tag: "assign", name: nextValName, value: callNext };
-
-      // push call to next to blocks before lhs statements get pushed on the next line
-      pushStmtsToLastBlock(blocks, nextValAssign);
-
-      // TODO: assign-destructure
-      // evaluate lhs
-      const [linits, lstmts, lval] = flattenExprToExpr(e.lhs, blocks, env); // careful with ternary case
-      const nextYieldName = generateName("nextYield");
-      const nextYield : IR.VarInit<[Type, SourceLocation]> = { a: e.a, name: nextYieldName, type: lval.a[0], value: { a: e.a, tag: "none" } };
-      const nextYieldAssign : IR.Stmt<[Type, SourceLocation]> =  { a: e.a, tag: "assign", name: nextYieldName, value: lval };
-      // for this milestone, we just print out the values
-      const callPrint : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "expr", expr: { a: e.a, tag: "call", name: "print_num", arguments: [{ a: e.a, tag: "id", name: nextYieldName }] } };
-
-      // if condition
-      const condThenLbl = generateName("$then");
-      const condEndLbl = generateName("$end");
-      const condElseLbl = generateName("$else");
-      var cinits : IR.VarInit<[Type, SourceLocation]>[] = []
-      var cstmts : IR.Stmt<[Type, SourceLocation]>[] = []
-      var cval : IR.Value<[Type, SourceLocation]> = { a: e.a, tag: "bool", value: true };
-      if (e.ifcond != undefined) {
-        [cinits, cstmts, cval] = flattenExprToVal(e.ifcond, blocks, env);
-      }
-
-      // TODO: store generated values on heap
+    case "comprehension": {
       if (e.a[0].tag === "generator") {
-        const newName = generateName("newGen");
-        // generator has two fields: size (number of elements generated), and addr (start address)
-        const size = 0; // TODO: how to know the number of elements generated at this level?
-        const startAddr = 0; // TODO: decide start address of generator, might need help from list data structure
-        const alloc : IR.Expr<[Type, SourceLocation]> = { a: e.a, tag: "alloc", amount: { a: e.a, tag: "wasmint", value: 2 } };
-        const assigns : IR.Stmt<[Type, SourceLocation]>[] = [
-          {
-            a: e.a, 
-            tag: "store",
-            start: { a: e.a, tag: "id", name: newName },
-            offset: { a: e.a, tag: "wasmint", value: 0 },
-            value: { a: e.a, tag: "wasmint", value: size }
-          },
-          {
-            a: e.a, 
-            tag: "store",
-            start: { a: e.a, tag: "id", name: newName },
-            offset: { a: e.a, tag: "wasmint", value: 1 },
-            value: { a: e.a, tag: "wasmint", value: startAddr }
-          }
-        ];
+        // the body of a generator expression, see liftGeneratorExprs
+        return [flattenComprehensionFor(e, 0, undefined, blocks, env), [], { a: e.a, tag: "value", value: { a: e.a, tag: "none" } }];
       }
+      const resultName = generateName("comp");
+      const result : IR.Value<[Type, SourceLocation]> = { a: e.a, tag: "id", name: resultName };
+      const allocResult : IR.Expr<[Type, SourceLocation]> = e.a[0].tag === "set"
+        ? { a: e.a, tag: "alloc", amount: { a: e.a, tag: "wasmint", value: 10 } }
+        : { a: e.a, tag: "call", name: "list$new", arguments: [{ a: e.a, tag: "wasmint", value: 0 }] };
+      pushStmtsToLastBlock(blocks, { a: e.a, tag: "assign", name: resultName, value: allocResult });
+      const compinits = flattenComprehensionFor(e, 0, result, blocks, env);
+      return [
+        [ { a: e.a, name: resultName, type: e.a[0], value: { a: e.a, tag: "none" } }, ...compinits ],
+        [],
+        { a: e.a, tag: "value", value: result }
+      ];
+    }
+  }
+}
+
+// The for clause i of a comprehension becomes a loop around the clauses after
+// it, the innermost loop adds the lhs to the result, or yields it for a
+// generator. Iterators are iterated through their __next__ method,
+// generators by resuming them and everything else by index, over a snapshot
+// of the keys of a dict and of the values of a set.
+function flattenComprehensionFor(e : AST.Expr<[Type, SourceLocation]>, i : number, result : IR.Value<[Type, SourceLocation]>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : Array<IR.VarInit<[Type, SourceLocation]>> {
+  if (e.tag !== "comprehension") { throw new Error("Compiler's cursed, go home."); }
+  const compFor = e.fors[i];
+  const a = compFor.a;
+  const iterTyp = compFor.iterable.a[0];
+  const startLbl = generateName("$compstart");
+  const bodyLbl = generateName("$compbody");
+  const endLbl = generateName("$compend");
+  const iterName = generateName("compiter");
+  const condName = generateName("compcond");
+  const itemName = compFor.items.length === 1 ? compFor.items[0] : generateName("compitem");
+  const idVal = (name : string, typ : Type) : IR.Value<[Type, SourceLocation]> => ({ a: [typ, a[1]], tag: "id", name });
+  const wasmint = (value : number) : IR.Value<[Type, SourceLocation]> => ({ a, tag: "wasmint", value });
+  const iter = idVal(iterName, iterTyp);
+  const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [
+    { a, name: iterName, type: iterTyp, value: { a, tag: "none" } },
+    { a, name: condName, type: BOOL, value: { a, tag: "none" } },
+    { a, name: itemName, type: a[0], value: { a, tag: "none" } }];
 
-      const condJmp : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "ifjmp", cond: cval, thn: condThenLbl, els: condElseLbl };
-      const endJmp : IR.Stmt<[Type, SourceLocation]> = { a: e.a, tag: "jmp", lbl: condEndLbl };
+  const [iinits, istmts, ival] = flattenExprToVal(compFor.iterable, blocks, env);
+  inits.push(...iinits);
+  pushStmtsToLastBlock(blocks, ...istmts,
+    { a, tag: "assign", name: iterName, value: { a, tag: "value", value: ival } },
+    { a, tag: "expr", expr: { a, tag: "call", name: "assert_not_none", arguments: [iter] } });
 
-      pushStmtsToLastBlock(blocks, ...lstmts, ...cstmts, condJmp);
-      blocks.push({ a: e.a, label: condThenLbl, stmts: [nextYieldAssign] });
-      pushStmtsToLastBlock(blocks, endJmp);
-      blocks.push({ a: e.a, label: condElseLbl, stmts: [] });
-      pushStmtsToLastBlock(blocks, endJmp);
-      blocks.push({ a: e.a, label: condEndLbl, stmts: [{ a: e.a, tag: "jmp", lbl: whileStartLbl }] });
+  if (iterTyp.tag === "generator") {
+    const startStmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+    const resume = generatorResume(a, iter, inits, startStmts);
+    startStmts.push({ a, tag: "assign", name: itemName, value: resume });
+    generatorDone(a, iter, condName, inits, startStmts);
+    startStmts.push({ a, tag: "ifjmp", cond: idVal(condName, BOOL), thn: endLbl, els: bodyLbl });
+    pushStmtsToLastBlock(blocks, { a, tag: "jmp", lbl: startLbl });
+    blocks.push({ a, label: startLbl, stmts: startStmts });
+    blocks.push({ a, label: bodyLbl, stmts: [] });
+  } else if (iterTyp.tag === "class") {
+    // an iterator, see tcIter in type-check.ts
+    const doneName = generateName("compdone");
+    inits.push({ a, name: doneName, type: NUM, value: { a, tag: "none" } });
+    pushStmtsToLastBlock(blocks,
+      { a, tag: "assign", name: doneName, value: { a, tag: "alloc", amount: wasmint(1) } },
+      { a, tag: "jmp", lbl: startLbl });
+    blocks.push({ a, label: startLbl, stmts: [] });
+    inits.push(...flattenIteratorNext(a, iter, idVal(doneName, NUM), iterTyp.name, itemName, endLbl, blocks, env));
+  } else {
+    const indexName = generateName("compindex");
+    const lengthName = generateName("complength");
+    inits.push({ a, name: indexName, type: NUM, value: { a, tag: "none" } }, { a, name: lengthName, type: NUM, value: { a, tag: "none" } });
+    if (iterTyp.tag === "dict" || iterTyp.tag === "set") {
+      const snapshot = iterTyp.tag === "dict" ? "dict$keys" : "set$items";
+      pushStmtsToLastBlock(blocks, { a, tag: "assign", name: iterName, value: { a, tag: "call", name: snapshot, arguments: [iter] } });
+    }
+    pushStmtsToLastBlock(blocks,
+      { a, tag: "assign", name: indexName, value: { a, tag: "value", value: wasmint(0) } },
+      { a, tag: "jmp", lbl: startLbl });
+    // lists may grow while being iterated, so their length is loaded every time
+    blocks.push({ a, label: startLbl, stmts: [
+      { a, tag: "assign", name: lengthName, value: { a, tag: "load", start: iter, offset: wasmint(0) } },
+      { a, tag: "assign", name: condName, value: { a, tag: "binop", op: AST.BinOp.Lt, left: idVal(indexName, NUM), right: idVal(lengthName, NUM) } },
+      { a, tag: "ifjmp", cond: idVal(condName, BOOL), thn: bodyLbl, els: endLbl }] });
+    const bodyStmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+    if (iterTyp.tag === "str") {
+      bodyStmts.push({ a, tag: "assign", name: itemName, value: { a, tag: "call", name: "str$access", arguments: [iter, idVal(indexName, NUM)] } });
+    } else {
+      const elements = listElements(inits, bodyStmts, iter);
+      bodyStmts.push({ a, tag: "assign", name: itemName, value: { a, tag: "load", start: elements, offset: idVal(indexName, NUM) } });
+    }
+    // advance the index before the rest of the body so that a false if condition can jump straight to the start
+    bodyStmts.push({ a, tag: "assign", name: indexName, value: { a, tag: "binop", op: AST.BinOp.Plus, left: idVal(indexName, NUM), right: wasmint(1) } });
+    blocks.push({ a, label: bodyLbl, stmts: bodyStmts });
+  }
 
-      blocks.push({  a: e.a, label: whileEndLbl, stmts: [] });
+  // unpack tuples into the items
+  if (compFor.items.length > 1 && a[0].tag === "tuple") {
+    const contentTypes = a[0].contentTypes;
+    compFor.items.forEach((item, k) => {
+      inits.push({ a, name: item, type: contentTypes[k], value: { a, tag: "none" } });
+      pushStmtsToLastBlock(blocks, { a, tag: "assign", name: item, value: { a, tag: "load", start: idVal(itemName, a[0]), offset: wasmint(k) } });
+    });
+  }
 
-      return [
-        [...objinits, ...cinits, ...linits, hasnextVal, nextVal, nextYield],
-        [],
-        { a: e.a, tag: "value", value: {a: e.a, tag: "bool", value: false} } // what should I return here?
-      ]
+  compFor.ifconds.forEach(ifcond => {
+    const thenLbl = generateName("$compif");
+    const [cinits, cstmts, cval] = flattenExprToVal(ifcond, blocks, env);
+    inits.push(...cinits);
+    pushStmtsToLastBlock(blocks, ...cstmts, { a, tag: "ifjmp", cond: cval, thn: thenLbl, els: startLbl });
+    blocks.push({ a, label: thenLbl, stmts: [] });
+  });
+
+  if (i + 1 < e.fors.length) {
+    inits.push(...flattenComprehensionFor(e, i + 1, result, blocks, env));
+  } else {
+    const [linits, lstmts, lval] = flattenExprToVal(e.lhs, blocks, env);
+    inits.push(...linits);
+    pushStmtsToLastBlock(blocks, ...lstmts);
+    if (e.a[0].tag === "generator") {
+      flattenYield(a, lval, blocks);
+    } else {
+      const add : IR.Expr<[Type, SourceLocation]> = e.a[0].tag === "set"
+        ? { a, tag: "call", name: "set$add", arguments: [result, lval, strKeyFlag(e.a[0], a)] }
+        : { a, tag: "call", name: "list$append", arguments: [result, lval] };
+      pushStmtsToLastBlock(blocks, { a, tag: "expr", expr: add });
+    }
   }
+  pushStmtsToLastBlock(blocks, { a, tag: "jmp", lbl: startLbl });
+  blocks.push({ a, label: endLbl, stmts: [] });
+  return inits;
 }
 
 function flattenExprToVal(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, IR.Value<[Type, SourceLocation]>] {
@@ -745,9 +2202,36 @@ function flattenExprToVal(e : AST.Expr<[Type, SourceLocation]>, blocks: Array<IR
   }
 }
 
+// Flattens call arguments in the order they were written (argOrder, from the
+// type checker) and returns their values in the order of the parameters.
+// Variables are copied when reordered, so that a later argument can't change them.
+function flattenArguments(args : Array<AST.Expr<[Type, SourceLocation]>>, argOrder : Array<number>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, env : GlobalEnv) : [Array<IR.VarInit<[Type, SourceLocation]>>, Array<IR.Stmt<[Type, SourceLocation]>>, Array<IR.Value<[Type, SourceLocation]>>] {
+  if (argOrder === undefined) {
+    const pairs = args.map(a => flattenExprToVal(a, blocks, env));
+    return [pairs.map(cp => cp[0]).flat(), pairs.map(cp => cp[1]).flat(), pairs.map(cp => cp[2])];
+  }
+  const inits : Array<IR.VarInit<[Type, SourceLocation]>> = [];
+  const stmts : Array<IR.Stmt<[Type, SourceLocation]>> = [];
+  const vals : Array<IR.Value<[Type, SourceLocation]>> = [];
+  argOrder.forEach(i => {
+    const [ainits, astmts, aval] = flattenExprToVal(args[i], blocks, env);
+    inits.push(...ainits);
+    stmts.push(...astmts);
+    if (aval.tag !== "id") {
+      vals[i] = aval;
+      return;
+    }
+    const argName = generateName("argval");
+    inits.push({ a: args[i].a, name: argName, type: args[i].a[0], value: { a: args[i].a, tag: "none" } });
+    stmts.push({ a: args[i].a, tag: "assign", name: argName, value: { a: args[i].a, tag: "value", value: aval } });
+    vals[i] = { a: args[i].a, tag: "id", name: argName };
+  });
+  return [inits, stmts, vals];
+}
+
 
-function listIndexOffsets(iinits: IR.VarInit<[AST.Type, AST.SourceLocation]>[], istmts: IR.Stmt<[AST.Type, AST.SourceLocation]>[], ival: IR.Value<[AST.Type, AST.SourceLocation]>, oval: IR.Value<[AST.Type, AST.SourceLocation]>) : IR.Value<[AST.Type, AST.SourceLocation]> {
-  // Check index is in bounds
+function checkIndex(iinits: IR.VarInit<[AST.Type, AST.SourceLocation]>[], istmts: IR.Stmt<[AST.Type, AST.SourceLocation]>[], ival: IR.Value<[AST.Type, AST.SourceLocation]>, oval: IR.Value<[AST.Type, AST.SourceLocation]>) : IR.Value<[AST.Type, AST.SourceLocation]> {
+  // Check index is in bounds, after counting a negative one from the end
   var listLength = generateName("listlength");
   var setLength : IR.Stmt<[Type, SourceLocation]> = {
     tag: "assign",
@@ -761,19 +2245,37 @@ function listIndexOffsets(iinits: IR.VarInit<[AST.Type, AST.SourceLocation]>[],
   };
   iinits.push({ a: ival.a, name: listLength, type: {tag: "number"}, value: { a: ival.a, tag: "none" } })
   istmts.push(setLength);
-  const checkIndex: IR.Stmt<[Type, SourceLocation]> = { a: ival.a, tag: "expr", expr: { a: ival.a, tag: "call", name: `index_out_of_bounds`, arguments: [{tag: "id", name: listLength, a: ival.a}, ival, {a: ival.a, tag: "wasmint", value: ival.a[1].line}, {a: ival.a, tag: "wasmint", value: ival.a[1].column}]}}
+  var checkedIndex = generateName("checkedindex");
+  iinits.push({ a: ival.a, name: checkedIndex, type: NUM, value: { a: ival.a, tag: "none" } })
+  const checkIndex: IR.Stmt<[Type, SourceLocation]> = { a: ival.a, tag: "assign", name: checkedIndex, value: { a: ival.a, tag: "call", name: `index_out_of_bounds`, arguments: [{tag: "id", name: listLength, a: ival.a}, ival, {a: ival.a, tag: "wasmint", value: ival.a[1].line}, {a: ival.a, tag: "wasmint", value: ival.a[1].column}]}}
   istmts.push(checkIndex);
+  return { a: ival.a, tag: "id", name: checkedIndex };
+}
+
+// Lists are laid out as [length, capacity, elements] with the elements in a
+// block of their own (see stdlib/lists.wat), this loads the address of that block
+function listElements(inits: IR.VarInit<[AST.Type, AST.SourceLocation]>[], stmts: IR.Stmt<[AST.Type, AST.SourceLocation]>[], oval: IR.Value<[AST.Type, AST.SourceLocation]>) : IR.Value<[AST.Type, AST.SourceLocation]> {
+  const elementsName = generateName("listelements");
+  inits.push({ a: oval.a, name: elementsName, type: NUM, value: { a: oval.a, tag: "none" } });
+  stmts.push({ a: oval.a, tag: "assign", name: elementsName, value: { a: oval.a, tag: "load", start: oval, offset: { a: oval.a, tag: "wasmint", value: 2 } } });
+  return { a: oval.a, tag: "id", name: elementsName };
+}
+
+// The printer only gets an index into env.printTypes for the type of the value
+function printTypeIndex(env : GlobalEnv, t : Type) : number {
+  const index = env.printTypes.findIndex(printType => JSON.stringify(printType) === JSON.stringify(t));
+  if (index >= 0)
+    return index;
+  env.printTypes.push(t);
+  return env.printTypes.length - 1;
+}
 
-  // Get rest of index offsets
-  const value1: IR.Value<[Type, SourceLocation]> = { a: ival.a, tag: "wasmint", value: 1 };
-  const indexAdd1Expr: IR.Expr<[Type, SourceLocation]> = {  a: ival.a, tag: "binop", op: AST.BinOp.Plus, left: ival, right: value1};
-  const offsetName = generateName("offsetname");
-  const offsetInit: IR.VarInit<[Type, SourceLocation]> = { a: ival.a, name: offsetName, type: {tag: "number"}, value: { a: ival.a, tag: "none" } }
-  iinits.push(offsetInit);
-  const setOffset : IR.Stmt<[Type, SourceLocation]> = { tag: "assign", a: ival.a, name: offsetName, value: indexAdd1Expr };
-  istmts.push(setOffset);
-  const offsetValue: IR.Value<[Type, SourceLocation]> = {tag: "id", name: offsetName, a: ival.a}
-  return offsetValue;
+// How list$contains and list$remove compare elements, see stdlib/lists.wat
+function listEqKind(t : Type, env : GlobalEnv, a : [Type, SourceLocation]) : IR.Value<[Type, SourceLocation]> {
+  if (t.tag !== "list") { throw new Error("Compiler's cursed, go home."); }
+  const byType = ["tuple", "list", "class"].includes(t.type.tag);
+  const kind = t.type.tag === "str" ? 1 : t.type.tag === "number" ? 2 : byType ? 3 + printTypeIndex(env, t.type) : 0;
+  return { a: a, tag: "wasmint", value: kind };
 }
 
 function pushStmtsToLastBlock(blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, ...stmts: Array<IR.Stmt<[Type, SourceLocation]>>) {
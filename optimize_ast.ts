@@ -1,5 +1,6 @@
 import { Type, Program, SourceLocation, FunDef, Expr, Stmt, Literal, BinOp, UniOp, Class} from './ast';
 import { BuiltinLib } from './builtinlib'
+import { floorDiv, floorMod, intPow, raisesAtRuntime } from './bignum';
 
 let isChanged = false;
 
@@ -38,7 +39,7 @@ function optimizeFuncDef(funDef: FunDef<[Type, SourceLocation]>): FunDef<[Type,
     var optBody = deadCodeElimination(funDef.body);
     // Constant folding
     optBody = optBody.map(stmt => optimizeStmt(stmt));
-    return {...funDef, body: optBody};
+    return {...funDef, funs: funDef.funs?.map(optimizeFuncDef), body: optBody};
 }
 
 function optimizeClassDef(classDef: Class<[Type, SourceLocation]>): Class<[Type, SourceLocation]> {
@@ -116,7 +117,12 @@ function optimizeExpr(expr: Expr<[Type, SourceLocation]>): Expr<[Type, SourceLoc
         case "binop":
             var optLhs = optimizeExpr(expr.left);
             var optRhs = optimizeExpr(expr.right);
-            if(optLhs.tag == "literal" && optRhs.tag == "literal"){
+            if((expr.op == BinOp.And || expr.op == BinOp.Or) && optLhs.tag == "literal" && optLhs.value.tag == "bool"){
+                // a constant left operand decides whether the right one is evaluated at all
+                isChanged = true;
+                return optLhs.value.value === (expr.op == BinOp.Or) ? optLhs : optRhs;
+            }
+            if(optLhs.tag == "literal" && optRhs.tag == "literal" && !raisesAtRuntime(expr.op, optRhs.value)){
                 var A = expr.a;
                 var lit = foldBinop(optLhs.value, optRhs.value, expr.op);
                 isChanged = true;
@@ -156,98 +162,58 @@ function checkBuiltin(name:string): boolean {
     return false;
 }
 
+// Calls a builtin on bigints (see builtinlib.ts) when its arguments are all
+// int literals. One that raises is left to raise at runtime.
+function foldIntBuiltin(expr: Expr<[Type, SourceLocation]>, optArgs: Expr<[Type, SourceLocation]>[]): Expr<[Type, SourceLocation]> {
+    if (expr.tag !== "call") { throw new Error("Compiler's cursed, go home."); }
+    const values : Array<bigint> = [];
+    optArgs.forEach(arg => {
+        if (arg.tag === "literal" && arg.value.tag === "num")
+            values.push(arg.value.value);
+    });
+    if (values.length !== optArgs.length)
+        return { ...expr, arguments: optArgs };
+    const body = BuiltinLib.find(func => func.name === expr.name).body;
+    try {
+        const result : bigint = body(...values);
+        isChanged = true;
+        return { a: expr.a, tag: "literal", value: { a: expr.a, tag: "num", value: result } };
+    } catch (err) {
+        return { ...expr, arguments: optArgs };
+    }
+}
+
 function optimizeBuiltin(expr: Expr<[Type, SourceLocation]>, optArgs: Expr<[Type, SourceLocation]>[]): Expr<[Type, SourceLocation]> {
     if (expr.tag === "call") {
         switch (expr.name) {
-            case "factorial": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num") {
-                    const result = BuiltinLib[0].body(optArgs[0].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
-            case "gcd": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num" && optArgs[1].tag === "literal" && optArgs[1].value.tag === "num") {
-                    const result = BuiltinLib[2].body(optArgs[0].value.value, optArgs[1].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
-            case "lcm": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num" && optArgs[1].tag === "literal" && optArgs[1].value.tag === "num") {
-                    const result = BuiltinLib[3].body(optArgs[0].value.value, optArgs[1].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
-            case "comb": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num" && optArgs[1].tag === "literal" && optArgs[1].value.tag === "num") {
-                    const result = BuiltinLib[4].body(optArgs[0].value.value, optArgs[1].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
-            case "perm": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num" && optArgs[1].tag === "literal" && optArgs[1].value.tag === "num") {
-                    const result = BuiltinLib[5].body(optArgs[0].value.value, optArgs[1].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
+            case "factorial":
+            case "gcd":
+            case "lcm":
+            case "comb":
+            case "perm":
+                return foldIntBuiltin(expr, optArgs);
             // sleep does not need optimization
             case "int": {
                 if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "bool") {
                     const result = BuiltinLib[9].body(optArgs[0].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
+                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:BigInt(result) } };
                 } else {
                     return { ...expr, arguments: optArgs };
                 }
             }
             case "bool": {
                 if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num") {
-                    const result = BuiltinLib[10].body(optArgs[0].value.value);
+                    const result = BuiltinLib[10].body(Number(optArgs[0].value.value));
                     return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"bool", value:result } };
                 } else {
                     return { ...expr, arguments: optArgs };
                 }
             }
-            case "abs": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num") {
-                    const result = BuiltinLib[11].body(optArgs[0].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
-            case "min": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num" && optArgs[1].tag === "literal" && optArgs[1].value.tag === "num") {
-                    const result = BuiltinLib[12].body(optArgs[0].value.value, optArgs[1].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
-            case "max": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num" && optArgs[1].tag === "literal" && optArgs[1].value.tag === "num") {
-                    const result = BuiltinLib[13].body(optArgs[0].value.value, optArgs[1].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
-            case "pow": {
-                if (optArgs[0].tag === "literal" && optArgs[0].value.tag === "num" && optArgs[1].tag === "literal" && optArgs[1].value.tag === "num") {
-                    const result = BuiltinLib[14].body(optArgs[0].value.value, optArgs[1].value.value);
-                    return { a: expr.a, tag: "literal", value: { a: expr.a, tag:"num", value:result } };
-                } else {
-                    return { ...expr, arguments: optArgs };
-                }
-            }
+            case "abs":
+            case "min":
+            case "max":
+            case "pow":
+                return foldIntBuiltin(expr, optArgs);
             default: {
                 return { ...expr, arguments: optArgs };
             }
@@ -278,6 +244,9 @@ function optimizeStmt(stmt: Stmt<[Type, SourceLocation]>): Stmt<[Type, SourceLoc
         case "field-assign":
             var optValue = optimizeExpr(stmt.value);
             return {...stmt, value: optValue};
+        case "assert":
+            var optTest = optimizeExpr(stmt.test);
+            return {...stmt, test: optTest};
         default:
             return {...stmt};
     }
@@ -287,15 +256,15 @@ function foldBuiltin2(lsh: Literal<[Type, SourceLocation]>, rhs: Literal<[Type,
     switch (name) {
         case "max":
             if (lsh.tag === "num" && rhs.tag === "num")
-                return {a:lsh.a,tag: "num", value: Math.max(lsh.value, rhs.value)};
+                return {a:lsh.a,tag: "num", value: lsh.value > rhs.value ? lsh.value : rhs.value};
             return {a:lsh.a,tag: "none"};
         case "min":
             if (lsh.tag === "num" && rhs.tag === "num")
-                return {a:lsh.a,tag: "num", value: Math.min(lsh.value, rhs.value)};
+                return {a:lsh.a,tag: "num", value: lsh.value < rhs.value ? lsh.value : rhs.value};
             return {a:lsh.a,tag: "none"};
         case "pow":
             if (lsh.tag === "num" && rhs.tag === "num")
-                return {a:lsh.a,tag: "num", value: Math.pow(lsh.value, rhs.value)};
+                return {a:lsh.a,tag: "num", value: intPow(lsh.value, rhs.value)};
             return {a:lsh.a,tag: "none"};
         default:
             return {a:lsh.a,tag: "none"};
@@ -305,6 +274,9 @@ function foldBuiltin2(lsh: Literal<[Type, SourceLocation]>, rhs: Literal<[Type,
 function foldBinop(lhs: Literal<[Type, SourceLocation]>, rhs: Literal<[Type, SourceLocation]>, op: BinOp): Literal<[Type, SourceLocation]>{
     switch(op) {
         case BinOp.Plus:
+            if(lhs.tag === "str" && rhs.tag === "str"){
+                return {a:lhs.a,tag: "str", value: lhs.value + rhs.value};
+            }
             if(lhs.tag !== "num" || rhs.tag !== "num"){
                 return {a:lhs.a, tag: "none"};
             }  
@@ -323,12 +295,17 @@ function foldBinop(lhs: Literal<[Type, SourceLocation]>, rhs: Literal<[Type, Sou
             if(lhs.tag !== "num" || rhs.tag !== "num"){
                 return {a:lhs.a,tag: "none"};
             }  
-            return {a:lhs.a,tag: "num", value: Math.floor(lhs.value / rhs.value)};
+            return {a:lhs.a,tag: "num", value: floorDiv(lhs.value, rhs.value)};
         case BinOp.Mod:
             if(lhs.tag !== "num" || rhs.tag !== "num"){
                 return {a:lhs.a,tag: "none"};
             }  
-            return {a:lhs.a,tag: "num", value: lhs.value % rhs.value};
+            return {a:lhs.a,tag: "num", value: floorMod(lhs.value, rhs.value)};
+        case BinOp.Pow:
+            if(lhs.tag !== "num" || rhs.tag !== "num"){
+                return {a:lhs.a,tag: "none"};
+            }  
+            return {a:lhs.a,tag: "num", value: lhs.value ** rhs.value};
         case BinOp.Eq:
             if(lhs.tag === "none" || rhs.tag === "none" || lhs.tag === "TypeVar" || rhs.tag === "TypeVar"){
                 return {a:lhs.a,tag: "bool", value: true};
@@ -380,7 +357,7 @@ function foldUniop(expr: Literal<[Type, SourceLocation]>, op: UniOp): Literal<[T
             if(expr.tag != "num"){
                 return {a:expr.a,tag: "none"};
             }
-            return {tag: "num", value: -1*expr.value, a: expr.a};
+            return {tag: "num", value: -expr.value, a: expr.a};
         case UniOp.Not:
             if(expr.tag != "bool"){
                 return {a:expr.a,tag: "none"};
@@ -429,6 +406,15 @@ function DCEForControlFlow(stmts: Array<Stmt<[Type, SourceLocation]>>): Array<St
                     rstmts.push({...stmt, body:newWhileBody});
                 }
                 break;
+            case "assert":
+                // an assert that always holds never raises
+                if (stmt.test.tag === "literal" && stmt.test.value.tag === "bool" && stmt.test.value.value === true) {
+                    isChanged = true;
+                    rstmts.push({ a: [{tag: "none"}, stmt.a[1]], tag: "pass"});
+                } else {
+                    rstmts.push(stmt);
+                }
+                break;
             default:
                 rstmts.push(stmt);
         }
@@ -5,6 +5,7 @@ import { Type, Program, SourceLocation, FunDef, Expr, Stmt, Literal, BinOp, UniO
 import * as IR from './ir';
 import { lowerProgram } from './lower';
 import { NONE } from './utils';
+import { floorDiv, floorMod, raisesAtRuntime } from './bignum';
 
 export type Line = {block: string, line: number};
 export type varant_in_line = {line: Line, varant: Map<string, Set<Line>>};
@@ -24,11 +25,14 @@ export function optimizeIr(program: IR.Program<[Type, SourceLocation]>) : IR.Pro
         const optFuns = newProgram.funs.map(funDef => optimizeFuncDef([], funDef, newProgram));
         const optClss = newProgram.classes.map(classDef => optimizeClass(classDef, newProgram));
         var optStmts = newProgram.body.map(optBasicBlock);
-        optStmts = needednessDCE(optStmts);
-        // optStmts = livenessDCE(optStmts);
-        const cfa: CFA = flow_wklist([], newProgram.inits, optStmts);
-        // printCFA(cfa);
-        optStmts = constantPropagation([], newProgram.inits, optStmts, cfa);
+        if (!hasHandlers(optStmts)) {
+            const [read, written] = globalsUsedByFuns(newProgram);
+            optStmts = needednessDCE(optStmts, read);
+            // optStmts = livenessDCE(optStmts);
+            const cfa: CFA = flow_wklist([], newProgram.inits, optStmts, written);
+            // printCFA(cfa);
+            optStmts = constantPropagation([], newProgram.inits, optStmts, cfa);
+        }
         newProgram = {...newProgram, funs: optFuns, classes: optClss, body: optStmts};
         // console.log(counter++);
     } while(isChanged);
@@ -77,6 +81,14 @@ function getNeededExpr(expr: IR.Expr<[Type, SourceLocation]>): Set<string> {
             }
             return necArg;
         }
+        case "call_indirect": {
+            var necArg: Set<string> = getNeededValue(expr.fn);
+            for(let arg of expr.arguments) {
+                let necValue = getNeededValue(arg);
+                necArg = new Set([...necArg, ...necValue]);
+            }
+            return necArg;
+        }
         case "alloc": {
             return getNeededValue(expr.amount);
         }
@@ -111,6 +123,14 @@ function getUsedValue(expr: IR.Expr<[Type, SourceLocation]>): Set<string> {
             }
             return argSet;
         }
+        case "call_indirect": {
+            const argSet: Set<string> = getNeededValue(expr.fn);
+            for (let arg of expr.arguments) {
+                const argVal = getNeededValue(arg);
+                argVal.forEach(arg => argSet.add(arg));
+            }
+            return argSet;
+        }
         case "alloc":
             return getNeededValue(expr.amount);
         case "load":
@@ -124,7 +144,11 @@ function getUsedValue(expr: IR.Expr<[Type, SourceLocation]>): Set<string> {
  * Implement based on https://www.cs.cmu.edu/~rjsimmon/15411-f15/lec/07-dataflow.pdf
  * @param stmt 
  */
-function getNeededStmt(stmt: IR.Stmt<[Type, SourceLocation]>, nextLineNec: Set<string>, np: needed_predicate): Set<string> {
+function getNeededStmt(stmt: IR.Stmt<[Type, SourceLocation]>, nextLineNec: Set<string>, np: needed_predicate, escaping: Set<string>): Set<string> {
+    if (callsFunction(stmt)) {
+        // the callee may read any global a function uses
+        nextLineNec = new Set([...nextLineNec, ...escaping]);
+    }
     switch(stmt.tag) {
         case "assign": {
             const currentNeeded: Set<string> = new Set();
@@ -144,7 +168,10 @@ function getNeededStmt(stmt: IR.Stmt<[Type, SourceLocation]>, nextLineNec: Set<s
         case "return": {
             // there will not be any stmts after return
             // after DCE in AST
-            return getNeededValue(stmt.value);
+            return new Set([...getNeededValue(stmt.value), ...escaping]);
+        }
+        case "throw": {
+            return new Set([...getNeededValue(stmt.value), ...escaping]);
         }
         case "expr": {
             return new Set([...getNeededExpr(stmt.expr), ...nextLineNec]);
@@ -178,7 +205,7 @@ function getNeededStmt(stmt: IR.Stmt<[Type, SourceLocation]>, nextLineNec: Set<s
     }
 }
 
-export function needednessAnalysis(blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>): needed_predicate {
+export function needednessAnalysis(blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, escaping: Set<string> = new Set()): needed_predicate {
     var saturated = false;
     var np: needed_predicate = new Map();
     // backward propagation
@@ -191,8 +218,9 @@ export function needednessAnalysis(blocks: Array<IR.BasicBlock<[Type, SourceLoca
                 const cur_line_label = label_prefix + i.toString();
                 const succ_line_label = label_prefix + (i+1).toString();
                 const cur_stmt = block.stmts[i];
-                const nextLineNeeded: Set<string> = (np.has(succ_line_label) ? np.get(succ_line_label) : new Set());
-                const cur_this_need = getNeededStmt(cur_stmt, nextLineNeeded, np);
+                // falling off the end of the last block leaves these blocks
+                const nextLineNeeded: Set<string> = (np.has(succ_line_label) ? np.get(succ_line_label) : escaping);
+                const cur_this_need = getNeededStmt(cur_stmt, nextLineNeeded, np, escaping);
                 // If the predicate at current line is changed
                 if (!np.has(cur_line_label) || 
                     !eqSet(cur_this_need, np.get(cur_line_label))) {
@@ -215,13 +243,14 @@ function isCurValNeeded(val: IR.Value<[Type, SourceLocation]>, curNp: Set<string
     return false;
 }
 
-function isCurStmtNeeded(stmt: IR.Stmt<[Type, SourceLocation]>, np: needed_predicate, curLabel: string, idx: number): boolean {
+function isCurStmtNeeded(stmt: IR.Stmt<[Type, SourceLocation]>, np: needed_predicate, curLabel: string, idx: number, escaping: Set<string>): boolean {
     const curNp = np.get(curLabel + idx.toString());
     switch (stmt.tag) {
         case "assign": {
             const next_label = curLabel + (idx+1).toString();
             let left_needed = false;
-            if (np.has(next_label) && np.get(next_label).has(stmt.name)) left_needed = true;
+            const nextNp = np.has(next_label) ? np.get(next_label) : escaping;
+            if (nextNp.has(stmt.name)) left_needed = true;
             if (left_needed || isCurExprNeeded(stmt.value, curNp)) return true;
             return false;
         }
@@ -259,7 +288,8 @@ function isCurExprNeeded(expr: IR.Expr<[Type, SourceLocation]>, curNp: Set<strin
         case "uniop": {
             return isCurValNeeded(expr.expr, curNp);
         }
-        case "call": {
+        case "call":
+        case "call_indirect": {
             return true;
         }
         case "alloc": {
@@ -271,8 +301,12 @@ function isCurExprNeeded(expr: IR.Expr<[Type, SourceLocation]>, curNp: Set<strin
     }
 }
 
-export function needednessDCE(blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>): Array<IR.BasicBlock<[Type, SourceLocation]>> {
-    const np: needed_predicate = needednessAnalysis(blocks);
+/**
+ * escaping are the globals code outside of blocks may read: they stay
+ * needed at calls, and when the function returns
+ */
+export function needednessDCE(blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, escaping: Set<string> = new Set()): Array<IR.BasicBlock<[Type, SourceLocation]>> {
+    const np: needed_predicate = needednessAnalysis(blocks, escaping);
     const lp: live_predicate = liveness_analysis(blocks);
     //console.log(np);
     //console.log(lp);
@@ -282,7 +316,7 @@ export function needednessDCE(blocks: Array<IR.BasicBlock<[Type, SourceLocation]
         blockStmts = [];
         for (const [stmtIndex, stmt] of block.stmts.entries()) {
             let stmtLabel = block.label+stmtIndex.toString();           
-            if (np.has(stmtLabel) && !isCurStmtNeeded(stmt, np, block.label, stmtIndex)) {
+            if (np.has(stmtLabel) && !isCurStmtNeeded(stmt, np, block.label, stmtIndex, escaping)) {
                 isChanged = true;
                 continue;
             }
@@ -393,6 +427,10 @@ function constantPropagationExpr(expr: IR.Expr<[Type, SourceLocation]>, cfa: CFA
             let newArgs = expr.arguments.map(arg => constantPropagationValue(arg, cfa, line, gInits, inits, blocks));
             return {...expr, arguments: newArgs};
         }
+        case "call_indirect": {
+            let newArgs = expr.arguments.map(arg => constantPropagationValue(arg, cfa, line, gInits, inits, blocks));
+            return {...expr, fn: constantPropagationValue(expr.fn, cfa, line, gInits, inits, blocks), arguments: newArgs};
+        }
         case "alloc":
         case "load":
         default:
@@ -485,10 +523,22 @@ function optBasicBlock(bb: IR.BasicBlock<[Type, SourceLocation]>): IR.BasicBlock
     return {...bb, stmts: bb.stmts.map(optimizeIRStmt)};
 }
 
+/**
+ * Blocks entered through an exception handler have no jmp leading to them,
+ * so the dataflow analyses would treat them as dead
+ */
+function hasHandlers(blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>): boolean {
+    return blocks.some(block => block.stmts.some(stmt => stmt.tag === "handler"));
+}
+
 function optimizeFuncDef(gInits: Array<IR.VarInit<[Type, SourceLocation]>>, fun: IR.FunDef<[Type, SourceLocation]>, program: IR.Program<[Type, SourceLocation]>): IR.FunDef<[Type, SourceLocation]> {
     let newFunBody = fun.body.map(optBasicBlock);
-    newFunBody = needednessDCE(newFunBody);
-    var cfa_fun: CFA = flow_wklist(gInits, fun.inits, newFunBody);
+    if (hasHandlers(newFunBody)) {
+        return {...fun, body: newFunBody};
+    }
+    const [read, written] = globalsUsedByFuns(program);
+    newFunBody = needednessDCE(newFunBody, new Set([...read, ...written]));
+    var cfa_fun: CFA = flow_wklist(gInits, fun.inits, newFunBody, written);
     newFunBody = constantPropagation(gInits, fun.inits, newFunBody, cfa_fun);
     return {...fun, body: newFunBody};
 }
@@ -503,9 +553,15 @@ function optimizeIRStmt(stmt: IR.Stmt<[Type, SourceLocation]>): IR.Stmt<[Type, S
             return {...stmt, value: optimizeIRExpr(stmt.value)};
         case "expr":
             return {...stmt, expr: optimizeIRExpr(stmt.expr)};
+        case "ifjmp":
+            // a constant condition, like that of an assert known to hold, picks the branch
+            if (stmt.cond.tag === "bool") {
+                isChanged = true;
+                return {a: stmt.a, tag: "jmp", lbl: stmt.cond.value ? stmt.thn : stmt.els};
+            }
+            return stmt;
         case "return":
         case "pass":
-        case "ifjmp":
         case "jmp":
         case "store":
             return stmt;
@@ -519,7 +575,7 @@ function optimizeIRExpr(expr: IR.Expr<[Type, SourceLocation]>): IR.Expr<[Type, S
         case "value":
             return expr;
         case "binop": 
-            if (bfoldable.includes(expr.left.tag) && bfoldable.includes(expr.right.tag)) {
+            if (bfoldable.includes(expr.left.tag) && bfoldable.includes(expr.right.tag) && !raisesAtRuntime(expr.op, expr.right)) {
                 isChanged = true;
                 return {tag: "value", value: foldBinop(expr.left, expr.right, expr.op), a: expr.a};
             }
@@ -563,13 +619,17 @@ function foldBinop(lhs: IR.Value<[Type, SourceLocation]>, rhs: IR.Value<[Type, S
             if(lhs.tag !== "num" || rhs.tag !== "num"){
                 return {tag: "none", a: lhs.a};
             }  
-            // bigint do intDiv
-            return {tag: "num", value: lhs.value / rhs.value, a: lhs.a};
+            return {tag: "num", value: floorDiv(lhs.value, rhs.value), a: lhs.a};
         case BinOp.Mod:
             if(lhs.tag !== "num" || rhs.tag !== "num"){
                 return {tag: "none", a: lhs.a};
             }  
-            return {tag: "num", value: lhs.value + rhs.value, a: lhs.a};
+            return {tag: "num", value: floorMod(lhs.value, rhs.value), a: lhs.a};
+        case BinOp.Pow:
+            if(lhs.tag !== "num" || rhs.tag !== "num"){
+                return {tag: "none", a: lhs.a};
+            }  
+            return {tag: "num", value: lhs.value ** rhs.value, a: lhs.a};
         case BinOp.Eq:
             if(lhs.tag === "none" || rhs.tag === "none"){
                 return {tag: "bool", value: true, a: lhs.a};
@@ -689,6 +749,7 @@ function live_stmt(stmt: IR.Stmt<[Type, SourceLocation]>, live_u: Set<string>, l
             return live_asgn;
         }
         case "return":
+        case "throw":
             return live_val(stmt.value);
         case "expr":
             return live_expr(stmt.expr);
@@ -732,7 +793,8 @@ function live_expr(expr: IR.Expr<[Type, SourceLocation]>): Set<string> {
         case "uniop":
             return live_val(expr.expr);
         case "call":
-            const live_args: Set<string>= new Set();
+        case "call_indirect":
+            const live_args: Set<string>= expr.tag === "call_indirect" ? live_val(expr.fn) : new Set();
             expr.arguments.forEach(arg => {
                 const live_arg = live_val(arg);
                 if (live_arg.size != 0)
@@ -757,7 +819,38 @@ function live_val(val: IR.Value<[Type, SourceLocation]>): Set<string> {
 }
 
 
-function flow_wklist(gInits: Array<IR.VarInit<[Type, SourceLocation]>>, inits: Array<IR.VarInit<[Type, SourceLocation]>>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>): CFA{
+/**
+ * The globals the functions of the program read, and those they assign to
+ * after declaring them global. In a function, every name that is not a
+ * parameter or a local is a global.
+ */
+function globalsUsedByFuns(program: IR.Program<[Type, SourceLocation]>): [Set<string>, Set<string>] {
+    const read: Set<string> = new Set();
+    const written: Set<string> = new Set();
+    [...program.funs, ...program.classes.map(cls => cls.methods).flat()].forEach(fun => {
+        const locals = new Set([...fun.parameters.map(p => p.name), ...fun.inits.map(i => i.name)]);
+        fun.body.forEach(block => block.stmts.forEach(stmt => {
+            if (stmt.tag === "assign" && !locals.has(stmt.name))
+                written.add(stmt.name);
+            live_stmt(stmt, new Set(), new Map()).forEach(name => {
+                if (!locals.has(name))
+                    read.add(name);
+            });
+        }));
+    });
+    return [read, written];
+}
+
+function callsFunction(stmt: IR.Stmt<[Type, SourceLocation]>): boolean {
+    const expr = stmt.tag === "assign" ? stmt.value : stmt.tag === "expr" ? stmt.expr : undefined;
+    return expr !== undefined && (expr.tag === "call" || expr.tag === "call_indirect");
+}
+
+/**
+ * Reaching definitions. A call may run a function that assigns to one of the
+ * globals in written, so for those the call counts as another definition.
+ */
+function flow_wklist(gInits: Array<IR.VarInit<[Type, SourceLocation]>>, inits: Array<IR.VarInit<[Type, SourceLocation]>>, blocks: Array<IR.BasicBlock<[Type, SourceLocation]>>, written: Set<string>): CFA{
     var result: CFA = new Array();
     var initialMap: Map<string, Set<Line>> = new Map();
     var line2num: Map<string, number> = new Map();
@@ -810,6 +903,13 @@ function flow_wklist(gInits: Array<IR.VarInit<[Type, SourceLocation]>>, inits: A
         var curLine = wklist.pop();
         var curStmt = getStmt(result[curLine].line, blocks);
         var changed = false;
+        var curVarant = result[curLine].varant;
+        if (written.size > 0 && callsFunction(curStmt)) {
+            curVarant = new Map(curVarant);
+            for (let name of Array.from(written)) {
+                curVarant.set(name, new Set([...(curVarant.get(name) || []), result[curLine].line]));
+            }
+        }
         if(curStmt.tag === 'assign'){
             if(curLine >= result.length-1){
                 continue;
@@ -824,13 +924,13 @@ function flow_wklist(gInits: Array<IR.VarInit<[Type, SourceLocation]>>, inits: A
                 changed = true;
             }
             result[nxt].varant.set(curStmt.name, new Set([...newSet, result[curLine].line]));
-            for(let key of result[curLine].varant.keys()){
+            for(let key of curVarant.keys()){
                 if(key !== curStmt.name){
                     var nxtSet: Set<Line> = new Set();
                     if(result[nxt].varant.has(key)){
                         nxtSet = result[nxt].varant.get(key);
                     }
-                    var curSet: Set<Line> = result[curLine].varant.get(key);
+                    var curSet: Set<Line> = curVarant.get(key);
                     if(!isSubSet(curSet, nxtSet)){
                         changed = true;
                     }
@@ -849,12 +949,12 @@ function flow_wklist(gInits: Array<IR.VarInit<[Type, SourceLocation]>>, inits: A
             }
             for(let n of nxts){
                 changed = false;
-                for(let key of result[curLine].varant.keys()){
+                for(let key of curVarant.keys()){
                     var nxtSet: Set<Line> = new Set();
                     if(result[n].varant.has(key)){
                         nxtSet = result[n].varant.get(key);
                     }
-                    var curSet: Set<Line> = result[curLine].varant.get(key);
+                    var curSet: Set<Line> = curVarant.get(key);
                     if(!isSubSet(curSet, nxtSet)){
                         changed = true;
                     }
@@ -1,18 +1,5 @@
 import { BasicREPL, ObjectField } from "./repl";
-import { Type, Value } from "./ast";
-
-function stringify(typ: Type, arg: any) : string {
-  switch(typ.tag) {
-    case "number":
-      return (arg as number).toString();
-    case "bool":
-      return (arg as boolean)? "True" : "False";
-    case "none":
-      return "None";
-    case "class":
-      return typ.name;
-  }
-}
+import { Value } from "./ast";
 
 //ref: https://www.w3schools.com/howto/howto_js_accordion.asp
 function initialAccordionEvent() {
@@ -47,6 +34,9 @@ function renderConstField(key: string, value: Value, elt: HTMLElement){
     case "bool":
       elt.innerHTML = "<b class='tag'>" + key + ": </b><p class='val'>" + (value.value) ? "True" : "False" + "</p>";
       break;
+    case "str":
+      elt.innerHTML = "<b class='tag'>" + key + ": </b><p class='val'>" + "'" + value.value + "'" + "</p>";
+      break;
     default:
       throw new Error(`This is not a const field: ${value}`);
   }
@@ -110,6 +100,9 @@ function renderNewLine(result: Value, elt: HTMLElement){
     case "bool":
       elt.innerHTML = (result.value) ? "True" : "False";
       break;
+    case "str":
+      elt.innerText = "'" + result.value + "'";
+      break;
     case "object":
       elt.innerHTML = `Object: ${result.name}`
       break
@@ -131,12 +124,20 @@ export function renderResult(result : Value, objectTrackList: Array<ObjectField>
   }
 }
 
-export function renderPrint(typ: Type, arg : number) : any {
-  // console.log("Logging from WASM: ", arg);
-  const elt = document.createElement("pre");
-  document.getElementById("output").appendChild(elt);
-  elt.innerText = stringify(typ, arg);
-  return arg;
+// Printed text continues the last line printed until a newline ends it
+var lineOpen = false;
+export function renderPrint(text : string) : any {
+  const output = document.getElementById("output");
+  const lines = text.split("\n");
+  lines.forEach((line, i) => {
+    if (i === lines.length - 1 && line === "")
+      return;
+    if (i > 0 || !lineOpen)
+      output.appendChild(document.createElement("pre"));
+    (output.lastElementChild as HTMLElement).innerText += line;
+  });
+  lineOpen = !text.endsWith("\n");
+  return 0;
 }
 
 export function renderError(result : any) : void {
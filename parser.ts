@@ -1,7 +1,7 @@
 import {parser} from "lezer-python";
 import { TreeCursor} from "lezer-tree";
-import { Program, Expr, Stmt, UniOp, BinOp, Parameter, Type, FunDef, VarInit, Class, Literal, SourceLocation, DestructureLHS, AssignTarget } from "./ast";
-import { NUM, BOOL, NONE, CLASS, TYPE_VAR } from "./utils";
+import { Program, Expr, Stmt, UniOp, BinOp, Parameter, Type, FunDef, VarInit, Class, Literal, SourceLocation, DestructureLHS, AssignTarget, ExceptHandler, ComprehensionFor } from "./ast";
+import { NUM, BOOL, STR, NONE, CLASS, TYPE_VAR } from "./utils";
 import { stringifyTree } from "./treeprinter";
 import { ParseError} from "./error_reporting";
 
@@ -25,7 +25,7 @@ export function traverseLiteral(c : TreeCursor, s : string) : Literal<SourceLoca
     case "Number":
       return {
         tag: "num",
-        value: Number(s.substring(c.from, c.to)),
+        value: BigInt(s.substring(c.from, c.to)),
         a: location,
       }
     case "Boolean":
@@ -39,6 +39,12 @@ export function traverseLiteral(c : TreeCursor, s : string) : Literal<SourceLoca
         tag: "none",
         a: location
       }
+    case "String":
+      return {
+        tag: "str",
+        value: traverseString(s.substring(c.from, c.to), location),
+        a: location
+      }
     case "CallExpression":
       const call_str = s.substring(c.from, c.to);
       const call_name = call_str.split('(')[0];
@@ -53,12 +59,40 @@ export function traverseLiteral(c : TreeCursor, s : string) : Literal<SourceLoca
   }
 }
 
+// Strip the quotes off a string literal and resolve its escape sequences
+function traverseString(literal : string, location : SourceLocation) : string {
+  var quote = literal.startsWith('"""') || literal.startsWith("'''") ? 3 : 1;
+  var body = literal.substring(quote, literal.length - quote);
+  var value = "";
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== "\\") {
+      value += body[i];
+      continue;
+    }
+    i++;
+    switch (body[i]) {
+      case "n": value += "\n"; break;
+      case "t": value += "\t"; break;
+      case "r": value += "\r"; break;
+      case "0": value += "\0"; break;
+      case "\\": value += "\\"; break;
+      case "'": value += "'"; break;
+      case '"': value += '"'; break;
+      case "\n": break; // line continuation
+      default:
+        throw new ParseError("Unsupported escape sequence \\" + body[i], location);
+    }
+  }
+  return value;
+}
+
 export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation> {
   var location = getSourceLocation(c, s);
   switch(c.type.name) {
     case "Number":
     case "Boolean":
     case "None":
+    case "String":
       return { 
         a: location,
         tag: "literal", 
@@ -73,13 +107,16 @@ export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation>
     case "CallExpression":
       const callStr = s.substring(c.from, c.to);
       const genericRegex = /\[[A-Za-z]*\]/g;
-      const genericArgs = callStr.match(genericRegex);
+      // only brackets before the arguments are generic arguments, print([]) is not generic
+      const genericArgs = callStr.split('(')[0].match(genericRegex);
 
       c.firstChild();
       let callExpr = traverseExpr(c, s);
       c.nextSibling(); // go to arglist
-      const args = traverseArguments(c, s);
+      const [args, keywords] = traverseArguments(c, s);
       c.parent(); // pop CallExpression
+      if (keywords.length > 0 && (genericArgs || (callExpr.tag !== "id" && callExpr.tag !== "lookup")))
+        throw new ParseError("Keyword arguments are only supported in calls of named functions and methods", location);
 
       if(genericArgs) {
         const genArgsStr = genericArgs.toString();
@@ -95,18 +132,21 @@ export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation>
       } 
 
       if (callExpr.tag === "lookup") {
-        return {
+        const methodCall : Expr<SourceLocation> = {
           a: location,
           tag: "method-call",
           obj: callExpr.obj,
           method: callExpr.field,
           arguments: args
-        }
+        };
+        if (keywords.length > 0)
+          methodCall.keywords = keywords;
+        return methodCall;
       } else if (callExpr.tag === "id") {
         const callName = callExpr.name;
         if(callName === "perm" || callName === "randint" || callName === "gcd" || callName === "lcm" || callName === "comb" || callName === "randrange") {
-          var line: Expr<SourceLocation> = {a: location, tag: "literal", value: {a: location, tag: "num", value: location.line}}
-          var col: Expr<SourceLocation> = {a: location, tag: "literal", value: {a: location, tag: "num", value: location.column}}
+          var line: Expr<SourceLocation> = {a: location, tag: "literal", value: {a: location, tag: "num", value: BigInt(location.line)}}
+          var col: Expr<SourceLocation> = {a: location, tag: "literal", value: {a: location, tag: "num", value: BigInt(location.column)}}
           args.push(line)
           args.push(col) 
         }
@@ -134,10 +174,33 @@ export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation>
           return expr;
         }
         expr = { a: location, tag: "call", name: callName, arguments: args};
+        if (keywords.length > 0)
+          expr.keywords = keywords;
         return expr;  
       } else {
-        throw new ParseError("Unknown target while parsing assignment", location);
+        // calling the result of some other expression, e.g. f()(1)
+        return { a: location, tag: "call-expr", fn: callExpr, arguments: args };
+      }
+
+    case "LambdaExpression":
+      c.firstChild(); // Focus on lambda
+      c.nextSibling(); // Focus on ParamList or :
+      const lambdaParams : Array<string> = [];
+      if (c.type.name as string === "ParamList") {
+        c.firstChild();
+        do {
+          if (c.type.name as string === "VariableName")
+            lambdaParams.push(s.substring(c.from, c.to));
+          else if (c.type.name as string !== ",")
+            throw new ParseError("Lambda parameters cannot have annotations or defaults", location);
+        } while (c.nextSibling());
+        c.parent();
+        c.nextSibling(); // Focus on :
       }
+      c.nextSibling(); // Focus on body
+      const lambdaBody = traverseExpr(c, s);
+      c.parent();
+      return { a: location, tag: "lambda", params: lambdaParams, body: lambdaBody };
 
     case "ArrayExpression":
       c.firstChild(); //go into ArrayExpression, should be at [
@@ -174,74 +237,24 @@ export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation>
 
     case "BinaryExpression":
       c.firstChild(); // go to lhs 
+      // lezer nests a < b <= c as (a < b) <= c, a parenthesized lhs is a ParenthesizedExpression
+      const lhsIsBinary = c.type.name === "BinaryExpression";
       const lhsExpr = traverseExpr(c, s);
       c.nextSibling(); // go to op
-      var opStr = s.substring(c.from, c.to);
-      var op;
-      switch(opStr) {
-        case "+":
-          op = BinOp.Plus;
-          break;
-        case "-":
-          op = BinOp.Minus;
-          break;
-        case "*":
-          op = BinOp.Mul;
-          break;
-        case "//":
-          op = BinOp.IDiv;
-          break;
-        case "%":
-          op = BinOp.Mod;
-          break
-        case "==":
-          op = BinOp.Eq;
-          break;
-        case "!=":
-          op = BinOp.Neq;
-          break;
-        case "<=":
-          op = BinOp.Lte;
-          break;
-        case ">=":
-          op = BinOp.Gte;
-          break;
-        case "<":
-          op = BinOp.Lt;
-          break;
-        case ">":
-          op = BinOp.Gt;
-          break;
-        case "is":
-          op = BinOp.Is;
-          break; 
-        case "and":
-          op = BinOp.And;
-          break;
-        case "or":
-          op = BinOp.Or;
-          break;
-        case "in":
-          c.nextSibling();
-          const rhs = traverseExpr(c, s);
-          c.parent();
-          return {
-            a: location,
-            tag: "method-call",
-            obj: rhs,
-            method: "contains",
-            arguments: [lhsExpr]
-          };
-        default:
-          throw new ParseError("Could not parse operator at " + c.from + " " + c.to + ": " + s.substring(c.from, c.to), location)
-      }
+      const binop = traverseBinOp(c, s, location);
       c.nextSibling(); // go to rhs
       const rhsExpr = traverseExpr(c, s);
       c.parent();
+      if (lhsIsBinary && comparisonOps.includes(binop)) {
+        if (lhsExpr.tag === "comparison")
+          return { ...lhsExpr, a: location, ops: [...lhsExpr.ops, binop], comparators: [...lhsExpr.comparators, rhsExpr] };
+        if (lhsExpr.tag === "binop" && comparisonOps.includes(lhsExpr.op))
+          return { a: location, tag: "comparison", left: lhsExpr.left, ops: [lhsExpr.op, binop], comparators: [lhsExpr.right, rhsExpr] };
+      }
       return {
         a: location,
         tag: "binop",
-        op: op,
+        op: binop,
         left: lhsExpr,
         right: rhsExpr
       }
@@ -284,41 +297,44 @@ export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation>
       c.nextSibling(); // Focus on . or [
       var dotOrBracket = s.substring(c.from, c.to);
       if( dotOrBracket === "[") {
-        var start_index: Expr<any>;
-        var stop_index: Expr<any>;
-        var step: Expr<any> = {
-          tag: "literal",
-          value: { a: location,tag: "num", value: 1 }
-        };
-
-        var indexItems = "";
+        // up to three slots separated by colons, any of which may be left out
+        var indices: Array<Expr<any>> = [undefined, undefined, undefined];
+        var colons = 0;
+        var isEmpty = true;
         c.nextSibling();
         while (s.substring(c.from, c.to) != "]") {
-          indexItems += s.substring(c.from, c.to);
+          if (s.substring(c.from, c.to) === ":") {
+            colons++;
+            if (colons > 2) {
+              throw new Error("Too much indices, maximum is three");
+            }
+          } else {
+            indices[colons] = traverseExpr(c, s);
+          }
+          isEmpty = false;
           c.nextSibling();
         }
         c.parent();
-        c.firstChild(); // str object name
-        c.nextSibling(); // "[""
-        c.nextSibling(); // start index
 
-        if(indexItems.length === 0) {
+        if(isEmpty) {
           throw new Error("Error: there should have at least one value inside the brackets");
         }
 
-        var sliced_indices = indexItems.split(":");
-        if(sliced_indices.length > 3){
-          throw new Error("Too much indices, maximum is three");
+        if (colons === 0) {
+          return {
+            a: location,
+            tag: "index",
+            obj: objExpr,
+            index: indices[0]
+          }
         }
-
-        start_index = traverseExpr(c, s)
-
-        c.parent();
         return {
           a: location,
-          tag: "index",
+          tag: "slice",
           obj: objExpr,
-          index: start_index
+          start: indices[0],
+          stop: indices[1],
+          step: indices[2]
         }
       }
 
@@ -345,6 +361,38 @@ export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation>
         tag: "set",
         values: setValues
       }
+    case "TupleExpression":
+      c.firstChild(); // Focus on (
+      let tupleElements = new Array<Expr<SourceLocation>>();
+      while (c.nextSibling()) {
+        if (s.substring(c.from, c.to) === ")") { break; } // trailing comma
+        tupleElements.push(traverseExpr(c, s));
+        c.nextSibling(); // Focus on , or )
+      }
+      c.parent();
+      return {
+        a: location,
+        tag: "tuple",
+        elements: tupleElements
+      }
+    case "DictionaryExpression":
+      c.firstChild(); // Focus on {
+      let dictEntries = new Array<[Expr<SourceLocation>, Expr<SourceLocation>]>();
+      while (c.nextSibling()) {
+        if (s.substring(c.from, c.to) === "}") { break; } // empty dict
+        const key = traverseExpr(c, s);
+        c.nextSibling(); // Focus on :
+        c.nextSibling(); // Focus on value
+        const value = traverseExpr(c, s);
+        dictEntries.push([key, value]);
+        c.nextSibling(); // Focus on , or }
+      }
+      c.parent();
+      return {
+        a: location,
+        tag: "dict",
+        entries: dictEntries
+      }
     case "self":
       return {
         a: location,
@@ -373,82 +421,176 @@ export function traverseExpr(c : TreeCursor, s : string) : Expr<SourceLocation>
     case "ArrayComprehensionExpression":
     //case "DictionaryComprehensionExpression":
     case "SetComprehensionExpression":
-      c.firstChild(); // Focus on ()/[]/{}
-      var compTyp : Type = NONE;
-      const symbol = s.substring(c.from, c.to);
-      switch (symbol) {
-        case "(":
-          compTyp = { tag: "generator", type: NONE };
-          break;
-        case "[":
-          compTyp = { tag: "list", type: NONE };
-          break;
-        case "{":
-          compTyp = { tag: "set", valueType: NONE }; // need to add dictionary case in the future
-          break;
-        default:
-          throw new ParseError("Could not parse comprehension", location);
-      }
-      c.nextSibling(); // Focus on lhs
-      var lhs = traverseExpr(c, s);
-      c.nextSibling(); // Focus on for
-      c.nextSibling(); // Focus on item
-      var itemName = s.substring(c.from, c.to);
-      c.nextSibling(); // Focus on in
-      c.nextSibling(); // Focus on iterable expr
-      var iterable = traverseExpr(c, s);
-      c.nextSibling(); // Focus on if/)/]/}
-      var compIfCond : Expr<SourceLocation> = undefined;
-      var nextSymbol = s.substring(c.from, c.to);
-      if (nextSymbol === "if") {
-        c.nextSibling(); // Focus on ifcond
-        compIfCond = traverseExpr(c, s);
-        c.nextSibling(); // Focus on )/]/}
-        nextSymbol = s.substring(c.from, c.to);
-      }
-      const pair = symbol + nextSymbol;
-      if (pair !== "()" && pair !== "[]" && pair !== "{}") {
-        throw new ParseError("Comprehension start and end mismatch", location);
-      }
-      c.parent();
-      if (compIfCond == undefined) {
-        return {
-          a: location,
-          tag: "comprehension",
-          type: compTyp,
-          lhs: lhs,
-          item: itemName,
-          iterable: iterable
-        };
-      }
-      return {
-        a: location,
-        tag: "comprehension",
-        type: compTyp,
-        lhs: lhs,
-        item: itemName,
-        iterable: iterable,
-        ifcond: compIfCond
-      };
+      return traverseComprehension(c, s);
     default:
       throw new ParseError("Could not parse expr at " + c.from + " " + c.to + ": " + s.substring(c.from, c.to), location);
   }
 }
 
-export function traverseArguments(c : TreeCursor, s : string) : Array<Expr<SourceLocation>> {
+// A comprehension, or the argument list of a call whose only argument is a
+// generator expression without parentheses of its own, as in sum(x for x in y)
+const comparisonOps = [BinOp.Eq, BinOp.Neq, BinOp.Lte, BinOp.Gte, BinOp.Lt, BinOp.Gt, BinOp.Is, BinOp.In, BinOp.NotIn, BinOp.IsNot];
+
+// Reads the operator of a BinaryExpression, leaving c on its last token since
+// not in and is not are two
+function traverseBinOp(c : TreeCursor, s : string, location : SourceLocation) : BinOp {
+  const opStr = s.substring(c.from, c.to);
+  switch(opStr) {
+    case "+":
+      return BinOp.Plus;
+    case "-":
+      return BinOp.Minus;
+    case "*":
+      return BinOp.Mul;
+    case "//":
+      return BinOp.IDiv;
+    case "%":
+      return BinOp.Mod;
+    case "**":
+      return BinOp.Pow;
+    case "==":
+      return BinOp.Eq;
+    case "!=":
+      return BinOp.Neq;
+    case "<=":
+      return BinOp.Lte;
+    case ">=":
+      return BinOp.Gte;
+    case "<":
+      return BinOp.Lt;
+    case ">":
+      return BinOp.Gt;
+    case "is":
+      c.nextSibling();
+      if (s.substring(c.from, c.to) === "not")
+        return BinOp.IsNot;
+      c.prevSibling();
+      return BinOp.Is;
+    case "and":
+      return BinOp.And;
+    case "or":
+      return BinOp.Or;
+    case "in":
+      return BinOp.In;
+    case "not":
+      c.nextSibling(); // go to in
+      return BinOp.NotIn;
+    default:
+      throw new ParseError("Could not parse operator at " + c.from + " " + c.to + ": " + s.substring(c.from, c.to), location)
+  }
+}
+
+function traverseComprehension(c : TreeCursor, s : string) : Expr<SourceLocation> {
+  const location = getSourceLocation(c, s);
+  c.firstChild(); // Focus on ()/[]/{}
+  var compTyp : Type = NONE;
+  const symbol = s.substring(c.from, c.to);
+  switch (symbol) {
+    case "(":
+      compTyp = { tag: "generator", type: NONE };
+      break;
+    case "[":
+      compTyp = { tag: "list", type: NONE };
+      break;
+    case "{":
+      compTyp = { tag: "set", valueType: NONE }; // need to add dictionary case in the future
+      break;
+    default:
+      throw new ParseError("Could not parse comprehension", location);
+  }
+  c.nextSibling(); // Focus on lhs
+  var lhs = traverseExpr(c, s);
+  c.nextSibling(); // Focus on for
+  const fors : Array<ComprehensionFor<SourceLocation>> = [];
+  var nextSymbol = s.substring(c.from, c.to);
+  while (nextSymbol === "for") {
+    const forLocation = getSourceLocation(c, s);
+    c.nextSibling(); // Focus on the first item
+    const items = traverseComprehensionItems(c, s);
+    c.nextSibling(); // Focus on iterable expr
+    const iterable = traverseExpr(c, s);
+    const ifconds : Array<Expr<SourceLocation>> = [];
+    c.nextSibling(); // Focus on if/for/)/]/}
+    nextSymbol = s.substring(c.from, c.to);
+    while (nextSymbol === "if") {
+      c.nextSibling(); // Focus on ifcond
+      ifconds.push(traverseExpr(c, s));
+      c.nextSibling();
+      nextSymbol = s.substring(c.from, c.to);
+    }
+    fors.push({ a: forLocation, items, iterable, ifconds });
+  }
+  const pair = symbol + nextSymbol;
+  if (fors.length === 0 || (pair !== "()" && pair !== "[]" && pair !== "{}")) {
+    throw new ParseError("Comprehension start and end mismatch", location);
+  }
+  c.parent();
+  return {
+    a: location,
+    tag: "comprehension",
+    type: compTyp,
+    lhs: lhs,
+    fors: fors
+  };
+}
+
+// The names between for and in of a comprehension, as in `for x, (y, z) in`,
+// leaving the cursor on in. Parenthesized names are unpacked like bare ones.
+function traverseComprehensionItems(c : TreeCursor, s : string) : Array<string> {
+  const items : Array<string> = [];
+  while (s.substring(c.from, c.to) !== "in") {
+    const name = c.type.name as string;
+    if (name === "VariableName") {
+      items.push(s.substring(c.from, c.to));
+    } else if (name === "TupleExpression" || name === "ParenthesizedExpression") {
+      c.firstChild();
+      while (c.nextSibling()) {
+        if (c.type.name as string === "VariableName") {
+          items.push(s.substring(c.from, c.to));
+        } else if (c.type.name as string !== "," && c.type.name as string !== ")") {
+          throw new ParseError("Could not parse comprehension target", getSourceLocation(c, s));
+        }
+      }
+      c.parent();
+    } else if (name !== ",") {
+      throw new ParseError("Could not parse comprehension target", getSourceLocation(c, s));
+    }
+    if (!c.nextSibling()) {
+      throw new ParseError("Comprehension target without in", getSourceLocation(c, s));
+    }
+  }
+  return items;
+}
+
+// Positional arguments followed by name=value ones
+export function traverseArguments(c : TreeCursor, s : string) : [Array<Expr<SourceLocation>>, Array<[string, Expr<SourceLocation>]>] {
+  if (c.node.getChild("for") !== null)
+    return [[traverseComprehension(c, s)], []];
   c.firstChild();  // Focuses on open paren
   const args = [];
+  const keywords : Array<[string, Expr<SourceLocation>]> = [];
   c.nextSibling();
   while(c.type.name !== ")") {
-    let expr = traverseExpr(c, s);
-    args.push(expr);
+    const next = c.node.nextSibling;
+    if (c.type.name === "VariableName" && next !== null && next.type.name === "AssignOp") {
+      const name = s.substring(c.from, c.to);
+      c.nextSibling(); // Focuses on =
+      c.nextSibling(); // Focuses on the value
+      keywords.push([name, traverseExpr(c, s)]);
+    } else {
+      if (keywords.length > 0)
+        throw new ParseError("Positional argument follows keyword argument", getSourceLocation(c, s));
+      args.push(traverseExpr(c, s));
+    }
     c.nextSibling(); // Focuses on either "," or ")"
     c.nextSibling(); // Focuses on a VariableName
   } 
   c.parent();       // Pop to ArgList
-  return args;
+  return [args, keywords];
 }
 
+const augOps = new Map<string, BinOp>([["+=", BinOp.Plus], ["-=", BinOp.Minus], ["*=", BinOp.Mul], ["//=", BinOp.IDiv], ["%=", BinOp.Mod], ["**=", BinOp.Pow]]);
+
 export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation> {
   var location = getSourceLocation(c, s);
   switch(c.node.type.name) {
@@ -456,12 +598,27 @@ export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation>
       c.firstChild();  // Focus return keyword
       
       var value : Expr<SourceLocation>;
-      if (c.nextSibling()) // Focus expression
-        value = traverseExpr(c, s);
-      else
+      if (c.nextSibling()) { // Focus expression
+        // return a, b packs the values into a tuple
+        const values = traverseDestructureValues(c, s);
+        value = values.length === 1 ? values[0] : { a: location, tag: "tuple", elements: values };
+      } else {
         value = { a: location, tag: "literal", value: { a: location, tag: "none" } };
+      }
       c.parent();
       return { a: location, tag: "return", value };
+    case "YieldStatement":
+      c.firstChild();  // Focus yield keyword
+      var yielded : Expr<SourceLocation>;
+      // a bare yield leaves an empty error node after the keyword
+      if (c.nextSibling() && !c.type.isError) {
+        const values = traverseDestructureValues(c, s);
+        yielded = values.length === 1 ? values[0] : { a: location, tag: "tuple", elements: values };
+      } else {
+        yielded = { a: location, tag: "literal", value: { a: location, tag: "none" } };
+      }
+      c.parent();
+      return { a: location, tag: "yield", value: yielded };
     case "AssignStatement":
       c.firstChild(); // go to name
       // Parse LHS
@@ -473,20 +630,22 @@ export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation>
       c.parent();
       //Normal assign statements
       if(target.length==1){
+        // x = a, b packs the values into a tuple
+        const rhsValue : Expr<SourceLocation> = rhsargs.length === 1 ? rhsargs[0] : { a: location, tag: "tuple", elements: rhsargs };
         if (target[0].lhs.tag === "lookup") {
           return {
             a: location,
             tag: "field-assign",
             obj: target[0].lhs.obj,
             field: target[0].lhs.field,
-            value: rhsargs[0]
+            value: rhsValue
           }
         } else if (target[0].lhs.tag === "id") {
           return {
             a: location,
             tag: "assign",
             name: target[0].lhs.name,
-            value: rhsargs[0]
+            value: rhsValue
           }  
         } else if (target[0].lhs.tag === "index"){
           return {
@@ -494,7 +653,7 @@ export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation>
             tag: "index-assign",
             obj: target[0].lhs.obj,
             index: target[0].lhs.index,
-            value: rhsargs[0]
+            value: rhsValue
           }
         } else {
           throw new ParseError("Unknown target while parsing assignment", location);
@@ -510,6 +669,20 @@ export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation>
         };
       }  
       
+    case "UpdateStatement": {
+      c.firstChild(); // go to the target
+      const target = traverseExpr(c, s);
+      c.nextSibling(); // go to the UpdateOp
+      const opStr = s.substring(c.from, c.to);
+      c.nextSibling();
+      const value = traverseExpr(c, s);
+      c.parent();
+      if (target.tag !== "id" && target.tag !== "lookup" && target.tag !== "index")
+        throw new ParseError("Unknown target while parsing augmented assignment", location);
+      if (!augOps.has(opStr))
+        throw new ParseError(`Unsupported augmented assignment \`${opStr}\``, location);
+      return { a: location, tag: "aug-assign", target, op: augOps.get(opStr), value };
+    }
     case "ExpressionStatement":
       c.firstChild();
       const expr = traverseExpr(c, s);
@@ -600,15 +773,15 @@ export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation>
     case "ForStatement":
       c.firstChild() // for
       c.nextSibling() // vars
-      const for_var = traverseExpr(c, s)
+      const for_vars = [traverseExpr(c, s)]
       c.nextSibling()
-      // for when we implement destructuring 
-
-      // while(s.substring(c.from, c.to) == ',') {
-      //   c.nextSibling()
-      //   for_var.push(traverseExpr(c, s))
-      //   c.nextSibling()
-      // }
+      // for i, x in unpacks every item into the targets, like for (i, x) in
+      while(s.substring(c.from, c.to) == ',') {
+        c.nextSibling()
+        for_vars.push(traverseExpr(c, s))
+        c.nextSibling()
+      }
+      const for_var : Expr<SourceLocation> = for_vars.length === 1 ? for_vars[0] : { a: for_vars[0].a, tag: "tuple", elements: for_vars }
       c.nextSibling()
       const iterable = traverseExpr(c, s)
       c.nextSibling()
@@ -639,6 +812,76 @@ export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation>
         elseBody: elseBody
       };
 
+    case "RaiseStatement":
+      c.firstChild(); // Focus raise keyword
+      var raised : Expr<SourceLocation> = undefined;
+      if (c.nextSibling()) {
+        raised = traverseExpr(c, s);
+      }
+      c.parent();
+      return { a: location, tag: "raise", value: raised };
+
+    case "AssertStatement": {
+      c.firstChild(); // Focus assert keyword
+      c.nextSibling();
+      const test = traverseExpr(c, s);
+      var msg : Expr<SourceLocation> = undefined;
+      if (c.nextSibling()) { // Focus the comma before the message
+        c.nextSibling();
+        msg = traverseExpr(c, s);
+      }
+      c.parent();
+      return { a: location, tag: "assert", test, msg };
+    }
+
+    case "TryStatement": {
+      c.firstChild(); // Focus try keyword
+      c.nextSibling();
+      const tryBody = traverseBody(c, s);
+      const handlers : Array<ExceptHandler<SourceLocation>> = [];
+      let elseBody : Array<Stmt<SourceLocation>> = [];
+      let finallyBody : Array<Stmt<SourceLocation>> = [];
+      while (c.nextSibling()) {
+        if (c.type.isError) { continue; } // the indentation of clauses after the first one
+        const keyword = c.type.name as string;
+        const clauseLocation = getSourceLocation(c, s);
+        c.nextSibling();
+        if (keyword === "else") {
+          elseBody = traverseBody(c, s);
+        } else if (keyword === "finally") {
+          finallyBody = traverseBody(c, s);
+        } else {
+          // except [Type | (Type, ...)] [as name]:
+          const types : Array<string> = [];
+          let name : string = undefined;
+          if (c.type.name as string === "VariableName") {
+            types.push(s.substring(c.from, c.to));
+            c.nextSibling();
+          } else if (c.type.name as string === "TupleExpression" || c.type.name as string === "ParenthesizedExpression") {
+            c.firstChild();
+            while (c.nextSibling()) {
+              if (c.type.name as string === "VariableName")
+                types.push(s.substring(c.from, c.to));
+            }
+            c.parent();
+            c.nextSibling();
+          }
+          if (c.type.name as string === "as") {
+            c.nextSibling();
+            name = s.substring(c.from, c.to);
+            c.nextSibling();
+          }
+          if (c.type.name as string !== "Body")
+            throw new ParseError("Could not parse except clause", clauseLocation);
+          handlers.push({ a: clauseLocation, types, name, body: traverseBody(c, s) });
+        }
+      }
+      c.parent();
+      if (handlers.length === 0 && finallyBody.length === 0)
+        throw new ParseError("try needs an except or finally clause", location);
+      return { a: location, tag: "try", body: tryBody, handlers, elseBody, finallyBody };
+    }
+
     case "PassStatement":
       return { a: location, tag: "pass" }
     case "ContinueStatement":
@@ -650,10 +893,22 @@ export function traverseStmt(c : TreeCursor, s : string) : Stmt<SourceLocation>
   }
 }
 
+// Parses the statements of a Body node, leaving the cursor on the Body
+function traverseBody(c : TreeCursor, s : string) : Array<Stmt<SourceLocation>> {
+  const stmts : Array<Stmt<SourceLocation>> = [];
+  c.firstChild(); // Focus colon
+  while (c.nextSibling()) {
+    stmts.push(traverseStmt(c, s));
+  }
+  c.parent();
+  return stmts;
+}
+
 function typeFromString(s: string): Type {
   switch(s) {
     case "int": return NUM;
     case "bool": return BOOL;
+    case "str": return STR;
     case "TypeVar": return TYPE_VAR;
     default: return CLASS(s);
   }
@@ -744,12 +999,60 @@ export function traverseType(c : TreeCursor, s : string) : Type {
       c.parent();
       return {tag: "set", valueType: vt};
     }
+    if (s.substring(c.from, c.to) === "generator") {
+      c.nextSibling(); // Focus on [
+      c.nextSibling(); // Focus on the type of the values yielded
+      const yielded : Type = traverseType(c, s);
+      c.parent();
+      return {tag: "generator", type: yielded};
+    }
+    if (s.substring(c.from, c.to) === "dict") {
+      c.nextSibling(); // Focus on [
+      c.nextSibling(); // Focus on key type
+      const key : Type = traverseType(c, s);
+      c.nextSibling(); // Focus on ,
+      c.nextSibling(); // Focus on value type
+      const value : Type = traverseType(c, s);
+      c.parent();
+      return {tag: "dict", key, value};
+    }
+    if (s.substring(c.from, c.to) === "Callable") {
+      c.nextSibling(); // Focus on [
+      c.nextSibling(); // Focus on the list of parameter types
+      if (c.type.name !== "ArrayExpression")
+        throw new ParseError("Callable needs a list of parameter types", getSourceLocation(c, s));
+      const params : Array<Type> = [];
+      c.firstChild(); // Focus on [
+      while (c.nextSibling() && s.substring(c.from, c.to) !== "]") {
+        params.push(traverseType(c, s));
+        c.nextSibling(); // Focus on , or ]
+        if (s.substring(c.from, c.to) === "]") { break; }
+      }
+      c.parent();
+      c.nextSibling(); // Focus on ,
+      c.nextSibling(); // Focus on return type
+      const ret : Type = s.substring(c.from, c.to) === "None" ? NONE : traverseType(c, s);
+      c.parent();
+      return {tag: "callable", params, ret};
+    }
+    if (s.substring(c.from, c.to) === "tuple") {
+      c.nextSibling(); // Focus on [
+      let contentTypes : Array<Type> = [];
+      while (c.nextSibling() && s.substring(c.from, c.to) !== "]") {
+        contentTypes.push(traverseType(c, s));
+        c.nextSibling(); // Focus on , or ]
+        if (s.substring(c.from, c.to) === "]") { break; }
+      }
+      c.parent();
+      return {tag: "tuple", contentTypes};
+    }
     c.parent();
   }
   let name = s.substring(c.from, c.to);
   switch(name) {
     case "int": return NUM;
     case "bool": return BOOL;
+    case "str": return STR;
     case "TypeVar": return TYPE_VAR;
     default:
       //list type
@@ -782,10 +1085,10 @@ export function traverseType(c : TreeCursor, s : string) : Type {
   }
 }
 
-export function traverseParameters(c : TreeCursor, s : string) : Array<Parameter<null>> {
+export function traverseParameters(c : TreeCursor, s : string) : Array<Parameter<SourceLocation>> {
   var location = getSourceLocation(c, s);
   c.firstChild();  // Focuses on open paren
-  const parameters = [];
+  const parameters : Array<Parameter<SourceLocation>> = [];
   c.nextSibling(); // Focuses on a VariableName
   while(c.type.name !== ")") {
     let name = s.substring(c.from, c.to);
@@ -796,8 +1099,16 @@ export function traverseParameters(c : TreeCursor, s : string) : Array<Parameter
     c.nextSibling(); // Focuses on type itself
     let typ = traverseType(c, s);
     c.parent();
-    c.nextSibling(); // Move on to comma or ")"
-    parameters.push({name, type: typ});
+    c.nextSibling(); // Move on to "=", comma or ")"
+    if (c.type.name === "AssignOp") {
+      c.nextSibling(); // Focuses on the default
+      parameters.push({name, type: typ, value: traverseLiteral(c, s)});
+      c.nextSibling(); // Move on to comma or ")"
+    } else {
+      if (parameters.some(p => p.value !== undefined))
+        throw new ParseError("Parameter " + name + " without a default follows one with a default", location);
+      parameters.push({name, type: typ});
+    }
     c.nextSibling(); // Focuses on a VariableName
   }
   c.parent();       // Pop to ParamList
@@ -844,13 +1155,28 @@ export function traverseFunDef(c : TreeCursor, s : string) : FunDef<SourceLocati
   }
   c.firstChild();  // Focus on :
   var inits = [];
+  var funs = [];
+  var nonlocals : Array<string> = [];
+  var globals : Array<string> = [];
   var body = [];
   
   var hasChild = c.nextSibling();
 
+  // declarations: variables, nested functions and nonlocal/global names
   while(hasChild) {
     if (isVarInit(c, s)) {
       inits.push(traverseVarInit(c, s));
+    } else if (isFunDef(c, s)) {
+      funs.push(traverseFunDef(c, s));
+    } else if (c.type.name === "ScopeStatement") {
+      c.firstChild(); // Focus on nonlocal/global
+      const scope = s.substring(c.from, c.to);
+      while(c.nextSibling()) {
+        if (c.type.name as string === "VariableName") {
+          (scope === "nonlocal" ? nonlocals : globals).push(s.substring(c.from, c.to));
+        }
+      }
+      c.parent();
     } else {
       break;
     }
@@ -866,11 +1192,13 @@ export function traverseFunDef(c : TreeCursor, s : string) : FunDef<SourceLocati
   c.parent();      // Pop to Body
   // console.log("Before pop to def: ", c.type.name);
   c.parent();      // Pop to FunctionDefinition
-  return { a: location, name, parameters, ret, inits, body }
+  return { a: location, name, parameters, ret, inits, funs, nonlocals, globals, body }
 }
 
-function traverseGenerics(c: TreeCursor, s: string): Array<string> {
+// Returns the type vars from Generic[...] and the name of the superclass, if any
+function traverseClassArgs(c: TreeCursor, s: string): [Array<string>, string] {
   let typeVars: Array<string> = [];
+  let superclass = "object";
 
   c.firstChild(); // focus on (
   c.nextSibling(); // focus on type
@@ -884,13 +1212,18 @@ function traverseGenerics(c: TreeCursor, s: string): Array<string> {
           throw new Error("Expected TypeVar in Generic[] args");
         }
       });
+    } else if(type.tag=="class" && type.name!=="object") {
+      if(superclass !== "object") {
+        throw new ParseError("Multiple inheritance is not supported", getSourceLocation(c, s));
+      }
+      superclass = type.name;
     }
     c.nextSibling(); // focus on , or )
     c.nextSibling(); // focus on type
   }
 
   c.parent();       // Pop to ArgList
-  return typeVars;
+  return [typeVars, superclass];
 }
 
 export function traverseClass(c : TreeCursor, s : string) : Class<SourceLocation> {
@@ -901,7 +1234,7 @@ export function traverseClass(c : TreeCursor, s : string) : Class<SourceLocation
   c.nextSibling(); // Focus on class name
   const className = s.substring(c.from, c.to);
   c.nextSibling(); // Focus on arglist/superclass
-  const generics = traverseGenerics(c, s);
+  const [generics, superclass] = traverseClassArgs(c, s);
   c.nextSibling(); // Focus on body
   c.firstChild();  // Focus colon
   while(c.nextSibling()) { // Focuses first field
@@ -909,14 +1242,15 @@ export function traverseClass(c : TreeCursor, s : string) : Class<SourceLocation
       fields.push(traverseVarInit(c, s));
     } else if (isFunDef(c, s)) {
       methods.push(traverseFunDef(c, s));
-    } else {
+    } else if (c.type.name as string !== "PassStatement") {
       throw new ParseError(`Could not parse the body of class: ${className}`, location);
     }
   } 
   c.parent();
   c.parent();
 
-  if (!methods.find(method => method.name === "__init__")) {
+  // subclasses without their own __init__ inherit the one from their superclass
+  if (!methods.find(method => method.name === "__init__") && superclass === "object") {
     if(generics.length > 0) {
       const genericTypes = generics.map(g => CLASS(g));
       methods.push({ a: location, name: "__init__", parameters: 
@@ -930,6 +1264,7 @@ export function traverseClass(c : TreeCursor, s : string) : Class<SourceLocation
     a: location,
     name: className,
     generics,
+    superclass,
     fields,
     methods
   };
@@ -0,0 +1,138 @@
+import { Program, SourceLocation } from "./ast";
+import { parse } from "./parser";
+import { GlobalTypeEnv } from "./type-check";
+
+// Classes every program can use without defining them, range among them, and
+// the functions behind the builtins that iterate, which take their iterables as
+// generators and are checked against the actual item types by tcIterationCall.
+// They are compiled along with the first program run in an environment, later
+// runs see them as globals.
+export const preludeSource = `
+class BaseException(object):
+  message: str = ""
+  def __init__(self: BaseException, message: str = ""):
+    self.message = message
+class Exception(BaseException):
+  pass
+class ArithmeticError(Exception):
+  pass
+class ZeroDivisionError(ArithmeticError):
+  pass
+class LookupError(Exception):
+  pass
+class IndexError(LookupError):
+  pass
+class KeyError(LookupError):
+  pass
+class AttributeError(Exception):
+  pass
+class TypeError(Exception):
+  pass
+class ValueError(Exception):
+  pass
+class RuntimeError(Exception):
+  pass
+class RecursionError(RuntimeError):
+  pass
+class StopIteration(Exception):
+  pass
+class AssertionError(Exception):
+  pass
+class MemoryError(Exception):
+  pass
+class range(object):
+  start: int = 0
+  stop: int = 0
+  step: int = 1
+  current: int = 0
+  def __init__(self: range, start: int, stop: int, step: int):
+    if step == 0:
+      raise ValueError("range() arg 3 must not be zero")
+    self.start = start
+    self.stop = stop
+    self.step = step
+    self.current = start
+  def __iter__(self: range) -> range:
+    return range(self.start, self.stop, self.step)
+  def __next__(self: range) -> int:
+    value: int = 0
+    value = self.current
+    if (self.step > 0 and value >= self.stop) or (self.step < 0 and value <= self.stop):
+      raise StopIteration()
+    self.current = value + self.step
+    return value
+  def __len__(self: range) -> int:
+    length: int = 0
+    length = (self.start - self.stop) // self.step
+    if length >= 0:
+      return 0
+    return -length
+def __enumerate__(items: generator[object], start: int) -> generator[tuple[int, object]]:
+  item: object = None
+  for item in items:
+    yield start, item
+    start = start + 1
+def __zip__(lefts: generator[object], rights: generator[object]) -> generator[tuple[object, object]]:
+  left: object = None
+  right: object = None
+  for left in lefts:
+    try:
+      right = next(rights)
+    except StopIteration:
+      return
+    yield left, right
+def __sum__(items: generator[int], start: int) -> int:
+  item: int = 0
+  for item in items:
+    start = start + item
+  return start
+def __min__(items: generator[object], lt: Callable[[object, object], bool]) -> object:
+  least: object = None
+  item: object = None
+  empty: bool = True
+  for item in items:
+    if empty or lt(item, least):
+      least = item
+    empty = False
+  if empty:
+    raise ValueError("min() arg is an empty sequence")
+  return least
+def __max__(items: generator[object], lt: Callable[[object, object], bool]) -> object:
+  most: object = None
+  item: object = None
+  empty: bool = True
+  for item in items:
+    if empty or lt(most, item):
+      most = item
+    empty = False
+  if empty:
+    raise ValueError("max() arg is an empty sequence")
+  return most
+def __sorted__(items: generator[object], lt: Callable[[object, object], bool]) -> [object]:
+  result: [object] = None
+  item: object = None
+  i: int = 1
+  j: int = 0
+  result = [x for x in items]
+  while i < len(result):
+    item = result[i]
+    j = i
+    while j > 0 and lt(item, result[j - 1]):
+      result[j] = result[j - 1]
+      j = j - 1
+    result[j] = item
+    i = i + 1
+  return result
+`;
+
+export function addPrelude(program : Program<SourceLocation>, env : GlobalTypeEnv) : Program<SourceLocation> {
+  if (env.classes.has("BaseException")) {
+    return program;
+  }
+  // a program may define its own class or function in place of one of these
+  const prelude = parse(preludeSource);
+  const defined = new Set([...program.classes, ...program.funs].map(d => d.name));
+  return { ...program,
+    funs: [...prelude.funs.filter(fun => !defined.has(fun.name)), ...program.funs],
+    classes: [...prelude.classes.filter(cls => !defined.has(cls.name)), ...program.classes] };
+}
@@ -5,11 +5,15 @@ import { tc, defaultTypeEnv, GlobalTypeEnv } from "./type-check";
 import { Value, Type } from "./ast";
 import { parse } from "./parser";
 import { removeGenerics } from "./remove-generics";
+import { addPrelude } from "./prelude";
+import { loadStr, objectClassName } from "./utils";
+import { loadInt } from "./bignum";
 
 export type ObjectField = 
 |{tag:"num", fieldName: string, value: Value}
 |{tag:"bool", fieldName: string, value: Value}
 |{tag:"none", fieldName: string, value: Value}
+|{tag:"str", fieldName: string, value: Value}
 |{tag:"object", fieldName: string, value: Value, objectTrackList: Array<ObjectField>}
 
 interface REPL {
@@ -34,6 +38,10 @@ export class BasicREPL {
     this.currentEnv = {
       globals: new Map(),
       classes: new Map(),
+      vtables: new Map(),
+      funcTable: [],
+      functions: new Set(),
+      printTypes: [],
       locals: new Set(),
       labels: [],
       offset: 1
@@ -59,32 +67,47 @@ export class BasicREPL {
         currentGlobals[k] = maybeGlobal;
       }
     });
+    this.importObject.env = currentGlobals;
+    if (result !== undefined && result.tag === "object")
+      return {...result, name: this.objectClass(result.address, result.name)};
     return result;
   }
 
+  // The class of an object as its header records it, which can be a subclass
+  // of its static type, or the static type when the class is not found
+  objectClass(address: number, staticName: string): string {
+    return (address !== 0 && objectClassName(this.importObject, this.importObject.instance, address)) || staticName;
+  }
+
   trackObject(result: Value, heapView: Int32Array): Array<ObjectField>{
     let list = new Array<ObjectField>();
-    if(result.tag === "bool" || result.tag === "none" || result.tag === "num" || result.tag === "TypeVar"){
+    if(result.tag === "bool" || result.tag === "none" || result.tag === "num" || result.tag === "str" || result.tag === "TypeVar"){
       return list;
     }
 
     // list.push({field: "address", value: {tag:"num", value: result.address}}); //what if a real field named address?
     //get the field of object
+    if (result.address === 0 || !this.currentTypeEnv.classes.has(result.name)) { // None, or no class of the program
+      return list;
+    }
     const fields = this.currentTypeEnv.classes.get(result.name)[0];
-    let index = result.address / 4;
+    let index = result.address / 4 + 2; // after the vtable and the size
     fields.forEach((value: Type, key: string) => {
       switch(value.tag){
         case "number":
-          list.push({tag:"num", fieldName: key, value: {tag: "num", value: heapView.at(index)}});
+          list.push({tag:"num", fieldName: key, value: {tag: "num", value: loadInt(this.importObject.js.memory, heapView.at(index))}});
           break;
         case "bool":
           list.push({tag:"bool", fieldName: key, value: {tag: "bool", value: Boolean(heapView.at(index))}});
           break;
         case "none":
-          list.push({tag:"none", fieldName: key, value: {tag: "none", value: heapView.at(index)}});
+          list.push({tag:"none", fieldName: key, value: {tag: "none"}});
+          break;
+        case "str":
+          list.push({tag:"str", fieldName: key, value: {tag: "str", value: loadStr(this.importObject.js.memory, heapView.at(index))}});
           break;
         case "class":
-          const objectResult : Value = {tag: "object", name: value.name, address: heapView.at(index)};
+          const objectResult : Value = {tag: "object", name: this.objectClass(heapView.at(index), value.name), address: heapView.at(index)};
           const fieldList = this.trackObject(objectResult, heapView);
           list.push({tag: "object", fieldName: key, value: objectResult, objectTrackList: fieldList});
           break;
@@ -103,7 +126,7 @@ export class BasicREPL {
 
   tc(source: string): Type {
     const config: Config = { importObject: this.importObject, env: this.currentEnv, typeEnv: this.currentTypeEnv, functions: this.functions };
-    const parsed = parse(source);
+    const parsed = addPrelude(parse(source), this.currentTypeEnv);
     const simplified = removeGenerics(parsed);
     const [result, _] = tc(this.currentTypeEnv, simplified);
     return result.a[0];
@@ -15,6 +15,10 @@ import { lowerProgram } from './lower';
 import { BuiltinLib } from './builtinlib';
 import { BlobOptions } from 'buffer';
 import { removeGenerics } from './remove-generics';
+import { addPrelude } from './prelude';
+import { builtinErrors, stackTrace } from './runtime_error';
+import { RunTimeError } from './error_reporting';
+import { loadStr, objectClassName } from './utils';
 
 export type Config = {
   importObject: any;
@@ -42,30 +46,72 @@ if(typeof process !== "undefined") {
 
 export async function runWat(source : string, importObject : any) : Promise<any> {
   const wabtInterface = await wabt();
-  const myModule = wabtInterface.parseWat("test.wat", source);
+  const myModule = wabtInterface.parseWat("test.wat", source, { exceptions: true });
   var asBinary = myModule.toBinary({});
   var wasmModule = await WebAssembly.instantiate(asBinary.buffer, importObject);
-  const result = (wasmModule.instance.exports.exported_func as any)();
-  return [result, wasmModule];
+  // the printer calls __str__ and __repr__ methods through this instance's function table
+  importObject.instance = wasmModule.instance;
+  try {
+    const result = (wasmModule.instance.exports.exported_func as any)();
+    return [result, wasmModule];
+  } catch (err) {
+    if (err instanceof (WebAssembly as any).Exception && err.is(importObject.js.exception)) {
+      throw uncaughtException(err.getArg(importObject.js.exception, 0), wasmModule.instance, importObject);
+    }
+    throw err;
+  }
+}
+
+// Reports an exception object nothing caught
+function uncaughtException(exn : number, instance : WebAssembly.Instance, importObject : any) : RunTimeError {
+  const heap = new Int32Array(importObject.js.memory.buffer);
+  const className = objectClassName(importObject, instance, exn) || "Exception";
+  const message = loadStr(importObject.js.memory, heap[exn / 4 + 2]);
+  return new RunTimeError(stackTrace() + "\nRUNTIME ERROR: " + className + (message === "" ? "" : ": " + message));
 }
 
 
 export function augmentEnv(env: GlobalEnv, prog: Program<[Type, SourceLocation]>) : GlobalEnv {
   const newGlobals = new Map(env.globals);
   const newClasses = new Map(env.classes);
+  const newVtables = new Map(env.vtables);
+  const newFuncTable = [...env.funcTable];
+  const newPrintTypes = [...env.printTypes];
 
   var newOffset = env.offset;
   prog.inits.forEach((v) => {
     newGlobals.set(v.name, true);
   });
   prog.classes.forEach(cls => {
+    // every object starts with a header of its class's vtable and its size (see
+    // stdlib/objects.wat), inherited fields come first
+    const superclass = cls.superclass || "object";
     const classFields = new Map();
-    cls.fields.forEach((field, i) => classFields.set(field.name, [i, field.value]));
+    if (superclass !== "object")
+      newClasses.get(superclass).forEach((field, name) => classFields.set(name, field));
+    cls.fields.forEach(field => classFields.set(field.name, [classFields.size + 2, field.value]));
     newClasses.set(cls.name, classFields);
+    const vtable : Array<[string, string]> = superclass === "object" ? [] : [...newVtables.get(superclass)];
+    cls.methods.forEach(method => {
+      const funName = `${cls.name}$${method.name}`;
+      const slot = vtable.findIndex(([name, _]) => name === method.name);
+      if (slot === -1) {
+        vtable.push([method.name, funName]);
+      } else {
+        vtable[slot] = [method.name, funName];
+      }
+      newFuncTable.push(funName);
+    });
+    newVtables.set(cls.name, vtable);
+    newGlobals.set(`${cls.name}$vtable`, true);
   });
   return {
     globals: newGlobals,
     classes: newClasses,
+    vtables: newVtables,
+    funcTable: newFuncTable,
+    functions: env.functions,
+    printTypes: newPrintTypes,
     locals: env.locals,
     labels: env.labels,
     offset: newOffset
@@ -76,7 +122,7 @@ export function augmentEnv(env: GlobalEnv, prog: Program<[Type, SourceLocation]>
 // export async function run(source : string, config: Config) : Promise<[Value, compiler.GlobalEnv, GlobalTypeEnv, string]> {
 
 export async function run(source : string, config: Config, astOpt: boolean = false, irOpt: boolean = false) : Promise<[Value, GlobalEnv, GlobalTypeEnv, string, WebAssembly.WebAssemblyInstantiatedSource, string]> {
-  const parsed = parse(source);
+  const parsed = addPrelude(parse(source), config.typeEnv);
   sourceCode = source;
   const specialized = removeGenerics(parsed);
   var [tprogram, tenv] = tc(config.typeEnv, specialized);
@@ -117,34 +163,85 @@ export async function run(source : string, config: Config, astOpt: boolean = fal
     const memory = new WebAssembly.Memory({initial:2000, maximum:2000});
     importObject.js = { memory: memory };
   }
+  if(!importObject.js.exception) {
+    // exception objects are thrown as their address
+    importObject.js.exception = new (WebAssembly as any).Tag({ parameters: ["i32"] });
+  }
+  // the runtime looks up the program's classes and the types print was called with here
+  importObject.globalEnv = globalEnv;
 
   const wasmSource = `(module
     (import "js" "memory" (memory 1))
+    (import "js" "exception" (tag $exception (param i32)))
     (func $index_out_of_bounds (import "imports" "index_out_of_bounds") (param i32) (param i32) (param i32) (param i32) (result i32))
     (func $division_by_zero (import "imports" "division_by_zero") (param i32) (param i32) (param i32) (result i32))
+    (func $negative_exponent (import "imports" "negative_exponent") (param i32) (param i32) (param i32) (result i32))
+    (func $stop_iteration (import "imports" "stop_iteration") (param i32) (param i32) (param i32) (result i32))
+    (func $assertion_failed (import "imports" "assertion_failed") (param i32) (param i32) (param i32) (result i32))
     (func $assert_not_none (import "imports" "assert_not_none") (param i32) (param i32) (param i32) (result i32))
     (func $stack_push (import "imports" "stack_push") (param i32))
+    (func $stack_pop (import "imports" "stack_pop"))
+    (func $stack_depth (import "imports" "stack_depth") (result i32))
+    (func $stack_truncate (import "imports" "stack_truncate") (param i32))
     (func $stack_clear (import "imports" "stack_clear"))
-    (func $print_num (import "imports" "print_num") (param i32) (result i32))
-    (func $print_bool (import "imports" "print_bool") (param i32) (result i32))
-    (func $print_none (import "imports" "print_none") (param i32) (result i32))
+    (func $print (import "imports" "print") (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $builtin_exception (import "imports" "builtin_exception") ${"(param i32) ".repeat(builtinErrors.length)}(result i32))
 ${BuiltinLib.map(x=>`    (func $${x.name} (import "imports" "${x.name}") ${"(param i32)".repeat(x.typeSig[0].length)} (result i32))`).join("\n")}
 
     (func $alloc (import "libmemory" "alloc") (param i32) (result i32))
     (func $load (import "libmemory" "load") (param i32) (param i32) (result i32))
     (func $store (import "libmemory" "store") (param i32) (param i32) (param i32))
-    (func $set$add (import "libset" "set$add") (param i32) (param i32) (result i32))
-    (func $set$contains (import "libset" "set$contains") (param i32) (param i32) (result i32))
+    (func $set$add (import "libset" "set$add") (param i32) (param i32) (param i32) (result i32))
+    (func $set$contains (import "libset" "set$contains") (param i32) (param i32) (param i32) (result i32))
     (func $set$length (import "libset" "set$length") (param i32) (result i32))
-    (func $set$remove (import "libset" "set$remove") (param i32) (param i32) (result i32))
-    (func $set$print (import "libset" "set$print") (param i32) (result i32))
-    (func $set$update (import "libset" "set$update") (param i32) (param i32) (result i32))
+    (func $set$remove (import "libset" "set$remove") (param i32) (param i32) (param i32) (result i32))
+    (func $set$update (import "libset" "set$update") (param i32) (param i32) (param i32) (result i32))
     (func $set$clear (import "libset" "set$clear") (param i32) (result i32))
     (func $set$firstItem (import "libset" "set$firstItem") (param i32) (result i32))
-    (func $set$hasnext (import "libset" "set$hasnext") (param i32) (param i32) (result i32))
-    (func $set$next (import "libset" "set$next") (param i32) (param i32) (result i32))
+    (func $set$hasnext (import "libset" "set$hasnext") (param i32) (param i32) (param i32) (result i32))
+    (func $set$next (import "libset" "set$next") (param i32) (param i32) (param i32) (result i32))
+    (func $set$items (import "libset" "set$items") (param i32) (result i32))
+    (func $str$concat (import "libstr" "str$concat") (param i32) (param i32) (result i32))
+    (func $str$eq (import "libstr" "str$eq") (param i32) (param i32) (result i32))
+    (func $str$neq (import "libstr" "str$neq") (param i32) (param i32) (result i32))
+    (func $str$access (import "libstr" "str$access") (param i32) (param i32) (result i32))
+    (func $dict$new (import "libdict" "dict$new") (result i32))
+    (func $dict$set (import "libdict" "dict$set") (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $dict$get (import "libdict" "dict$get") (param i32) (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $dict$contains (import "libdict" "dict$contains") (param i32) (param i32) (param i32) (result i32))
+    (func $dict$length (import "libdict" "dict$length") (param i32) (result i32))
+    (func $dict$keys (import "libdict" "dict$keys") (param i32) (result i32))
+    (func $dict$values (import "libdict" "dict$values") (param i32) (result i32))
+    (func $dict$items (import "libdict" "dict$items") (param i32) (result i32))
+    (func $list$new (import "liblist" "list$new") (param i32) (result i32))
+    (func $list$append (import "liblist" "list$append") (param i32) (param i32) (result i32))
+    (func $list$pop (import "liblist" "list$pop") (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $list$insert (import "liblist" "list$insert") (param i32) (param i32) (param i32) (result i32))
+    (func $list$remove (import "liblist" "list$remove") (param i32) (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $list$contains (import "liblist" "list$contains") (param i32) (param i32) (param i32) (result i32))
+    (func $list$concat (import "liblist" "list$concat") (param i32) (param i32) (result i32))
+    (func $list$repeat (import "liblist" "list$repeat") (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $list$extend (import "liblist" "list$extend") (param i32) (param i32) (result i32))
+    (func $list$repeatInPlace (import "liblist" "list$repeatInPlace") (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $list$slice (import "liblist" "list$slice") (param i32) (param i32) (param i32) (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $int$add (import "libbig" "int$add") (param i32) (param i32) (result i32))
+    (func $int$sub (import "libbig" "int$sub") (param i32) (param i32) (result i32))
+    (func $int$mul (import "libbig" "int$mul") (param i32) (param i32) (result i32))
+    (func $int$div (import "libbig" "int$div") (param i32) (param i32) (result i32))
+    (func $int$mod (import "libbig" "int$mod") (param i32) (param i32) (result i32))
+    (func $int$pow (import "libbig" "int$pow") (param i32) (param i32) (result i32))
+    (func $int$neg (import "libbig" "int$neg") (param i32) (result i32))
+    (func $int$eq (import "libbig" "int$eq") (param i32) (param i32) (result i32))
+    (func $int$neq (import "libbig" "int$neq") (param i32) (param i32) (result i32))
+    (func $int$lt (import "libbig" "int$lt") (param i32) (param i32) (result i32))
+    (func $int$lte (import "libbig" "int$lte") (param i32) (param i32) (result i32))
+    (func $int$gt (import "libbig" "int$gt") (param i32) (param i32) (result i32))
+    (func $int$gte (import "libbig" "int$gte") (param i32) (param i32) (result i32))
+    (func $object$isinstance (import "libobjects" "object$isinstance") (param i32) (param i32) (result i32))
     ${globalImports}
     ${globalDecls}
+    (table (export "$table") ${globalEnv.funcTable.length} funcref)
+    (elem (i32.const 0) ${globalEnv.funcTable.map(name => `$${name}`).join(" ")})
     ${config.functions}
     ${compiled.functions}
     (func (export "exported_func") ${returnType}
@@ -155,5 +252,5 @@ ${BuiltinLib.map(x=>`    (func $${x.name} (import "imports" "${x.name}") ${"(par
   console.log(wasmSource);
   const [result, instance] = await runWat(wasmSource, importObject);
 
-  return [PyValue(progTyp, result), compiled.newEnv, tenv, compiled.functions, instance, wasmSource];
+  return [PyValue(progTyp, result, importObject.js.memory), compiled.newEnv, tenv, compiled.functions, instance, wasmSource];
 }
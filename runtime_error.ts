@@ -1,10 +1,19 @@
 import { RunTimeError } from "./error_reporting";
 import { sourceCode } from "./runner";
+import { storeStr, loadStr } from "./utils";
+import { loadInt } from "./bignum";
 
 var runtimeStack: Array<number> = [];
 
+// Built-in exception classes (see prelude.ts) the errors below are raised as.
+// Every error records its class and message before throwing, so a try in
+// user code can catch it as an instance of that class (see builtin_exception)
+export const builtinErrors = ["ZeroDivisionError", "IndexError", "KeyError", "AttributeError", "RecursionError", "ValueError", "StopIteration", "AssertionError", "MemoryError"];
+var pendingError: [string, string] = undefined;
+
 export function assert_not_none(arg: any, line: number, col: number) : any {
     if (arg === 0){
+      pendingError = ["AttributeError", "cannot perform operation on none"];
       var message = stackTrace() + "\nRUNTIME ERROR: cannot perform operation on none in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
       throw new RunTimeError(message); 
     }
@@ -13,21 +22,82 @@ export function assert_not_none(arg: any, line: number, col: number) : any {
 
 export function division_by_zero(arg: number, line: number, col: number) : any {
     if (arg === 0) {
+      pendingError = ["ZeroDivisionError", "division by zero"];
       var message = stackTrace() + "\nRUNTIME ERROR: division by zero in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
       throw new RunTimeError(message);
     }
     return arg;
   }
 
-  export function index_out_of_bounds(length: any, index: any, line: number, col: number): any {
-    if (index < 0 || index >= length) {
-      var message = stackTrace() + `\nRUNTIME ERROR: Index ${index} out of bounds in line ` + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+  // There are no floats to give 2 ** -1 a value
+  export function negative_exponent(importObject: any, arg: number, line: number, col: number) : any {
+    if (loadInt(importObject.js.memory, arg) < 0) {
+      pendingError = ["ValueError", "negative exponent"];
+      var message = stackTrace() + "\nRUNTIME ERROR: negative exponent in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+      throw new RunTimeError(message);
+    }
+    return arg;
+  }
+
+  // Negative indices count from the end like in Python. Returns the index
+  // normalized that way, which is what the caller should then access.
+  // A bignum index is always out of bounds, but is reported by its value
+  export function index_out_of_bounds(importObject: any, length: any, index: any, line: number, col: number): any {
+    var normalized = index < 0 ? index + length : index;
+    if (normalized < 0 || normalized >= length) {
+      const value = loadInt(importObject.js.memory, index);
+      const reported = value < 0 ? value + BigInt(length) : value;
+      pendingError = ["IndexError", `index ${reported} out of range`];
+      var message = stackTrace() + `\nRUNTIME ERROR: Index ${reported} out of bounds in line ` + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
       throw new RunTimeError(message);
     }
-    return index;
+    return normalized;
+  }
+
+  export function key_not_found(line: number, col: number): any {
+    pendingError = ["KeyError", ""];
+    var message = stackTrace() + "\nRUNTIME ERROR: KeyError in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+    throw new RunTimeError(message);
+  }
+
+  export function list_too_long(line: number, col: number): any {
+    pendingError = ["MemoryError", ""];
+    var message = stackTrace() + "\nRUNTIME ERROR: MemoryError in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+    throw new RunTimeError(message);
+  }
+
+  export function slice_step_zero(line: number, col: number): any {
+    pendingError = ["ValueError", "slice step cannot be zero"];
+    var message = stackTrace() + "\nRUNTIME ERROR: slice step cannot be zero in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+    throw new RunTimeError(message);
+  }
+
+  // Generators record a state of -1 once they have finished
+  export function stop_iteration(state: number, line: number, col: number): any {
+    if (state === -1) {
+      pendingError = ["StopIteration", ""];
+      var message = stackTrace() + "\nRUNTIME ERROR: StopIteration in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+      throw new RunTimeError(message);
+    }
+    return state;
+  }
+
+  // msg is the address of the message of the assert, 0 when it has none
+  export function assertion_failed(importObject: any, msg: number, line: number, col: number): any {
+    const text = msg === 0 ? "" : loadStr(importObject.js.memory, msg);
+    pendingError = ["AssertionError", text];
+    var message = stackTrace() + "\nRUNTIME ERROR: AssertionError" + (text === "" ? "" : ": " + text) + " in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+    throw new RunTimeError(message);
+  }
+
+  export function value_not_found(line: number, col: number): any {
+    pendingError = ["ValueError", "list.remove(x): x not in list"];
+    var message = stackTrace() + "\nRUNTIME ERROR: list.remove(x): x not in list in line " + line.toString() + " at column " + col.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
+    throw new RunTimeError(message);
   }
 
 function recursion_depth(line: number) {
+  pendingError = ["RecursionError", "maximum recursion depth exceeded"];
   var message = stackTrace().split("\n").slice(0, 6).join("\n") + "\n[Previous line repeated 995 more times]\n\nRUNTIME ERROR: maximum recursion depth exceeded in line " + line.toString() + "\n\t" + splitString()[line-1].trim() + "\n\t" + '^'.repeat(splitString()[line-1].trim().length);
   throw new RunTimeError(message);
 } 
@@ -39,14 +109,46 @@ export function stack_push(line: number) {
     runtimeStack.push(line);
 } 
 
+export function stack_pop() {
+    runtimeStack.pop();
+}
+
+export function stack_depth() : number {
+    return runtimeStack.length;
+}
+
+// Drops the calls an exception returned from without popping them
+export function stack_truncate(depth: number) {
+    runtimeStack.length = depth;
+}
+
 export function stack_clear() {
   runtimeStack = [];
+  pendingError = undefined;
 } 
 
+// Turns the error thrown last into an exception object of its built-in class,
+// given the vtables of the classes in builtinErrors. Returns 0 if the last
+// thing thrown was not one of the errors above.
+export function builtin_exception(importObject: any, ...vtables: Array<number>): number {
+  if (pendingError === undefined) {
+    return 0;
+  }
+  const [name, message] = pendingError;
+  pendingError = undefined;
+  const exn = importObject.libmemory.alloc(3);
+  const heap = new Int32Array(importObject.js.memory.buffer);
+  heap[exn / 4] = vtables[builtinErrors.indexOf(name)];
+  heap[exn / 4 + 1] = 3;
+  heap[exn / 4 + 2] = storeStr(importObject, message);
+  return exn;
+}
+
 export function stackTrace() : string {
   var srcArray = splitString();
   var res = "Traceback (most recent call last): \n";
-  runtimeStack.forEach(element => {
+  // calls made in the prelude have lines past the end of the source
+  runtimeStack.filter(element => element <= srcArray.length).forEach(element => {
     res = res + "\tin line " + element.toString() + ": " + srcArray[element-1].trim() + " \n";
   });
   return res;
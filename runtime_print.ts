@@ -0,0 +1,148 @@
+import { Type } from "./ast";
+import { GlobalEnv } from "./compiler";
+import { loadInt } from "./bignum";
+import { loadStr, objectClassName } from "./utils";
+
+// The printer behind print. Compiled code calls it once per argument with the
+// index of the argument's type in env.printTypes and the string to print after
+// it, which is the sep of the call, or its end for the last argument. A None
+// sep or end stands for the default one. Returns the text to output.
+export function print(importObject: any, value: number, typeIndex: number, after: number, isEnd: number) : string {
+  const env : GlobalEnv = importObject.globalEnv;
+  // print() passes no type, it only prints the end
+  var text = typeIndex < 0 ? "" : stringify(importObject, value, env.printTypes[typeIndex], false);
+  if (after === 0)
+    return text + (isEnd ? "\n" : " ");
+  return text + loadStr(importObject.js.memory, after);
+}
+
+// Renders value like str() does, or like repr() when it is inside a container
+export function stringify(importObject: any, value: number, typ: Type, repr: boolean) : string {
+  const memory : WebAssembly.Memory = importObject.js.memory;
+  switch (typ.tag) {
+    case "number":
+      return loadInt(memory, value).toString();
+    case "bool":
+      return value ? "True" : "False";
+    case "none":
+      return "None";
+    case "str":
+      return repr ? strRepr(loadStr(memory, value)) : loadStr(memory, value);
+  }
+  if (value === 0)
+    return "None";
+  const heap = new Int32Array(memory.buffer);
+  const items = (values: Array<number>, t: Type) => values.map(v => stringify(importObject, v, t, true)).join(", ");
+  switch (typ.tag) {
+    case "list": {
+      // [length, capacity, elements], see stdlib/lists.wat
+      const elements = heap[value / 4 + 2] / 4;
+      return `[${items(Array.from(heap.subarray(elements, elements + heap[value / 4])), typ.type)}]`;
+    }
+    case "tuple": {
+      const elements = typ.contentTypes.map((t, i) => stringify(importObject, heap[value / 4 + i], t, true));
+      return elements.length === 1 ? `(${elements[0]},)` : `(${elements.join(", ")})`;
+    }
+    case "set": {
+      // 10 buckets, each a chain of [value, next] nodes, see stdlib/sets.wat
+      const values : Array<number> = [];
+      for (let bucket = 0; bucket < 10; bucket++) {
+        for (let node = heap[value / 4 + bucket]; node !== 0; node = heap[node / 4 + 1])
+          values.push(heap[node / 4]);
+      }
+      return values.length === 0 ? "set()" : `{${items(values, typ.valueType)}}`;
+    }
+    case "dict": {
+      // entries [key, value, next in bucket, next in insertion order] from the first one, see stdlib/dicts.wat
+      const entries : Array<string> = [];
+      for (let entry = heap[value / 4 + 1]; entry !== 0; entry = heap[entry / 4 + 3])
+        entries.push(`${stringify(importObject, heap[entry / 4], typ.key, true)}: ${stringify(importObject, heap[entry / 4 + 1], typ.value, true)}`);
+      return `{${entries.join(", ")}}`;
+    }
+    case "class":
+      return stringifyObject(importObject, value, repr);
+    case "callable": {
+      // a function value starts with its function table index
+      const name = importObject.globalEnv.funcTable[heap[value / 4]] || "function";
+      return `<function ${name} at 0x${value.toString(16)}>`;
+    }
+    case "generator":
+      return `<generator object <genexpr> at 0x${value.toString(16)}>`;
+    default:
+      return `<${typ.tag} object at 0x${value.toString(16)}>`;
+  }
+}
+
+// Whether value and other of type typIndex (an index into env.printTypes) are
+// equal like == has them, for list methods that look for a value, see
+// stdlib/lists.wat. Tuples and lists are equal when their elements are, objects
+// when they are the same one or __eq__ of the first says so.
+export function equal(importObject: any, value: number, other: number, typeIndex: number) : number {
+  const env : GlobalEnv = importObject.globalEnv;
+  return valuesEqual(importObject, value, other, env.printTypes[typeIndex]) ? 1 : 0;
+}
+
+function valuesEqual(importObject: any, value: number, other: number, typ: Type) : boolean {
+  const memory : WebAssembly.Memory = importObject.js.memory;
+  switch (typ.tag) {
+    case "number":
+      return loadInt(memory, value) === loadInt(memory, other);
+    case "str":
+      return loadStr(memory, value) === loadStr(memory, other);
+  }
+  if (value === other)
+    return true;
+  if (value === 0 || other === 0)
+    return false;
+  const heap = new Int32Array(memory.buffer);
+  switch (typ.tag) {
+    case "tuple":
+      return typ.contentTypes.every((t, i) => valuesEqual(importObject, heap[value / 4 + i], heap[other / 4 + i], t));
+    case "list": {
+      const length = heap[value / 4];
+      if (heap[other / 4] !== length)
+        return false;
+      const [elements, otherElements] = [heap[value / 4 + 2] / 4, heap[other / 4 + 2] / 4];
+      for (let i = 0; i < length; i++) {
+        if (!valuesEqual(importObject, heap[elements + i], heap[otherElements + i], typ.type))
+          return false;
+      }
+      return true;
+    }
+    case "class": {
+      const env : GlobalEnv = importObject.globalEnv;
+      const className = objectClassName(importObject, importObject.instance, value) || "object";
+      const slot = (env.vtables.get(className) || []).find(([name, _]) => name === "__eq__");
+      if (slot === undefined)
+        return false;
+      const table : WebAssembly.Table = importObject.instance.exports.$table;
+      return table.get(env.funcTable.indexOf(slot[1]))(value, other) !== 0;
+    }
+    default:
+      return false;
+  }
+}
+
+// Objects print as what __str__ or __repr__ of their actual class returns,
+// calling it through the exported function table, or else as their class
+// name and address
+function stringifyObject(importObject: any, obj: number, repr: boolean) : string {
+  const env : GlobalEnv = importObject.globalEnv;
+  const className = objectClassName(importObject, importObject.instance, obj) || "object";
+  const vtable = env.vtables.get(className) || [];
+  for (const method of repr ? ["__repr__"] : ["__str__", "__repr__"]) {
+    const slot = vtable.find(([name, _]) => name === method);
+    if (slot !== undefined) {
+      const table : WebAssembly.Table = importObject.instance.exports.$table;
+      return loadStr(importObject.js.memory, table.get(env.funcTable.indexOf(slot[1]))(obj));
+    }
+  }
+  return `<__main__.${className} object at 0x${obj.toString(16)}>`;
+}
+
+// Quotes a string the way Python's repr does
+function strRepr(s: string) : string {
+  const quote = s.includes("'") && !s.includes('"') ? '"' : "'";
+  const escaped = s.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/\t/g, "\\t").replace(/\r/g, "\\r");
+  return quote + (quote === "'" ? escaped.replace(/'/g, "\\'") : escaped) + quote;
+}
@@ -0,0 +1,123 @@
+(module
+    (func $big_binop (import "imports" "big_binop") (param i32) (param i32) (param i32) (result i32))
+    (func $big_cmp (import "imports" "big_cmp") (param i32) (param i32) (result i32))
+
+    ;; Ints in [-2^30, 2^30) are plain i32s, anything larger is a heap bignum
+    ;; referred to by its address plus 2^30 (see bignum.ts). Both operands small
+    ;; is the fast path, everything else is handed to big_binop / big_cmp with
+    ;; the op given as its BinOp value: Plus 0, Minus 1, Mul 2, IDiv 3, Mod 4, Pow 15.
+
+    (func $isBig (param $x i32) (result i32)
+        (i32.ge_s (local.get $x) (i32.const 0x40000000)))
+
+    (func $anyBig (param $left i32) (param $right i32) (result i32)
+        (i32.or (call $isBig (local.get $left)) (call $isBig (local.get $right))))
+
+    ;; Whether an exactly computed result can stay unboxed
+    (func $fits (param $result i64) (result i32)
+        (i32.and
+            (i64.ge_s (local.get $result) (i64.const -0x40000000))
+            (i64.lt_s (local.get $result) (i64.const 0x40000000))))
+
+    (func $int$add (export "int$add") (param $left i32) (param $right i32) (result i32)
+        (local $result i64)
+        (if (call $anyBig (local.get $left) (local.get $right))
+            (then (return (call $big_binop (i32.const 0) (local.get $left) (local.get $right)))))
+        (local.set $result (i64.add (i64.extend_i32_s (local.get $left)) (i64.extend_i32_s (local.get $right))))
+        (if (call $fits (local.get $result))
+            (then (return (i32.wrap_i64 (local.get $result)))))
+        (call $big_binop (i32.const 0) (local.get $left) (local.get $right)))
+
+    (func $int$sub (export "int$sub") (param $left i32) (param $right i32) (result i32)
+        (local $result i64)
+        (if (call $anyBig (local.get $left) (local.get $right))
+            (then (return (call $big_binop (i32.const 1) (local.get $left) (local.get $right)))))
+        (local.set $result (i64.sub (i64.extend_i32_s (local.get $left)) (i64.extend_i32_s (local.get $right))))
+        (if (call $fits (local.get $result))
+            (then (return (i32.wrap_i64 (local.get $result)))))
+        (call $big_binop (i32.const 1) (local.get $left) (local.get $right)))
+
+    (func $int$mul (export "int$mul") (param $left i32) (param $right i32) (result i32)
+        (local $result i64)
+        (if (call $anyBig (local.get $left) (local.get $right))
+            (then (return (call $big_binop (i32.const 2) (local.get $left) (local.get $right)))))
+        (local.set $result (i64.mul (i64.extend_i32_s (local.get $left)) (i64.extend_i32_s (local.get $right))))
+        (if (call $fits (local.get $result))
+            (then (return (i32.wrap_i64 (local.get $result)))))
+        (call $big_binop (i32.const 2) (local.get $left) (local.get $right)))
+
+    ;; The divisor has already been checked against zero by the caller. Python
+    ;; rounds toward negative infinity where div_s / rem_s truncate toward zero,
+    ;; so an inexact quotient with operands of different signs is one lower and
+    ;; a nonzero remainder takes the sign of the divisor.
+    (func $int$div (export "int$div") (param $left i32) (param $right i32) (result i32)
+        (local $result i64)
+        (if (call $anyBig (local.get $left) (local.get $right))
+            (then (return (call $big_binop (i32.const 3) (local.get $left) (local.get $right)))))
+        (local.set $result (i64.div_s (i64.extend_i32_s (local.get $left)) (i64.extend_i32_s (local.get $right))))
+        (if (i32.and
+                (i32.ne (i32.rem_s (local.get $left) (local.get $right)) (i32.const 0))
+                (i32.lt_s (i32.xor (local.get $left) (local.get $right)) (i32.const 0)))
+            (then (local.set $result (i64.sub (local.get $result) (i64.const 1)))))
+        (if (call $fits (local.get $result))
+            (then (return (i32.wrap_i64 (local.get $result)))))
+        (call $big_binop (i32.const 3) (local.get $left) (local.get $right)))
+
+    (func $int$mod (export "int$mod") (param $left i32) (param $right i32) (result i32)
+        (local $result i32)
+        (if (call $anyBig (local.get $left) (local.get $right))
+            (then (return (call $big_binop (i32.const 4) (local.get $left) (local.get $right)))))
+        (local.set $result (i32.rem_s (local.get $left) (local.get $right)))
+        (if (i32.and
+                (i32.ne (local.get $result) (i32.const 0))
+                (i32.lt_s (i32.xor (local.get $result) (local.get $right)) (i32.const 0)))
+            (then (local.set $result (i32.add (local.get $result) (local.get $right)))))
+        (local.get $result))
+
+    ;; The exponent has already been checked to be nonnegative by the caller.
+    ;; Squaring goes through int$mul, which boxes whatever outgrows an i32.
+    (func $int$pow (export "int$pow") (param $base i32) (param $exp i32) (result i32)
+        (local $result i32)
+        (if (call $isBig (local.get $exp))
+            (then (return (call $big_binop (i32.const 15) (local.get $base) (local.get $exp)))))
+        (local.set $result (i32.const 1))
+        (block $done
+            (loop $square
+                (br_if $done (i32.eqz (local.get $exp)))
+                (if (i32.and (local.get $exp) (i32.const 1))
+                    (then (local.set $result (call $int$mul (local.get $result) (local.get $base)))))
+                (local.set $exp (i32.shr_u (local.get $exp) (i32.const 1)))
+                (if (local.get $exp)
+                    (then (local.set $base (call $int$mul (local.get $base) (local.get $base)))))
+                (br $square)))
+        (local.get $result))
+
+    (func $int$neg (export "int$neg") (param $value i32) (result i32)
+        (call $int$sub (i32.const 0) (local.get $value)))
+
+    ;; Returns -1, 0 or 1
+    (func $cmp (param $left i32) (param $right i32) (result i32)
+        (if (call $anyBig (local.get $left) (local.get $right))
+            (then (return (call $big_cmp (local.get $left) (local.get $right)))))
+        (i32.sub
+            (i32.gt_s (local.get $left) (local.get $right))
+            (i32.lt_s (local.get $left) (local.get $right))))
+
+    (func $int$eq (export "int$eq") (param $left i32) (param $right i32) (result i32)
+        (i32.eqz (call $cmp (local.get $left) (local.get $right))))
+
+    (func $int$neq (export "int$neq") (param $left i32) (param $right i32) (result i32)
+        (i32.ne (call $cmp (local.get $left) (local.get $right)) (i32.const 0)))
+
+    (func $int$lt (export "int$lt") (param $left i32) (param $right i32) (result i32)
+        (i32.lt_s (call $cmp (local.get $left) (local.get $right)) (i32.const 0)))
+
+    (func $int$lte (export "int$lte") (param $left i32) (param $right i32) (result i32)
+        (i32.le_s (call $cmp (local.get $left) (local.get $right)) (i32.const 0)))
+
+    (func $int$gt (export "int$gt") (param $left i32) (param $right i32) (result i32)
+        (i32.gt_s (call $cmp (local.get $left) (local.get $right)) (i32.const 0)))
+
+    (func $int$gte (export "int$gte") (param $left i32) (param $right i32) (result i32)
+        (i32.ge_s (call $cmp (local.get $left) (local.get $right)) (i32.const 0)))
+)
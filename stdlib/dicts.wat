@@ -0,0 +1,176 @@
+(module
+    (memory (import "js" "mem") 1)
+    (func $alloc (import "libmemory" "alloc") (param i32) (result i32))
+    (func $load (import "libmemory" "load") (param i32) (param i32) (result i32))
+    (func $store (import "libmemory" "store") (param i32) (param i32) (param i32))
+    (func $str$eq (import "libstr" "str$eq") (param i32) (param i32) (result i32))
+    (func $int$eq (import "libbig" "int$eq") (param i32) (param i32) (result i32))
+    (func $key_not_found (import "imports" "key_not_found") (param i32) (param i32) (result i32))
+    (func $list$new (import "liblist" "list$new") (param i32) (result i32))
+
+    ;; A dict is laid out as [size, first entry, last entry, bucket count, buckets],
+    ;; where buckets is a separate block of bucket count words, and every entry as
+    ;; [key, value, next entry in bucket, next entry in insertion order]. A dict
+    ;; that gets more entries than buckets gets twice the buckets, so the dict
+    ;; itself never moves and the chains stay short.
+    ;; $strKey is 1 when the keys are strings, so they are hashed and compared by their chars.
+    ;; Bignum keys (see bignum.wat) are hashed by their limbs and compared by value.
+
+    (func $dict$new (export "dict$new") (result i32)
+        (local $dict i32)
+        (local.set $dict (call $alloc (i32.const 5)))
+        (call $store (local.get $dict) (i32.const 3) (i32.const 8))
+        (call $store (local.get $dict) (i32.const 4) (call $alloc (i32.const 8)))
+        (local.get $dict))
+
+    ;; Hash the words 1 to $len of the block at $addr
+    (func $dict$hashWords (param $addr i32) (param $len i32) (result i32)
+        (local $hash i32)
+        (local $i i32)
+        (local.set $i (i32.const 1))
+        (block $done
+            (loop $words
+                (br_if $done (i32.gt_s (local.get $i) (local.get $len)))
+                (local.set $hash (i32.add (i32.mul (local.get $hash) (i32.const 31)) (call $load (local.get $addr) (local.get $i))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $words)))
+        (local.get $hash))
+
+    (func $dict$hash (param $key i32) (param $strKey i32) (result i32)
+        (local $addr i32)
+        (local $len i32)
+        (if (local.get $strKey)
+            (then (return (call $dict$hashWords (local.get $key) (call $load (local.get $key) (i32.const 0))))))
+        (if (i32.lt_s (local.get $key) (i32.const 0x40000000))
+            (then (return (local.get $key))))
+        ;; a bignum is [signed limb count, limbs]
+        (local.set $addr (i32.sub (local.get $key) (i32.const 0x40000000)))
+        (local.set $len (call $load (local.get $addr) (i32.const 0)))
+        (if (i32.lt_s (local.get $len) (i32.const 0))
+            (then (local.set $len (i32.sub (i32.const 0) (local.get $len)))))
+        (call $dict$hashWords (local.get $addr) (local.get $len)))
+
+    ;; The index of the bucket of $key among $count buckets
+    (func $dict$bucket (param $key i32) (param $strKey i32) (param $count i32) (result i32)
+        (i32.rem_u (call $dict$hash (local.get $key) (local.get $strKey)) (local.get $count)))
+
+    ;; Move every entry to its bucket among twice as many buckets
+    (func $dict$grow (param $dict i32) (param $strKey i32)
+        (local $count i32)
+        (local $buckets i32)
+        (local $entry i32)
+        (local $bucket i32)
+        (local.set $count (i32.mul (call $load (local.get $dict) (i32.const 3)) (i32.const 2)))
+        (local.set $buckets (call $alloc (local.get $count)))
+        (local.set $entry (call $load (local.get $dict) (i32.const 1)))
+        (block $done
+            (loop $move
+                (br_if $done (i32.eqz (local.get $entry)))
+                (local.set $bucket (call $dict$bucket (call $load (local.get $entry) (i32.const 0)) (local.get $strKey) (local.get $count)))
+                (call $store (local.get $entry) (i32.const 2) (call $load (local.get $buckets) (local.get $bucket)))
+                (call $store (local.get $buckets) (local.get $bucket) (local.get $entry))
+                (local.set $entry (call $load (local.get $entry) (i32.const 3)))
+                (br $move)))
+        (call $store (local.get $dict) (i32.const 3) (local.get $count))
+        (call $store (local.get $dict) (i32.const 4) (local.get $buckets)))
+
+    (func $dict$keyEq (param $left i32) (param $right i32) (param $strKey i32) (result i32)
+        (if (result i32) (local.get $strKey)
+            (then (call $str$eq (local.get $left) (local.get $right)))
+            (else (call $int$eq (local.get $left) (local.get $right)))))
+
+    ;; Return the entry holding $key, or 0 if there is none
+    (func $dict$find (param $dict i32) (param $key i32) (param $strKey i32) (result i32)
+        (local $entry i32)
+        (local.set $entry (call $load (call $load (local.get $dict) (i32.const 4))
+            (call $dict$bucket (local.get $key) (local.get $strKey) (call $load (local.get $dict) (i32.const 3)))))
+        (block $done
+            (loop $search
+                (br_if $done (i32.eqz (local.get $entry)))
+                (br_if $done (call $dict$keyEq (call $load (local.get $entry) (i32.const 0)) (local.get $key) (local.get $strKey)))
+                (local.set $entry (call $load (local.get $entry) (i32.const 2)))
+                (br $search)))
+        (local.get $entry))
+
+    (func $dict$set (export "dict$set") (param $dict i32) (param $key i32) (param $value i32) (param $strKey i32) (result i32)
+        (local $entry i32)
+        (local $buckets i32)
+        (local $bucket i32)
+        (local.set $entry (call $dict$find (local.get $dict) (local.get $key) (local.get $strKey)))
+        (if (local.get $entry)
+            (then
+                (call $store (local.get $entry) (i32.const 1) (local.get $value))
+                (return (i32.const 0))))
+        (local.set $buckets (call $load (local.get $dict) (i32.const 4)))
+        (local.set $bucket (call $dict$bucket (local.get $key) (local.get $strKey) (call $load (local.get $dict) (i32.const 3))))
+        (local.set $entry (call $alloc (i32.const 4)))
+        (call $store (local.get $entry) (i32.const 0) (local.get $key))
+        (call $store (local.get $entry) (i32.const 1) (local.get $value))
+        (call $store (local.get $entry) (i32.const 2) (call $load (local.get $buckets) (local.get $bucket)))
+        (call $store (local.get $entry) (i32.const 3) (i32.const 0))
+        (call $store (local.get $buckets) (local.get $bucket) (local.get $entry))
+        ;; append the new entry to the insertion order
+        (if (i32.eqz (call $load (local.get $dict) (i32.const 1)))
+            (then (call $store (local.get $dict) (i32.const 1) (local.get $entry)))
+            (else (call $store (call $load (local.get $dict) (i32.const 2)) (i32.const 3) (local.get $entry))))
+        (call $store (local.get $dict) (i32.const 2) (local.get $entry))
+        (call $store (local.get $dict) (i32.const 0) (i32.add (call $load (local.get $dict) (i32.const 0)) (i32.const 1)))
+        (if (i32.gt_s (call $load (local.get $dict) (i32.const 0)) (call $load (local.get $dict) (i32.const 3)))
+            (then (call $dict$grow (local.get $dict) (local.get $strKey))))
+        (i32.const 0))
+
+    (func $dict$get (export "dict$get") (param $dict i32) (param $key i32) (param $strKey i32) (param $line i32) (param $col i32) (result i32)
+        (local $entry i32)
+        (local.set $entry (call $dict$find (local.get $dict) (local.get $key) (local.get $strKey)))
+        (if (i32.eqz (local.get $entry))
+            (then (drop (call $key_not_found (local.get $line) (local.get $col)))))
+        (call $load (local.get $entry) (i32.const 1)))
+
+    (func $dict$contains (export "dict$contains") (param $dict i32) (param $key i32) (param $strKey i32) (result i32)
+        (i32.ne (call $dict$find (local.get $dict) (local.get $key) (local.get $strKey)) (i32.const 0)))
+
+    (func $dict$length (export "dict$length") (param $dict i32) (result i32)
+        (call $load (local.get $dict) (i32.const 0)))
+
+    ;; Copy the given entry field of every entry into a new list, in insertion order
+    (func $dict$collect (param $dict i32) (param $field i32) (result i32)
+        (local $list i32)
+        (local $entry i32)
+        (local $i i32)
+        (local.set $list (call $list$new (call $load (local.get $dict) (i32.const 0))))
+        (local.set $entry (call $load (local.get $dict) (i32.const 1)))
+        (block $done
+            (loop $walk
+                (br_if $done (i32.eqz (local.get $entry)))
+                (call $store (call $load (local.get $list) (i32.const 2)) (local.get $i) (call $load (local.get $entry) (local.get $field)))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (local.set $entry (call $load (local.get $entry) (i32.const 3)))
+                (br $walk)))
+        (local.get $list))
+
+    (func $dict$keys (export "dict$keys") (param $dict i32) (result i32)
+        (call $dict$collect (local.get $dict) (i32.const 0)))
+
+    (func $dict$values (export "dict$values") (param $dict i32) (result i32)
+        (call $dict$collect (local.get $dict) (i32.const 1)))
+
+    ;; A list of (key, value) tuples, each laid out as [key, value]
+    (func $dict$items (export "dict$items") (param $dict i32) (result i32)
+        (local $list i32)
+        (local $entry i32)
+        (local $item i32)
+        (local $i i32)
+        (local.set $list (call $list$new (call $load (local.get $dict) (i32.const 0))))
+        (local.set $entry (call $load (local.get $dict) (i32.const 1)))
+        (block $done
+            (loop $walk
+                (br_if $done (i32.eqz (local.get $entry)))
+                (local.set $item (call $alloc (i32.const 2)))
+                (call $store (local.get $item) (i32.const 0) (call $load (local.get $entry) (i32.const 0)))
+                (call $store (local.get $item) (i32.const 1) (call $load (local.get $entry) (i32.const 1)))
+                (call $store (call $load (local.get $list) (i32.const 2)) (local.get $i) (local.get $item))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (local.set $entry (call $load (local.get $entry) (i32.const 3)))
+                (br $walk)))
+        (local.get $list))
+)
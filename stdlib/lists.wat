@@ -0,0 +1,264 @@
+(module
+    (memory (import "js" "mem") 1)
+    (func $alloc (import "libmemory" "alloc") (param i32) (result i32))
+    (func $load (import "libmemory" "load") (param i32) (param i32) (result i32))
+    (func $store (import "libmemory" "store") (param i32) (param i32) (param i32))
+    (func $str$eq (import "libstr" "str$eq") (param i32) (param i32) (result i32))
+    (func $int$eq (import "libbig" "int$eq") (param i32) (param i32) (result i32))
+    (func $int$lt (import "libbig" "int$lt") (param i32) (param i32) (result i32))
+    (func $index_out_of_bounds (import "imports" "index_out_of_bounds") (param i32) (param i32) (param i32) (param i32) (result i32))
+    (func $value_not_found (import "imports" "value_not_found") (param i32) (param i32) (result i32))
+    (func $slice_step_zero (import "imports" "slice_step_zero") (param i32) (param i32) (result i32))
+    (func $list_too_long (import "imports" "list_too_long") (param i32) (param i32) (result i32))
+    (func $equal (import "imports" "equal") (param i32) (param i32) (param i32) (result i32))
+
+    ;; A list is laid out as [length, capacity, elements], where elements is a
+    ;; separate block of capacity words. A list that outgrows it gets a block
+    ;; twice the size, so the list itself never moves and appending is
+    ;; amortized constant time.
+    ;; $kind says how elements are compared: 0 by identity, 1 as strings, 2 as ints
+    ;; and 3 + i by equal in runtime_print.ts, as values of env.printTypes[i].
+
+    (func $list$new (export "list$new") (param $length i32) (result i32)
+        (local $list i32)
+        (local $capacity i32)
+        (local.set $capacity (select (local.get $length) (i32.const 4) (i32.gt_s (local.get $length) (i32.const 4))))
+        (local.set $list (call $alloc (i32.const 3)))
+        (call $store (local.get $list) (i32.const 0) (local.get $length))
+        (call $store (local.get $list) (i32.const 1) (local.get $capacity))
+        (call $store (local.get $list) (i32.const 2) (call $alloc (local.get $capacity)))
+        (local.get $list))
+
+    (func $list$length (param $list i32) (result i32)
+        (call $load (local.get $list) (i32.const 0)))
+
+    (func $list$get (param $list i32) (param $index i32) (result i32)
+        (call $load (call $load (local.get $list) (i32.const 2)) (local.get $index)))
+
+    (func $list$set (param $list i32) (param $index i32) (param $value i32)
+        (call $store (call $load (local.get $list) (i32.const 2)) (local.get $index) (local.get $value)))
+
+    ;; Make room for at least $needed elements
+    (func $list$reserve (param $list i32) (param $needed i32)
+        (local $capacity i32)
+        (local $elements i32)
+        (local $i i32)
+        (local.set $capacity (call $load (local.get $list) (i32.const 1)))
+        (if (i32.le_s (local.get $needed) (local.get $capacity))
+            (then (return)))
+        (loop $double
+            (local.set $capacity (i32.mul (local.get $capacity) (i32.const 2)))
+            (br_if $double (i32.lt_s (local.get $capacity) (local.get $needed))))
+        (local.set $elements (call $alloc (local.get $capacity)))
+        (block $done
+            (loop $copy
+                (br_if $done (i32.ge_s (local.get $i) (call $list$length (local.get $list))))
+                (call $store (local.get $elements) (local.get $i) (call $list$get (local.get $list) (local.get $i)))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $copy)))
+        (call $store (local.get $list) (i32.const 1) (local.get $capacity))
+        (call $store (local.get $list) (i32.const 2) (local.get $elements)))
+
+    ;; Copy the elements of $from to $to starting at index $start
+    (func $list$copyInto (param $to i32) (param $start i32) (param $from i32)
+        (local $i i32)
+        (block $done
+            (loop $copy
+                (br_if $done (i32.ge_s (local.get $i) (call $list$length (local.get $from))))
+                (call $list$set (local.get $to) (i32.add (local.get $start) (local.get $i)) (call $list$get (local.get $from) (local.get $i)))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $copy))))
+
+    (func $list$append (export "list$append") (param $list i32) (param $value i32) (result i32)
+        (local $length i32)
+        (local.set $length (call $list$length (local.get $list)))
+        (call $list$reserve (local.get $list) (i32.add (local.get $length) (i32.const 1)))
+        (call $list$set (local.get $list) (local.get $length) (local.get $value))
+        (call $store (local.get $list) (i32.const 0) (i32.add (local.get $length) (i32.const 1)))
+        (i32.const 0))
+
+    ;; Remove and return the element at $index, counting from the end when negative
+    (func $list$pop (export "list$pop") (param $list i32) (param $index i32) (param $line i32) (param $col i32) (result i32)
+        (local $length i32)
+        (local $value i32)
+        (local $i i32)
+        (local.set $length (call $list$length (local.get $list)))
+        (local.set $index (call $index_out_of_bounds (local.get $length) (local.get $index) (local.get $line) (local.get $col)))
+        (local.set $value (call $list$get (local.get $list) (local.get $index)))
+        (local.set $i (local.get $index))
+        (block $done
+            (loop $shift
+                (br_if $done (i32.ge_s (local.get $i) (i32.sub (local.get $length) (i32.const 1))))
+                (call $list$set (local.get $list) (local.get $i) (call $list$get (local.get $list) (i32.add (local.get $i) (i32.const 1))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $shift)))
+        (call $store (local.get $list) (i32.const 0) (i32.sub (local.get $length) (i32.const 1)))
+        (local.get $value))
+
+    ;; Insert before $index, which like in Python is clamped to the list
+    (func $list$insert (export "list$insert") (param $list i32) (param $index i32) (param $value i32) (result i32)
+        (local $length i32)
+        (local $i i32)
+        (local.set $length (call $list$length (local.get $list)))
+        (if (i32.lt_s (local.get $index) (i32.const 0))
+            (then (local.set $index (i32.add (local.get $index) (local.get $length)))))
+        (if (i32.lt_s (local.get $index) (i32.const 0))
+            (then (local.set $index (i32.const 0))))
+        (if (i32.gt_s (local.get $index) (local.get $length))
+            (then (local.set $index (local.get $length))))
+        (call $list$reserve (local.get $list) (i32.add (local.get $length) (i32.const 1)))
+        (local.set $i (local.get $length))
+        (block $done
+            (loop $shift
+                (br_if $done (i32.le_s (local.get $i) (local.get $index)))
+                (call $list$set (local.get $list) (local.get $i) (call $list$get (local.get $list) (i32.sub (local.get $i) (i32.const 1))))
+                (local.set $i (i32.sub (local.get $i) (i32.const 1)))
+                (br $shift)))
+        (call $list$set (local.get $list) (local.get $index) (local.get $value))
+        (call $store (local.get $list) (i32.const 0) (i32.add (local.get $length) (i32.const 1)))
+        (i32.const 0))
+
+    (func $list$eq (param $left i32) (param $right i32) (param $kind i32) (result i32)
+        (if (i32.eq (local.get $kind) (i32.const 1))
+            (then (return (call $str$eq (local.get $left) (local.get $right)))))
+        (if (i32.eq (local.get $kind) (i32.const 2))
+            (then (return (call $int$eq (local.get $left) (local.get $right)))))
+        (if (i32.ge_s (local.get $kind) (i32.const 3))
+            (then (return (call $equal (local.get $left) (local.get $right) (i32.sub (local.get $kind) (i32.const 3))))))
+        (i32.eq (local.get $left) (local.get $right)))
+
+    ;; Return the index of the first element equal to $value, or -1 if there is none
+    (func $list$find (param $list i32) (param $value i32) (param $kind i32) (result i32)
+        (local $i i32)
+        (block $done
+            (loop $search
+                (br_if $done (i32.ge_s (local.get $i) (call $list$length (local.get $list))))
+                (if (call $list$eq (call $list$get (local.get $list) (local.get $i)) (local.get $value) (local.get $kind))
+                    (then (return (local.get $i))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $search)))
+        (i32.const -1))
+
+    (func $list$contains (export "list$contains") (param $list i32) (param $value i32) (param $kind i32) (result i32)
+        (i32.ge_s (call $list$find (local.get $list) (local.get $value) (local.get $kind)) (i32.const 0)))
+
+    (func $list$remove (export "list$remove") (param $list i32) (param $value i32) (param $kind i32) (param $line i32) (param $col i32) (result i32)
+        (local $index i32)
+        (local.set $index (call $list$find (local.get $list) (local.get $value) (local.get $kind)))
+        (if (i32.lt_s (local.get $index) (i32.const 0))
+            (then (drop (call $value_not_found (local.get $line) (local.get $col)))))
+        (drop (call $list$pop (local.get $list) (local.get $index) (local.get $line) (local.get $col)))
+        (i32.const 0))
+
+    (func $list$concat (export "list$concat") (param $left i32) (param $right i32) (result i32)
+        (local $list i32)
+        (local.set $list (call $list$new (i32.add (call $list$length (local.get $left)) (call $list$length (local.get $right)))))
+        (call $list$copyInto (local.get $list) (i32.const 0) (local.get $left))
+        (call $list$copyInto (local.get $list) (call $list$length (local.get $left)) (local.get $right))
+        (local.get $list))
+
+    ;; Append the elements of $from, the same list for xs += ys
+    (func $list$extend (export "list$extend") (param $list i32) (param $from i32) (result i32)
+        (local $length i32)
+        (local.set $length (call $list$length (local.get $list)))
+        (call $list$reserve (local.get $list) (i32.add (local.get $length) (call $list$length (local.get $from))))
+        (call $list$copyInto (local.get $list) (local.get $length) (local.get $from))
+        (call $store (local.get $list) (i32.const 0) (i32.add (local.get $length) (call $list$length (local.get $from))))
+        (local.get $list))
+
+    ;; Replace the elements by $times copies of them, the same list for xs *= n
+    (func $list$repeatInPlace (export "list$repeatInPlace") (param $list i32) (param $times i32) (param $line i32) (param $col i32) (result i32)
+        (local $copies i32)
+        (local.set $copies (call $list$repeat (local.get $list) (local.get $times) (local.get $line) (local.get $col)))
+        (call $store (local.get $list) (i32.const 0) (i32.const 0))
+        (call $list$extend (local.get $list) (local.get $copies)))
+
+    ;; $times copies of the elements one after another, none if $times is negative
+    ;; or the list is empty. $times may be a bignum, copies that would not fit in
+    ;; memory raise MemoryError.
+    (func $list$repeat (export "list$repeat") (param $from i32) (param $times i32) (param $line i32) (param $col i32) (result i32)
+        (local $list i32)
+        (local $i i32)
+        (local $length i32)
+        (local.set $length (call $list$length (local.get $from)))
+        (local.set $times (call $list$clamp (local.get $times) (i32.const 0x3fffffff)))
+        (if (i32.or (i32.lt_s (local.get $times) (i32.const 0)) (i32.eqz (local.get $length)))
+            (then (local.set $times (i32.const 0))))
+        ;; memory has 16384 words a page, the select keeps an empty list from dividing by 0
+        (if (i32.gt_u (local.get $times) (i32.div_u (i32.mul (memory.size) (i32.const 16384)) (select (local.get $length) (i32.const 1) (local.get $length))))
+            (then (drop (call $list_too_long (local.get $line) (local.get $col)))))
+        (local.set $list (call $list$new (i32.mul (call $list$length (local.get $from)) (local.get $times))))
+        (block $done
+            (loop $copy
+                (br_if $done (i32.ge_s (local.get $i) (local.get $times)))
+                (call $list$copyInto (local.get $list) (i32.mul (local.get $i) (call $list$length (local.get $from))) (local.get $from))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $copy)))
+        (local.get $list))
+
+    ;; Clamp an int that may be a bignum to [-$limit, $limit], which leaves a
+    ;; slice bound or step as far out as it needs to be to take the same elements
+    (func $list$clamp (param $value i32) (param $limit i32) (result i32)
+        (if (call $int$lt (local.get $value) (i32.sub (i32.const 0) (local.get $limit)))
+            (then (return (i32.sub (i32.const 0) (local.get $limit)))))
+        (if (call $int$lt (local.get $limit) (local.get $value))
+            (then (return (local.get $limit))))
+        (local.get $value))
+
+    ;; Clamp a slice bound like Python's slice.indices does
+    (func $list$sliceBound (param $bound i32) (param $length i32) (param $lower i32) (param $upper i32) (result i32)
+        (if (i32.lt_s (local.get $bound) (i32.const 0))
+            (then
+                (local.set $bound (i32.add (local.get $bound) (local.get $length)))
+                (if (i32.lt_s (local.get $bound) (i32.const 0))
+                    (then (local.set $bound (local.get $lower)))))
+            (else
+                (if (i32.gt_s (local.get $bound) (local.get $upper))
+                    (then (local.set $bound (local.get $upper))))))
+        (local.get $bound))
+
+    ;; A new list of the elements $list[$start:$stop:$step]. Bit 1 of $given is
+    ;; set when $start was written out and bit 2 when $stop was, the bounds
+    ;; left out default to the ends the slice walks from and to
+    (func $list$slice (export "list$slice") (param $list i32) (param $start i32) (param $stop i32) (param $step i32) (param $given i32) (param $line i32) (param $col i32) (result i32)
+        (local $length i32)
+        (local $lower i32)
+        (local $upper i32)
+        (local $count i32)
+        (local $result i32)
+        (local $i i32)
+        (if (i32.eqz (local.get $step))
+            (then (drop (call $slice_step_zero (local.get $line) (local.get $col)))))
+        (local.set $length (call $list$length (local.get $list)))
+        (local.set $start (call $list$clamp (local.get $start) (i32.add (local.get $length) (i32.const 1))))
+        (local.set $stop (call $list$clamp (local.get $stop) (i32.add (local.get $length) (i32.const 1))))
+        (local.set $step (call $list$clamp (local.get $step) (i32.add (local.get $length) (i32.const 1))))
+        (if (i32.gt_s (local.get $step) (i32.const 0))
+            (then
+                (local.set $lower (i32.const 0))
+                (local.set $upper (local.get $length)))
+            (else
+                (local.set $lower (i32.const -1))
+                (local.set $upper (i32.sub (local.get $length) (i32.const 1)))))
+        (if (i32.and (local.get $given) (i32.const 1))
+            (then (local.set $start (call $list$sliceBound (local.get $start) (local.get $length) (local.get $lower) (local.get $upper))))
+            (else (local.set $start (select (local.get $lower) (local.get $upper) (i32.gt_s (local.get $step) (i32.const 0))))))
+        (if (i32.and (local.get $given) (i32.const 2))
+            (then (local.set $stop (call $list$sliceBound (local.get $stop) (local.get $length) (local.get $lower) (local.get $upper))))
+            (else (local.set $stop (select (local.get $upper) (local.get $lower) (i32.gt_s (local.get $step) (i32.const 0))))))
+        (if (i32.gt_s (local.get $step) (i32.const 0))
+            (then
+                (if (i32.gt_s (local.get $stop) (local.get $start))
+                    (then (local.set $count (i32.add (i32.div_s (i32.sub (i32.sub (local.get $stop) (local.get $start)) (i32.const 1)) (local.get $step)) (i32.const 1))))))
+            (else
+                (if (i32.gt_s (local.get $start) (local.get $stop))
+                    (then (local.set $count (i32.add (i32.div_s (i32.sub (i32.sub (local.get $start) (local.get $stop)) (i32.const 1)) (i32.sub (i32.const 0) (local.get $step))) (i32.const 1)))))))
+        (local.set $result (call $list$new (local.get $count)))
+        (block $done
+            (loop $copy
+                (br_if $done (i32.ge_s (local.get $i) (local.get $count)))
+                (call $list$set (local.get $result) (local.get $i) (call $list$get (local.get $list) (i32.add (local.get $start) (i32.mul (local.get $i) (local.get $step)))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $copy)))
+        (local.get $result))
+)
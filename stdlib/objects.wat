@@ -0,0 +1,25 @@
+(module
+    (func $load (import "libmemory" "load") (param i32) (param i32) (result i32))
+
+    ;; Every object starts with a header of two slots: slot 0 points at the
+    ;; vtable of its class, which identifies the class at runtime, and slot 1
+    ;; holds the size of the object in words, header included. The fields
+    ;; follow. Slot 0 of every vtable points at the vtable of the superclass
+    ;; (0 for object)
+
+    ;; Whether $obj is an instance of the class with the given vtable or one of its subclasses,
+    ;; None being an instance of none
+    (func $object$isinstance (export "object$isinstance") (param $obj i32) (param $vtable i32) (result i32)
+        (local $cur i32)
+        (if (i32.eqz (local.get $obj))
+            (then (return (i32.const 0))))
+        (local.set $cur (call $load (local.get $obj) (i32.const 0)))
+        (block $done
+            (loop $walk
+                (br_if $done (i32.eqz (local.get $cur)))
+                (if (i32.eq (local.get $cur) (local.get $vtable))
+                    (then (return (i32.const 1))))
+                (local.set $cur (call $load (local.get $cur) (i32.const 0)))
+                (br $walk)))
+        (i32.const 0))
+)
@@ -3,18 +3,58 @@
     (func $alloc (import "libmemory" "alloc") (param i32) (result i32))
     (func $load (import "libmemory" "load") (param i32) (param i32) (result i32))
     (func $store (import "libmemory" "store") (param i32) (param i32) (param i32))
-    (func $print_num (import "imports" "print_num") (param i32) (result i32))
+    (func $list$new (import "liblist" "list$new") (param i32) (result i32))
+    (func $list$append (import "liblist" "list$append") (param i32) (param i32) (result i32))
+    (func $str$eq (import "libstr" "str$eq") (param i32) (param i32) (result i32))
+    (func $int$eq (import "libbig" "int$eq") (param i32) (param i32) (result i32))
 
-    (func $set$add (param $baseAddr i32) (param $key i32) (result i32)
+    ;; A set is 10 buckets, each a chain of [value, next] nodes. $strKey is 1
+    ;; when the values are strings, so they are hashed and compared by their
+    ;; chars like dict keys (see dicts.wat). Other values are compared with
+    ;; int$eq, so bignums (see bignum.wat) match by value.
+
+    ;; Hash the words 1 to $len of the block at $addr
+    (func $set$hashWords (param $addr i32) (param $len i32) (result i32)
+        (local $hash i32)
+        (local $i i32)
+        (local.set $i (i32.const 1))
+        (block $done
+            (loop $words
+                (br_if $done (i32.gt_s (local.get $i) (local.get $len)))
+                (local.set $hash (i32.add (i32.mul (local.get $hash) (i32.const 31)) (call $load (local.get $addr) (local.get $i))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $words)))
+        (local.get $hash))
+
+    (func $set$bucket (param $key i32) (param $strKey i32) (result i32)
+        (local $addr i32)
+        (local $len i32)
+        (if (local.get $strKey)
+            (then (return (i32.rem_u
+                (call $set$hashWords (local.get $key) (call $load (local.get $key) (i32.const 0)))
+                (i32.const 10)))))
+        (if (i32.lt_s (local.get $key) (i32.const 0x40000000))
+            (then (return (i32.rem_u (local.get $key) (i32.const 10)))))
+        ;; a bignum is [signed limb count, limbs]
+        (local.set $addr (i32.sub (local.get $key) (i32.const 0x40000000)))
+        (local.set $len (call $load (local.get $addr) (i32.const 0)))
+        (if (i32.lt_s (local.get $len) (i32.const 0))
+            (then (local.set $len (i32.sub (i32.const 0) (local.get $len)))))
+        (i32.rem_u (call $set$hashWords (local.get $addr) (local.get $len)) (i32.const 10)))
+
+    (func $set$keyEq (param $left i32) (param $right i32) (param $strKey i32) (result i32)
+        (if (result i32) (local.get $strKey)
+            (then (call $str$eq (local.get $left) (local.get $right)))
+            (else (call $int$eq (local.get $left) (local.get $right)))))
+
+    (func $set$add (param $baseAddr i32) (param $key i32) (param $strKey i32) (result i32)
         (local $nodePtr i32)
         (local $tagHitFlag i32)
         (local $$allocPointer i32)
         (i32.const 0)
         (local.set $tagHitFlag)
         (local.get $baseAddr)
-        (local.get $key)
-        (i32.const 10)
-        (i32.rem_u)
+        (call $set$bucket (local.get $key) (local.get $strKey))
         (i32.mul (i32.const 4))
         (i32.add)
         (i32.load)
@@ -33,9 +73,7 @@
                 (i32.const 0)
                 (i32.store)
                 (local.get $baseAddr)
-                (local.get $key)
-                (i32.const 10)
-                (i32.rem_u)
+                (call $set$bucket (local.get $key) (local.get $strKey))
                 (i32.mul (i32.const 4))
                 (i32.add)
                 (local.get $$allocPointer)
@@ -43,15 +81,14 @@
             )
             (else
                 (local.get $baseAddr)
-                (local.get $key)
-                (i32.const 10)
-                (i32.rem_u)
+                (call $set$bucket (local.get $key) (local.get $strKey))
                 (i32.mul (i32.const 4))
                 (i32.add)
                 (i32.load)
                 (i32.load)
                 (local.get $key)
-                (i32.eq)
+                (local.get $strKey)
+                (call $set$keyEq)
                 (if
                     (then
                     (i32.const 1)
@@ -59,9 +96,7 @@
                     )
                 )
                 (local.get $baseAddr)
-                (local.get $key)
-                (i32.const 10)
-                (i32.rem_u)
+                (call $set$bucket (local.get $key) (local.get $strKey))
                 (i32.mul (i32.const 4))
                 (i32.add)
                 (i32.load)
@@ -80,7 +115,8 @@
                             (i32.load)
                             (i32.load)
                             (local.get $key)
-                            (i32.eq)
+                            (local.get $strKey)
+                            (call $set$keyEq)
                             (if
                                 (then
                                 (i32.const 1)
@@ -130,16 +166,14 @@
     )
     (export "set$add" (func $set$add))
 
-    (func (export "set$contains") (param $baseAddr i32) (param $key i32) (result i32)
+    (func (export "set$contains") (param $baseAddr i32) (param $key i32) (param $strKey i32) (result i32)
         (local $nodePtr i32)
         (local $tagHitFlag i32)
         (local $$allocPointer i32)
         (i32.const 0)
         (local.set $tagHitFlag)
         (local.get $baseAddr)
-        (local.get $key)
-        (i32.const 10)
-        (i32.rem_u)
+        (call $set$bucket (local.get $key) (local.get $strKey))
         (call $load)
         (i32.const 0)
         (i32.eq)
@@ -148,13 +182,12 @@
             )
             (else
                 (local.get $baseAddr)
-                (local.get $key)
-                (i32.const 10)
-                (i32.rem_u)
+                (call $set$bucket (local.get $key) (local.get $strKey))
                 (call $load)
                 (i32.load)
                 (local.get $key)
-                (i32.eq)
+                (local.get $strKey)
+                (call $set$keyEq)
                 (if
                     (then
                         (i32.const 1)
@@ -162,9 +195,7 @@
                     )
                 )
                 (local.get $baseAddr)
-                (local.get $key)
-                (i32.const 10)
-                (i32.rem_u)
+                (call $set$bucket (local.get $key) (local.get $strKey))
                 (call $load)
                 (i32.const 4)
                 (i32.add)
@@ -181,7 +212,8 @@
                                 (i32.load)
                                 (i32.load)
                                 (local.get $key)
-                                (i32.eq)
+                                (local.get $strKey)
+                                (call $set$keyEq)
                                 (if
                                     (then
                                         (i32.const 1)
@@ -277,14 +309,12 @@
         (return)
     )
 
-    (func (export "set$remove") (param $baseAddr i32) (param $key i32) (result i32)
+    (func (export "set$remove") (param $baseAddr i32) (param $key i32) (param $strKey i32) (result i32)
         (local $prevPtr i32)
         (local $currPtr i32)
 
         (local.get $baseAddr)
-        (local.get $key)
-        (i32.const 10)
-        (i32.rem_u)
+        (call $set$bucket (local.get $key) (local.get $strKey))
         (i32.mul (i32.const 4))
         (i32.add)
         (local.tee $prevPtr)
@@ -303,7 +333,8 @@
                         (local.get $currPtr)
                         (i32.load)
                         (local.get $key)
-                        (i32.eq)
+                        (local.get $strKey)
+                        (call $set$keyEq)
                         ;; if *currPtr == key
                         (if
                             (then
@@ -337,86 +368,6 @@
         (return)
     )
 
-    (func (export "set$print") (param $baseAddr i32) (result i32)
-        (local $length i32)
-        (local $nodePtr i32)
-        (local $i i32)
-        (local $temp i32)
-        (loop $my_loop
-            (local.get $baseAddr)
-            (local.get $i)
-            (call $load)
-            (i32.const 0)
-            (i32.eq)
-            (if
-                (then
-                )
-                (else
-                    (i32.const 1)
-                    (local.get $length)
-                    (i32.add)
-                    (local.set $length)
-                    (local.get $baseAddr)
-                    (local.get $i)
-                    (call $load)
-                    (i32.load)
-                    (call $print_num)  ;; assume num for now
-                    (local.set $temp)
-                    (local.get $baseAddr)
-                    (local.get $i)
-                    (call $load)
-                    (i32.const 4)
-                    (i32.add)
-                    (local.set $nodePtr)
-                    (block
-                        (loop
-                            (local.get $nodePtr)
-                            (i32.load)
-                            (i32.const 0)
-                            (i32.ne)
-                            (if
-                                (then
-                                    (local.get $length)
-                                    (i32.const 1)
-                                    (i32.add)
-                                    (local.set $length)
-
-                                    (local.get $nodePtr)
-                                    (i32.load)
-                                    (i32.load)
-                                    (call $print_num)
-                                    (local.set $temp)
-                                    (local.get $nodePtr)
-                                    (i32.load)
-                                    (i32.const 4)
-                                    (i32.add)
-                                    (local.set $nodePtr)
-                                )
-                            )
-                            (br_if 0
-                                (local.get $nodePtr)
-                                (i32.load)
-                                (i32.const 0)
-                                (i32.ne)
-                            )
-                            (br 1)
-                        )
-                    )
-                )
-            )
-            (local.get $i)
-            (i32.const 1)
-            (i32.add)
-            (local.set $i)
-            (local.get $i)
-            (i32.const 10)
-            (i32.lt_s)
-            (br_if $my_loop)
-        )
-        (local.get $length)
-        (return)
-    )
-
     (func (export "set$clear") (param $baseAddr i32) (result i32)
         (local $i i32)
         (loop $my_loop
@@ -441,7 +392,7 @@
         (return)
     )
 
-    (func (export "set$update") (param $newAddr i32) (param $baseAddr i32) (result i32)
+    (func (export "set$update") (param $newAddr i32) (param $baseAddr i32) (param $strKey i32) (result i32)
         (local $nodePtr i32)
         (local $i i32)
         (local $temp i32)
@@ -460,6 +411,7 @@
                     (local.get $i)
                     (call $load)
                     (i32.load)
+                    (local.get $strKey)
                     (call $set$add)
                     (local.set $temp)
                     (local.get $baseAddr)
@@ -480,6 +432,7 @@
                                     (local.get $nodePtr)
                                     (i32.load)
                                     (i32.load)
+                                    (local.get $strKey)
                                     (call $set$add)
                                     (local.set $temp)
                                     (local.get $nodePtr)
@@ -545,7 +498,7 @@
     )
 
     ;; Check if currKey is the "last" item in the set
-    (func (export "set$hasnext") (param $baseAddr i32) (param $currKey i32) (result i32)
+    (func (export "set$hasnext") (param $baseAddr i32) (param $currKey i32) (param $strKey i32) (result i32)
         (local $i i32)
         (local $valueAddrHolder i32)
         (local $lastItem i32)
@@ -573,7 +526,9 @@
                     )
                     (local.get $lastItem)
                     (local.get $currKey)
-                    (i32.ne)
+                    (local.get $strKey)
+                    (call $set$keyEq)
+                    (i32.eqz)
                     (return)
                 )
                 (else
@@ -593,14 +548,12 @@
     )
 
     ;; Return the next item in the set given the current item
-    (func (export "set$next") (param $baseAddr i32) (param $currKey i32) (result i32)
+    (func (export "set$next") (param $baseAddr i32) (param $currKey i32) (param $strKey i32) (result i32)
         (local $i i32)
         (local $valueAddrHolder i32)
 
         (local.get $baseAddr)
-        (local.get $currKey)
-        (i32.const 10)
-        (i32.rem_u)
+        (call $set$bucket (local.get $currKey) (local.get $strKey))
         (local.tee $i) ;; locate which bucket currKey is in
         (call $load)
         (local.set $valueAddrHolder)
@@ -608,7 +561,8 @@
         (loop
             (i32.load (local.get $valueAddrHolder))
             (local.get $currKey)
-            (i32.eq)
+            (local.get $strKey)
+            (call $set$keyEq)
             ;; if this item == currKey
             (if
                 (then
@@ -669,4 +623,24 @@
         (i32.const -1)
         (return)
     )
-)
\ No newline at end of file
+
+    ;; A list of the values, bucket by bucket like sets print
+    (func (export "set$items") (param $baseAddr i32) (result i32)
+        (local $list i32)
+        (local $i i32)
+        (local $node i32)
+        (local.set $list (call $list$new (i32.const 0)))
+        (block $done
+            (loop $buckets
+                (br_if $done (i32.ge_s (local.get $i) (i32.const 10)))
+                (local.set $node (call $load (local.get $baseAddr) (local.get $i)))
+                (block $bucketDone
+                    (loop $nodes
+                        (br_if $bucketDone (i32.eqz (local.get $node)))
+                        (drop (call $list$append (local.get $list) (call $load (local.get $node) (i32.const 0))))
+                        (local.set $node (call $load (local.get $node) (i32.const 1)))
+                        (br $nodes)))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $buckets)))
+        (local.get $list))
+)
@@ -0,0 +1,64 @@
+(module
+    (memory (import "js" "mem") 1)
+    (func $alloc (import "libmemory" "alloc") (param i32) (result i32))
+    (func $load (import "libmemory" "load") (param i32) (param i32) (result i32))
+    (func $store (import "libmemory" "store") (param i32) (param i32) (param i32))
+
+    ;; Strings are laid out like lists: [length, char0, char1, ...]
+
+    ;; Allocate a new string holding the chars of $left followed by the chars of $right
+    (func $str$concat (export "str$concat") (param $left i32) (param $right i32) (result i32)
+        (local $leftLen i32)
+        (local $rightLen i32)
+        (local $newStr i32)
+        (local $i i32)
+        (local.set $leftLen (call $load (local.get $left) (i32.const 0)))
+        (local.set $rightLen (call $load (local.get $right) (i32.const 0)))
+        (local.set $newStr (call $alloc (i32.add (i32.add (local.get $leftLen) (local.get $rightLen)) (i32.const 1))))
+        (call $store (local.get $newStr) (i32.const 0) (i32.add (local.get $leftLen) (local.get $rightLen)))
+        (local.set $i (i32.const 0))
+        (block $leftDone
+            (loop $leftLoop
+                (br_if $leftDone (i32.ge_s (local.get $i) (local.get $leftLen)))
+                (call $store (local.get $newStr) (i32.add (local.get $i) (i32.const 1))
+                    (call $load (local.get $left) (i32.add (local.get $i) (i32.const 1))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $leftLoop)))
+        (local.set $i (i32.const 0))
+        (block $rightDone
+            (loop $rightLoop
+                (br_if $rightDone (i32.ge_s (local.get $i) (local.get $rightLen)))
+                (call $store (local.get $newStr) (i32.add (i32.add (local.get $i) (local.get $leftLen)) (i32.const 1))
+                    (call $load (local.get $right) (i32.add (local.get $i) (i32.const 1))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $rightLoop)))
+        (local.get $newStr))
+
+    ;; Compare two strings char by char, 1 if they are equal and 0 otherwise
+    (func $str$eq (export "str$eq") (param $left i32) (param $right i32) (result i32)
+        (local $len i32)
+        (local $i i32)
+        (local.set $len (call $load (local.get $left) (i32.const 0)))
+        (if (i32.ne (local.get $len) (call $load (local.get $right) (i32.const 0)))
+            (then (return (i32.const 0))))
+        (local.set $i (i32.const 1))
+        (block $done
+            (loop $compare
+                (br_if $done (i32.gt_s (local.get $i) (local.get $len)))
+                (if (i32.ne (call $load (local.get $left) (local.get $i)) (call $load (local.get $right) (local.get $i)))
+                    (then (return (i32.const 0))))
+                (local.set $i (i32.add (local.get $i) (i32.const 1)))
+                (br $compare)))
+        (i32.const 1))
+
+    (func $str$neq (export "str$neq") (param $left i32) (param $right i32) (result i32)
+        (i32.eqz (call $str$eq (local.get $left) (local.get $right))))
+
+    ;; Return a new one-char string holding the char at $index (already bounds checked)
+    (func $str$access (export "str$access") (param $str i32) (param $index i32) (result i32)
+        (local $newStr i32)
+        (local.set $newStr (call $alloc (i32.const 2)))
+        (call $store (local.get $newStr) (i32.const 0) (i32.const 1))
+        (call $store (local.get $newStr) (i32.const 1) (call $load (local.get $str) (i32.add (local.get $index) (i32.const 1))))
+        (local.get $newStr))
+)
@@ -0,0 +1,86 @@
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect, assertPass } from "./asserts.test";
+import { NONE } from "./helpers.test"
+
+describe("Assert statement tests", () => {
+    // 1
+    assertPrint("passing-asserts", `
+    x: int = 3
+    assert x > 1
+    assert x == 3, "x is " + "three"
+    print(x)`, [`3`]);
+
+    // 2
+    assertFail("failing-assert", `
+    x: int = 3
+    assert x < 1`);
+
+    // 3
+    assertFail("failing-assert-in-function", `
+    def check(n: int):
+      assert n % 2 == 0, "odd"
+    check(2)
+    check(3)`);
+
+    // 4
+    assertPrint("caught-as-assertion-error", `
+    def check(n: int):
+      assert n % 2 == 0, "odd"
+    try:
+      check(3)
+    except AssertionError as e:
+      print(e.message)
+    try:
+      assert False
+    except Exception as err:
+      print(len(err.message))`, [`odd`, `0`]);
+
+    // 5
+    assertPrint("message-evaluated-on-failure", `
+    def loud(s: str) -> str:
+      print(s)
+      return s
+    assert True, loud("never")
+    try:
+      assert 1 > 2, loud("once")
+    except AssertionError:
+      print("caught")`, [`once`, `caught`]);
+
+    // 6
+    assertPrint("raised-by-user-code", `
+    try:
+      raise AssertionError("mine")
+    except AssertionError as e:
+      print(e.message)`, [`mine`]);
+
+    // 7
+    assertTC("statement-type", `
+    assert True`, NONE);
+
+    // 8
+    assertTCFail("test-type", `
+    assert 1`);
+
+    // 9
+    assertTCFail("message-type", `
+    assert True, 1`);
+
+    // 10
+    assertPass("true-asserts-removed", `
+    x: int = 0
+    assert 1 < 2, "math"
+    assert not False
+    x = 1
+    assert x == 1
+    print(x)`);
+
+    // 11
+    assertOptimizeCorrect("asserts-optimized", `
+    i: int = 0
+    total: int = 0
+    while i < 5:
+      assert i >= 0, "negative"
+      total = total + i
+      i = i + 1
+    assert total == 10
+    print(total)`);
+});
@@ -0,0 +1,188 @@
+import { assertPrint, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NONE } from "./helpers.test"
+
+describe("Augmented assignment tests", () => {
+    // 1
+    assertPrint("names", `
+    x: int = 5
+    s: str = "a"
+    x += 3
+    x -= 1
+    x *= 4
+    x //= 3
+    x %= 5
+    s += "b"
+    print(x)
+    print(s)`, [`4`, `ab`]);
+
+    // 2
+    assertPrint("fields-and-indices", `
+    class Counter(object):
+      count: int = 0
+      def bump(self: Counter) -> int:
+        self.count += 1
+        return self.count
+    c: Counter = None
+    xs: [int] = None
+    d: dict[str, int] = None
+    c = Counter()
+    c.bump()
+    print(c.bump())
+    xs = [1, 2, 3]
+    xs[-1] *= 10
+    d = {"k": 1}
+    d["k"] += 41
+    print(xs)
+    print(d["k"])`, [`2`, `[1, 2, 30]`, `42`]);
+
+    // 3
+    assertPrint("target-evaluated-once", `
+    class Box(object):
+      items: [int] = None
+    calls: int = 0
+    b: Box = None
+    def box() -> Box:
+      global calls
+      calls = calls + 1
+      return b
+    def index() -> int:
+      global calls
+      calls = calls + 1
+      return 1
+    b = Box()
+    b.items = [1, 2]
+    box().items[index()] += 5
+    print(b.items)
+    print(calls)`, [`[1, 7]`, `2`]);
+
+    // 4
+    assertPrint("lists-in-place", `
+    xs: [int] = None
+    ys: [int] = None
+    xs = [1]
+    ys = xs
+    xs += [2]
+    xs += xs
+    xs *= 2
+    print(ys)
+    xs += []
+    xs *= 0
+    print(ys)`, [`[1, 2, 1, 2, 1, 2, 1, 2]`, `[]`]);
+
+    // 5
+    assertPrint("iadd-and-fallback", `
+    class Acc(object):
+      total: int = 0
+      def __iadd__(self: Acc, n: int) -> Acc:
+        self.total = self.total + n
+        return self
+    class Vec(object):
+      x: int = 0
+      def __init__(self: Vec, x: int):
+        self.x = x
+      def __sub__(self: Vec, other: Vec) -> Vec:
+        return Vec(self.x - other.x)
+    a: Acc = None
+    b: Acc = None
+    v: Vec = None
+    w: Vec = None
+    a = Acc()
+    b = a
+    a += 3
+    a += 4
+    print(b.total)
+    v = Vec(10)
+    w = v
+    v -= Vec(3)
+    print(v.x)
+    print(w.x)`, [`7`, `7`, `10`]);
+
+    // 6
+    assertPrint("nonlocal-and-generator", `
+    def outer() -> int:
+      k: int = 0
+      def inc():
+        nonlocal k
+        k += 2
+      inc()
+      inc()
+      return k
+    def count(n: int) -> generator[int]:
+      i: int = 0
+      while i < n:
+        yield i
+        i += 1
+    print(outer())
+    print([v for v in count(3)])`, [`4`, `[0, 1, 2]`]);
+
+    // 7
+    assertTC("statement-type", `
+    x: int = 0
+    x += 1`, NONE);
+
+    // 8
+    assertTCFail("operand-type", `
+    x: int = 0
+    x += "a"`);
+
+    // 9
+    assertTCFail("result-type", `
+    class A(object):
+      def __iadd__(self: A, n: int) -> int:
+        return n
+    a: A = None
+    a = A()
+    a += 1`);
+
+    // 10
+    assertTCFail("unbound-name", `
+    y += 1`);
+
+    // 11
+    assertTCFail("immutable-target", `
+    s: str = "ab"
+    s[0] += "c"`);
+
+    // 12
+    assertOptimizeCorrect("augmented-optimized", `
+    i: int = 0
+    total: int = 0
+    xs: [int] = None
+    xs = [0, 0]
+    while i < 5:
+      total += i * 2
+      xs[i % 2] += i
+      i += 1
+    print(total)
+    print(xs)`);
+
+    // 13
+    assertPrint("bindings-in-nested-functions", `
+    class A(object):
+      n: int = 0
+      def bump(self: A, xs: [int]):
+        xs[0] += 1
+        self.n += 1
+    def outer(xs: [int]) -> int:
+      a: A = None
+      def inner(ys: [int]):
+        ys[1] += 10
+        a.n += 100
+      a = A()
+      xs[1] += 1
+      inner(xs)
+      a.bump(xs)
+      xs[0] += 1
+      return a.n
+    xs: [int] = None
+    xs = [0, 0]
+    print(outer(xs))
+    print(xs[0])
+    print(xs[1])`, [`101`, `2`, `11`]);
+
+    // 14
+    assertTCFail("set-target", `
+    s: set[int] = None
+    s = {1, 2, 3}
+    s -= {2}`);
+});
@@ -0,0 +1,151 @@
+import { assertPrint, assertFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NUM, BOOL } from "./helpers.test"
+
+describe("Bignum tests", () => {
+    // 1
+    assertPrint("big-literal", `
+    print(123456789012345678901234567890)
+    print(-98765432109876543210)`, [`123456789012345678901234567890`, `-98765432109876543210`]);
+
+    // 2
+    assertPrint("add-past-small-range", `
+    x: int = 1073741823
+    print(x + 1)
+    print(x + x + 2)`, [`1073741824`, `2147483648`]);
+
+    // 3
+    assertPrint("mul-past-i32", `
+    x: int = 4294967296
+    y: int = 0
+    y = x * x
+    print(y)
+    print(y * y)`, [`18446744073709551616`, `340282366920938463463374607431768211456`]);
+
+    // 4
+    assertPrint("back-to-small", `
+    x: int = 100000000000
+    print(x - 99999999999)
+    print(x // 100000)
+    print(x % 7)`, [`1`, `1000000`, `5`]);
+
+    // 5
+    assertPrint("big-negatives", `
+    x: int = 5000000000
+    print(-x)
+    print(0 - x - x)
+    print(-x * 3)`, [`-5000000000`, `-10000000000`, `-15000000000`]);
+
+    // 6
+    assertPrint("big-compare", `
+    x: int = 10000000000
+    y: int = 10000000000
+    print(x == y)
+    print(x != y)
+    print(x < y + 1)
+    print(-x > 5)
+    print(x >= 3)`, [`True`, `False`, `True`, `False`, `True`]);
+
+    // 7
+    assertPrint("big-loop", `
+    i: int = 0
+    f: int = 1
+    while i < 25:
+      i = i + 1
+      f = f * i
+    print(f)`, [`15511210043330985984000000`]);
+
+    // 8
+    assertPrint("big-function-return", `
+    def pow2(n: int) -> int:
+      r: int = 1
+      while n > 0:
+        r = r * 2
+        n = n - 1
+      return r
+    print(pow2(100))
+    print(pow2(100) - pow2(99) == pow2(99))`, [`1267650600228229401496703205376`, `True`]);
+
+    // 9
+    assertPrint("big-in-list-and-field", `
+    class Box(object):
+      v: int = 0
+    b: Box = None
+    l: [int] = None
+    b = Box()
+    b.v = 3000000000
+    l = [b.v, b.v * 2]
+    print(l[1] - l[0])`, [`3000000000`]);
+
+    // 10
+    assertTC("big-literal-tc", `99999999999999999999`, NUM);
+
+    // 11
+    assertTC("big-compare-tc", `99999999999999999999 > 1`, BOOL);
+
+    // 12
+    assertFail("big-division-by-zero", `
+    x: int = 99999999999999999999
+    print(x // 0)`);
+
+    // 13
+    assertPrint("small-arith-unchanged", `
+    print(7 // 2)
+    print(7 % 3)
+    print(2 - 5)
+    print(6 * 7)`, [`3`, `1`, `-3`, `42`]);
+
+    // 14
+    assertPrint("big-dict-key", `
+    d: dict[int, int] = None
+    x: int = 1000000000
+    d = {}
+    d[10000000000] = 1
+    d[x * 10] = d[x * 10] + 1
+    d[-10000000000] = 3
+    print(d[10000000000])
+    print(x * 10 in d)
+    print(len(d))`, [`2`, `True`, `2`]);
+
+    // 15
+    assertPrint("big-set-element", `
+    s: set[int] = None
+    s = {10000000000}
+    s.add(10000000000)
+    s.add(10000000000)
+    print(len(s))
+    print(10000000000 in s)
+    s.remove(10000000000)
+    print(len(s))`, [`1`, `True`, `0`]);
+
+    // 16
+    assertPrint("big-pow-abs", `
+    x: int = 40
+    y: int = 0
+    y = -10000000000
+    print(pow(2, x))
+    print(abs(y))
+    print(abs(-7))
+    print(pow(-1, -3))`, [`1099511627776`, `10000000000`, `7`, `-1`]);
+
+    // 17
+    assertOptimizeCorrect("big-pow-abs-folded", `
+    print(pow(2, 40))
+    print(pow(3, 50))
+    print(abs(-10000000000))
+    print(pow(2, -1))`);
+
+    // 18
+    assertPrint("big-index-error-message", `
+    a: [int] = None
+    i: int = 0
+    a = [1, 2, 3]
+    i = -10000000000
+    try:
+      a[10000000000] = 0
+    except IndexError as e:
+      print(e.message)
+    try:
+      print(a[i])
+    except IndexError as e:
+      print(e.message)`, [`index 10000000000 out of range`, `index -9999999997 out of range`]);
+});
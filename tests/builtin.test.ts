@@ -1,4 +1,4 @@
-import { assertPrint } from "./asserts.test"
+import { assertPrint, assertOptimizeCorrect } from "./asserts.test"
 
 // builtin-lib tests
 describe("built-in library testes",()=>{
@@ -52,4 +52,33 @@ print(perm(4,2))
 print(perm(10,3))
 print(perm(20,5))
 `, ["12","720", "1860480"])
+
+assertPrint("big results", `
+print(factorial(13))
+print(gcd(10000000000, 20000000000))
+print(lcm(100000, 300007))
+print(comb(40, 20))
+print(perm(20, 10))
+`, ["6227020800", "10000000000", "30000700000", "137846528820", "670442572800"])
+
+assertPrint("big arguments", `
+x: int = 0
+y: int = 0
+x = 10000000000
+y = -20000000000
+print(min(x, y))
+print(max(x, y))
+print(randint(x, x))
+print(randrange(x, x, 3))
+`, ["-20000000000", "10000000000", "10000000000", "10000000000"])
+
+assertOptimizeCorrect("big results folded", `
+print(factorial(13))
+print(gcd(10000000000, 20000000000))
+print(lcm(100000, 300007))
+print(comb(40, 20))
+print(perm(20, 10))
+print(min(10000000000, -20000000000))
+print(max(10000000000, -20000000000))
+`)
 })
@@ -0,0 +1,159 @@
+import { assertPrint, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NUM } from "./helpers.test"
+
+describe("Nested function tests", () => {
+    // 1
+    assertPrint("read-outer-variables", `
+    def f(x: int) -> int:
+      y: int = 10
+      def g(z: int) -> int:
+        return x + y + z
+      return g(1)
+    print(f(5))`, [`16`]);
+
+    // 2
+    assertPrint("nonlocal-write", `
+    def f() -> int:
+      total: int = 0
+      def add(k: int):
+        nonlocal total
+        total = total + k
+      add(3)
+      add(4)
+      return total
+    print(f())`, [`7`]);
+
+    // 3
+    assertPrint("outer-write-seen-by-nested", `
+    def f() -> int:
+      x: int = 1
+      def g() -> int:
+        return x
+      x = 42
+      return g()
+    print(f())`, [`42`]);
+
+    // 4
+    assertPrint("nested-recursion", `
+    def f(n: int) -> int:
+      def fact(k: int) -> int:
+        if k <= 1:
+          return 1
+        return k * fact(k - 1)
+      return fact(n)
+    print(f(10))`, [`3628800`]);
+
+    // 5
+    assertPrint("mutual-recursion", `
+    def parity(n: int) -> bool:
+      def even(k: int) -> bool:
+        if k == 0:
+          return True
+        return odd(k - 1)
+      def odd(k: int) -> bool:
+        if k == 0:
+          return False
+        return even(k - 1)
+      return even(n)
+    print(parity(10))
+    print(parity(7))`, [`True`, `False`]);
+
+    // 6
+    assertPrint("deep-nesting", `
+    def f() -> int:
+      c: int = 0
+      def g() -> int:
+        def h():
+          nonlocal c
+          c = c + 1
+        h()
+        h()
+        return c
+      g()
+      return g()
+    print(f())`, [`4`]);
+
+    // 7
+    assertPrint("nested-in-method", `
+    class A(object):
+      x: int = 5
+      def m(self: A, y: int) -> int:
+        def g() -> int:
+          return self.x + y
+        return g()
+    a: A = None
+    a = A()
+    print(a.m(2))`, [`7`]);
+
+    // 8
+    assertPrint("global-declaration", `
+    g: int = 1
+    def setg():
+      global g
+      def h() -> int:
+        return g
+      g = 10
+      print(h())
+    setg()
+    print(g)`, [`10`, `10`]);
+
+    // 9
+    assertTC("nested-call-type", `
+    def f() -> int:
+      def g() -> int:
+        return 1
+      return g()
+    f()`, NUM);
+
+    // 10
+    assertTCFail("nonlocal-unknown-name", `
+    def f():
+      def g():
+        nonlocal x
+        x = 1
+      g()`);
+
+    // 11
+    assertTCFail("nonlocal-of-global", `
+    x: int = 0
+    def f():
+      nonlocal x
+      x = 1`);
+
+    // 12
+    assertTCFail("global-unknown-name", `
+    def f():
+      global x
+      x = 1`);
+
+    // 13
+    assertTCFail("nested-not-visible-outside", `
+    def f():
+      def g():
+        pass
+      g()
+    g()`);
+
+    // 14
+    assertTCFail("nonlocal-wrong-type", `
+    def f():
+      x: int = 0
+      def g():
+        nonlocal x
+        x = True
+      g()`);
+
+    // 15
+    assertOptimizeCorrect("closure-optimized", `
+    def f(n: int) -> int:
+      total: int = 0
+      i: int = 0
+      def add(k: int):
+        nonlocal total
+        total = total + k
+      while i < n:
+        add(i)
+        i = i + 1
+      return total
+    print(f(10))`);
+});
@@ -1,4 +1,5 @@
-import { assertPrint } from "./asserts.test";
+import { assertPrint, assertTC, assertTCFail } from "./asserts.test";
+import { NUM, STR } from "./helpers.test";
 
 export const builtinClasses : string = `
 class Range(object):
@@ -18,30 +19,18 @@ class Range(object):
     self.max = max
     self.stp = stp
     return self
-  def next(self : Range)->int:
+  def __iter__(self : Range)->Range:
+    return self
+  def __next__(self : Range)->int:
     c : int = 0
+    if not self.hasnext():
+      raise StopIteration()
     c = self.cur
     self.cur = self.cur + self.stp
     return c
   def hasnext(self : Range)->bool:
     return self.cur < self.max if self.stp >=0 else self.cur > self.max
 
-class generator(object):
-  size : int = 0
-  addr : int = 0
-  def new(self : generator, size : int, addr : int)->generator:
-    self.size = size
-    self.addr = addr
-    return self
-  def next(self : generator)->int:
-    c : int = 0
-    c = self.addr
-    self.size = self.size - 1
-    self.addr = self.addr + 4
-    return c
-  def hasnext(self : generator)->bool:
-    return self.size < 1
-
 `
 
 describe("Comprehension Tests", () => {
@@ -63,51 +52,105 @@ print(min(a - 1, 3) if a > 3 else max(a + 3, 4))`, ['4']);
 assertPrint("range basic test 1", builtinClasses + `
 r:Range = None
 r = Range().new(0, 5, 1)
-print(r.next())`, ['0']);
+print(next(r))`, ['0']);
 
 assertPrint("range basic test 2", builtinClasses + `
 r:Range = None
 r = Range().new(0, 5, 1)
-r.next()
-print(r.next())`, ['1']);
+next(r)
+print(next(r))`, ['1']);
 
 assertPrint("range basic test 3", builtinClasses + `
 r:Range = None
 r = Range().new(0, 5, 1)
-r.next()
-r.next()
-r.next()
-r.next()
-r.next()
+next(r)
+next(r)
+next(r)
+next(r)
+next(r)
 print(r.hasnext())`, ['False']);
 
 assertPrint("range positive step test", builtinClasses + `
 r:Range = None
 r = Range().new(0, 5, 2)
-r.next()
-print(r.next())`, ['2']);
+next(r)
+print(next(r))`, ['2']);
 
 assertPrint("range negative step test", builtinClasses + `
 r:Range = None
 r = Range().new(5, 0, -2)
-r.next()
-print(r.next())`, ['3']);
+next(r)
+print(next(r))`, ['3']);
 
 assertPrint("comprehension basic test", builtinClasses + `
-(print(num) for num in Range().new(0, 5, 1))`, ['0','1','2','3','4']);
+[print(num) for num in Range().new(0, 5, 1)]`, ['0','1','2','3','4']);
 
 assertPrint("comprehension if condition test", builtinClasses + `
-(print(num) for num in Range().new(0, 5, 1) if num % 2 == 0)`, ['0','2','4']);
+[print(num) for num in Range().new(0, 5, 1) if num % 2 == 0]`, ['0','2','4']);
 
 assertPrint("comprehension lhs expr test", builtinClasses + `
-(print(min(num, 3)) for num in Range().new(0, 6, 1))`, ['0','1','2','3','3','3']);
+[print(min(num, 3)) for num in Range().new(0, 6, 1)]`, ['0','1','2','3','3','3']);
 
 assertPrint("comprehension lhs ternary test", builtinClasses + `
-(print(num) if num % 4 == 0 else print(num + 100) for num in Range().new(0, 10, 1))`,
+[print(num) if num % 4 == 0 else print(num + 100) for num in Range().new(0, 10, 1)]`,
 ['0','101','102','103','4','105','106','107','8','109']);
 
 assertPrint("comprehension comprehensive test", builtinClasses + `
-(print(num if num % 4 == 0 else num + 100) for num in Range().new(0, 20, 1) if num % 2 == 0)`,
+[print(num if num % 4 == 0 else num + 100) for num in Range().new(0, 20, 1) if num % 2 == 0]`,
 ['0','102','4','106','8','110','12','114','16','118']);
 
+assertPrint("list comprehension test", `
+a:[int] = None
+a = [1, 2, 3, 4]
+print([x * x for x in a if x % 2 == 0])`, ['[4, 16]']);
+
+assertPrint("set comprehension test", `
+a:[int] = None
+a = [1, 2, 3, 4, 5]
+print({x % 3 for x in a})`, ['{0, 1, 2}']);
+
+assertPrint("generator iterated by comprehension test", builtinClasses + `
+print([x + 1 for x in (num * 2 for num in Range().new(0, 4, 1))])`, ['[1, 3, 5, 7]']);
+
+assertPrint("nested for clauses test", `
+print([x * y for x in [1, 2, 3] if x != 2 for y in [10, 100] if y < 100])`, ['[10, 30]']);
+
+assertPrint("destructuring target test", `
+print([s + t for (n, s) in [(1, "a"), (2, "b")] for t, m in [("x", True)] if m])`, ["['ax', 'bx']"]);
+
+assertPrint("comprehension over str, set and dict test", `
+d:dict[str, int] = None
+d = {"k": 1, "v": 2}
+print([c for c in "abc"])
+print([x + 1 for x in {3}])
+print([k for k in d if d[k] > 1])`, ["['a', 'b', 'c']", '[4]', "['v']"]);
+
+assertPrint("comprehension in function test", `
+def scale(a: [int], n: int) -> [int]:
+  return [x * n for x in a]
+print(scale([1, 2], 5))
+print([scale([x], x) for x in [2, 3]])`, ['[5, 10]', '[[4], [9]]']);
+
+assertPrint("generator expression is lazy test", builtinClasses + `
+def shout(n: int) -> int:
+  print(n)
+  return n
+g:generator[int] = None
+g = (shout(num) for num in Range().new(0, 3, 1))
+print(100)
+print(next(g))
+print([x for x in g])`, ['100', '0', '0', '1', '2', '[1, 2]']);
+
+assertTC("list comprehension type test", `
+[s + "!" for s in ["a", "b"]]`, { tag: "list", type: STR });
+
+assertTC("set comprehension type test", `
+{x + 1 for x in [1, 2]}`, { tag: "set", valueType: NUM });
+
+assertTCFail("comprehension not iterable test", `
+[x for x in 5]`);
+
+assertTCFail("comprehension unpack count test", `
+[x for x, y, z in [(1, 2)]]`);
+
 });
\ No newline at end of file
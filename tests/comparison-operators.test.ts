@@ -0,0 +1,142 @@
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { BOOL, NUM } from "./helpers.test"
+
+describe("Comparison and power operator tests", () => {
+    // 1
+    assertPrint("chained-comparisons", `
+    i: int = 3
+    n: int = 5
+    print(0 <= i < n)
+    print(0 <= n < i)
+    print(1 < 2 < 3 < 4)
+    print(1 < 2 > 3 < 4)
+    print(1 == 1 != 2)
+    print((1 < 2) == True)`, [`True`, `False`, `True`, `False`, `True`, `True`]);
+
+    // 2
+    assertPrint("middle-evaluated-once", `
+    calls: int = 0
+    def mid(x: int) -> int:
+      global calls
+      calls = calls + 1
+      return x
+    print(0 < mid(5) < 10)
+    print(calls)
+    print(0 < mid(5) < 10 < mid(20))
+    print(calls)`, [`True`, `1`, `True`, `3`]);
+
+    // 3
+    assertPrint("short-circuits", `
+    def loud(x: int) -> int:
+      print(x)
+      return x
+    print(5 < loud(1) < loud(2))
+    print(loud(3) < 4 < loud(5) < 0)`, [`1`, `False`, `3`, `5`, `False`]);
+
+    // 4
+    assertPrint("not-in-and-is-not", `
+    class A(object):
+      x: int = 0
+    a: A = None
+    xs: [int] = None
+    xs = [1, 2]
+    print(3 not in xs)
+    print(1 not in xs)
+    print("k" not in {"k": 1})
+    print(a is not None)
+    a = A()
+    print(a is not None)
+    print(1 in xs not in [[3]])`, [`True`, `False`, `False`, `False`, `True`, `True`]);
+
+    // 5
+    assertPrint("power", `
+    x: int = 3
+    print(2 ** 10)
+    print(2 ** 3 ** 2)
+    print(-2 ** 2)
+    print((-2) ** 3)
+    print(x ** 0)
+    print(2 ** 100)
+    print((2 ** 64) ** 2 // 2 ** 127)`, [`1024`, `512`, `-4`, `-8`, `1`, `1267650600228229401496703205376`, `2`]);
+
+    // 6
+    assertPrint("power-assignment-and-dunder", `
+    class Vec(object):
+      x: int = 0
+      def __init__(self: Vec, x: int):
+        self.x = x
+      def __pow__(self: Vec, n: int) -> Vec:
+        return Vec(self.x ** n)
+    x: int = 3
+    x **= 3
+    print(x)
+    print((Vec(5) ** 2).x)`, [`27`, `25`]);
+
+    // 7
+    assertPrint("chains-in-functions", `
+    def between(lo: int, xs: [int], hi: int) -> [int]:
+      return [x for x in xs if lo <= x < hi]
+    def squares(xs: [int]) -> generator[bool]:
+      i: int = 0
+      while i < len(xs):
+        yield 0 < xs[i] ** 2 < 10
+        i += 1
+    f: Callable[[int], bool] = None
+    f = lambda y: 1 < y < 3
+    print(between(2, [1, 2, 3, 4], 4))
+    print([b for b in squares([0, 2, 4])])
+    print(f(2))
+    print(sum(1 for z in range(10) if 2 < z <= 5))`, [`[2, 3]`, `[False, True, False]`, `True`, `3`]);
+
+    // 8
+    assertFail("negative-exponent", `
+    n: int = 0
+    n = n - 1
+    print(2 ** n)`);
+
+    // 9
+    assertTC("chain-type", `
+    1 < 2 <= 3`, BOOL);
+
+    // 10
+    assertTC("power-type", `
+    2 ** 3`, NUM);
+
+    // 11
+    assertTCFail("chain-operand-type", `
+    1 < 2 < "3"`);
+
+    // 12
+    assertTCFail("power-operand-type", `
+    2 ** True`);
+
+    // 13
+    assertOptimizeCorrect("comparisons-optimized", `
+    i: int = 0
+    total: int = 0
+    while 0 <= i < 2 ** 3:
+      if i not in [2, 5]:
+        total = total + i ** 2
+      i = i + 1
+    print(total)
+    print(2 ** 5 - 1 < 2 ** 5)`);
+
+    // 14
+    assertPrint("in-evaluation-order", `
+    def item(n : int) -> int:
+      print(n)
+      return n
+    def numbers() -> [int]:
+      print(0)
+      return [1, 2]
+    print(item(1) in numbers())
+    print(item(3) not in numbers())`, ["1", "0", "True", "3", "0", "True"]);
+
+    // 15
+    assertOptimizeCorrect("in-evaluation-order-optimized", `
+    def item(n : int) -> int:
+      print(n)
+      return n
+    print(item(2) in [1, item(3)])
+    print(item(4) in {4: 5})`);
+});
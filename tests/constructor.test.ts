@@ -0,0 +1,110 @@
+import { assertPrint, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { CLASS } from "./helpers.test"
+
+describe("Constructor tests", () => {
+    // 1
+    assertPrint("init-with-arguments", `
+    class Point(object):
+      x: int = 0
+      y: int = 0
+      def __init__(self: Point, x: int, y: int):
+        self.x = x
+        self.y = y
+    p: Point = None
+    p = Point(1, 2)
+    print(p.x)
+    print(p.y)`, [`1`, `2`]);
+
+    // 2
+    assertPrint("defaults-before-init", `
+    class A(object):
+      n: int = 7
+      s: str = "default"
+      def __init__(self: A, k: int):
+        print(self.n)
+        print(self.s)
+        self.n = self.n + k
+    print(A(3).n)`, [`7`, `default`, `10`]);
+
+    // 3
+    assertPrint("subclass-init", `
+    class Point(object):
+      x: int = 0
+      y: int = 0
+      def __init__(self: Point, x: int, y: int):
+        self.x = x
+        self.y = y
+      def sum(self: Point) -> int:
+        return self.x + self.y
+    class Point3(Point):
+      z: int = 0
+      def __init__(self: Point3, x: int, y: int, z: int):
+        self.x = x
+        self.y = y
+        self.z = z
+      def sum(self: Point3) -> int:
+        return self.x + self.y + self.z
+    p: Point = None
+    p = Point3(1, 2, 3)
+    print(p.sum())`, [`6`]);
+
+    // 4
+    assertPrint("constructor-arguments-are-expressions", `
+    class Box(object):
+      v: int = 0
+      def __init__(self: Box, v: int):
+        self.v = v
+    def f(x: int) -> int:
+      return x * 2
+    print(Box(f(Box(4).v) + 1).v)`, [`9`]);
+
+    // 5
+    assertPrint("exception-with-init", `
+    class CodeError(Exception):
+      code: int = 0
+      def __init__(self: CodeError, code: int):
+        self.code = code
+    try:
+      raise CodeError(42)
+    except CodeError as e:
+      print(e.code)`, [`42`]);
+
+    // 6
+    assertTC("construct-type", `
+    class C(object):
+      n: int = 0
+      def __init__(self: C, n: int):
+        self.n = n
+    C(1)`, CLASS("C"));
+
+    // 7
+    assertTCFail("constructor-argument-type", `
+    class C(object):
+      n: int = 0
+      def __init__(self: C, n: int):
+        self.n = n
+    C(True)`);
+
+    // 8
+    assertTCFail("constructor-argument-count", `
+    class C(object):
+      n: int = 0
+      def __init__(self: C, n: int):
+        self.n = n
+    C(1, 2)`);
+
+    // 9
+    assertOptimizeCorrect("constructor-optimized", `
+    class Point(object):
+      x: int = 0
+      y: int = 0
+      def __init__(self: Point, x: int, y: int):
+        self.x = x
+        self.y = y
+    i: int = 0
+    p: Point = None
+    while i < 3:
+      p = Point(i, i * 2 + 1)
+      print(p.x + p.y)
+      i = i + 1`);
+});
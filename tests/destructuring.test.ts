@@ -171,8 +171,12 @@ class Range(object):
     self.current = start
     self.end = end
     return self
-  def next(self:Range)->int:
+  def __iter__(self:Range)->Range:
+    return self
+  def __next__(self:Range)->int:
     c : int = 0
+    if not self.hasNext():
+      raise StopIteration()
     c = self.current
     self.current = self.current + 1
     return c
@@ -217,4 +221,21 @@ def f(a:int):
 
 f(5)` , ["25", "5", "-20"]);
 
+assertPrint("destr-swap", `
+a : int = 1
+b : int = 2
+a, b = b, a
+print(a)
+print(b)` , ["2", "1"]);
+
+assertPrint("destr-fib", `
+a : int = 0
+b : int = 1
+i : int = 0
+while i < 10:
+    a, b = b, a + b
+    i = i + 1
+print(a)
+print(b)` , ["55", "89"]);
+
 });
@@ -0,0 +1,131 @@
+import { assertPrint, assertFail, assertTCFail, assertTC } from "./asserts.test";
+import { NUM, BOOL, NONE, STR } from "./helpers.test"
+
+describe("Dictionary tests", () => {
+    // 1
+    assertTC("dict-literal", `{1: True, 2: False}`, {tag: "dict", key: NUM, value: BOOL});
+
+    // 2
+    assertTC("dict-assign-empty", `
+    d: dict[int, int] = None
+    d = {}`, NONE);
+
+    // 3
+    assertPrint("dict-lookup", `
+    d: dict[int, int] = None
+    d = {1: 10, 2: 20}
+    print(d[1])
+    print(d[2])`, [`10`, `20`]);
+
+    // 4
+    assertPrint("dict-assign", `
+    d: dict[int, int] = None
+    d = {}
+    d[5] = 50
+    d[15] = 150
+    d[5] = 55
+    print(d[5])
+    print(d[15])
+    print(len(d))`, [`55`, `150`, `2`]);
+
+    // 5
+    assertPrint("dict-in", `
+    d: dict[int, bool] = None
+    d = {3: True}
+    print(3 in d)
+    print(4 in d)`, [`True`, `False`]);
+
+    // 6
+    assertPrint("dict-str-keys", `
+    d: dict[str, int] = None
+    k: str = "b"
+    d = {"a": 1}
+    d[k + "c"] = 2
+    print(d["a"])
+    print(d["bc"])
+    print("bc" in d)
+    print("b" in d)`, [`1`, `2`, `True`, `False`]);
+
+    // 7
+    assertPrint("dict-keys-values", `
+    d: dict[int, int] = None
+    ks: [int] = None
+    vs: [int] = None
+    d = {30: 3, 10: 1, 20: 2}
+    ks = d.keys()
+    vs = d.values()
+    print(ks[0])
+    print(ks[2])
+    print(vs[1])`, [`30`, `20`, `1`]);
+
+    // 8
+    assertPrint("dict-for", `
+    d: dict[int, int] = None
+    k: int = 0
+    total: int = 0
+    d = {1: 10, 12: 120, 3: 30}
+    for k in d:
+      print(k)
+      total = total + d[k]
+    print(total)`, [`1`, `12`, `3`, `160`]);
+
+    // 9
+    assertFail("dict-key-error", `
+    d: dict[int, int] = None
+    d = {1: 10}
+    d[2]`);
+
+    // 10
+    assertTCFail("dict-mixed-values", `{1: 1, 2: True}`);
+
+    // 11
+    assertTCFail("dict-wrong-key", `
+    d: dict[int, int] = None
+    d = {1: 10}
+    d[True]`);
+
+    // 12
+    assertTC("dict-str-lookup", `
+    d: dict[str, str] = None
+    d = {"a": "b"}
+    d["a"]`, STR);
+
+    // 13
+    assertTCFail("dict-unhashable", `{[1]: 1}`);
+
+    // 14
+    assertPrint("dict-items", `
+    d: dict[int, bool] = None
+    items: [tuple[int, bool]] = None
+    d = {1: True, 2: False}
+    items = d.items()
+    print(items[1][0])
+    print(items[1][1])`, [`2`, `False`]);
+
+    // 15
+    assertPrint("dict-many-keys", `
+    d: dict[int, int] = None
+    names: dict[str, int] = None
+    key: str = ""
+    i: int = 0
+    total: int = 0
+    d = {}
+    names = {}
+    while i < 200:
+      d[i * 7 - 300] = i
+      d[2 ** 40 + i] = i
+      key = key + "k"
+      names[key] = i
+      i = i + 1
+    key = ""
+    i = 0
+    while i < 200:
+      key = key + "k"
+      total = total + d[i * 7 - 300] + d[2 ** 40 + i] + names[key]
+      i = i + 1
+    print(len(d))
+    print(len(names))
+    print(total)
+    print(d.keys()[:3])
+    print((2 ** 40 + 200) in d)`, [`400`, `200`, `59700`, `[-300, 1099511627776, -293]`, `False`]);
+});
@@ -0,0 +1,50 @@
+import { assertPrint, assertFail, assertOptimizeCorrect } from "./asserts.test";
+
+// [a, b, a // b, a % b] as Python computes them
+const cases : Array<[string, string, string, string]> = [
+  ["7", "2", "3", "1"],
+  ["-7", "2", "-4", "1"],
+  ["7", "-2", "-4", "-1"],
+  ["-7", "-2", "3", "-1"],
+  ["6", "-3", "-2", "0"],
+  ["-6", "3", "-2", "0"],
+  ["0", "-5", "0", "0"],
+  ["1", "-1", "-1", "0"],
+  ["-1", "1073741824", "-1", "1073741823"],
+  ["-1073741824", "-1", "1073741824", "0"],
+  ["-2147483648", "-1", "2147483648", "0"],
+  ["-2147483648", "7", "-306783379", "5"],
+  ["2147483647", "-2", "-1073741824", "-1"],
+  ["-100000000000000000000", "3", "-33333333333333333334", "2"],
+  ["100000000000000000000", "-7", "-14285714285714285715", "-5"],
+];
+
+describe("Floor division tests", () => {
+    // 1: computed at runtime, through variables
+    cases.forEach(([a, b, div, mod]) => {
+      assertPrint(`runtime (${a}) // (${b})`, `
+    a: int = 0
+    b: int = 0
+    a = ${a}
+    b = ${b}
+    print(a // b)
+    print(a % b)`, [div, mod]);
+    });
+
+    // 2: the constant folders agree with the runtime
+    cases.forEach(([a, b]) => {
+      assertOptimizeCorrect(`folded (${a}) // (${b})`, `
+    print((${a}) // (${b}))
+    print((${a}) % (${b}))`);
+    });
+
+    // 3
+    assertFail("floor-division-by-zero", `
+    a: int = 0
+    a = -7
+    print(a // 0)`);
+
+    // 4
+    assertFail("modulo-by-zero", `
+    print((-7) % 0)`);
+});
@@ -44,6 +44,16 @@ export function assertParseFail(name: string, source: string, line: number, col:
       }
     });
   }
+  export function assertRunFailMessage(name: string, source: string, message: string) {
+    it(name, async () => {
+      try {
+        await run(source);
+        fail("Expected an exception");
+      } catch (err) {
+        expect(err.message).to.equal(message);
+      }
+    });
+  }
 describe("Error Reporting tests", () => {
     //1
     assertParseFail("missing-parenthesis-in-expression", 
@@ -88,6 +98,11 @@ describe("Error Reporting tests", () => {
     assertRunFail("division-by-zero", 
     `x: int = 100\nx%0`,2,3);
 
+    //11
+    assertRunFailMessage("index-out-of-bounds-normalized",
+    `a: [int] = None\na = [1, 2, 3]\nprint(a[-5])`,
+    "Traceback (most recent call last): \n\nRUNTIME ERROR: Index -2 out of bounds in line 3 at column 10\n\tprint(a[-5])\n\t^^^^^^^^^^^^");
+
  });
 
  /*
@@ -0,0 +1,228 @@
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NUM, CLASS } from "./helpers.test"
+
+describe("Exception tests", () => {
+    // 1
+    assertPrint("raise-and-catch", `
+    try:
+      raise ValueError("bad value")
+    except ValueError as e:
+      print(e.message)`, [`bad value`]);
+
+    // 2
+    assertPrint("catch-by-superclass", `
+    class MyError(LookupError):
+      code: int = 3
+    try:
+      raise MyError
+    except ArithmeticError:
+      print(1)
+    except Exception as e:
+      print(2)
+    except MyError:
+      print(3)`, [`2`]);
+
+    // 3
+    assertPrint("propagates-through-calls", `
+    def check(n: int) -> int:
+      if n < 0:
+        raise ValueError("negative")
+      return n
+    def total(a: int, b: int) -> int:
+      return check(a) + check(b)
+    try:
+      print(total(1, 2))
+      print(total(1, -2))
+    except ValueError as e:
+      print(e.message)`, [`3`, `negative`]);
+
+    // 4
+    assertPrint("else-and-finally", `
+    def f(x: int) -> int:
+      r: int = 0
+      try:
+        r = 10 // x
+      except ZeroDivisionError:
+        print("zero")
+      else:
+        print("ok")
+      finally:
+        print("done")
+      return r
+    print(f(2))
+    print(f(0))`, [`ok`, `done`, `5`, `zero`, `done`, `0`]);
+
+    // 5
+    assertPrint("finally-runs-on-return", `
+    def f() -> int:
+      try:
+        try:
+          return 1
+        finally:
+          print("inner")
+      finally:
+        print("outer")
+    print(f())`, [`inner`, `outer`, `1`]);
+
+    // 6
+    assertPrint("finally-runs-on-break-and-continue", `
+    i: int = 0
+    while i < 5:
+      i = i + 1
+      try:
+        if i == 2:
+          continue
+        if i == 4:
+          break
+        print(i)
+      finally:
+        print(0)`, [`1`, `0`, `0`, `3`, `0`, `0`]);
+
+    // 7
+    assertPrint("finally-rethrows", `
+    def f():
+      try:
+        raise KeyError
+      finally:
+        print("cleanup")
+    try:
+      f()
+    except KeyError:
+      print("caught")`, [`cleanup`, `caught`]);
+
+    // 8
+    assertPrint("bare-raise-reraises", `
+    def f():
+      try:
+        raise IndexError("first")
+      except:
+        print("log")
+        raise
+    try:
+      f()
+    except IndexError as e:
+      print(e.message)`, [`log`, `first`]);
+
+    // 9
+    assertPrint("builtin-errors-are-catchable", `
+    l: [int] = None
+    d: dict[int, int] = None
+    try:
+      print(l[0])
+    except AttributeError:
+      print("none")
+    l = [1]
+    try:
+      print(l[3])
+    except IndexError:
+      print("index")
+    d = {1: 1}
+    try:
+      print(d[2])
+    except LookupError:
+      print("key")
+    try:
+      print(1 % 0)
+    except ArithmeticError as e:
+      print(e.message)`, [`none`, `index`, `key`, `division by zero`]);
+
+    // 10
+    assertTC("raise-in-function-returning-int", `
+    def f(x: int) -> int:
+      if x > 0:
+        return x
+      else:
+        raise ValueError
+    f(1)`, NUM);
+
+    // 11
+    assertTC("caught-exception-type", `
+    e: Exception = None
+    try:
+      raise KeyError
+    except (IndexError, KeyError) as e2:
+      e = e2
+    e2`, CLASS("LookupError"));
+
+    // 12
+    assertTCFail("raise-non-exception", `
+    class A(object):
+      x: int = 0
+    raise A()`);
+
+    // 13
+    assertTCFail("except-non-exception", `
+    try:
+      pass
+    except int:
+      pass`);
+
+    // 14
+    assertTCFail("bare-raise-outside-except", `
+    def f():
+      raise`);
+
+    // 15
+    assertFail("uncaught-exception", `
+    raise RuntimeError("oops")`);
+
+    // 16
+    assertFail("unmatched-builtin-error", `
+    try:
+      print(1 // 0)
+    except KeyError:
+      pass`);
+
+    // 17
+    assertOptimizeCorrect("exceptions-optimized", `
+    def safediv(a: int, b: int) -> int:
+      try:
+        return a // b
+      except ZeroDivisionError:
+        return 0
+    i: int = 0
+    while i < 3:
+      print(safediv(6, i))
+      i = i + 1`);
+
+    // 18
+    assertPrint("except-as-per-handler", `
+    class MyError(LookupError):
+      code: int = 3
+    def f(n: int):
+      try:
+        if n == 0:
+          raise ValueError("value")
+        raise MyError("mine")
+      except ValueError as e:
+        print(e.message)
+      except MyError as e:
+        print(e.code)
+      try:
+        raise KeyError("key")
+      except KeyError as e:
+        print(e.message)
+    f(0)
+    f(1)`, [`value`, `key`, `3`, `key`]);
+
+    // 19
+    assertTC("except-as-widened", `
+    e: int = 0
+    def f() -> Exception:
+      try:
+        pass
+      except ValueError as e:
+        pass
+      except KeyError as e:
+        pass
+      return e
+    f()`, CLASS("Exception"));
+
+    // 20
+    assertTCFail("except-as-declared-not-widened", `
+    e: ValueError = None
+    try:
+      pass
+    except KeyError as e:
+      pass`);
+});
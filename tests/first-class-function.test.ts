@@ -0,0 +1,126 @@
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NUM } from "./helpers.test"
+
+describe("First-class function tests", () => {
+    // 1
+    assertPrint("pass-function", `
+    def inc(x: int) -> int:
+      return x + 1
+    def apply(f: Callable[[int], int], x: int) -> int:
+      return f(x)
+    print(apply(inc, 4))`, [`5`]);
+
+    // 2
+    assertPrint("function-in-variable", `
+    def double(x: int) -> int:
+      return x * 2
+    f: Callable[[int], int] = None
+    f = double
+    print(f(21))`, [`42`]);
+
+    // 3
+    assertPrint("lambda-argument", `
+    def apply(f: Callable[[int], int], x: int) -> int:
+      return f(x)
+    print(apply(lambda y: y * y, 7))`, [`49`]);
+
+    // 4
+    assertPrint("lambda-captures-parameter", `
+    def adder(n: int) -> Callable[[int], int]:
+      return lambda x: x + n
+    g: Callable[[int], int] = None
+    g = adder(10)
+    print(g(5))
+    print(adder(2)(3))`, [`15`, `5`]);
+
+    // 5
+    assertPrint("returned-nested-function-keeps-state", `
+    def counter() -> Callable[[], int]:
+      c: int = 0
+      def step() -> int:
+        nonlocal c
+        c = c + 1
+        return c
+      return step
+    a: Callable[[], int] = None
+    b: Callable[[], int] = None
+    a = counter()
+    b = counter()
+    a()
+    a()
+    print(a())
+    print(b())`, [`3`, `1`]);
+
+    // 6
+    assertPrint("compose", `
+    def compose(f: Callable[[int], int], g: Callable[[int], int]) -> Callable[[int], int]:
+      return lambda x: f(g(x))
+    def inc(x: int) -> int:
+      return x + 1
+    print(compose(inc, lambda x: x * 10)(4))`, [`41`]);
+
+    // 7
+    assertPrint("function-in-field", `
+    class Box(object):
+      f: Callable[[int], int] = None
+    b: Box = None
+    b = Box()
+    b.f = lambda z: z - 1
+    print(b.f(3))`, [`2`]);
+
+    // 8
+    assertPrint("multiple-arguments-and-none-return", `
+    def each(f: Callable[[int, bool], None], n: int):
+      i: int = 0
+      while i < n:
+        f(i, i % 2 == 0)
+        i = i + 1
+    def show(x: int, even: bool):
+      if even:
+        print(x)
+    each(show, 5)`, [`0`, `2`, `4`]);
+
+    // 9
+    assertTC("callable-type", `
+    def inc(x: int) -> int:
+      return x + 1
+    inc(1)`, NUM);
+
+    // 10
+    assertTCFail("wrong-function-type", `
+    def inc(x: int) -> int:
+      return x + 1
+    f: Callable[[bool], int] = None
+    f = inc`);
+
+    // 11
+    assertTCFail("lambda-without-context", `
+    x: int = 0
+    x = (lambda y: y)(1)`);
+
+    // 12
+    assertTCFail("lambda-arity", `
+    f: Callable[[int], int] = None
+    f = lambda x, y: x + y`);
+
+    // 13
+    assertTCFail("call-non-function", `
+    x: int = 1
+    x(2)`);
+
+    // 14
+    assertFail("call-none-function", `
+    f: Callable[[int], int] = None
+    f(1)`);
+
+    // 15
+    assertOptimizeCorrect("function-values-optimized", `
+    def adder(n: int) -> Callable[[int], int]:
+      return lambda x: x + n
+    f: Callable[[int], int] = None
+    i: int = 0
+    while i < 3:
+      f = adder(i)
+      print(f(10))
+      i = i + 1`);
+});
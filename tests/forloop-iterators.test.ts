@@ -5,70 +5,34 @@ import { NUM, BOOL, NONE, CLASS, typeCheck } from "./helpers.test";
 import { TypeCheckError } from '../error_reporting'
 import { PyInt, PyBool, PyNone, PyObj } from '../utils';
 
-var rangeStr = `
-class __range__(object):
-    start: int = 0
-    stop: int = 0
-    step: int = 1
-    hasNext: bool = False
-    currval: int = 0
-    def __init__(self: __range__):
-        pass
-    def new(self: __range__, start: int, stop: int, step: int) -> __range__:
-        self.start = start
-        self.stop = stop
-        self.step = step
-        self.currval = start
-        return self
-
-    def next(self: __range__) -> int:
-        prev: int = 0
-        prev = self.currval
-        self.currval = prev+self.step
-        return prev
-        
-    def hasnext(self: __range__) -> bool:
-        nextval: int = 0
-        nextval = self.currval
-        if((self.step>0 and nextval<self.stop) or (self.step<0 and nextval>self.stop)):
-            self.hasNext = True
-        else:
-            self.hasNext = False
-        return self.hasNext
-
-def range(start: int, stop: int, step: int) -> __range__:
-    return __range__().new(start, stop, step)
-
-`
-
 describe("Basic range and custom iteratable functionalities", () => {
     
-    assertPrint('range: three parameters', rangeStr + `
+    assertPrint('range: three parameters', `
 i: int = 0
 for i in range(0,10,2):
     print(i)`, ["0","2","4","6", "8"]);
 
-    assertPrint('range: called inside a fucntion with function parameters', rangeStr + `
+    assertPrint('range: called inside a fucntion with function parameters', `
 def f(x: int, y: int):
     i: int = 0
     for i in range(x*1,y*1,1*2*abs(1)):
         print(i)
 f(0,10)`, ["0","2","4","6", "8"]);
     
-    assertPrint('range: negative step', rangeStr + `
+    assertPrint('range: negative step', `
 i: int = 0
 for i in range(0,-10,-2):
     print(i)`, ["0","-2","-4", "-6", "-8"]);
 
 
-    assertPrint('range: for loop with break', rangeStr + `
+    assertPrint('range: for loop with break', `
 i: int = 0
 for i in range(0,-10,-2):
     print(i)
     break
 `, ["0"]);
 
-    assertPrint('range: for loop with break with an if and else statement', rangeStr + `
+    assertPrint('range: for loop with break with an if and else statement', `
 i: int = 0
 for i in range(0,10,1):
     if i > 5:
@@ -77,7 +41,7 @@ for i in range(0,10,1):
         print(i)
 `, ["0", "1", "2", "3", "4","5"]);
 
-    assertPrint('range: for loop with continue inside the main body', rangeStr + `
+    assertPrint('range: for loop with continue inside the main body', `
 i: int = 0
 for i in range(0,5,1):
     print(i*100)
@@ -85,7 +49,7 @@ for i in range(0,5,1):
     print(i)    
 `, ["0", "100", "200", "300", "400"]);    
 
-    assertPrint('range: for loop with continue inside a if statement', rangeStr + `
+    assertPrint('range: for loop with continue inside a if statement', `
 i : int = 0
 for i in range(0, 10, 1):
     if i % 2 == 0:
@@ -94,7 +58,7 @@ for i in range(0, 10, 1):
         print(i)
 `, ["1", "3", "5", "7", "9"]);  
 
-    assertPrint('range: nested for loop with break', rangeStr + `
+    assertPrint('range: nested for loop with break', `
 i: int = 0
 j:int = 0
 for i in range(0,5,1):
@@ -104,7 +68,7 @@ for i in range(0,5,1):
     break   
 `, ["0", "0", "1"]);   
 
-assertPrint('range: complex break, continue 1', rangeStr + `
+assertPrint('range: complex break, continue 1', `
 i: int = 0
 j:int = 0
 for i in range(0,5,1):
@@ -118,7 +82,7 @@ for i in range(0,5,1):
     break   
 `, ["0"]);   
 
-assertPrint('range: complex break, continue 2', rangeStr + `
+assertPrint('range: complex break, continue 2', `
 i: int = 0
 j:int = 0
 for i in range(0,5,1):
@@ -133,7 +97,7 @@ for i in range(0,5,1):
         continue
 `, ["0","1","0","2","0","1","3","0","1","2","4","0","1","2","3"]);   
 
-assertPrint('range: complex break, continue 3', rangeStr + `
+assertPrint('range: complex break, continue 3', `
 i: int = 0
 j:int = 0
 k: int =0
@@ -157,7 +121,7 @@ for i in range(0,5,1):
         continue
 `, ["0","1","0","90","60","30","2","0","1","3","0","90","60","30","1","90","60","30","2","90","60","30","4","0","1","2","3"]); 
 
-assertPrint('range: complex break, continue 4', rangeStr + `
+assertPrint('range: complex break, continue 4', `
 i: int = 0
 j:int = 0
 k: int =0
@@ -182,7 +146,7 @@ for i in range(0,5,1):
 `, ["0","1","0","90","2","0","1","3","0","90","1","90","2","90","4","0","1","2","3"]);
 
 
-assertPrint('range: complex break, continue 5' , rangeStr + `
+assertPrint('range: complex break, continue 5' , `
 i: int = 0
 j:int  = 0
 k: int = 0 
@@ -207,7 +171,7 @@ for i in range(5, -5, -1):
 
 ` ,["-2", "1", "1"])
 
-    assertPrint('range: for else construct 1', rangeStr + `
+    assertPrint('range: for else construct 1', `
 i : int = 0
 for i in range(10, 0, -1):
     if i < 5:
@@ -218,7 +182,7 @@ else:
     print(123456)
 `, ["10", "9", "8", "7", "6", "5"]);  
         
-    assertPrint('range: for else construct 2', rangeStr + `
+    assertPrint('range: for else construct 2', `
 i : int = 0
 for i in range(10, 5, -1):
     if i < 5:
@@ -229,21 +193,50 @@ else:
     print(123456)
 `, ["10", "9", "8", "7", "6", "123456"]);  
 
-assertPrint('Custom Iterator 1' , rangeStr + `
+    assertPrint('range: loop longer than the recursion limit', `
+i : int = 0
+total : int = 0
+for i in range(0, 3000, 1):
+    total = total + 1
+print(total)
+`, ["3000"]);
+
+    assertPrint('range: calls and appends in a loop longer than the recursion limit', `
+def inc(x: int) -> int:
+    return x + 1
+a : [int] = None
+i : int = 0
+n : int = 0
+a = []
+for i in range(0, 2000, 1):
+    a.append(i)
+    n = inc(n)
+print(len(a))
+print(n)
+`, ["2000", "2000"]);
+
+    assertFail('range: recursion inside a loop still hits the limit', `
+def f(n: int) -> int:
+    return f(n + 1)
+i : int = 0
+for i in range(0, 10, 1):
+    print(f(i))
+`);
+
+assertPrint('Custom Iterator 1' , `
 class EvenNumbers(object):
     num:int = 0
     def __init__(self: EvenNumbers):
         pass
-    def next(self: EvenNumbers) -> int:
+    def __iter__(self: EvenNumbers) -> EvenNumbers:
+        return self
+    def __next__(self: EvenNumbers) -> int:
         ret: int  = 0 
+        if self.num > 10:
+            raise StopIteration()
         ret = self.num
         self.num = self.num + 2
         return ret
-    def hasnext(self: EvenNumbers) -> bool:
-        if self.num > 10:
-            return False
-        else:
-            return True
 
 i: int = 0
 for i in EvenNumbers():
@@ -251,21 +244,20 @@ for i in EvenNumbers():
 
 ` ,["0", "2", "4", "6", "8", "10"])
 
-assertPrint('Custom Iterator called range' , rangeStr + `
+assertPrint('Custom Iterator called range' , `
 class range(object):
     num:int = 1
     def __init__(self: range):
         pass
-    def next(self: range) -> int:
+    def __iter__(self: range) -> range:
+        return self
+    def __next__(self: range) -> int:
         ret: int  = 0 
+        if self.num > 16:
+            raise StopIteration()
         ret = self.num
         self.num = self.num * 2
         return ret
-    def hasnext(self: range) -> bool:
-        if self.num > 16:
-            return False
-        else:
-            return True
 
 i: int = 0
 for i in range():
@@ -273,24 +265,23 @@ for i in range():
 
 ` ,["1", "2", "4", "8", "16"])
 
-assertPrint('Custom Bool Iterator' , rangeStr + `
+assertPrint('Custom Bool Iterator' , `
 
 class BoolIterable(object):
     val:bool = True
     num:int = 0
     def __init__(self: BoolIterable):
         pass
-    def next(self: BoolIterable) -> bool:
+    def __iter__(self: BoolIterable) -> BoolIterable:
+        return self
+    def __next__(self: BoolIterable) -> bool:
         ret: bool = True
+        if self.num > 5:
+            raise StopIteration()
         ret = self.val
         self.num = self.num + 1
         self.val = not self.val
         return ret
-    def hasnext(self: BoolIterable) -> bool:
-        if self.num > 5:
-            return False
-        else:
-            return True
 
 i: bool = True
 for i in BoolIterable():
@@ -298,48 +289,45 @@ for i in BoolIterable():
 
 ` ,["True", "False","True", "False","True", "False"]);
 
-    assertTCFail('range: type checking for loop variable ', rangeStr + `
+    assertTCFail('range: type checking for loop variable ', `
 
 i : bool = False
 for i in range(0,10,1):
     print(i)
 `);   
 
-assertTCFail('range: type checking for loop variable ', rangeStr + `
+assertTCFail('range: type checking for loop variable ', `
 
 for i in range(0,10,1):
     print(i)
 `);   
 
-    assertTCFail('range: type checking for one parameter', rangeStr + `
+    assertPrint('range: one parameter', `
 i: int = 0
 for i in range(5):
     print(i)
-`);
+`, ["0", "1", "2", "3", "4"]);
     
-    assertTCFail('range: type checking for two parameters', rangeStr + `
+    assertPrint('range: two parameters', `
 i: int = 0
 for i in range(5,10):
     print(i)
-`);
+`, ["5", "6", "7", "8", "9"]);
 
-    assertTCFail('range: type checking for range parameters', rangeStr + `
+    assertTCFail('range: type checking for range parameters', `
 i : int = 0
 for i in range(10, 20, 1, 1):
     print(i)
 `);   
 
-assertTCFail('Type Checking: not an iterator 1', rangeStr + `
+assertTCFail('Type Checking: not an iterator 1', `
 
 class range(object):
     num:int = 1
     def __init__(self: range):
         pass
-    def hasnext(self: range) -> bool:
-        if self.num > 16:
-            return False
-        else:
-            return True
+    def __iter__(self: range) -> int:
+        return self.num
 
 i: int = 0
 for i in range():
@@ -347,13 +335,13 @@ for i in range():
 
 `);   
 
-assertTCFail('Type Checking: not an iterator 2', rangeStr + `
+assertTCFail('Type Checking: not an iterator 2', `
 
 class range(object):
     num:int = 1
     def __init__(self: range):
         pass
-    def next(self: range) -> int:
+    def __next__(self: range) -> int:
         ret: int  = 0 
         ret = self.num
         self.num = self.num * 2
@@ -363,43 +351,243 @@ for i in range():
     print(i)
 `);   
 
-assertTCFail('TypeError: check iterable type', rangeStr + `
+assertTCFail('TypeError: check iterable type', `
 
 class BoolIterable(object):
   val:bool = True
   num:int = 0
   def __init__(self: BoolIterable):
       pass
-  def next(self: BoolIterable) -> bool:
+  def __iter__(self: BoolIterable) -> BoolIterable:
+      return self
+  def __next__(self: BoolIterable) -> bool:
       ret: bool = True
+      if self.num > 5:
+          raise StopIteration()
       ret = self.val
       self.num = self.num + 1
       self.val = not self.val
       return ret
-  def hasnext(self: BoolIterable) -> bool:
-      if self.num > 5:
-          return False
-      else:
-          return True
 
 i: int = 0
 for i in BoolIterable():
   print(i)
   `); 
 
-  assertTCFail('range: type checking for break outside loop', rangeStr + `
+  assertTCFail('range: type checking for break outside loop', `
 i: int = 0
 for i in range(0,5,10):
     print(i)
 break
 `);
 
-assertTCFail('range: type checking for continue outside loop', rangeStr + `
+assertTCFail('range: type checking for continue outside loop', `
 i: int = 0
 for i in range(0,5,10):
     print(i)
 continue
 `);
+
+assertPrint('Iterator protocol: __iter__ returning a generator', `
+class Squares(object):
+    n: int = 0
+    def __init__(self: Squares, n: int):
+        self.n = n
+    def __iter__(self: Squares) -> generator[int]:
+        i: int = 0
+        while i < self.n:
+            yield i * i
+            i = i + 1
+
+i: int = 0
+for i in Squares(4):
+    print(i)
+print([x + 1 for x in Squares(3)])
+`, ["0", "1", "4", "9", "[1, 2, 5]"]);
+
+assertPrint('Iterator protocol: separate iterator and next()', `
+class Countdown(object):
+    n: int = 0
+    def __init__(self: Countdown, n: int):
+        self.n = n
+    def __iter__(self: Countdown) -> CountdownIterator:
+        return CountdownIterator(self.n)
+class CountdownIterator(object):
+    n: int = 0
+    def __init__(self: CountdownIterator, n: int):
+        self.n = n
+    def __iter__(self: CountdownIterator) -> CountdownIterator:
+        return self
+    def __next__(self: CountdownIterator) -> int:
+        if self.n == 0:
+            raise StopIteration()
+        self.n = self.n - 1
+        return self.n + 1
+
+c: Countdown = None
+it: CountdownIterator = None
+a: int = 0
+b: int = 0
+c = Countdown(3)
+print([x for x in c])
+print([x for x in c])
+it = CountdownIterator(2)
+print(next(it))
+a, b = c
+print(a + b)
+`, ["[3, 2, 1]", "[3, 2, 1]", "2", "5"]);
+
+assertPrint('Iterator protocol: other exceptions leave the loop', `
+class Faulty(object):
+    n: int = 0
+    def __iter__(self: Faulty) -> Faulty:
+        return self
+    def __next__(self: Faulty) -> int:
+        self.n = self.n + 1
+        if self.n > 2:
+            raise ValueError("broken")
+        return self.n
+
+i: int = 0
+try:
+    for i in Faulty():
+        print(i)
+    else:
+        print("exhausted")
+except ValueError as e:
+    print(e.message)
+`, ["1", "2", "broken"]);
+
+assertPrint('range: iterated again and destructured', `
+r: range = None
+a: int = 0
+b: int = 0
+r = range(3, 0, -1)
+print([x for x in r])
+print([x * 10 for x in r])
+a, b = range(7, 9)
+print(a)
+print(b)
+`, ["[3, 2, 1]", "[30, 20, 10]", "7", "8"]);
+
+assertPrint('range: the loop variable keeps its last value', `
+i: int = 0
+j: int = 0
+for i in range(3):
+    for j in range(i):
+        pass
+print(i)
+print(j)
+`, ["2", "1"]);
+
+assertFail('range: zero step', `
+i: int = 0
+for i in range(0, 5, 0):
+    print(i)
+`);
+
+assertTCFail('Type Checking: __next__ returns the wrong type', `
+class Letters(object):
+    def __iter__(self: Letters) -> Letters:
+        return self
+    def __next__(self: Letters) -> str:
+        raise StopIteration()
+
+i: int = 0
+for i in Letters():
+    print(i)
+`);
+
+assertPrint('list: for loop over a list', `
+a : [int] = None
+x : int = 0
+a = [1, 2, 3]
+for x in a:
+    print(x)
+else:
+    print(0)
+`, ["1", "2", "3", "0"]);
+
+assertPrint('list: break and continue', `
+a : [int] = None
+x : int = 0
+a = [1, 2, 3, 4, 5]
+for x in a:
+    if x == 2:
+        continue
+    if x == 4:
+        break
+    print(x)
+`, ["1", "3"]);
+
+assertPrint('str: for loop over the characters', `
+c : str = ""
+for c in "abc":
+    print(c)
+`, ["a", "b", "c"]);
+
+assertPrint('set: for loop over a set', `
+s : set[int] = None
+x : int = 0
+total : int = 0
+s = {1, 2, 3}
+for x in s:
+    total = total + x
+print(total)
+`, ["6"]);
+
+assertPrint('dict: for loop over the keys and items', `
+d : dict[int, bool] = None
+k : int = 0
+v : bool = False
+d = {1: True, 2: False}
+for k in d.keys():
+    print(k)
+for k, v in d.items():
+    print(v)
+`, ["1", "2", "True", "False"]);
+
+assertPrint('enumerate: tuple targets', `
+a : [str] = None
+i : int = 0
+x : str = ""
+a = ["a", "b"]
+for i, x in enumerate(a):
+    print(i)
+    print(x)
+`, ["0", "a", "1", "b"]);
+
+assertPrint('zip: parenthesized tuple targets', `
+i : int = 0
+j : int = 0
+for (i, j) in zip([1, 2], [10, 20]):
+    print(i + j)
+`, ["11", "22"]);
+
+assertTCFail('Type Checking: tuple targets of the wrong types', `
+a : [int] = None
+i : int = 0
+x : str = ""
+a = [1, 2]
+for i, x in enumerate(a):
+    pass
+`);
+
+assertTCFail('Type Checking: an int is not iterable', `
+i : int = 0
+for i in 5:
+    pass
+`);
+
+assertTCFail('Type Checking: __iter__ returns a non-iterator', `
+class Box(object):
+    def __iter__(self: Box) -> Box:
+        return self
+
+i: int = 0
+for i in Box():
+    print(i)
+`);
 });
 
 /**
@@ -0,0 +1,183 @@
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NUM } from "./helpers.test"
+
+describe("Generator tests", () => {
+    // 1
+    assertPrint("for-over-generator", `
+    def count(n: int) -> generator[int]:
+      i: int = 0
+      while i < n:
+        yield i
+        i = i + 1
+    x: int = 0
+    for x in count(3):
+      print(x)`, [`0`, `1`, `2`]);
+
+    // 2
+    assertPrint("runs-only-when-resumed", `
+    def steps() -> generator[int]:
+      print(1)
+      yield 10
+      print(2)
+      yield 20
+      print(3)
+    g: generator[int] = None
+    g = steps()
+    print(0)
+    print(next(g))
+    print(next(g))`, [`0`, `1`, `10`, `2`, `20`]);
+
+    // 3
+    assertPrint("next-raises-stop-iteration", `
+    def one() -> generator[int]:
+      yield 1
+    g: generator[int] = None
+    g = one()
+    print(next(g))
+    try:
+      next(g)
+    except StopIteration:
+      print("done")`, [`1`, `done`]);
+
+    // 4
+    assertFail("uncaught-stop-iteration", `
+    def empty() -> generator[int]:
+      return
+    g: generator[int] = None
+    g = empty()
+    next(g)`);
+
+    // 5
+    assertPrint("locals-survive-yields", `
+    def fib(n: int) -> generator[int]:
+      a: int = 0
+      b: int = 1
+      t: int = 0
+      while n > 0:
+        yield a
+        t = a + b
+        a = b
+        b = t
+        n = n - 1
+    print([x for x in fib(8)])`, [`[0, 1, 1, 2, 3, 5, 8, 13]`]);
+
+    // 6
+    assertPrint("generator-method", `
+    class Walker(object):
+      base: int = 100
+      def walk(self: Walker, k: int) -> generator[int]:
+        i: int = 0
+        while i < k:
+          yield self.base + i
+          i = i + 1
+    w: Walker = None
+    w = Walker()
+    print([v for v in w.walk(3)])`, [`[100, 101, 102]`]);
+
+    // 7
+    assertPrint("yield-in-try", `
+    def pairs(a: [int]) -> generator[tuple[int, str]]:
+      i: int = 0
+      while i < len(a):
+        i = i + 1
+        try:
+          yield i, "s"
+          if i == 2:
+            raise ValueError("two")
+        except ValueError as e:
+          print(e.message)
+        finally:
+          print("f")
+    print([p for p, q in pairs([1, 2, 3])])`, [`f`, `two`, `f`, `f`, `[1, 2, 3]`]);
+
+    // 8
+    assertPrint("generator-expression-captures", `
+    def scaled(a: [int], n: int) -> generator[int]:
+      return (x * n for x in a if x > 1)
+    print([v for v in scaled([1, 2, 3], 10)])
+    print([[y * x for y in (z for z in [1, 2])] for x in [1, 10]])`, [`[20, 30]`, `[[1, 2], [10, 20]]`]);
+
+    // 9
+    assertPrint("independent-generators", `
+    def count(n: int) -> generator[int]:
+      i: int = 0
+      while i < n:
+        yield i
+        i = i + 1
+    a: generator[int] = None
+    b: generator[int] = None
+    a = count(5)
+    b = count(5)
+    next(a)
+    next(a)
+    print(next(a))
+    print(next(b))`, [`2`, `0`]);
+
+    // 10
+    assertTC("next-type", `
+    def count(n: int) -> generator[int]:
+      yield n
+    next(count(1))`, NUM);
+
+    // 11
+    assertTCFail("yield-outside-function", `
+    yield 1`);
+
+    // 12
+    assertTCFail("yield-in-non-generator", `
+    def f() -> int:
+      yield 1`);
+
+    // 13
+    assertTCFail("yield-type", `
+    def f() -> generator[int]:
+      yield True`);
+
+    // 14
+    assertTCFail("next-on-non-generator", `
+    next([1, 2])`);
+
+    // 15
+    assertOptimizeCorrect("generator-optimized", `
+    def count(n: int) -> generator[int]:
+      i: int = 0
+      while i < n:
+        if i % 2 == 0:
+          yield i * 3
+        i = i + 1
+    x: int = 0
+    for x in count(7):
+      print(x)`);
+
+    // 16
+    assertPrint("next-after-exhaustion", `
+    def g() -> generator[int]:
+      yield 1
+      print("after")
+    it: generator[int] = None
+    it = g()
+    print(next(it))
+    try:
+      next(it)
+    except StopIteration:
+      print("stop")
+    try:
+      next(it)
+    except StopIteration:
+      print("stop")`, [`1`, `after`, `stop`, `stop`]);
+
+    // 17
+    assertPrint("for-after-exhaustion", `
+    def g() -> generator[int]:
+      yield 1
+      yield 2
+      print("after")
+    it: generator[int] = None
+    x: int = 0
+    it = g()
+    for x in it:
+      print(x)
+    for x in it:
+      print(x)
+    print("end")`, [`1`, `2`, `after`, `end`]);
+});
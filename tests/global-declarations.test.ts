@@ -0,0 +1,126 @@
+import { assertPrint, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NONE } from "./helpers.test"
+
+describe("Global and nonlocal declaration tests", () => {
+    // 1
+    assertPrint("global-write", `
+    x: int = 1
+    def f():
+      global x
+      x = 5
+    x = 2
+    f()
+    print(x)`, [`5`]);
+
+    // 2
+    assertPrint("global-read-without-declaration", `
+    x: int = 1
+    def f() -> int:
+      return x + 1
+    x = 2
+    print(f())`, [`3`]);
+
+    // 3
+    assertPrint("local-shadows-global", `
+    x: int = 1
+    def f() -> int:
+      x: int = 10
+      x = x + 1
+      return x
+    print(f())
+    print(x)`, [`11`, `1`]);
+
+    // 4
+    assertPrint("nonlocal-write", `
+    def outer() -> int:
+      n: int = 1
+      def double():
+        nonlocal n
+        n = n * 2
+      double()
+      double()
+      return n
+    print(outer())`, [`4`]);
+
+    // 5
+    assertPrint("nested-global", `
+    x: bool = False
+    def outer() -> int:
+      x: int = 100
+      def inner():
+        global x
+        x = not x
+      inner()
+      return x
+    print(outer())
+    print(x)`, [`100`, `True`]);
+
+    // 6
+    assertPrint("except-as-shadows-global", `
+    e: ValueError = None
+    def f():
+      try:
+        raise ValueError("local")
+      except ValueError as e:
+        print(e.message)
+    f()
+    print(e is None)`, [`local`, `True`]);
+
+    // 7
+    assertTC("declaration-type", `
+    x: int = 0
+    def f():
+      global x
+      x = 1
+    f()`, NONE);
+
+    // 8
+    assertTCFail("undeclared-global", `
+    x: int = 0
+    def f():
+      x = 1`);
+
+    // 9
+    assertTCFail("undeclared-nonlocal", `
+    def outer():
+      x: int = 0
+      def inner():
+        x = 1
+      inner()`);
+
+    // 10
+    assertTCFail("undeclared-augmented", `
+    x: int = 0
+    def f():
+      x += 1`);
+
+    // 11
+    assertTCFail("undeclared-loop-variable", `
+    i: int = 0
+    def f():
+      for i in range(3):
+        pass`);
+
+    // 12
+    assertTCFail("unknown-global", `
+    def f():
+      global y
+      y = 1`);
+
+    // 13
+    assertOptimizeCorrect("globals-optimized", `
+    x: int = 1
+    total: int = 0
+    def f():
+      global x
+      x = 5
+    def add():
+      global total
+      total = total + x
+    x = 2
+    add()
+    f()
+    add()
+    print(x)
+    print(total)`);
+});
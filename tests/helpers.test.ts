@@ -16,6 +16,7 @@ export async function run(source: string) {
 export const NUM : Type = {tag: "number"}
 export const BOOL : Type = {tag: "bool"}
 export const NONE : Type = {tag: "none"}
+export const STR : Type = {tag: "str"}
 export function CLASS(name : string) : Type { 
   return {tag: "class", name, genericArgs: null}
 };
\ No newline at end of file
@@ -1,27 +1,8 @@
 import { readFileSync } from "fs";
 import { BuiltinLib} from "../builtinlib";
 import * as RUNTIME_ERROR from '../runtime_error'
-
-enum Type { Num, Bool, None }
-
-function stringify(typ: Type, arg: any): string {
-  switch (typ) {
-    case Type.Num:
-      return (arg as number).toString();
-    case Type.Bool:
-      return (arg as boolean) ? "True" : "False";
-    case Type.None:
-      return "None";
-  }
-}
-
-function print(typ: Type, arg: any): any {
-  importObject.output += stringify(typ, arg);
-  importObject.output += "\n";
-  return arg;
-}
-
-
+import * as BIGNUM from '../bignum'
+import * as RUNTIME_PRINT from '../runtime_print'
 
 export async function addLibs() {
   const memory = new WebAssembly.Memory({initial:10, maximum:100});
@@ -29,8 +10,23 @@ export async function addLibs() {
   const setBytes = readFileSync("build/sets.wasm");
   const memoryModule = await WebAssembly.instantiate(bytes, { js: { mem: memory } })
   importObject.libmemory = memoryModule.instance.exports;
+  const strBytes = readFileSync("build/strings.wasm");
+  const strModule = await WebAssembly.instantiate(strBytes, {...importObject, js: { mem: memory } })
+  importObject.libstr = strModule.instance.exports;
+  const bigBytes = readFileSync("build/bignum.wasm");
+  const bigModule = await WebAssembly.instantiate(bigBytes, importObject)
+  importObject.libbig = bigModule.instance.exports;
+  const listBytes = readFileSync("build/lists.wasm");
+  const listModule = await WebAssembly.instantiate(listBytes, {...importObject, js: { mem: memory } })
+  importObject.liblist = listModule.instance.exports;
   const setModule = await WebAssembly.instantiate(setBytes, {...importObject, js: { mem: memory } })
   importObject.libset = setModule.instance.exports;
+  const dictBytes = readFileSync("build/dicts.wasm");
+  const dictModule = await WebAssembly.instantiate(dictBytes, {...importObject, js: { mem: memory } })
+  importObject.libdict = dictModule.instance.exports;
+  const objectBytes = readFileSync("build/objects.wasm");
+  const objectModule = await WebAssembly.instantiate(objectBytes, importObject)
+  importObject.libobjects = objectModule.instance.exports;
   importObject.memory_values = memory;
   importObject.js = {memory};
   return importObject;
@@ -42,16 +38,30 @@ export const importObject : any = {
     // the compiler easier, we define print so it logs to a string object.
     //  We can then examine output to see what would have been printed in the
     //  console.
-    index_out_of_bounds: (length: any, index: any, line: number, col: number) => RUNTIME_ERROR.index_out_of_bounds(length, index, line, col),
+    index_out_of_bounds: (length: any, index: any, line: number, col: number) => RUNTIME_ERROR.index_out_of_bounds(importObject, length, index, line, col),
+    key_not_found: (line: number, col: number) => RUNTIME_ERROR.key_not_found(line, col),
+    value_not_found: (line: number, col: number) => RUNTIME_ERROR.value_not_found(line, col),
+    slice_step_zero: (line: number, col: number) => RUNTIME_ERROR.slice_step_zero(line, col),
+    list_too_long: (line: number, col: number) => RUNTIME_ERROR.list_too_long(line, col),
+    stop_iteration: (state: number, line: number, col: number) => RUNTIME_ERROR.stop_iteration(state, line, col),
+    assertion_failed: (msg: number, line: number, col: number) => RUNTIME_ERROR.assertion_failed(importObject, msg, line, col),
+    big_binop: (op: number, left: number, right: number) => BIGNUM.big_binop(importObject, op, left, right),
+    big_cmp: (left: number, right: number) => BIGNUM.big_cmp(importObject, left, right),
     division_by_zero: (arg: number, line: number, col: number) => RUNTIME_ERROR.division_by_zero(arg, line, col),
+    negative_exponent: (arg: number, line: number, col: number) => RUNTIME_ERROR.negative_exponent(importObject, arg, line, col),
     assert_not_none: (arg: any, line: number, col: number) => RUNTIME_ERROR.assert_not_none(arg, line, col),
+    builtin_exception: (...vtables: Array<number>) => RUNTIME_ERROR.builtin_exception(importObject, ...vtables),
     stack_push: (line: number) => RUNTIME_ERROR.stack_push(line),
+    stack_pop: () => RUNTIME_ERROR.stack_pop(),
+    stack_depth: () => RUNTIME_ERROR.stack_depth(),
+    stack_truncate: (depth: number) => RUNTIME_ERROR.stack_truncate(depth),
     stack_clear: () => RUNTIME_ERROR.stack_clear(),
-    print: (arg: any) => print(Type.Num, arg),
-    print_num: (arg: number) => print(Type.Num, arg),
-    print_bool: (arg: number) => print(Type.Bool, arg),
-    print_none: (arg: number) => print(Type.None, arg),
-    ...BuiltinLib.reduce((o:Record<string, Function>, key)=>Object.assign(o, {[key.name]:key.body}), {}),
+    equal: (value: number, other: number, type: number) => RUNTIME_PRINT.equal(importObject, value, other, type),
+    print: (value: number, type: number, after: number, isEnd: number) => {
+      importObject.output += RUNTIME_PRINT.print(importObject, value, type, after, isEnd);
+      return 0;
+    },
+    ...BuiltinLib.reduce((o:Record<string, Function>, key)=>Object.assign(o, {[key.name]:key.bigints ? (...args: Array<number>) => BIGNUM.big_builtin(importObject, key.body, ...args) : key.body}), {}),
   },
 
   output: "",
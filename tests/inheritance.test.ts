@@ -0,0 +1,157 @@
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NONE, CLASS } from "./helpers.test"
+
+const animals = `
+    class Animal(object):
+      legs: int = 4
+      def sound(self: Animal) -> int:
+        return 0
+      def describe(self: Animal) -> int:
+        return self.sound() * 100 + self.legs
+
+    class Dog(Animal):
+      def sound(self: Dog) -> int:
+        return 1
+
+    class Bird(Animal):
+      wings: int = 2
+      def sound(self: Bird) -> int:
+        return 2
+      def __init__(self: Bird):
+        self.legs = 2
+`;
+
+describe("Inheritance tests", () => {
+    // 1
+    assertPrint("inherited-field-and-method", `${animals}
+    d: Dog = None
+    d = Dog()
+    print(d.legs)
+    print(d.describe())`, [`4`, `104`]);
+
+    // 2
+    assertPrint("dispatch-through-base-type", `${animals}
+    a: Animal = None
+    a = Animal()
+    print(a.sound())
+    a = Dog()
+    print(a.sound())
+    a = Bird()
+    print(a.sound())`, [`0`, `1`, `2`]);
+
+    // 3
+    assertPrint("override-called-from-base-method", `${animals}
+    a: Animal = None
+    a = Bird()
+    print(a.describe())`, [`202`]);
+
+    // 4
+    assertPrint("subclass-fields-after-inherited", `${animals}
+    b: Bird = None
+    b = Bird()
+    b.wings = 3
+    print(b.legs)
+    print(b.wings)`, [`2`, `3`]);
+
+    // 5
+    assertPrint("multi-level", `
+    class A(object):
+      def f(self: A) -> int:
+        return 1
+      def g(self: A) -> int:
+        return self.f()
+    class B(A):
+      def f(self: B) -> int:
+        return 2
+    class C(B):
+      x: int = 3
+    c: A = None
+    c = C()
+    print(c.g())`, [`2`]);
+
+    // 6
+    assertPrint("inherited-init", `
+    class A(object):
+      x: int = 0
+      def __init__(self: A):
+        self.x = 7
+    class B(A):
+      y: int = 1
+    b: B = None
+    b = B()
+    print(b.x)
+    print(b.y)`, [`7`, `1`]);
+
+    // 7
+    assertPrint("subclass-argument", `${animals}
+    def noise(a: Animal) -> int:
+      return a.sound()
+    print(noise(Dog()))
+    print(noise(Bird()))`, [`1`, `2`]);
+
+    // 8
+    assertTC("assign-subclass-to-base", `${animals}
+    a: Animal = None
+    a = Dog()`, NONE);
+
+    // 9
+    assertTC("subclass-expr-type", `${animals}
+    Dog()`, CLASS("Dog"));
+
+    // 10
+    assertTCFail("assign-base-to-subclass", `${animals}
+    d: Dog = None
+    d = Animal()`);
+
+    // 11
+    assertTCFail("sibling-classes", `${animals}
+    d: Dog = None
+    d = Bird()`);
+
+    // 12
+    assertTCFail("override-signature-mismatch", `
+    class A(object):
+      def f(self: A, x: int) -> int:
+        return x
+    class B(A):
+      def f(self: B, x: bool) -> int:
+        return 0`);
+
+    // 13
+    assertTCFail("redefine-inherited-field", `
+    class A(object):
+      x: int = 0
+    class B(A):
+      x: int = 1`);
+
+    // 14
+    assertTCFail("undefined-superclass", `
+    class B(A):
+      x: int = 1`);
+
+    // 15
+    assertTCFail("subclass-only-method", `${animals}
+    a: Animal = None
+    a = Bird()
+    a.wings`);
+
+    // 16
+    assertFail("method-on-none", `${animals}
+    a: Animal = None
+    a.sound()`);
+
+    // 17
+    assertOptimizeCorrect("dispatch-optimized", `${animals}
+    a: Animal = None
+    i: int = 0
+    while i < 3:
+      if i == 0:
+        a = Animal()
+      else:
+        if i == 1:
+          a = Dog()
+        else:
+          a = Bird()
+      print(a.describe())
+      i = i + 1`);
+});
@@ -0,0 +1,192 @@
+import { expect } from "chai";
+import { assertPrint, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { BOOL } from "./helpers.test"
+import { addLibs } from "./import-object.test";
+import { BasicREPL } from "../repl";
+
+const classes = `
+    class Animal(object):
+      name: str = ""
+      def __init__(self: Animal, name: str):
+        self.name = name
+      def sound(self: Animal) -> str:
+        return "..."
+    class Dog(Animal):
+      tricks: int = 0
+      def sound(self: Animal) -> str:
+        return "woof"
+      def fetch(self: Dog) -> int:
+        self.tricks = self.tricks + 1
+        return self.tricks
+    class Cat(Animal):
+      lives: int = 9`;
+
+// The REPL reports the class an object was created as, whatever the static type
+function assertRuntimeClass(name: string, source: string, className: string, fields: Array<string>) {
+  it(name, async () => {
+    const repl = new BasicREPL(await addLibs());
+    const result = await repl.run(source);
+    expect(result.tag).to.eq("object");
+    if (result.tag === "object")
+      expect(result.name).to.eq(className);
+    expect(repl.trackObject(result, repl.trackHeap()).map(field => field.fieldName)).to.deep.eq(fields);
+  });
+}
+
+describe("isinstance tests", () => {
+    // 1
+    assertPrint("checks", classes + `
+    a: Animal = None
+    print(isinstance(a, Animal))
+    a = Dog("rex")
+    print(isinstance(a, Animal))
+    print(isinstance(a, Dog))
+    print(isinstance(a, Cat))
+    print(isinstance(Animal("x"), Dog))
+    print(isinstance(a, object))`, [`False`, `True`, `True`, `False`, `False`, `True`]);
+
+    // 2
+    assertPrint("narrowing", classes + `
+    def f(a: Animal):
+      if isinstance(a, Dog):
+        print(a.fetch())
+        print(a.fetch())
+      print(a.sound())
+    f(Dog("rex"))`, [`1`, `2`, `woof`]);
+
+    // 3
+    assertPrint("narrowing-in-functions", classes + `
+    def describe(a: Animal):
+      print(a.name)
+      if isinstance(a, Dog):
+        print(a.fetch())
+        return
+      if isinstance(a, Cat):
+        print(a.lives)
+    describe(Dog("rex"))
+    describe(Cat("tom"))
+    describe(Animal("eve"))`, [`rex`, `1`, `tom`, `9`, `eve`]);
+
+    // 4
+    assertPrint("narrowing-object", classes + `
+    def f():
+      o: object = None
+      o = Cat("tom")
+      if isinstance(o, Animal):
+        print(o.name)
+      if isinstance(o, Cat):
+        print(o.lives)
+      if isinstance(o, Dog):
+        print(o.tricks)
+    f()`, [`tom`, `9`]);
+
+    // 5
+    assertPrint("exceptions", `
+    try:
+      raise KeyError("k")
+    except Exception as e:
+      print(isinstance(e, LookupError))
+      print(isinstance(e, ValueError))
+      if isinstance(e, KeyError):
+        print(e.message)`, [`True`, `False`, `k`]);
+
+    // 6
+    assertTC("call-type", classes + `
+    isinstance(Dog("rex"), Animal)`, BOOL);
+
+    // 7
+    assertTCFail("not-narrowed-outside", classes + `
+    def f(a: Animal):
+      if isinstance(a, Dog):
+        pass
+      else:
+        a.fetch()`);
+
+    // 8
+    assertTCFail("not-narrowed-when-assigned", classes + `
+    a: Animal = None
+    a = Dog("rex")
+    if isinstance(a, Dog):
+      a = Cat("tom")
+      a.fetch()`);
+
+    // 9
+    assertTCFail("class-argument", classes + `
+    a: Animal = None
+    isinstance(a, a)`);
+
+    // 10
+    assertTCFail("object-argument", `
+    isinstance(1, object)`);
+
+    // 11
+    assertRuntimeClass("repl-runtime-class", classes + `
+    o: object = None
+    o = Dog("rex")
+    o`, "Dog", ["name", "tricks"]);
+
+    // 12
+    assertOptimizeCorrect("isinstance-optimized", classes + `
+    def tricks(a: Animal, n: int) -> int:
+      i: int = 0
+      if isinstance(a, Dog):
+        while i < n:
+          a.fetch()
+          i = i + 1
+        return a.tricks
+      return 0
+    print(tricks(Dog("rex"), 3))
+    print(tricks(Cat("tom"), 3))
+    print(isinstance(None, Animal))`);
+
+    // 13
+    assertTCFail("not-narrowed-when-unpacked-into", classes + `
+    a: Animal = None
+    n: int = 0
+    a = Dog("rex")
+    if isinstance(a, Dog):
+      while n < 1:
+        a, n = Animal("tom"), 1
+      a.fetch()`);
+
+    // 14
+    assertPrint("narrowed-when-field-assigned", classes + `
+    def f(a: Animal):
+      if isinstance(a, Dog):
+        a.name = "max"
+        a.tricks = 2
+        print(a.fetch())
+      print(a.name)
+    f(Dog("rex"))`, [`3`, `max`]);
+
+    // 15
+    assertTCFail("global-not-narrowed", classes + `
+    a: Animal = None
+    def reset():
+      global a
+      a = Animal("eve")
+    a = Dog("rex")
+    if isinstance(a, Dog):
+      reset()
+      a.fetch()`);
+
+    // 16
+    assertTCFail("nonlocal-not-narrowed", classes + `
+    def f(a: Animal):
+      def reset():
+        nonlocal a
+        a = Animal("eve")
+      if isinstance(a, Dog):
+        reset()
+        a.fetch()`);
+
+    // 17
+    assertPrint("none-is-an-object", classes + `
+    a: Animal = None
+    def first() -> Animal:
+      print("first")
+      return None
+    print(isinstance(a, object))
+    print(isinstance(None, object))
+    print(isinstance(first(), object))`, [`True`, `True`, `first`, `True`]);
+});
@@ -0,0 +1,118 @@
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NUM } from "./helpers.test"
+
+describe("Iteration builtin tests", () => {
+    // 1
+    assertPrint("range-len", `
+    print(len(range(5)))
+    print(len(range(0, 10, 3)))
+    print(len(range(10, 0, -4)))
+    print(len(range(5, 0)))`, [`5`, `4`, `3`, `0`]);
+
+    // 2
+    assertPrint("enumerate", `
+    xs: [str] = None
+    xs = ["a", "b", "c"]
+    print([p for p in enumerate(xs)])
+    print([i for i, x in enumerate(xs, 10) if x != "b"])`, [`[(0, 'a'), (1, 'b'), (2, 'c')]`, `[10, 12]`]);
+
+    // 3
+    assertPrint("zip-stops-at-shortest", `
+    print([p for p in zip([1, 2, 3], [True, False])])
+    print([a + c for a, b, c in zip([1, 2], "xyz", range(10, 20)) if b != "y"])`, [`[(1, True), (2, False)]`, `[11]`]);
+
+    // 4
+    assertPrint("sum", `
+    def count(n: int) -> generator[int]:
+      i: int = 0
+      while i < n:
+        yield i
+        i = i + 1
+    print(sum([1, 2, 3]))
+    print(sum(count(5), 100))
+    print(sum(x * x for x in {1, 2, 3}))
+    print(sum([]))`, [`6`, `110`, `14`, `0`]);
+
+    // 5
+    assertPrint("min-max", `
+    xs: [int] = None
+    xs = [4, 1, 8, 3]
+    print(min(xs))
+    print(max(xs))
+    print(min(7, 2, 5))
+    print(max({10: "a", 20: "b"}))
+    print(min(3, 4))`, [`1`, `8`, `2`, `20`, `3`]);
+
+    // 6
+    assertPrint("sorted", `
+    print(sorted([3, 1, 2, 1]))
+    print(sorted(range(5, 0, -1)))
+    print(sorted(x // 2 for x in range(5)))`, [`[1, 1, 2, 3]`, `[1, 2, 3, 4, 5]`, `[0, 0, 1, 1, 2]`]);
+
+    // 7
+    assertPrint("objects-ordered-by-lt", `
+    class Card(object):
+      rank: int = 0
+      def __init__(self: Card, rank: int):
+        self.rank = rank
+      def __lt__(self: Card, other: Card) -> bool:
+        return self.rank < other.rank
+      def __repr__(self: Card) -> str:
+        return "Card"
+    print(max(Card(3), Card(9), Card(4)).rank)
+    print([c.rank for c in sorted([Card(3), Card(9), Card(4)])])`, [`9`, `[3, 4, 9]`]);
+
+    // 8
+    assertPrint("user-iterator", `
+    class Countdown(object):
+      n: int = 0
+      def __init__(self: Countdown, n: int):
+        self.n = n
+      def __iter__(self: Countdown) -> Countdown:
+        return self
+      def __next__(self: Countdown) -> int:
+        if self.n == 0:
+          raise StopIteration()
+        self.n = self.n - 1
+        return self.n
+    print(sorted(Countdown(3)))
+    print(sum(Countdown(4)))`, [`[0, 1, 2]`, `6`]);
+
+    // 9
+    assertPrint("program-defines-its-own", `
+    def sum(xs: [int]) -> int:
+      return 42
+    print(sum([1, 2]))
+    print(max([1, 2]))`, [`42`, `2`]);
+
+    // 10
+    assertFail("min-of-empty", `
+    xs: [int] = None
+    xs = []
+    min(xs)`);
+
+    // 11
+    assertTC("enumerate-type", `
+    [p for p in enumerate([True])][0]`, { tag: "tuple", contentTypes: [NUM, { tag: "bool" }] });
+
+    // 12
+    assertTCFail("sum-of-strings", `
+    sum(["a", "b"])`);
+
+    // 13
+    assertTCFail("not-iterable", `
+    sorted(5)`);
+
+    // 14
+    assertTCFail("no-order", `
+    class A(object):
+      x: int = 0
+    min([A(), A()])`);
+
+    // 15
+    assertOptimizeCorrect("builtins-optimized", `
+    xs: [int] = None
+    xs = [5, 3, 8]
+    print(sum(xs) + max(xs) - min(xs))
+    print(sorted([x * 2 for x in xs]))`);
+});
@@ -0,0 +1,196 @@
+import { assertPrint, assertTCFail, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { NUM } from "./helpers.test"
+
+describe("Keyword argument and default value tests", () => {
+    // 1
+    assertPrint("defaults", `
+    def f(x: int, y: int = 10, s: str = "s") -> str:
+      print(x + y)
+      return s + "!"
+    print(f(1))
+    print(f(1, 0))
+    print(f(0, 2, "ab"))`, [`11`, `s!`, `1`, `s!`, `2`, `ab!`]);
+
+    // 2
+    assertPrint("keywords", `
+    def f(x: int, y: int = 0, z: int = 0) -> int:
+      return x * 100 + y * 10 + z
+    print(f(1, z=2))
+    print(f(z=3, x=1, y=2))
+    print(f(y=5, x=4))`, [`102`, `123`, `450`]);
+
+    // 3
+    assertPrint("methods-and-constructors", `
+    class Point(object):
+      x: int = 0
+      y: int = 0
+      def __init__(self: Point, x: int = 0, y: int = 0):
+        self.x = x
+        self.y = y
+      def moved(self: Point, dx: int = 0, dy: int = 0) -> Point:
+        return Point(self.x + dx, y=self.y + dy)
+    p: Point = None
+    p = Point(y=2)
+    print(p.x)
+    print(p.y)
+    p = p.moved(dy=3).moved(1)
+    print(p.x)
+    print(p.y)`, [`0`, `2`, `1`, `5`]);
+
+    // 4
+    assertPrint("nested-and-exceptions", `
+    def outer(n: int) -> int:
+      def scale(k: int, by: int = 2) -> int:
+        return k * by
+      return scale(n) + scale(n, by=n)
+    print(outer(3))
+    try:
+      raise ValueError()
+    except ValueError as e:
+      print(len(e.message))`, [`15`, `0`]);
+
+    // 5
+    assertPrint("none-default", `
+    class Node(object):
+      value: int = 0
+      next: Node = None
+      def __init__(self: Node, value: int, next: Node = None):
+        self.value = value
+        self.next = next
+    n: Node = None
+    n = Node(1, next=Node(2))
+    print(n.next.value)
+    print(n.next.next is None)`, [`2`, `True`]);
+
+    // 6
+    assertTC("call-type", `
+    def f(x: int = 1) -> int:
+      return x
+    f()`, NUM);
+
+    // 7
+    assertTCFail("missing-argument", `
+    def f(x: int, y: int = 0) -> int:
+      return x
+    f(y=1)`);
+
+    // 8
+    assertTCFail("duplicate-keyword", `
+    def f(x: int, y: int = 0) -> int:
+      return x
+    f(1, x=2)`);
+
+    // 9
+    assertTCFail("unknown-keyword", `
+    class A(object):
+      def m(self: A, x: int = 0) -> int:
+        return x
+    A().m(y=1)`);
+
+    // 10
+    assertTCFail("default-type", `
+    def f(x: int = "a") -> int:
+      return x`);
+
+    // 11
+    assertTCFail("keyword-type", `
+    def f(x: int = 0) -> int:
+      return x
+    f(x=True)`);
+
+    // 12
+    assertTCFail("builtin-keyword", `
+    len([1], x=1)`);
+
+    // 13
+    assertOptimizeCorrect("keywords-optimized", `
+    def f(x: int, step: int = 1) -> int:
+      total: int = 0
+      while x > 0:
+        total = total + x
+        x = x - step
+      return total
+    print(f(10))
+    print(f(10, step=2 + 1))`);
+
+    // 14
+    assertPrint("keywords-evaluated-in-order", `
+    def g(x: int) -> int:
+      print(x)
+      return x
+    def f(a: int, b: int, c: int = 3) -> int:
+      return a * 100 + b * 10 + c
+    print(f(c=g(1), b=g(2), a=g(3)))`, [`1`, `2`, `3`, `321`]);
+
+    // 15
+    assertPrint("keywords-see-earlier-side-effects", `
+    n: int = 0
+    def bump() -> int:
+      global n
+      n = n + 1
+      return n
+    def f(a: int, b: int) -> int:
+      return a * 10 + b
+    print(f(b=n, a=bump()))
+    print(f(b=bump(), a=n))`, [`10`, `22`]);
+
+    // 16
+    assertPrint("keywords-evaluated-in-order-method-construct", `
+    def g(x: int) -> int:
+      print(x)
+      return x
+    class A(object):
+      a: int = 0
+      b: int = 0
+      def __init__(self: A, a: int, b: int):
+        self.a = a
+        self.b = b
+      def m(self: A, x: int, y: int) -> int:
+        return x - y
+    o: A = None
+    o = A(b=g(1), a=g(2))
+    print(o.m(y=g(3), x=g(4)))`, [`1`, `2`, `3`, `4`, `1`]);
+
+    // 17
+    assertOptimizeCorrect("keywords-in-order-optimized", `
+    n: int = 0
+    def bump() -> int:
+      global n
+      n = n + 1
+      return n
+    def f(a: int, b: int) -> int:
+      return a * 10 + b
+    print(f(b=n, a=bump()))
+    print(f(b=bump(), a=n))`);
+
+    // 18
+    assertTCFail("override-with-different-default", `
+    class A(object):
+      def f(self: A, x: int = 1) -> int:
+        return x * 10
+    class B(A):
+      def f(self: B, x: int = 2) -> int:
+        return x * 10`);
+
+    // 19
+    assertTCFail("override-with-different-parameter-name", `
+    class A(object):
+      def f(self: A, x: int, y: int) -> int:
+        return x - y
+    class B(A):
+      def f(self: B, y: int, x: int) -> int:
+        return x - y`);
+
+    // 20
+    assertPrint("override-with-same-defaults", `
+    class A(object):
+      def f(self: A, x: int = 1) -> int:
+        return x * 10
+    class B(A):
+      def f(self: B, x: int = 1) -> int:
+        return x * 20
+    a: A = None
+    a = B()
+    print(a.f())
+    print(a.f(x=3))`, [`20`, `60`]);
+});
@@ -1,4 +1,4 @@
-import { assertPrint, assertFail, assertTCFail, assertTC } from "./asserts.test";
+import { assertPrint, assertFail, assertTCFail, assertTC, assertOptimizeCorrect, assertParserFail } from "./asserts.test";
 import { NUM, BOOL, NONE, CLASS } from "./helpers.test"
 
 describe("List tests", () => {
@@ -25,10 +25,12 @@ describe("List tests", () => {
     a[4]`);
 
     // 5    
-    assertFail("negative-index", `
+    assertPrint("negative-index", `
     a: [int] = None
     a = [1, 2, 3]
-    a[-1]`);
+    print(a[-1])
+    a[-3] = 7
+    print(a[0])`, [`3`, `7`]);
 
     // 6
     assertPrint("expr-elements", `
@@ -79,7 +81,7 @@ describe("List tests", () => {
     a = [-0, -0, -0, -0]`);
 
     assertPrint("list-of-snek-objects", `
-    class Snake(obj):
+    class Snake(object):
       num_teeth: int = 100
 
     snek1: Snake = None
@@ -100,7 +102,7 @@ describe("List tests", () => {
     `, [`300`, `0`, `100`])
 
     assertPrint("list-of-objects-has-None", `
-    class Snake(obj):
+    class Snake(object):
       num_teeth: int = 100
     snek_list: [Snake] = None
     snek_list = [Snake(), None, None]
@@ -112,4 +114,248 @@ describe("List tests", () => {
     a = [1, 2, 4, 8, 16, 32, 64]
     print(a[2] + a[5])
     `, [`36`])
-});
\ No newline at end of file
+    assertPrint("append-grows-list", `
+    a: [int] = None
+    i: int = 0
+    a = []
+    while i < 50:
+      a.append(i * 2)
+      i = i + 1
+    print(len(a))
+    print(a[0])
+    print(a[49])`, [`50`, `0`, `98`]);
+
+    assertPrint("append-shared-reference", `
+    a: [int] = None
+    b: [int] = None
+    a = [1]
+    b = a
+    a.append(2)
+    a.append(3)
+    a.append(4)
+    a.append(5)
+    print(len(b))
+    print(b[4])`, [`5`, `5`]);
+
+    assertPrint("pop-and-insert", `
+    a: [int] = None
+    a = [1, 2, 3, 4]
+    print(a.pop())
+    print(a.pop(0))
+    a.insert(0, 10)
+    a.insert(-1, 20)
+    a.insert(100, 30)
+    print(a[0])
+    print(a[2])
+    print(a[4])
+    print(len(a))`, [`4`, `1`, `10`, `20`, `30`, `5`]);
+
+    assertPrint("remove-and-in", `
+    a: [str] = None
+    a = ["x", "y", "x"]
+    a.remove("x")
+    print(a[0])
+    print("x" in a)
+    a.remove("x")
+    print("x" in a)
+    print(len(a))`, [`y`, `True`, `False`, `1`]);
+
+    assertPrint("in-compares-int-values", `
+    a: [int] = None
+    a = [100000000000000000000]
+    print(100000000000000000000 in a)
+    print(1 in a)`, [`True`, `False`]);
+
+    assertPrint("concat-and-repeat", `
+    a: [int] = None
+    b: [int] = None
+    a = [1, 2]
+    b = a + [3] + []
+    a = 2 * b * 2
+    print(len(b))
+    print(len(a))
+    print(a[11])
+    print(len(a * -1))`, [`3`, `12`, `3`, `0`]);
+
+    assertPrint("list-errors-are-catchable", `
+    a: [int] = None
+    a = []
+    try:
+      a.pop()
+    except IndexError:
+      print("empty")
+    try:
+      a.remove(1)
+    except ValueError as e:
+      print(e.message)`, [`empty`, `list.remove(x): x not in list`]);
+
+    assertFail("append-to-none", `
+    a: [int] = None
+    a.append(1)`);
+
+    assertTC("pop-type", `
+    a: [bool] = None
+    a = [True]
+    a.pop()`, BOOL);
+
+    assertTC("concat-type", `
+    a: [int] = None
+    [] + a`, { tag: "list", type: NUM });
+
+    assertTCFail("append-wrong-type", `
+    a: [int] = None
+    a = [1]
+    a.append(True)`);
+
+    assertTCFail("concat-wrong-type", `
+    a: [int] = None
+    b: [bool] = None
+    a + b`);
+
+    assertOptimizeCorrect("list-methods-optimized", `
+    a: [int] = None
+    i: int = 0
+    a = [5]
+    while i < 10:
+      a.insert(0, i)
+      a.append(a.pop(1))
+      i = i + 1
+    print(a[0])
+    print(a[10])
+    print(len(a))`);
+
+    assertFail("negative-index-out-of-bounds", `
+    a: [int] = None
+    a = [1, 2, 3]
+    a[-4]`);
+
+    assertPrint("negative-index-caught", `
+    a: [int] = None
+    a = [1, 2, 3]
+    try:
+      a[-4] = 0
+    except IndexError as e:
+      print(e.message)`, [`index -1 out of range`]);
+
+    assertPrint("slice", `
+    a: [int] = None
+    b: [int] = None
+    a = [0, 1, 2, 3, 4, 5]
+    b = a[1:4]
+    b[0] = 10
+    print(len(b))
+    print(b[0])
+    print(b[2])
+    print(a[1])`, [`3`, `10`, `3`, `1`]);
+
+    assertPrint("slice-defaults-and-clamping", `
+    a: [int] = None
+    a = [0, 1, 2, 3, 4, 5]
+    print(len(a[:]))
+    print(a[-2:][0])
+    print(len(a[:-4]))
+    print(len(a[4:100]))
+    print(len(a[100:]))
+    print(len(a[4:2]))`, [`6`, `4`, `2`, `2`, `0`, `0`]);
+
+    assertPrint("slice-step", `
+    a: [int] = None
+    b: [int] = None
+    a = [0, 1, 2, 3, 4, 5, 6]
+    b = a[::-1]
+    print(b[0])
+    print(b[6])
+    b = a[1::3]
+    print(len(b))
+    print(b[1])
+    b = a[5:1:-2]
+    print(len(b))
+    print(b[1])`, [`6`, `0`, `2`, `4`, `2`, `3`]);
+
+    assertPrint("slice-big-bounds", `
+    a: [int] = None
+    a = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]
+    print(len(a[:-10000000000]))
+    print(len(a[-10000000000:]))
+    print(len(a[:10000000000]))
+    print(len(a[10000000000:]))
+    print(len(a[-10000000000::-1]))
+    print(a[10000000000::-1][0])
+    print(a[::10000000000])
+    print(a[::-10000000000])`, [`0`, `10`, `10`, `0`, `0`, `9`, `[0]`, `[9]`]);
+
+    assertFail("slice-step-zero", `
+    a: [int] = None
+    a = [1, 2, 3]
+    a[::0]`);
+
+    assertTC("slice-type", `
+    a: [bool] = None
+    a[1:]`, { tag: "list", type: BOOL });
+
+    assertTCFail("slice-bound-type", `
+    a: [int] = None
+    a[True:]`);
+
+    assertParserFail("slice-assign", `
+    a: [int] = None
+    a[1:2] = a`);
+
+    assertOptimizeCorrect("slice-optimized", `
+    a: [int] = None
+    b: [int] = None
+    i: int = 0
+    a = [3, 1, 4, 1, 5, 9, 2, 6]
+    while i < 4:
+      b = a[i:-i - 1:2]
+      print(len(b))
+      print(b[-1])
+      i = i + 1`);
+
+    assertPrint("contains-by-value", `
+    ts: [tuple[int, str]] = None
+    ls: [[int]] = None
+    ts = [(1, "a"), (2, "b")]
+    ls = [[1, 2], [3]]
+    print((2, "b") in ts)
+    print((2, "a") in ts)
+    print([3] in ls)
+    print([1] in ls)
+    ts.remove((1, "a"))
+    print(len(ts))`, [`True`, `False`, `True`, `False`, `1`]);
+
+    assertPrint("contains-objects", `
+    class Point(object):
+      x: int = 0
+      def __init__(self: Point, x: int):
+        self.x = x
+      def __eq__(self: Point, other: Point) -> bool:
+        return self.x == other.x
+    class Box(object):
+      x: int = 0
+    ps: [Point] = None
+    bs: [Box] = None
+    b: Box = None
+    ps = [Point(1), None, Point(2)]
+    b = Box()
+    bs = [Box(), b]
+    print(Point(2) in ps)
+    print(Point(3) in ps)
+    print(b in bs)
+    print(Box() in bs)
+    ps.remove(Point(2))
+    print(len(ps))`, [`True`, `False`, `True`, `False`, `2`]);
+
+    assertPrint("repeat-big-count", `
+    a: [int] = None
+    a = [1, 2]
+    print(a * -(2 ** 100))
+    print([] * 2 ** 100)
+    a *= -(2 ** 100)
+    print(a)`, [`[]`, `[]`, `[]`]);
+
+    assertFail("repeat-too-long", `
+    a: [int] = None
+    a = [1, 2]
+    print(a * 2 ** 100)`);
+});
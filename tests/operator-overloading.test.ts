@@ -0,0 +1,135 @@
+import { assertPrint, assertTC, assertTCFail, assertOptimizeCorrect } from "./asserts.test";
+import { NUM, BOOL, CLASS } from "./helpers.test"
+
+const vector = `
+    class Vector(object):
+      x: int = 0
+      y: int = 0
+      def __init__(self: Vector, x: int, y: int):
+        self.x = x
+        self.y = y
+      def __add__(self: Vector, other: Vector) -> Vector:
+        return Vector(self.x + other.x, self.y + other.y)
+      def __mul__(self: Vector, k: int) -> Vector:
+        return Vector(self.x * k, self.y * k)
+      def __eq__(self: Vector, other: Vector) -> bool:
+        return self.x == other.x and self.y == other.y
+      def __lt__(self: Vector, other: Vector) -> bool:
+        return self.x * self.x + self.y * self.y < other.x * other.x + other.y * other.y
+      def __str__(self: Vector) -> str:
+        return "Vector"`;
+
+describe("Operator overloading tests", () => {
+    // 1
+    assertPrint("arithmetic", `${vector}
+    v: Vector = None
+    v = Vector(1, 2) + Vector(3, 4) * 2
+    print(v.x)
+    print(v.y)`, [`7`, `10`]);
+
+    // 2
+    assertPrint("comparisons", `${vector}
+    print(Vector(1, 2) == Vector(1, 2))
+    print(Vector(1, 2) != Vector(1, 2))
+    print(Vector(1, 2) != Vector(2, 1))
+    print(Vector(1, 2) < Vector(2, 2))`, [`True`, `False`, `True`, `True`]);
+
+    // 3
+    assertPrint("str", `${vector}
+    print(Vector(1, 2))`, [`Vector`]);
+
+    // 4
+    assertPrint("repr", `
+    class A(object):
+      def __repr__(self: A) -> str:
+        return "A()"
+    print(A())`, [`A()`]);
+
+    // 5
+    assertPrint("container", `
+    class Pair(object):
+      a: int = 0
+      b: int = 0
+      def __len__(self: Pair) -> int:
+        return 2
+      def __getitem__(self: Pair, i: int) -> int:
+        if i == 0:
+          return self.a
+        return self.b
+      def __setitem__(self: Pair, i: int, v: int):
+        if i == 0:
+          self.a = v
+        else:
+          self.b = v
+      def __contains__(self: Pair, v: int) -> bool:
+        return self.a == v or self.b == v
+    p: Pair = None
+    p = Pair()
+    p[0] = 4
+    p[1] = 5
+    print(len(p))
+    print(p[0] + p[1])
+    print(5 in p)
+    print(6 in p)`, [`2`, `9`, `True`, `False`]);
+
+    // 6
+    assertPrint("inherited-and-overridden", `
+    class A(object):
+      n: int = 1
+      def __add__(self: A, k: int) -> int:
+        return self.n + k
+    class B(A):
+      def __add__(self: B, k: int) -> int:
+        return self.n - k
+    a: A = None
+    a = A()
+    print(a + 10)
+    a = B()
+    print(a + 10)`, [`11`, `-9`]);
+
+    // 7
+    assertPrint("in-still-works-on-lists", `
+    print(2 in [1, 2, 3])
+    print(4 in [1, 2, 3])`, [`True`, `False`]);
+
+    // 8
+    assertTC("result-type", `${vector}
+    Vector(1, 2) + Vector(3, 4)`, CLASS("Vector"));
+
+    // 9
+    assertTC("compare-type", `${vector}
+    Vector(1, 2) < Vector(3, 4)`, BOOL);
+
+    // 10
+    assertTC("len-type", `
+    class A(object):
+      def __len__(self: A) -> int:
+        return 0
+    len(A())`, NUM);
+
+    // 11
+    assertTCFail("operand-type", `${vector}
+    Vector(1, 2) + 1`);
+
+    // 12
+    assertTCFail("undefined-operator", `${vector}
+    Vector(1, 2) - Vector(3, 4)`);
+
+    // 13
+    assertTCFail("len-must-return-int", `
+    class A(object):
+      def __len__(self: A) -> bool:
+        return True
+    len(A())`);
+
+    // 14
+    assertOptimizeCorrect("operators-optimized", `${vector}
+    v: Vector = None
+    i: int = 0
+    v = Vector(0, 0)
+    while i < 5:
+      v = v + Vector(i, 1) * 2
+      i = i + 1
+    print(v.x)
+    print(v == Vector(20, 10))`);
+});
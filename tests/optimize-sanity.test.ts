@@ -8,7 +8,6 @@ class __range__(object):
     start: int = 0
     stop: int = 0
     step: int = 1
-    hasNext: bool = False
     currval: int = 0
     def __init__(self: __range__):
         pass
@@ -19,20 +18,16 @@ class __range__(object):
         self.currval = start
         return self
 
-    def next(self: __range__) -> int:
+    def __iter__(self: __range__) -> __range__:
+        return self
+
+    def __next__(self: __range__) -> int:
         prev: int = 0
         prev = self.currval
+        if((self.step>0 and prev>=self.stop) or (self.step<0 and prev<=self.stop)):
+            raise StopIteration()
         self.currval = prev+self.step
         return prev
-        
-    def hasnext(self: __range__) -> bool:
-        nextval: int = 0
-        nextval = self.currval
-        if((self.step>0 and nextval<self.stop) or (self.step<0 and nextval>self.stop)):
-            self.hasNext = True
-        else:
-            self.hasNext = False
-        return self.hasNext
 
 def range(start: int, stop: int, step: int) -> __range__:
     return __range__().new(start, stop, step)`
@@ -132,16 +127,16 @@ print(min(a - 1, 3) if a > 3 else max(a + 3, 4))`
   builtinClasses + `
 r:Range = None
 r = Range().new(0, 5, 1)
-r.next()
-print(r.next())`
+next(r)
+print(next(r))`
 ),
   // 10
   assertOptimizeCorrect("Optimization Sanity Check (Comprehension 5)",
   builtinClasses + `
 r:Range = None
 r = Range().new(5, 0, -2)
-r.next()
-print(r.next())`
+next(r)
+print(next(r))`
 ),
   // 11
   assertOptimizeCorrect("Optimization Sanity Check (Comprehension 6)",
@@ -422,7 +417,7 @@ print(a[4])`
 // 35
 assertOptimizeCorrect("Optimization Sanity Check (List 5)",
 `
-class Snake(obj):
+class Snake(object):
     num_teeth: int = 100
 
 snek1: Snake = None
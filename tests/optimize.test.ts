@@ -8,7 +8,6 @@ class __range__(object):
     start: int = 0
     stop: int = 0
     step: int = 1
-    hasNext: bool = False
     currval: int = 0
     def __init__(self: __range__):
         pass
@@ -19,20 +18,16 @@ class __range__(object):
         self.currval = start
         return self
 
-    def next(self: __range__) -> int:
+    def __iter__(self: __range__) -> __range__:
+        return self
+
+    def __next__(self: __range__) -> int:
         prev: int = 0
         prev = self.currval
+        if((self.step>0 and prev>=self.stop) or (self.step<0 and prev<=self.stop)):
+            raise StopIteration()
         self.currval = prev+self.step
         return prev
-        
-    def hasnext(self: __range__) -> bool:
-        nextval: int = 0
-        nextval = self.currval
-        if((self.step>0 and nextval<self.stop) or (self.step<0 and nextval>self.stop)):
-            self.hasNext = True
-        else:
-            self.hasNext = False
-        return self.hasNext
 
 def range(start: int, stop: int, step: int) -> __range__:
     return __range__().new(start, stop, step)`
@@ -196,7 +196,8 @@ C().new(None)`, CLASS("C"));
 class C(object):
   n : int = 0
   def __init__(self: C, n : int):
-    self.n = n`);
+    self.n = n
+C()`);
   
   assertTCFail("init-ret-type-1", `
 class C(object):
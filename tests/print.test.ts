@@ -0,0 +1,89 @@
+import { assertPrint, assertTC, assertTCFail, assertParserFail, assertOptimizeCorrect } from "./asserts.test";
+import { NONE } from "./helpers.test"
+
+describe("Print tests", () => {
+    // 1
+    assertPrint("multiple-arguments", `
+    print(1, True, None, "s")`, [`1 True None s`]);
+
+    // 2
+    assertPrint("sep-and-end", `
+    print(1, 2, 3, sep=", ", end="")
+    print("|", end="\\n")
+    print("a", "b", sep="")
+    print("x", sep=None, end=None)`, [`1, 2, 3|`, `ab`, `x`]);
+
+    // 3
+    assertPrint("empty-print", `
+    print("a")
+    print()
+    print("b")`, [`a`, ``, `b`]);
+
+    // 4
+    assertPrint("lists", `
+    a: [int] = None
+    b: [[str]] = None
+    a = [1, 2, 3]
+    b = [["a", "it's"], []]
+    print(a)
+    print(b)
+    print([])`, [`[1, 2, 3]`, `[['a', "it's"], []]`, `[]`]);
+
+    // 5
+    assertPrint("dicts-and-tuples", `
+    print({1: "a", 2: "b"})
+    print((1, "x", [True]))
+    print((1,))`, [`{1: 'a', 2: 'b'}`, `(1, 'x', [True])`, `(1,)`]);
+
+    // 6
+    assertPrint("big-ints-in-containers", `
+    print([100000000000000000000, -3])`, [`[100000000000000000000, -3]`]);
+
+    // 7
+    assertPrint("objects-with-repr", `
+    class A(object):
+      n: int = 0
+    class B(A):
+      def __repr__(self: B) -> str:
+        return "B()"
+    class C(B):
+      def __str__(self: C) -> str:
+        return "a C"
+    a: A = None
+    a = B()
+    print(a)
+    print([a, C()])
+    print(C())`, [`B()`, `[B(), B()]`, `a C`]);
+
+    // 8
+    assertPrint("none-in-containers", `
+    class A(object):
+      n: int = 0
+    a: [A] = None
+    a = [None]
+    print(a)`, [`[None]`]);
+
+    // 9
+    assertTC("print-type", `
+    print(1, sep="")`, NONE);
+
+    // 10
+    assertTCFail("unknown-keyword", `
+    print(1, file="")`);
+
+    // 11
+    assertTCFail("sep-must-be-str", `
+    print(1, sep=1)`);
+
+    // 12
+    assertParserFail("positional-after-keyword", `
+    print(sep="", 1)`);
+
+    // 13
+    assertOptimizeCorrect("print-optimized", `
+    i: int = 0
+    while i < 3:
+      print(i, [i, i * 2], end=" ")
+      i = i + 1
+    print()`);
+});
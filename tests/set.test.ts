@@ -6,13 +6,13 @@ describe("set-functionalities", () => {
     assertPrint("initialize-set", `
     set_1 : set[int] = None
     set_1 = {1,2}
-    print(set_1)`, ["1", "2"]);
+    print(set_1)`, ["{1, 2}"]);
 
     assertPrint("set-add", `
     set_1 : set[int] = None
     set_1 = {1,2}
     set_1.add(3)
-    print(set_1)`, ["1", "2", "3"]);
+    print(set_1)`, ["{1, 2, 3}"]);
 
     assertPrint("set-add-in", `
     set_1 : set[int] = None
@@ -30,13 +30,13 @@ describe("set-functionalities", () => {
     set_1 : set[int] = None
     set_1 = {1,2}
     set_1.add(1)
-    print(set_1)`, ["1", "2"]);
+    print(set_1)`, ["{1, 2}"]);
 
     assertPrint("set-remove", `
     set_1 : set[int] = None
     set_1 = {1,2}
     set_1.remove(1)
-    print(set_1)`, ["2"]);
+    print(set_1)`, ["{2}"]);
 
     assertPrint("set-remove-in", `
     set_1 : set[int] = None
@@ -47,7 +47,7 @@ describe("set-functionalities", () => {
     assertPrint("set-constructor", `
     set_1: set[int] = None
     set_1 = set({1, 2})
-    print(set_1)`, ["1", "2"])
+    print(set_1)`, ["{1, 2}"])
 
     assertPrint("set-update-len", `
     set_1: set[int] = None
@@ -59,13 +59,13 @@ describe("set-functionalities", () => {
     set_1: set[int] = None
     set_1 = set({1, 2})
     set_1.update({3, 4})
-    print(set_1)`, ["1", "2", "3", "4"])
+    print(set_1)`, ["{1, 2, 3, 4}"])
 
     assertPrint("set-update", `
     set_1: set[int] = None
     set_1 = set([1, 2, 2])
     set_1.update([4,3,4])
-    print(set_1)`, ["1", "2", "3", "4"])
+    print(set_1)`, ["{1, 2, 3, 4}"])
 
     assertPrint("set-firstItem", `
     set_1: set[int] = None
@@ -98,14 +98,14 @@ describe("set-functionalities", () => {
     set_1: set[int] = None
     set_1 = set([3,33,2,1, 22])
     print(set_1)
-    `, ["1", "2", "22", "3", "33"])
+    `, ["{1, 2, 22, 3, 33}"])
 
     assertPrint("set-multiple-items-remove", `
     set_1: set[int] = None
     set_1 = set([3,33,2,1])
     set_1.remove(33)
     print(set_1)
-    `, ["1", "2", "3"])
+    `, ["{1, 2, 3}"])
 
     assertPrint("set-hasnext-after-remove", `
     set_1: set[int] = None
@@ -149,4 +149,25 @@ describe("set-functionalities", () => {
     set_1.remove(3)
     print(set_1.next(1) )
     `, ["33"])
+
+    assertPrint("set-str-compared-by-content", `
+    set_1: set[str] = None
+    a: str = "a"
+    set_1 = {a + "b", "ab", "c"}
+    print(len(set_1))
+    print("ab" in set_1)
+    print("abc" in set_1)
+    `, ["2", "True", "False"])
+
+    assertPrint("set-str-add-remove", `
+    set_1: set[str] = None
+    a: str = "x"
+    set_1 = {a + "y"}
+    set_1.add("xy")
+    set_1.add("yx")
+    print(len(set_1))
+    set_1.remove("xy")
+    print(len(set_1))
+    print("yx" in set_1)
+    `, ["2", "1", "True"])
 });
@@ -0,0 +1,60 @@
+import { assertPrint, assertTC, assertOptimizeCorrect } from "./asserts.test";
+import { BOOL } from "./helpers.test"
+
+describe("Short-circuit tests", () => {
+    // 1
+    assertPrint("and-guards-none", `
+    class A(object):
+      f: int = 3
+    a: A = None
+    print((not (a is None)) and a.f > 0)
+    a = A()
+    print((not (a is None)) and a.f > 0)`, [`False`, `True`]);
+
+    // 2
+    assertPrint("or-skips-right", `
+    def t(x: int) -> bool:
+      print(x)
+      return x > 1
+    print(t(2) or t(3))
+    print(t(0) or t(1) or t(5))`, [`2`, `True`, `0`, `1`, `5`, `True`]);
+
+    // 3
+    assertPrint("and-skips-right", `
+    def t(x: int) -> bool:
+      print(x)
+      return x > 1
+    print(t(1) and t(2))
+    print(t(5) and t(3) and not t(0))`, [`1`, `False`, `5`, `3`, `0`, `True`]);
+
+    // 4
+    assertPrint("in-ternary-and-loop", `
+    def t(x: int) -> bool:
+      print(x)
+      return x > 1
+    i: int = 0
+    print(t(7) if t(0) or t(2) else t(1) and t(9))
+    while i < 10 and i * i < 10:
+      i = i + 1
+    print(i)`, [`0`, `2`, `7`, `True`, `4`]);
+
+    // 5
+    assertTC("bool-result", `
+    x: int = 1
+    x > 0 or x < 0`, BOOL);
+
+    // 6
+    assertOptimizeCorrect("short-circuit-optimized", `
+    def t(x: int) -> bool:
+      print(x)
+      return x > 1
+    a: bool = False
+    a = False and t(1)
+    print(a)
+    a = True or t(2)
+    print(a)
+    a = True and t(3)
+    print(a)
+    a = False or (t(4) and True)
+    print(a)`);
+});
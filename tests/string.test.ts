@@ -0,0 +1,87 @@
+import { assertPrint, assertFail, assertTCFail, assertTC } from "./asserts.test";
+import { NUM, BOOL, NONE, STR } from "./helpers.test"
+
+describe("String tests", () => {
+    // 1
+    assertTC("str-literal", `"abc"`, STR);
+
+    // 2
+    assertPrint("print-str", `print("hello")`, [`hello`]);
+
+    // 3
+    assertPrint("str-var-init", `
+    s: str = "world"
+    print(s)`, [`world`]);
+
+    // 4
+    assertPrint("str-concat", `
+    s: str = "ab"
+    t: str = "cd"
+    print(s + t)`, [`abcd`]);
+
+    // 5
+    assertPrint("str-index", `
+    s: str = "hello"
+    print(s[1])`, [`e`]);
+
+    // 6
+    assertPrint("str-len", `
+    s: str = "hello"
+    print(len(s))
+    print(len(""))`, [`5`, `0`]);
+
+    // 7
+    assertPrint("str-eq", `
+    s: str = "abc"
+    print(s == "abc")
+    print(s != "abc")
+    print(s == "abd")`, [`True`, `False`, `False`]);
+
+    // 8
+    assertPrint("str-escapes", `print("a\\tb")`, [`a\tb`]);
+
+    // 9
+    assertPrint("str-single-quotes", `print('it"s')`, [`it"s`]);
+
+    // 10
+    assertPrint("str-function", `
+    def greet(name: str) -> str:
+      greeting: str = "hi "
+      return greeting + name
+    print(greet("bob"))`, [`hi bob`]);
+
+    // 11
+    assertPrint("str-field", `
+    class C(object):
+      name: str = "c"
+    c: C = None
+    c = C()
+    print(c.name)
+    c.name = c.name + "!"
+    print(c.name)`, [`c`, `c!`]);
+
+    // 12
+    assertTC("len-list", `len([1, 2])`, NUM);
+
+    // 13
+    assertTC("str-index-type", `"abc"[0]`, STR);
+
+    // 14
+    assertTCFail("str-plus-int", `"a" + 1`);
+
+    // 15
+    assertTCFail("len-int", `len(1)`);
+
+    // 16
+    assertFail("str-out-of-bounds", `
+    s: str = "abc"
+    s[3]`);
+
+    // 17
+    assertTC("str-compare", `"a" == "b"`, BOOL);
+
+    // 18
+    assertTC("str-concat-assign-type", `
+    s: str = "x"
+    s = s + s`, NONE);
+});
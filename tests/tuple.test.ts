@@ -0,0 +1,92 @@
+import { assertPrint, assertFail, assertTCFail, assertTC } from "./asserts.test";
+import { NUM, BOOL, NONE, STR } from "./helpers.test"
+
+describe("Tuple tests", () => {
+    // 1
+    assertTC("tuple-literal", `(1, True)`, {tag: "tuple", contentTypes: [NUM, BOOL]});
+
+    // 2
+    assertPrint("tuple-index", `
+    t: tuple[int, bool] = None
+    t = (5, True)
+    print(t[0])
+    print(t[1])
+    print(t[-2])`, [`5`, `True`, `5`]);
+
+    // 3
+    assertPrint("tuple-pack", `
+    t: tuple[int, str, bool] = None
+    t = 1, "two", False
+    print(t[1])`, [`two`]);
+
+    // 4
+    assertPrint("tuple-unpack", `
+    t: tuple[int, bool] = None
+    x: int = 0
+    y: bool = False
+    t = (7, True)
+    x, y = t
+    print(x)
+    print(y)`, [`7`, `True`]);
+
+    // 5
+    assertPrint("tuple-return", `
+    def divmod(a: int, b: int) -> tuple[int, int]:
+      return a // b, a % b
+    q: int = 0
+    r: int = 0
+    q, r = divmod(17, 5)
+    print(q)
+    print(r)`, [`3`, `2`]);
+
+    // 6
+    assertPrint("tuple-unpack-ignore", `
+    x: int = 0
+    x, _ = (1, 2)
+    print(x)`, [`1`]);
+
+    // 7
+    assertPrint("tuple-nested", `
+    t: tuple[int, tuple[bool, int]] = None
+    t = (1, (False, 3))
+    print(t[1][1])`, [`3`]);
+
+    // 8
+    assertPrint("tuple-singleton", `
+    t: tuple[int] = None
+    t = (4,)
+    print(t[0])`, [`4`]);
+
+    // 9
+    assertTCFail("tuple-index-out-of-range", `(1, 2)[2]`);
+
+    // 10
+    assertTCFail("tuple-index-not-constant", `
+    i: int = 0
+    (1, 2)[i]`);
+
+    // 11
+    assertTCFail("tuple-unpack-length", `
+    x: int = 0
+    y: int = 0
+    z: int = 0
+    x, y, z = (1, 2)`);
+
+    // 12
+    assertTCFail("tuple-unpack-type", `
+    x: int = 0
+    y: int = 0
+    x, y = (1, True)`);
+
+    // 13
+    assertTCFail("tuple-item-assign", `
+    t: tuple[int, int] = None
+    t = (1, 2)
+    t[0] = 3`);
+
+    // 14
+    assertTC("tuple-assign-type", `
+    t: tuple[int, str] = None
+    t = (1, "a")
+    t[1]`, STR);
+});
@@ -1,7 +1,7 @@
 
 import { table } from 'console';
-import { Stmt, Expr, Type, UniOp, BinOp, Literal, Program, FunDef, VarInit, Class, SourceLocation, DestructureLHS } from './ast';
-import { NUM, BOOL, NONE, CLASS } from './utils';
+import { Stmt, Expr, Type, UniOp, BinOp, Literal, Program, FunDef, VarInit, Class, SourceLocation, DestructureLHS, AssignTarget, ExceptHandler, Parameter } from './ast';
+import { NUM, BOOL, STR, NONE, CLASS } from './utils';
 import { emptyEnv } from './compiler';
 import { TypeCheckError } from './error_reporting'
 import { BuiltinLib } from './builtinlib';
@@ -23,6 +23,7 @@ function generateCompvar(base : string) : string {
     return newName;
   }
 }
+var lambdaCount = 0;
 function retrieveCompvar(base : string) : string {
   const compbase = `compvar$${base}`;
   if (compvars.has(compbase)) {
@@ -32,19 +33,33 @@ function retrieveCompvar(base : string) : string {
   }
 }
 
+// Parameter types and return type, with the parameters themselves for functions
+// and methods defined in a program, whose names and defaults calls are matched against
+export type Signature = [Array<Type>, Type, Array<Parameter<any>>?];
+
 export type GlobalTypeEnv = {
   globals: Map<string, Type>,
-  functions: Map<string, [Array<Type>, Type]>,
-  classes: Map<string, [Map<string, Type>, Map<string, [Array<Type>, Type]>]>
+  functions: Map<string, Signature>,
+  classes: Map<string, [Map<string, Type>, Map<string, Signature>, string]>
 }
 
 export type LocalTypeEnv = {
   vars: Map<string, Type>,
+  functions: Map<string, Signature>, // nested functions defined in this scope
+  outer: LocalTypeEnv, // scope of the enclosing function, if this one is nested
+  lambdas: Array<FunDef<[Type, SourceLocation]>>, // lambdas in this scope, turned into nested functions
+  declared: Array<VarInit<[Type, SourceLocation]>>, // variables first bound by an `except ... as name`
+  globals: Set<string>, // globals a function declared `global`, the only ones it may assign to
+  narrowed: Map<string, Type>, // variables an isinstance check narrowed to a subclass in the branch being checked
+  shared: Set<string>, // variables this function or nested ones declare nonlocal, which a call may change
+  exceptDepth: number, // how many except clauses the current statement is in
   expectedRet: Type,
   actualRet: Type,
   topLevel: Boolean,
   loopCount: number,
-  currLoop: Array<number>
+  currLoop: Array<number>,
+  augCount: number, // augmented assignments so far, numbering the names they bind
+  bindCount: number // names comparison chains and in tests bound so far, numbering them
 }
 
 const defaultGlobalFunctions = new Map();
@@ -70,14 +85,41 @@ export function emptyGlobalTypeEnv() : GlobalTypeEnv {
 export function emptyLocalTypeEnv() : LocalTypeEnv {
   return {
     vars: new Map(),
+    functions: new Map(),
+    outer: undefined,
+    lambdas: [],
+    declared: [],
+    globals: new Set(),
+    narrowed: new Map(),
+    shared: new Set(),
+    exceptDepth: 0,
     expectedRet: NONE,
     actualRet: NONE,
     topLevel: true,
     loopCount: 0,
-    currLoop: []
+    currLoop: [],
+    augCount: 0,
+    bindCount: 0
   };
 }
 
+// Variables and nested functions of enclosing functions are visible in nested ones
+function lookupOuterVar(locals : LocalTypeEnv, name : string) : Type {
+  for (var scope = locals.outer; scope !== undefined; scope = scope.outer) {
+    if (scope.vars.has(name))
+      return scope.vars.get(name);
+  }
+  return undefined;
+}
+
+function lookupLocalFunction(locals : LocalTypeEnv, name : string) : Signature {
+  for (var scope = locals; scope !== undefined; scope = scope.outer) {
+    if (scope.functions.has(name))
+      return scope.functions.get(name);
+  }
+  return undefined;
+}
+
 /*export type TypeError = {
   message: string
 }*/
@@ -85,10 +127,15 @@ export function emptyLocalTypeEnv() : LocalTypeEnv {
 export function equalType(t1: Type, t2: Type): boolean {
   return (
     t1 === t2 ||
+    (t1.tag === "str" && t2.tag === "str") ||
     (t1.tag === "class" && t2.tag === "class" && t1.name === t2.name) ||
     (t1.tag === "set" && t2.tag == "set") ||
     (t1.tag === "list" && t2.tag === "list" && (equalType(t1.type, t2.type) || t1.type === NONE)) ||
-    (t1.tag === "generator" && t2.tag === "generator" && equalType(t1.type, t2.type))
+    (t1.tag === "dict" && t2.tag === "dict" && ((equalType(t1.key, t2.key) && equalType(t1.value, t2.value)) || t1.key === NONE)) ||
+    (t1.tag === "tuple" && t2.tag === "tuple" && t1.contentTypes.length === t2.contentTypes.length && t1.contentTypes.every((t, i) => equalType(t, t2.contentTypes[i]))) ||
+    (t1.tag === "generator" && t2.tag === "generator" && equalType(t1.type, t2.type)) ||
+    (t1.tag === "callable" && t2.tag === "callable" && t1.params.length === t2.params.length &&
+      t1.params.every((t, i) => equalType(t, t2.params[i])) && equalType(t1.ret, t2.ret))
   );
 }
 
@@ -96,15 +143,28 @@ export function isNoneOrClass(t: Type) : boolean {
   return t.tag === "none" || t.tag === "class" || t.tag === "generator";
 }
 
+// Walks up the superclass chain of sub looking for sup; every class extends object
+export function isSubclass(env: GlobalTypeEnv, sub: string, sup: string) : boolean {
+  while (sub !== sup) {
+    if (sub === "object" || !env.classes.has(sub))
+      return sup === "object";
+    sub = env.classes.get(sub)[2];
+  }
+  return true;
+}
+
 export function isSubtype(env: GlobalTypeEnv, t1: Type, t2: Type) : boolean {
   return (
     equalType(t1, t2) ||
+    (t1.tag === "class" && t2.tag === "class" && isSubclass(env, t1.name, t2.name)) ||
     (t1.tag === "none" && t2.tag === "class") ||
     (t1.tag === "none" && t2.tag === "list") ||
     (t1.tag === "none" && t2.tag === "set") ||
+    (t1.tag === "none" && t2.tag === "dict") ||
+    (t1.tag === "none" && t2.tag === "tuple") ||
+    (t1.tag === "none" && t2.tag === "callable") ||
+    (t1.tag === "tuple" && t2.tag === "tuple" && t1.contentTypes.length === t2.contentTypes.length && t1.contentTypes.every((t, i) => isSubtype(env, t, t2.contentTypes[i]))) ||
     (t1.tag === "none" && t2.tag === "generator") ||
-    // can assign generator created with comprehension to generator class object
-    (t1.tag === "generator" && t2.tag === "class" && t2.name === "generator") ||
     // for generator<A> and generator<B>, A needs to be subtype of B
     (t1.tag === "generator" && t2.tag === "generator" && isSubtype(env, t1.type, t2.type))
   );
@@ -114,26 +174,36 @@ export function isAssignable(env : GlobalTypeEnv, t1 : Type, t2 : Type) : boolea
   return isSubtype(env, t1, t2);
 }
 
+// The types a for loop can go through, see the for case in lower.ts
+const forIterables = new Set(["class", "generator", "list", "str", "dict", "set"]);
+
 export function isIterable(env: GlobalTypeEnv, t1: Type) : [Boolean, Type] {
   // check if t is an iterable type
   // if true, also return type of each item in the iterable
   switch (t1.tag) {
     case "either":
       return isIterable(env, t1.left) || isIterable(env, t1.right);
-    case "class":
-      // check if class has next and hasnext method
-      // need to talk to for-loop group
-      var classMethods = env.classes.get(t1.name)[1];
-      if(!(classMethods.has("next") && classMethods.has("hasnext"))) {
+    case "class": {
+      // objects follow the iterator protocol, see tcIter
+      const methods = env.classes.get(t1.name)[1];
+      if (!methods.has("__iter__"))
         return [false, undefined];
-      }
-      return [true, classMethods.get("next")[1]];
+      const iterTyp = methods.get("__iter__")[1];
+      if (iterTyp.tag === "generator")
+        return [true, iterTyp.type];
+      if (!hasDunder(env, iterTyp, "__next__") || iterTyp.tag !== "class")
+        return [false, undefined];
+      return [true, env.classes.get(iterTyp.name)[1].get("__next__")[1]];
+    }
     // assume more iterable types will be implemented by other groups
     case "generator":
     case "list":
       return [true, t1.type];
+    case "str":
+      return [true, STR];
     // case "tuple":
-    // case "dictionary":
+    case "dict":
+      return [true, t1.key];
     case "set":
       return [true, t1.valueType];
     // case "string": // string group makes string a literal rather than a type
@@ -158,15 +228,10 @@ export function join(env : GlobalTypeEnv, t1 : Type, t2 : Type) : Type {
   return NONE
 }
 
-export function isIterableObject(env : GlobalTypeEnv, t1 : Type) : boolean {
-  if(t1.tag !== "class")
-    return false;
-  var classMethods = env.classes.get(t1.name)[1];
-  if(!(classMethods.has("next") && classMethods.has("hasnext")))
-    return false;
-  if(equalType(classMethods.get("next")[1], NONE) || !equalType(classMethods.get("hasnext")[1], BOOL))
-    return false;
-  return true;
+function equalDefault(l1 : Literal<any>, l2 : Literal<any>) : boolean {
+  if (l1 === undefined || l2 === undefined)
+    return l1 === l2;
+  return l1.tag === l2.tag && (l1 as { value? : unknown }).value === (l2 as { value? : unknown }).value;
 }
 
 export function augmentTEnv(env : GlobalTypeEnv, program : Program<SourceLocation>) : GlobalTypeEnv {
@@ -174,13 +239,41 @@ export function augmentTEnv(env : GlobalTypeEnv, program : Program<SourceLocatio
   const newFuns = new Map(env.functions);
   const newClasses = new Map(env.classes);
   program.inits.forEach(init => newGlobs.set(init.name, init.type));
-  program.funs.forEach(fun => newFuns.set(fun.name, [fun.parameters.map(p => p.type), fun.ret]));
+  program.funs.forEach(fun => newFuns.set(fun.name, [fun.parameters.map(p => p.type), fun.ret, fun.parameters]));
   program.classes.forEach(cls => {
+    const superclass = cls.superclass || "object";
     const fields = new Map();
     const methods = new Map();
-    cls.fields.forEach(field => fields.set(field.name, field.type));
-    cls.methods.forEach(method => methods.set(method.name, [method.parameters.map(p => p.type), method.ret]));
-    newClasses.set(cls.name, [fields, methods]);
+    if (superclass !== "object") {
+      if (!newClasses.has(superclass))
+        throw new TypeCheckError(`Superclass \`${superclass}\` of \`${cls.name}\` is not defined`, cls.a);
+      const [superFields, superMethods] = newClasses.get(superclass);
+      superFields.forEach((typ, name) => fields.set(name, typ));
+      superMethods.forEach((sig, name) => methods.set(name, sig));
+    }
+    cls.fields.forEach(field => {
+      if (fields.has(field.name))
+        throw new TypeCheckError(`Cannot redefine inherited field \`${field.name}\` in class \`${cls.name}\``, field.a);
+      fields.set(field.name, field.type);
+    });
+    cls.methods.forEach(method => {
+      const sig : Signature = [method.parameters.map(p => p.type), method.ret, method.parameters];
+      // an override has to keep the signature apart from the type of self. Calls
+      // match keywords and fill in defaults with the method of the static type, so
+      // the names and defaults of the parameters have to stay the same as well.
+      if (methods.has(method.name) && method.name !== "__init__") {
+        const [superArgs, superRet, superParams] = methods.get(method.name);
+        if (superArgs.length !== sig[0].length ||
+          !sig[0].every((typ, i) => i === 0 || equalType(typ, superArgs[i])) ||
+          !equalType(sig[1], superRet))
+          throw new TypeCheckError(`Method \`${method.name}\` overridden with a different type signature in class \`${cls.name}\``, method.a);
+        if (superParams !== undefined && !method.parameters.every((p, i) => i === 0 ||
+          (p.name === superParams[i].name && equalDefault(p.value, superParams[i].value))))
+          throw new TypeCheckError(`Method \`${method.name}\` overridden with different parameter names or defaults in class \`${cls.name}\``, method.a);
+      }
+      methods.set(method.name, sig);
+    });
+    newClasses.set(cls.name, [fields, methods, superclass]);
   });
   return { globals: newGlobs, functions: newFuns, classes: newClasses };
 }
@@ -207,7 +300,7 @@ export function tc(env : GlobalTypeEnv, program : Program<SourceLocation>) : [Pr
   for (let name of locals.vars.keys()) {
     newEnv.globals.set(name, locals.vars.get(name));
   }
-  const aprogram: Program<[Type, SourceLocation]> = {a: [lastTyp, program.a], inits: tInits, funs: tDefs, classes: tClasses, stmts: tBody};
+  const aprogram: Program<[Type, SourceLocation]> = {a: [lastTyp, program.a], inits: [...tInits, ...locals.declared], funs: [...tDefs, ...locals.lambdas], classes: tClasses, stmts: tBody};
   return [aprogram, newEnv];
 }
 
@@ -220,34 +313,69 @@ export function tcInit(env: GlobalTypeEnv, init : VarInit<SourceLocation>) : Var
   }
 }
 
-export function tcDef(env : GlobalTypeEnv, fun : FunDef<SourceLocation>) : FunDef<[Type, SourceLocation]> {
+export function tcDef(env : GlobalTypeEnv, fun : FunDef<SourceLocation>, outer? : LocalTypeEnv) : FunDef<[Type, SourceLocation]> {
   var locals = emptyLocalTypeEnv();
   locals.expectedRet = fun.ret;
   locals.topLevel = false;
-  fun.parameters.forEach(p => locals.vars.set(p.name, p.type));
+  locals.outer = outer;
+  locals.shared = nonlocalNames(fun);
+  const tParams = fun.parameters.map(p => {
+    locals.vars.set(p.name, p.type);
+    if (p.value === undefined)
+      return { name: p.name, type: p.type };
+    const tDefault = tcLiteral(p.value);
+    if (!isAssignable(env, tDefault.a[0], p.type))
+      throw new TypeCheckError(`Default of parameter \`${p.name}\` must be of type \`${p.type.tag}\``, fun.a);
+    return { ...p, value: tDefault };
+  });
   var tcinits: VarInit<[Type, SourceLocation]>[] = [];
   fun.inits.forEach(init => {
     const tcinit = tcInit(env, init);
     tcinits.push(tcinit);
     locals.vars.set(init.name, tcinit.type);
   });
+  // nonlocal names are checked like locals, lowering turns them into shared cells
+  (fun.nonlocals || []).forEach(name => {
+    if (locals.vars.has(name))
+      throw new TypeCheckError(`\`${name}\` is already declared in this scope`, fun.a);
+    const outerTyp = lookupOuterVar(locals, name);
+    if (outerTyp === undefined)
+      throw new TypeCheckError(`no binding for nonlocal \`${name}\` found`, fun.a);
+    locals.vars.set(name, outerTyp);
+  });
+  (fun.globals || []).forEach(name => {
+    if (locals.vars.has(name))
+      throw new TypeCheckError(`\`${name}\` is already declared in this scope`, fun.a);
+    if (!env.globals.has(name))
+      throw new TypeCheckError(`no binding for global \`${name}\` found`, fun.a);
+    locals.globals.add(name);
+  });
+  // register every nested signature first so nested functions can call each other
+  const funs = fun.funs || [];
+  funs.forEach(f => locals.functions.set(f.name, [f.parameters.map(p => p.type), f.ret, f.parameters]));
+  const tFuns = funs.map(f => tcDef(env, f, locals));
 
   const tBody = tcBlock(env, locals, fun.body);
-  if (!isAssignable(env, locals.actualRet, locals.expectedRet))
+  // a generator function may end on any path, that only stops the iteration
+  if (locals.expectedRet.tag !== "generator" && !isAssignable(env, locals.actualRet, locals.expectedRet))
     throw new TypeCheckError(`expected return type of block: ${JSON.stringify(locals.expectedRet.tag)} does not match actual return type: ${JSON.stringify(locals.actualRet.tag)}`, fun.a);
-  return {...fun, a:[NONE, fun.a], body: tBody, inits: tcinits};
+  return {...fun, a:[NONE, fun.a], parameters: tParams, body: tBody, inits: [...tcinits, ...locals.declared], funs: [...tFuns, ...locals.lambdas]};
+}
+
+function nonlocalNames(fun : FunDef<SourceLocation>) : Set<string> {
+  return new Set([...(fun.nonlocals || []), ...(fun.funs || []).flatMap(f => [...nonlocalNames(f)])]);
 }
 
 export function tcClass(env: GlobalTypeEnv, cls : Class<SourceLocation>) : Class<[Type, SourceLocation]> {
   const tFields = cls.fields.map(field => tcInit(env, field));
   const tMethods = cls.methods.map(method => tcDef(env, method));
-  const init = cls.methods.find(method => method.name === "__init__") // we'll always find __init__
-  if (init.parameters.length !== 1 ||
+  const init = cls.methods.find(method => method.name === "__init__") // only missing when inherited
+  if (init !== undefined && (init.parameters.length < 1 ||
     init.parameters[0].name !== "self" ||
     !equalType(init.parameters[0].type, CLASS(cls.name)) ||
-    init.ret !== NONE)
+    init.ret !== NONE))
     throw new TypeCheckError("Cannot override __init__ type signature", cls.a);
-  return {a: [NONE, cls.a], name: cls.name, generics: cls.generics, fields: tFields, methods: tMethods};
+  return {a: [NONE, cls.a], name: cls.name, generics: cls.generics, superclass: cls.superclass, fields: tFields, methods: tMethods};
 }
 
 export function tcBlock(env : GlobalTypeEnv, locals : LocalTypeEnv, stmts : Array<Stmt<SourceLocation>>) : Array<Stmt<[Type, SourceLocation]>> {
@@ -258,15 +386,8 @@ export function tcBlock(env : GlobalTypeEnv, locals : LocalTypeEnv, stmts : Arra
 export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<SourceLocation>) : Stmt<[Type, SourceLocation]> {
   switch(stmt.tag) {
     case "assign":
-      const tValExpr = tcExpr(env, locals, stmt.value);
-      var nameTyp;
-      if (locals.vars.has(stmt.name)) {
-        nameTyp = locals.vars.get(stmt.name);
-      } else if (env.globals.has(stmt.name)) {
-        nameTyp = env.globals.get(stmt.name);
-      } else {
-        throw new TypeCheckError("Unbound id: " + stmt.name, stmt.a);
-      }
+      const nameTyp = tcAssignedName(env, locals, stmt.name, stmt.a);
+      const tValExpr = tcExpr(env, locals, stmt.value, nameTyp);
       console.log("nameTyp: ", nameTyp);
       console.log("left: ", tValExpr.a[0] );
       if(!isAssignable(env, tValExpr.a[0], nameTyp))
@@ -283,7 +404,12 @@ export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<S
       return {a: tExpr.a, tag: stmt.tag, expr: tExpr};
     case "if":
       var tCond = tcExpr(env, locals, stmt.cond);
+      const narrowing = isinstanceNarrowing(env, locals, tCond, stmt.thn);
+      const outerNarrowed = locals.narrowed;
+      if (narrowing !== undefined)
+        locals.narrowed = new Map([...outerNarrowed, narrowing]);
       const tThn = tcBlock(env, locals, stmt.thn);
+      locals.narrowed = outerNarrowed;
       const thnTyp = locals.actualRet;
       locals.actualRet = NONE;
       const tEls = tcBlock(env, locals, stmt.els);
@@ -296,11 +422,21 @@ export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<S
     case "return":
       if (locals.topLevel)
         throw new TypeCheckError("cannot return outside of functions", stmt.a);
-      const tRet = tcExpr(env, locals, stmt.value);
+      const tRet = tcExpr(env, locals, stmt.value, locals.expectedRet);
       if (!isAssignable(env, tRet.a[0], locals.expectedRet))
         throw new TypeCheckError("expected return type `" + (locals.expectedRet as any).tag + "`; got type `" + (tRet.a[0] as any).tag + "`", stmt.a);
       locals.actualRet = tRet.a[0];
       return {a: tRet.a, tag: stmt.tag, value:tRet};
+    case "yield":
+      if (locals.topLevel)
+        throw new TypeCheckError("'yield' outside function", stmt.a);
+      const yieldTyp = locals.expectedRet;
+      if (yieldTyp.tag !== "generator")
+        throw new TypeCheckError("a function with yield has to return a generator", stmt.a);
+      const tYielded = tcExpr(env, locals, stmt.value, yieldTyp.type);
+      if (!isAssignable(env, tYielded.a[0], yieldTyp.type))
+        throw new TypeCheckError("expected yield type `" + yieldTyp.type.tag + "`; got type `" + tYielded.a[0].tag + "`", stmt.a);
+      return {a: [NONE, stmt.a], tag: stmt.tag, value: tYielded};
     case "while":
       var tCond = tcExpr(env, locals, stmt.cond);
       locals.loopCount = locals.loopCount+1;
@@ -311,15 +447,25 @@ export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<S
         throw new TypeCheckError("Condition Expression Must be a bool", stmt.a);
       return {a: [NONE, stmt.a], tag:stmt.tag, cond: tCond, body: tBody};
     case "for":
+      // for i, x in unpacks every item, a tuple, into the names
+      const forTargets = stmt.vars.tag === "tuple" ? stmt.vars.elements : [stmt.vars];
+      forTargets.forEach(target => {
+        if (target.tag !== "id")
+          throw new TypeCheckError("for loops can only assign to names", stmt.a);
+        tcAssignedName(env, locals, target.name, stmt.a);
+      });
       var tVars = tcExpr(env, locals, stmt.vars);
       var tIterable = tcExpr(env, locals, stmt.iterable);
       locals.loopCount = locals.loopCount+1;
       locals.currLoop.push(locals.loopCount);
       var tForBody = tcBlock(env, locals, stmt.body);
       locals.currLoop.pop();
-      if(tIterable.a[0].tag !== "class" || !isIterableObject(env, tIterable.a[0]))
-        throw new TypeCheckError("Not an iterable: " + tIterable.a[0], stmt.a);
-      let tIterableRet = env.classes.get(tIterable.a[0].name)[1].get("next")[1];
+      // dicts go through their keys, see isIterable for the item types
+      const [iterable, tIterableRet] = isIterable(env, tIterable.a[0]);
+      if(!forIterables.has(tIterable.a[0].tag) || !iterable)
+        throw new TypeCheckError("Not an iterable: " + tIterable.a[0].tag, stmt.a);
+      if(tIterable.a[0].tag === "class")
+        tIterable = tcIter(env, stmt.a, tIterable);
       if(!equalType(tVars.a[0], tIterableRet))
         throw new TypeCheckError("Expected type `"+ tIterableRet.tag +"`, got type `" + tVars.a[0].tag + "`", stmt.a);
       if(stmt.elseBody !== undefined) {
@@ -337,9 +483,37 @@ export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<S
       return {a: [NONE, stmt.a], tag: stmt.tag, loopCounter: locals.currLoop[locals.currLoop.length-1]};
     case "pass":
       return {a: [NONE, stmt.a], tag: stmt.tag};
+    case "raise":
+      if (stmt.value === undefined) {
+        if (locals.exceptDepth === 0)
+          throw new TypeCheckError("a bare raise has to be inside an except clause", stmt.a);
+        locals.actualRet = locals.expectedRet;
+        return {a: [NONE, stmt.a], tag: stmt.tag};
+      }
+      // raising a class raises a new instance of it
+      var raised = stmt.value;
+      if (raised.tag === "id" && env.classes.has(raised.name) && !locals.vars.has(raised.name) && !env.globals.has(raised.name))
+        raised = { a: raised.a, tag: "call", name: raised.name, arguments: [] };
+      const tRaised = tcExpr(env, locals, raised);
+      if (!isExceptionType(env, tRaised.a[0]))
+        throw new TypeCheckError("exceptions must derive from BaseException", stmt.a);
+      locals.actualRet = locals.expectedRet; // raising ends the block like a return
+      return {a: [NONE, stmt.a], tag: stmt.tag, value: tRaised};
+    case "assert": {
+      const tTest = tcExpr(env, locals, stmt.test);
+      if (!equalType(tTest.a[0], BOOL))
+        throw new TypeCheckError("Condition Expression Must be a bool", stmt.a);
+      if (stmt.msg === undefined)
+        return {a: [NONE, stmt.a], tag: stmt.tag, test: tTest};
+      const tMsg = tcExpr(env, locals, stmt.msg);
+      if (!equalType(tMsg.a[0], STR))
+        throw new TypeCheckError("the message of an assert must be a str", stmt.a);
+      return {a: [NONE, stmt.a], tag: stmt.tag, test: tTest, msg: tMsg};
+    }
+    case "try":
+      return tcTry(env, locals, stmt);
     case "field-assign":
       var tObj = tcExpr(env, locals, stmt.obj);
-      var tVal = tcExpr(env, locals, stmt.value);
       if (tObj.a[0].tag !== "class")
         throw new TypeCheckError("field assignments require an object", stmt.a);
       if (!env.classes.has(tObj.a[0].name))
@@ -347,6 +521,7 @@ export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<S
       const [fields, _] = env.classes.get(tObj.a[0].name);
       if (!fields.has(stmt.field))
         throw new TypeCheckError(`could not find field ${stmt.field} in class ${tObj.a[0].name}`, stmt.a);
+      var tVal = tcExpr(env, locals, stmt.value, fields.get(stmt.field));
       if (!isAssignable(env, tVal.a[0], fields.get(stmt.field)))
         throw new TypeCheckError(`could not assign value of type: ${tVal.a[0]}; field ${stmt.field} expected type: ${fields.get(stmt.field)}`, stmt.a);
       return {...stmt, a: [NONE, stmt.a], obj: tObj, value: tVal};
@@ -354,10 +529,16 @@ export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<S
       var tObj = tcExpr(env, locals, stmt.obj);
       var tIndex = tcExpr(env, locals, stmt.index);
       var tVal = tcExpr(env, locals, stmt.value);
+      if (hasDunder(env, tObj.a[0], "__setitem__"))
+        return { a: [NONE, stmt.a], tag: "expr", expr: tcDunderCall(env, stmt.a, tObj, "__setitem__", [tIndex, tVal]) };
+      if (tObj.a[0].tag === "dict") {
+        if (!isAssignable(env, tIndex.a[0], tObj.a[0].key))
+          throw new TypeCheckError(`Dictionary key must be of type \`${tObj.a[0].key.tag}\`; got type \`${tIndex.a[0].tag}\``, stmt.a);
+        if (!isAssignable(env, tVal.a[0], tObj.a[0].value))
+          throw new TypeCheckError(`Could not assign value of type: ${tVal.a[0].tag}; Dictionary expected type: ${tObj.a[0].value.tag}`, stmt.a);
+        return { ...stmt, a: [NONE, stmt.a], obj: tObj, index: tIndex, value: tVal };
+      }
       if (tIndex.a[0].tag != "number") {
-        // if (tObj.a[0].tag === "dict") {
-        //   ...
-        // }
         throw new TypeCheckError(`Index is of non-integer type \`${tIndex.a[0].tag}\``, stmt.a);
       }
       if (tObj.a[0].tag === "list") {
@@ -367,9 +548,246 @@ export function tcStmt(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<S
         return { ...stmt, a: [NONE, stmt.a], obj: tObj, index: tIndex, value: tVal };
       }
       throw new TypeCheckError(`Type \`${tObj.a[0].tag}\` does not support item assignment`, stmt.a); // Can only index-assign lists and dicts
+    case "aug-assign":
+      return tcAugAssign(env, locals, stmt);
   }
 }
 
+// The in-place methods of the augmented assignments, else they apply the operator
+const augDunders = new Map<BinOp, string>([
+  [BinOp.Plus, "__iadd__"], [BinOp.Minus, "__isub__"], [BinOp.Mul, "__imul__"], [BinOp.IDiv, "__ifloordiv__"], [BinOp.Mod, "__imod__"], [BinOp.Pow, "__ipow__"]
+]);
+
+// target op= value reads the target, applies op or its in-place method and
+// writes the result back. The object and index of the target are bound to
+// names that both the read and the write go through.
+function tcAugAssign(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<SourceLocation>) : Stmt<[Type, SourceLocation]> {
+  if (stmt.tag !== "aug-assign") { throw new Error("Compiler's cursed, go home."); }
+  const target = stmt.target;
+  const bindings : Array<[string, Expr<[Type, SourceLocation]>]> = [];
+  locals.augCount += 1;
+  const augCount = locals.augCount;
+  const bind = (e : Expr<SourceLocation>, role : string) : Expr<[Type, SourceLocation]> => {
+    const tBound = tcExpr(env, locals, e);
+    const name = `aug$${role}${augCount}`;
+    bindings.push([name, tBound]);
+    return { a: tBound.a, tag: "id", name };
+  };
+  var tTarget : AssignTarget<[Type, SourceLocation]>;
+  var tRead : Expr<[Type, SourceLocation]>;
+  var targetTyp : Type; // undefined when __setitem__ checks the result
+  switch (target.tag) {
+    case "id":
+      tcAssignedName(env, locals, target.name, stmt.a);
+      tRead = tcExpr(env, locals, target);
+      targetTyp = tRead.a[0];
+      tTarget = { a: tRead.a, tag: "id", name: target.name };
+      break;
+    case "lookup": {
+      const tObj = bind(target.obj, "obj");
+      if (tObj.a[0].tag !== "class" || !env.classes.has(tObj.a[0].name))
+        throw new TypeCheckError("field assignments require an object", stmt.a);
+      const fields = env.classes.get(tObj.a[0].name)[0];
+      if (!fields.has(target.field))
+        throw new TypeCheckError(`could not find field ${target.field} in class ${tObj.a[0].name}`, stmt.a);
+      targetTyp = fields.get(target.field);
+      tTarget = { a: [targetTyp, target.a], tag: "lookup", obj: tObj, field: target.field };
+      tRead = tTarget;
+      break;
+    }
+    case "index": {
+      const tObj = bind(target.obj, "obj");
+      const tIndex = bind(target.index, "index");
+      const objTyp = tObj.a[0];
+      if (hasDunder(env, objTyp, "__getitem__") && hasDunder(env, objTyp, "__setitem__")) {
+        tRead = tcDunderCall(env, stmt.a, tObj, "__getitem__", [tIndex]);
+      } else if (objTyp.tag === "dict") {
+        if (!isAssignable(env, tIndex.a[0], objTyp.key))
+          throw new TypeCheckError(`Dictionary key must be of type \`${objTyp.key.tag}\`; got type \`${tIndex.a[0].tag}\``, stmt.a);
+        targetTyp = objTyp.value;
+      } else if (objTyp.tag === "list") {
+        if (!equalType(tIndex.a[0], NUM))
+          throw new TypeCheckError(`Index is of non-integer type \`${tIndex.a[0].tag}\``, stmt.a);
+        targetTyp = objTyp.type;
+      } else {
+        throw new TypeCheckError(`Type \`${objTyp.tag}\` does not support item assignment`, stmt.a);
+      }
+      tTarget = { a: [targetTyp || tRead.a[0], target.a], tag: "index", obj: tObj, index: tIndex };
+      tRead = tRead || tTarget;
+      break;
+    }
+  }
+  const tValue = tcExpr(env, locals, stmt.value);
+  const tResult = tcAugOp(env, stmt.a, stmt.op, tRead, tValue);
+  if (tTarget.tag === "index" && targetTyp === undefined)
+    tcDunderCall(env, stmt.a, tTarget.obj, "__setitem__", [tTarget.index, tResult]);
+  else if (!isAssignable(env, tResult.a[0], targetTyp))
+    throw new TypeCheckError("`" + tResult.a[0].tag + "` cannot be assigned to `" + targetTyp.tag + "` type", stmt.a);
+  return { a: [NONE, stmt.a], tag: "aug-assign", target: tTarget, op: stmt.op, value: tResult, bindings };
+}
+
+function tcAugOp(env : GlobalTypeEnv, a : SourceLocation, op : BinOp, tRead : Expr<[Type, SourceLocation]>, tValue : Expr<[Type, SourceLocation]>) : Expr<[Type, SourceLocation]> {
+  const readTyp = tRead.a[0];
+  if (hasDunder(env, readTyp, augDunders.get(op)))
+    return tcDunderCall(env, a, tRead, augDunders.get(op), [tValue]);
+  // lists are extended or repeated in place, and stay the same list
+  if (readTyp.tag === "list" && op === BinOp.Plus && tValue.a[0].tag === "list") {
+    if (!isAssignable(env, tValue.a[0], readTyp) && tValue.a[0].type !== NONE)
+      throw new TypeCheckError("Type mismatch for list concatenation", a);
+    return { a: [readTyp, a], tag: "method-call", obj: tRead, method: "extend", arguments: [tValue] };
+  }
+  if (readTyp.tag === "list" && op === BinOp.Mul && equalType(tValue.a[0], NUM))
+    return { a: [readTyp, a], tag: "method-call", obj: tRead, method: "repeatInPlace", arguments: [tValue] };
+  // sets have no operators, their methods take literals only
+  if (readTyp.tag === "set")
+    throw new TypeCheckError("Augmented assignment is not supported on sets, use their methods instead", a);
+  return tcBinop(env, a, op, tRead, tValue);
+}
+
+function isExceptionType(env : GlobalTypeEnv, t : Type) : boolean {
+  return t.tag === "class" && env.classes.has(t.name) && isSubclass(env, t.name, "BaseException");
+}
+
+// The return type of a try is worked out like the one of an if, with every
+// except clause as another branch. A finally that returns overrides them all.
+function tcTry(env : GlobalTypeEnv, locals : LocalTypeEnv, stmt : Stmt<SourceLocation>) : Stmt<[Type, SourceLocation]> {
+  if (stmt.tag !== "try") { throw new Error("Compiler's cursed, go home."); }
+  const tBody = tcBlock(env, locals, stmt.body);
+  const tElse = tcBlock(env, locals, stmt.elseBody);
+  var retTyp = locals.actualRet;
+  const tHandlers = stmt.handlers.map(handler => {
+    locals.actualRet = NONE;
+    const tHandler = tcExceptHandler(env, locals, handler);
+    if (locals.actualRet !== retTyp)
+      retTyp = { tag: "either", left: retTyp, right: locals.actualRet };
+    return tHandler;
+  });
+  locals.actualRet = NONE;
+  const tFinally = tcBlock(env, locals, stmt.finallyBody);
+  if (locals.actualRet === NONE)
+    locals.actualRet = retTyp;
+  return {a: [NONE, stmt.a], tag: stmt.tag, body: tBody, handlers: tHandlers, elseBody: tElse, finallyBody: tFinally};
+}
+
+// In the body of `if isinstance(x, C):`, a variable x whose type is a superclass
+// of C has type C, unless the body assigns to x
+function isinstanceNarrowing(env : GlobalTypeEnv, locals : LocalTypeEnv, tCond : Expr<[Type, SourceLocation]>, body : Array<Stmt<SourceLocation>>) : [string, Type] {
+  if (tCond.tag !== "call" || tCond.name !== "isinstance")
+    return undefined;
+  const [obj, cls] = tCond.arguments;
+  const [objTyp, clsTyp] = [obj.a[0], cls.a[0]];
+  if (obj.tag !== "id" || objTyp.tag !== "class" || clsTyp.tag !== "class" || objTyp.name === clsTyp.name ||
+    !isSubclass(env, clsTyp.name, objTyp.name) || !isNarrowable(locals, obj.name) || assignsTo(body, obj.name))
+    return undefined;
+  return [obj.name, clsTyp];
+}
+
+// Only the body itself can assign to a local no nested function shares. Any call
+// could assign to a global or a nonlocal, so those keep their declared type.
+function isNarrowable(locals : LocalTypeEnv, name : string) : boolean {
+  return !locals.topLevel && locals.vars.has(name) && !locals.shared.has(name);
+}
+
+// Whether the statements bind name, as a target of an assignment, a for loop
+// or an except clause
+function assignsTo(stmts : Array<Stmt<SourceLocation>>, name : string) : boolean {
+  return stmts.some(stmt => {
+    switch (stmt.tag) {
+      case "assign":
+        return stmt.name === name;
+      case "assign-destr":
+        return stmt.destr.some(destr => mentions(destr.lhs, name));
+      case "aug-assign":
+        return mentions(stmt.target, name);
+      case "if":
+        return assignsTo(stmt.thn, name) || assignsTo(stmt.els, name);
+      case "while":
+        return assignsTo(stmt.body, name);
+      case "for":
+        return mentions(stmt.vars, name) || assignsTo(stmt.body, name) || assignsTo(stmt.elseBody || [], name);
+      case "try":
+        return assignsTo(stmt.body, name) || assignsTo(stmt.elseBody, name) || assignsTo(stmt.finallyBody, name) ||
+          stmt.handlers.some(handler => handler.name === name || assignsTo(handler.body, name));
+      default:
+        return false;
+    }
+  });
+}
+
+// Whether an assignment target is name or a tuple unpacked into it
+function mentions(target : Expr<SourceLocation> | AssignTarget<SourceLocation>, name : string) : boolean {
+  switch (target.tag) {
+    case "id":
+      return target.name === name;
+    case "tuple":
+      return target.elements.some(element => mentions(element, name));
+    case "non-paren-vals":
+      return target.values.some(value => mentions(value, name));
+    default:
+      return false;
+  }
+}
+
+// The type of a name an assignment writes to. Inside a function that has to be
+// one of its locals, a nonlocal or a global it declared.
+function tcAssignedName(env : GlobalTypeEnv, locals : LocalTypeEnv, name : string, a : SourceLocation) : Type {
+  if (locals.vars.has(name))
+    return locals.vars.get(name);
+  if (locals.globals.has(name))
+    return env.globals.get(name);
+  if (!locals.topLevel && lookupOuterVar(locals, name) !== undefined)
+    throw new TypeCheckError(`cannot assign to \`${name}\` of an enclosing function without declaring it nonlocal`, a);
+  if (env.globals.has(name)) {
+    if (!locals.topLevel)
+      throw new TypeCheckError(`cannot assign to global \`${name}\` without declaring it global`, a);
+    return env.globals.get(name);
+  }
+  throw new TypeCheckError("Unbound id: " + name, a);
+}
+
+// The closest class all the given ones derive from
+function commonSuperclass(env : GlobalTypeEnv, names : Array<string>) : string {
+  var common = names[0];
+  while (!names.every(name => isSubclass(env, name, common)))
+    common = env.classes.get(common)[2];
+  return common;
+}
+
+function tcExceptHandler(env : GlobalTypeEnv, locals : LocalTypeEnv, handler : ExceptHandler<SourceLocation>) : ExceptHandler<[Type, SourceLocation]> {
+  handler.types.forEach(name => {
+    if (!isExceptionType(env, CLASS(name)))
+      throw new TypeCheckError(`\`${name}\` is not an exception class`, handler.a);
+  });
+  // the caught exception has the closest class all the listed ones derive from
+  const caughtTyp = handler.types.length === 0 ? "BaseException" : commonSuperclass(env, handler.types);
+  const outerNarrowed = locals.narrowed;
+  if (handler.name !== undefined) {
+    // without a declaration, a name of an enclosing scope is shadowed by a new local
+    const nameTyp = locals.vars.get(handler.name) ||
+      ((locals.topLevel || locals.globals.has(handler.name)) ? env.globals.get(handler.name) : undefined);
+    const bound = locals.declared.find(init => init.name === handler.name);
+    if (nameTyp === undefined) {
+      locals.vars.set(handler.name, CLASS(caughtTyp));
+      locals.declared.push({ a: [NONE, handler.a], name: handler.name, type: CLASS(caughtTyp), value: { a: [NONE, handler.a], tag: "none" } });
+    } else if (bound !== undefined && nameTyp.tag === "class") {
+      // a name only other except clauses bound takes the class of every one of
+      // them, and in each clause the class that clause catches, as in Python,
+      // when it is narrowable like after an isinstance check
+      bound.type = CLASS(commonSuperclass(env, [nameTyp.name, caughtTyp]));
+      locals.vars.set(handler.name, bound.type);
+      if (isNarrowable(locals, handler.name) && !assignsTo(handler.body, handler.name))
+        locals.narrowed = new Map([...outerNarrowed, [handler.name, CLASS(caughtTyp)]]);
+    } else if (!isAssignable(env, CLASS(caughtTyp), nameTyp)) {
+      throw new TypeCheckError(`\`${caughtTyp}\` cannot be assigned to \`${handler.name}\``, handler.a);
+    }
+  }
+  locals.exceptDepth += 1;
+  const tBody = tcBlock(env, locals, handler.body);
+  locals.exceptDepth -= 1;
+  locals.narrowed = outerNarrowed;
+  return {...handler, a: [NONE, handler.a], body: tBody};
+}
+
 export function tcDestructure(env : GlobalTypeEnv, locals : LocalTypeEnv, destr : DestructureLHS<SourceLocation>) : DestructureLHS<[Type, SourceLocation]> {
 
   // If it is an Ignore variable, do an early return as we don't need
@@ -378,6 +796,8 @@ export function tcDestructure(env : GlobalTypeEnv, locals : LocalTypeEnv, destr
     return {...destr, a:[NONE, destr.a], lhs : {...destr.lhs, a: [NONE, destr.lhs.a]}}
   }
 
+  if (destr.lhs.tag === "id")
+    tcAssignedName(env, locals, destr.lhs.name, destr.lhs.a);
   var tcAt = tcExpr(env, locals, destr.lhs)
   // Will never come here, handled in parser
   //@ts-ignore
@@ -398,14 +818,22 @@ function tcDestructureValues(tDestr: DestructureLHS<[Type, SourceLocation]>[], r
 
   switch(tRhs.tag) {
     case "non-paren-vals":
-      //TODO logic has to change - when all iterables are introduced
-      var isIterablePresent = false;
-      tRhs.values.forEach(r => {
-        //@ts-ignore
-        if(r.a[0].tag==="class" && r.a[0].name === "Range"){ //just supporting range now, extend it to all iterables
-          isIterablePresent = true;
-        }
-      })
+      // a, b = t unpacks the elements of a tuple value
+      if(tRhs.values.length === 1 && tRhs.values[0].a[0].tag === "tuple") {
+        const contentTypes = tRhs.values[0].a[0].contentTypes;
+        if(hasStarred)
+          throw new TypeCheckError("Cannot use a starred target when unpacking a tuple", stmtLoc);
+        if(tDestr.length !== contentTypes.length)
+          throw new TypeCheckError("length mismatch left and right hand side of assignment expression.", stmtLoc);
+        tDestr.forEach((r, i) => {
+          if(!r.isIgnore && !isAssignable(env, contentTypes[i], r.lhs.a[0]))
+            throw new TypeCheckError("Type Mismatch while destructuring assignment", r.lhs.a[1]);
+        });
+        return tRhs;
+      }
+      // iterable objects give values to all the targets left, through their iterator
+      const iterables = tRhs.values.map(r => r.a[0].tag === "class" && isIterable(env, r.a[0])[0]);
+      var isIterablePresent = iterables.some(iterable => iterable);
 
       //Code only when RHS is of type literals
       if(tDestr.length === tRhs.values.length ||
@@ -413,7 +841,7 @@ function tcDestructureValues(tDestr: DestructureLHS<[Type, SourceLocation]>[], r
         (hasStarred && tDestr.length-1 === tRhs.values.length) ||
         isIterablePresent){
           tcAssignTargets(env, locals, tDestr, tRhs.values, hasStarred)
-          return tRhs
+          return {...tRhs, values: tRhs.values.map((r, i) => iterables[i] ? tcIter(env, stmtLoc, r) : r)}
         }
       else throw new TypeCheckError("length mismatch left and right hand side of assignment expression.", stmtLoc)
     default:
@@ -433,13 +861,11 @@ function tcAssignTargets(env: GlobalTypeEnv, locals: LocalTypeEnv, tDestr: Destr
       lhs_index++
       rhs_index++
     } else {
-      //@ts-ignore
-      if(tRhs[rhs_index].a[0].tag==="class" && tRhs[rhs_index].a[0].name === "Range"){
-        //FUTURE: support range class added by iterators team, currently support range class added from code
-        var expectedRhsType:Type = env.classes.get('Range')[1].get('next')[1];
-        //checking type of lhs with type of return of range
+      const [iterable, itemTyp] = tRhs[rhs_index].a[0].tag === "class" ? isIterable(env, tRhs[rhs_index].a[0]) : [false, undefined];
+      if(iterable){
+        //checking type of lhs with type of the values of the iterable
         //Length mismatch from iterables will be RUNTIME ERRORS
-        if(!isAssignable(env, tDestr[lhs_index].lhs.a[0], expectedRhsType)) {
+        if(!isAssignable(env, itemTyp, tDestr[lhs_index].lhs.a[0])) {
           throw new TypeCheckError("Type Mismatch while destructuring assignment", tDestr[lhs_index].lhs.a[1])
         } else {
           lhs_index++
@@ -479,7 +905,263 @@ function tcAssignTargets(env: GlobalTypeEnv, locals: LocalTypeEnv, tDestr: Destr
   }
 }
 
-export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<SourceLocation>) : Expr<[Type, SourceLocation]> {
+// Iterating an object iterates what the __iter__ method of its class returns,
+// a generator or an iterator, an object whose class has a __next__ method that
+// raises StopIteration when there are no values left. Returns that call.
+function tcIter(env : GlobalTypeEnv, a : SourceLocation, tObj : Expr<[Type, SourceLocation]>) : Expr<[Type, SourceLocation]> {
+  const tIter = tcDunderCall(env, a, tObj, "__iter__", []);
+  const iterTyp = tIter.a[0];
+  if (iterTyp.tag !== "generator" && !hasDunder(env, iterTyp, "__next__"))
+    throw new TypeCheckError(`__iter__ returned a non-iterator of type \`${iterTyp.tag}\``, a);
+  return tIter;
+}
+
+// Builtins that iterate, min and max of two ints are the ones of BuiltinLib
+const iterationBuiltins = new Set(["enumerate", "zip", "sum", "min", "max", "sorted"]);
+
+// The builtins that iterate call the functions of the prelude behind them with
+// every iterable passed as a generator, see prelude.ts. Those are written for
+// any item type, so the type of a call comes from the item types here.
+function tcIterationCall(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<SourceLocation>) : Expr<[Type, SourceLocation]> {
+  if (expr.tag !== "call") { throw new Error("Compiler's cursed, go home."); }
+  const a = expr.a;
+  const args = expr.arguments;
+  const call = (typ : Type, tArgs : Array<Expr<[Type, SourceLocation]>>) : Expr<[Type, SourceLocation]> =>
+    ({ a: [typ, a], tag: "call", name: `__${expr.name}__`, arguments: tArgs });
+  const items = (arg : Expr<SourceLocation>) => generatorOf(env, a, tcExpr(env, locals, arg), expr.name);
+  const itemTyp = (tItems : Expr<[Type, SourceLocation]>) : Type => (tItems.a[0] as { tag: "generator", type: Type }).type;
+  const start = (arg? : Expr<SourceLocation>) : Expr<[Type, SourceLocation]> => {
+    if (arg === undefined)
+      return { a: [NUM, a], tag: "literal", value: { a: [NUM, a], tag: "num", value: BigInt(0) } };
+    const tStart = tcExpr(env, locals, arg);
+    if (!equalType(tStart.a[0], NUM))
+      throw new TypeCheckError(`${expr.name} expected an int to start from, got \`${tStart.a[0].tag}\``, a);
+    return tStart;
+  };
+  switch (expr.name) {
+    case "enumerate": {
+      if (args.length < 1 || args.length > 2)
+        throw new TypeCheckError("enumerate takes 1 or 2 arguments", a);
+      const tItems = items(args[0]);
+      return call({ tag: "generator", type: { tag: "tuple", contentTypes: [NUM, itemTyp(tItems)] } }, [tItems, start(args[1])]);
+    }
+    case "zip": {
+      if (args.length < 2)
+        throw new TypeCheckError("zip takes at least 2 arguments", a);
+      // zips of more iterables zip the tuples of the first ones with the next and flatten them again
+      var tZip = items(args[0]);
+      args.slice(1).forEach((arg, k) => {
+        const tItems = items(arg);
+        const zippedTyp = itemTyp(tZip);
+        const pairTyp : Type = { tag: "tuple", contentTypes: [zippedTyp, itemTyp(tItems)] };
+        tZip = call({ tag: "generator", type: pairTyp }, [tZip, tItems]);
+        if (k === 0 || zippedTyp.tag !== "tuple")
+          return;
+        const zipped = generateCompvar("zipped");
+        const item = generateCompvar("item");
+        const zippedId : Expr<[Type, SourceLocation]> = { a: [zippedTyp, a], tag: "id", name: zipped };
+        const elements = zippedTyp.contentTypes.map((typ, i) : Expr<[Type, SourceLocation]> =>
+          ({ a: [typ, a], tag: "index", obj: zippedId, index: { a: [NUM, a], tag: "literal", value: { a: [NUM, a], tag: "num", value: BigInt(i) } } }));
+        const tupleTyp : Type = { tag: "tuple", contentTypes: [...zippedTyp.contentTypes, itemTyp(tItems)] };
+        const lhs : Expr<[Type, SourceLocation]> = { a: [tupleTyp, a], tag: "tuple", elements: [...elements, { a: [itemTyp(tItems), a], tag: "id", name: item }] };
+        tZip = { a: [{ tag: "generator", type: tupleTyp }, a], tag: "comprehension", type: { tag: "generator", type: tupleTyp }, lhs,
+          fors: [{ a: [pairTyp, a], items: [zipped, item], iterable: tZip, ifconds: [] }] };
+      });
+      return tZip;
+    }
+    case "sum": {
+      if (args.length < 1 || args.length > 2)
+        throw new TypeCheckError("sum takes 1 or 2 arguments", a);
+      const tItems = items(args[0]);
+      // the items of an empty list literal are None
+      if (!equalType(itemTyp(tItems), NUM) && !equalType(itemTyp(tItems), NONE))
+        throw new TypeCheckError(`sum can only add ints, not \`${itemTyp(tItems).tag}\``, a);
+      return call(NUM, [tItems, start(args[1])]);
+    }
+    default: {
+      // min and max also take the values to compare as arguments
+      if (args.length === 0 || (expr.name === "sorted" && args.length > 1))
+        throw new TypeCheckError(`${expr.name} takes ${expr.name === "sorted" ? "exactly" : "at least"} 1 argument`, a);
+      var tItems : Expr<[Type, SourceLocation]>;
+      if (args.length === 1) {
+        tItems = items(args[0]);
+      } else {
+        const tValues = tcExpr(env, locals, { a, tag: "listliteral", elements: args });
+        if (tValues.tag === "listliteral" && args.length === 2 && equalType(itemTyp(generatorOf(env, a, tValues, expr.name)), NUM))
+          return { a: [NUM, a], tag: "call", name: expr.name, arguments: tValues.elements };
+        tItems = generatorOf(env, a, tValues, expr.name);
+      }
+      // items are ordered by how < compares them
+      const typ = itemTyp(tItems);
+      const lt = tcExpr(env, locals, { a, tag: "lambda", params: ["left", "right"],
+        body: { a, tag: "binop", op: BinOp.Lt, left: { a, tag: "id", name: "left" }, right: { a, tag: "id", name: "right" } } },
+        { tag: "callable", params: [typ, typ], ret: BOOL });
+      return call(expr.name === "sorted" ? { tag: "list", type: typ } : typ, [tItems, lt]);
+    }
+  }
+}
+
+// An iterable as a generator of its items, everything else becomes a
+// generator expression that iterates it
+function generatorOf(env : GlobalTypeEnv, a : SourceLocation, tIterable : Expr<[Type, SourceLocation]>, name : string) : Expr<[Type, SourceLocation]> {
+  const iterTyp = tIterable.a[0];
+  const [iterable, itemTyp] = isIterable(env, iterTyp);
+  if (!iterable)
+    throw new TypeCheckError(`${name} expected an iterable, got \`${iterTyp.tag}\``, a);
+  if (iterTyp.tag === "generator")
+    return tIterable;
+  const item = generateCompvar("item");
+  const genTyp : Type = { tag: "generator", type: itemTyp };
+  return { a: [genTyp, a], tag: "comprehension", type: genTyp, lhs: { a: [itemTyp, a], tag: "id", name: item },
+    fors: [{ a: [itemTyp, a], items: [item], iterable: iterTyp.tag === "class" ? tcIter(env, a, tIterable) : tIterable, ifconds: [] }] };
+}
+
+// The special methods a class can define to overload the binary operators
+const binopDunders = new Map<BinOp, string>([
+  [BinOp.Plus, "__add__"], [BinOp.Minus, "__sub__"], [BinOp.Mul, "__mul__"], [BinOp.IDiv, "__floordiv__"], [BinOp.Mod, "__mod__"], [BinOp.Pow, "__pow__"],
+  [BinOp.Eq, "__eq__"], [BinOp.Neq, "__ne__"], [BinOp.Lt, "__lt__"], [BinOp.Lte, "__le__"], [BinOp.Gt, "__gt__"], [BinOp.Gte, "__ge__"]
+]);
+
+function hasDunder(env : GlobalTypeEnv, t : Type, method : string) : boolean {
+  return t.tag === "class" && env.classes.has(t.name) && env.classes.get(t.name)[1].has(method);
+}
+
+// Operators and builtins applied to an object become a call of the special
+// method its class defines for them, with already checked operands
+function tcDunderCall(env : GlobalTypeEnv, a : SourceLocation, tObj : Expr<[Type, SourceLocation]>, method : string, tArgs : Array<Expr<[Type, SourceLocation]>>) : Expr<[Type, SourceLocation]> {
+  const objTyp = tObj.a[0];
+  if (objTyp.tag !== "class")
+    throw new TypeCheckError(`${method} called on a non-object`, a);
+  const [methodArgs, methodRet] = env.classes.get(objTyp.name)[1].get(method);
+  const realArgs = [tObj].concat(tArgs);
+  if (methodArgs.length !== realArgs.length || !methodArgs.every((argTyp, i) => isAssignable(env, realArgs[i].a[0], argTyp)))
+    throw new TypeCheckError(`Method call type mismatch: ${method} --- callArgs: ${JSON.stringify(realArgs.map(arg => arg.a[0]))}, methodArgs: ${JSON.stringify(methodArgs)}`, a);
+  return { a: [methodRet, a], tag: "method-call", obj: tObj, method, arguments: tArgs };
+}
+
+// Puts keyword arguments in the place of their parameters and fills in the
+// defaults of the parameters left out, so that every argument is positional.
+// Without params, as for builtins and function values, there are no keywords.
+// Also returns the order the arguments were written in, which is the order
+// they are evaluated in, or undefined when that is the order of the params.
+function matchArguments(name : string, a : SourceLocation, args : Array<Expr<SourceLocation>>, keywords : Array<[string, Expr<SourceLocation>]>, params : Array<Parameter<any>>) : [Array<Expr<SourceLocation>>, Array<number>] {
+  if (params === undefined) {
+    if (keywords.length > 0)
+      throw new TypeCheckError(`${name} got an unexpected keyword argument \`${keywords[0][0]}\``, keywords[0][1].a);
+    return [args, undefined];
+  }
+  // too many arguments are left to the check of the argument count
+  if (args.length > params.length)
+    return [args, undefined];
+  const matched : Array<Expr<SourceLocation>> = [...args];
+  const written : Array<number> = args.map((_, i) => i);
+  keywords.forEach(([keyword, value]) => {
+    const i = params.findIndex(p => p.name === keyword);
+    if (i < 0)
+      throw new TypeCheckError(`${name} got an unexpected keyword argument \`${keyword}\``, value.a);
+    if (matched[i] !== undefined)
+      throw new TypeCheckError(`${name} got multiple values for argument \`${keyword}\``, value.a);
+    matched[i] = value;
+    written.push(i);
+  });
+  const allArgs = params.map((p, i) : Expr<SourceLocation> => {
+    if (matched[i] !== undefined)
+      return matched[i];
+    if (p.value === undefined)
+      throw new TypeCheckError(`${name} missing required argument \`${p.name}\``, a);
+    written.push(i); // defaults are literals, evaluated last
+    return { a, tag: "literal", value: { ...p.value, a } };
+  });
+  return [allArgs, written.every((k, i) => k === i) ? undefined : written];
+}
+
+// A binary operation on operands that are already checked
+function tcBinop(env : GlobalTypeEnv, a : SourceLocation, op : BinOp, tLeft : Expr<[Type, SourceLocation]>, tRight : Expr<[Type, SourceLocation]>) : Expr<[Type, SourceLocation]> {
+  const tBin : Expr<[Type, SourceLocation]> = { tag: "binop", op, left: tLeft, right: tRight };
+  if (binopDunders.has(op) && hasDunder(env, tLeft.a[0], binopDunders.get(op)))
+    return tcDunderCall(env, a, tLeft, binopDunders.get(op), [tRight]);
+  if (op === BinOp.Neq && hasDunder(env, tLeft.a[0], "__eq__")) {
+    // without a __ne__, != is the negation of __eq__
+    const tEq = tcDunderCall(env, a, tLeft, "__eq__", [tRight]);
+    if (!equalType(tEq.a[0], BOOL))
+      throw new TypeCheckError("__eq__ must return a bool to be negated for !=", a);
+    return { a: tEq.a, tag: "uniop", op: UniOp.Not, expr: tEq };
+  }
+  switch(op) {
+    case BinOp.Plus:
+      if(equalType(tLeft.a[0], STR) && equalType(tRight.a[0], STR)) { return {...tBin, a: [STR, a]}}
+      if(tLeft.a[0].tag === "list" && tRight.a[0].tag === "list") {
+        // the empty list takes the type of the other side
+        if(isAssignable(env, tRight.a[0], tLeft.a[0]) && tLeft.a[0].type !== NONE) { return {...tBin, a: [tLeft.a[0], a]} }
+        if(isAssignable(env, tLeft.a[0], tRight.a[0])) { return {...tBin, a: [tRight.a[0], a]} }
+        throw new TypeCheckError("Type mismatch for list concatenation", a);
+      }
+    case BinOp.Minus:
+    case BinOp.Mul:
+      if(op === BinOp.Mul && tLeft.a[0].tag === "list" && equalType(tRight.a[0], NUM)) { return {...tBin, a: [tLeft.a[0], a]}}
+      if(op === BinOp.Mul && equalType(tLeft.a[0], NUM) && tRight.a[0].tag === "list") { return {...tBin, a: [tRight.a[0], a]}}
+    case BinOp.IDiv:
+    case BinOp.Mod:
+    case BinOp.Pow:
+      if(equalType(tLeft.a[0], NUM) && equalType(tRight.a[0], NUM)) { return {...tBin, a: [NUM, a]}}
+      else { throw new TypeCheckError("Type mismatch for numeric op" + op, a); }
+    case BinOp.Eq:
+    case BinOp.Neq:
+      if(tLeft.a[0].tag === "class" || tRight.a[0].tag === "class") throw new TypeCheckError("cannot apply operator '==' on class types", a)
+      if(equalType(tLeft.a[0], tRight.a[0])) { return {...tBin, a: [BOOL, a]} ; }
+      else { throw new TypeCheckError("Type mismatch for op" + op, a);}
+    case BinOp.Lte:
+    case BinOp.Gte:
+    case BinOp.Lt:
+    case BinOp.Gt:
+      if(equalType(tLeft.a[0], NUM) && equalType(tRight.a[0], NUM)) { return {...tBin, a: [BOOL, a]} ; }
+      else { throw new TypeCheckError("Type mismatch for op" + op, a); }
+    case BinOp.And:
+    case BinOp.Or:
+      if(equalType(tLeft.a[0], BOOL) && equalType(tRight.a[0], BOOL)) { return {...tBin, a: [BOOL, a]} ; }
+      else { throw new TypeCheckError("Type mismatch for boolean op" + op, a); }
+    case BinOp.Is:
+      if(!isNoneOrClass(tLeft.a[0]) || !isNoneOrClass(tRight.a[0]))
+        throw new TypeCheckError("is operands must be objects", a);
+      return {...tBin, a: [BOOL, a]};
+  }
+}
+
+// `x in c` asks c, so it is c.__contains__(x) on objects and the contains of lists, sets and dicts otherwise
+function tcContains(env : GlobalTypeEnv, locals : LocalTypeEnv, a : SourceLocation, item : Expr<SourceLocation>, container : Expr<SourceLocation>) : Expr<[Type, SourceLocation]> {
+  const tContainer = tcExpr(env, locals, container);
+  if (hasDunder(env, tContainer.a[0], "__contains__"))
+    return tcDunderCall(env, a, tContainer, "__contains__", [tcExpr(env, locals, item)]);
+  return tcExpr(env, locals, { a, tag: "method-call", obj: container, method: "contains", arguments: [item] });
+}
+
+// a < b <= c is a < b and b <= c, only evaluating b once and c only if a < b
+function tcComparison(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<SourceLocation>) : Expr<[Type, SourceLocation]> {
+  if (expr.tag !== "comparison")
+    throw new TypeCheckError("expected a comparison chain", expr.a);
+  const names : Array<string> = [];
+  var left = expr.left;
+  var chain : Expr<SourceLocation> = undefined;
+  expr.ops.forEach((op, i) => {
+    var right = expr.comparators[i];
+    if (i < expr.ops.length - 1) {
+      locals.bindCount += 1;
+      const name = `compare$${locals.bindCount}`;
+      names.push(name);
+      right = { a: right.a, tag: "bind", name, value: right };
+    }
+    const link : Expr<SourceLocation> = { a: expr.a, tag: "binop", op, left, right };
+    chain = chain === undefined ? link : { a: expr.a, tag: "binop", op: BinOp.And, left: chain, right: link };
+    if (right.tag === "bind")
+      left = { a: right.a, tag: "id", name: right.name };
+  });
+  const tChain = tcExpr(env, locals, chain);
+  names.forEach(name => locals.vars.delete(name));
+  return tChain;
+}
+
+// expected is the type the context needs, only lambdas make use of it to type their parameters
+export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<SourceLocation>, expected? : Type) : Expr<[Type, SourceLocation]> {
   switch(expr.tag) {
     case "set":
       let tc_val = expr.values.map((e) => tcExpr(env, locals, e));
@@ -499,37 +1181,32 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
       const tcVal : Literal<[Type, SourceLocation]> = tcLiteral(expr.value)
       return {...expr, a: [tcVal.a[0], expr.a], value: tcVal};
     case "binop":
-      const tLeft = tcExpr(env, locals, expr.left);
-      const tRight = tcExpr(env, locals, expr.right);
-      const tBin = {...expr, left: tLeft, right: tRight};
-      switch(expr.op) {
-        case BinOp.Plus:
-        case BinOp.Minus:
-        case BinOp.Mul:
-        case BinOp.IDiv:
-        case BinOp.Mod:
-          if(equalType(tLeft.a[0], NUM) && equalType(tRight.a[0], NUM)) { return {...tBin, a: [NUM, expr.a]}}
-          else { throw new TypeCheckError("Type mismatch for numeric op" + expr.op, expr.a); }
-        case BinOp.Eq:
-        case BinOp.Neq:
-          if(tLeft.a[0].tag === "class" || tRight.a[0].tag === "class") throw new TypeCheckError("cannot apply operator '==' on class types", expr.a)
-          if(equalType(tLeft.a[0], tRight.a[0])) { return {...tBin, a: [BOOL, expr.a]} ; }
-          else { throw new TypeCheckError("Type mismatch for op" + expr.op, expr.a);}
-        case BinOp.Lte:
-        case BinOp.Gte:
-        case BinOp.Lt:
-        case BinOp.Gt:
-          if(equalType(tLeft.a[0], NUM) && equalType(tRight.a[0], NUM)) { return {...tBin, a: [BOOL, expr.a]} ; }
-          else { throw new TypeCheckError("Type mismatch for op" + expr.op, expr.a); }
-        case BinOp.And:
-        case BinOp.Or:
-          if(equalType(tLeft.a[0], BOOL) && equalType(tRight.a[0], BOOL)) { return {...tBin, a: [BOOL, expr.a]} ; }
-          else { throw new TypeCheckError("Type mismatch for boolean op" + expr.op, expr.a); }
-        case BinOp.Is:
-          if(!isNoneOrClass(tLeft.a[0]) || !isNoneOrClass(tRight.a[0]))
-            throw new TypeCheckError("is operands must be objects", expr.a);
-          return {...tBin, a: [BOOL, expr.a]};
+      if (expr.op === BinOp.In) {
+        if (expr.left.tag === "literal")
+          return tcContains(env, locals, expr.a, expr.left, expr.right);
+        // x is evaluated before c, so it is bound to a name first, which the call
+        // reads. The In binop of the two evaluates them in that order, see lower.ts
+        locals.bindCount += 1;
+        const name = `in$${locals.bindCount}`;
+        const tBind = tcExpr(env, locals, { a: expr.left.a, tag: "bind", name, value: expr.left });
+        const tContains = tcContains(env, locals, expr.a, { a: expr.left.a, tag: "id", name }, expr.right);
+        locals.vars.delete(name);
+        return { a: tContains.a, tag: "binop", op: BinOp.In, left: tBind, right: tContains };
       }
+      if (expr.op === BinOp.NotIn || expr.op === BinOp.IsNot) {
+        const tPositive = tcExpr(env, locals, { ...expr, op: expr.op === BinOp.NotIn ? BinOp.In : BinOp.Is });
+        if (!equalType(tPositive.a[0], BOOL))
+          throw new TypeCheckError("__contains__ must return a bool to be negated for not in", expr.a);
+        return { a: tPositive.a, tag: "uniop", op: UniOp.Not, expr: tPositive };
+      }
+      return tcBinop(env, expr.a, expr.op, tcExpr(env, locals, expr.left), tcExpr(env, locals, expr.right));
+    case "comparison":
+      return tcComparison(env, locals, expr);
+    case "bind":
+      // a local for the rest of the chain or in test, which drops it when checked
+      const tBound = tcExpr(env, locals, expr.value);
+      locals.vars.set(expr.name, tBound.a[0]);
+      return { ...expr, a: tBound.a, value: tBound };
     case "uniop":
       const tExpr = tcExpr(env, locals, expr.expr);
       const tUni = {...expr, a: tExpr.a, expr: tExpr}
@@ -547,10 +1224,19 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
       if (env.globals.has(compvarName)) {
         return {...expr, a: [env.globals.get(compvarName), expr.a], name: compvarName};
       }
-      if (locals.vars.has(expr.name)) {
+      if (locals.narrowed.has(expr.name)) {
+        return {...expr, a: [locals.narrowed.get(expr.name), expr.a]};
+      } else if (locals.vars.has(expr.name)) {
         return {...expr, a: [locals.vars.get(expr.name), expr.a]};
+      } else if (locals.globals.has(expr.name)) {
+        return {...expr, a: [env.globals.get(expr.name), expr.a]};
+      } else if (lookupOuterVar(locals, expr.name) !== undefined) {
+        return {...expr, a: [lookupOuterVar(locals, expr.name), expr.a]};
       } else if (env.globals.has(expr.name)) {
         return {...expr, a: [env.globals.get(expr.name), expr.a]};
+      } else if (expr.name !== "print" && (lookupLocalFunction(locals, expr.name) !== undefined || env.functions.has(expr.name))) {
+        const [params, ret] = lookupLocalFunction(locals, expr.name) || env.functions.get(expr.name);
+        return { a: [{ tag: "callable", params, ret }, expr.a], tag: "func-ref", name: expr.name };
       } else {
         throw new TypeCheckError("Unbound id: " + expr.name, expr.a);
       }
@@ -585,57 +1271,159 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
     case "index":
       var tObj: Expr<[Type, SourceLocation]> = tcExpr(env, locals, expr.obj);
       var tIndex: Expr<[Type, SourceLocation]> = tcExpr(env, locals, expr.index);
+      if (hasDunder(env, tObj.a[0], "__getitem__"))
+        return tcDunderCall(env, expr.a, tObj, "__getitem__", [tIndex]);
+      if (tObj.a[0].tag === "dict") {
+        if (!isAssignable(env, tIndex.a[0], tObj.a[0].key))
+          throw new TypeCheckError(`Dictionary key must be of type \`${tObj.a[0].key.tag}\`; got type \`${tIndex.a[0].tag}\``, expr.a);
+        return { ...expr, a: [tObj.a[0].value, expr.a], obj: tObj, index: tIndex };
+      }
       if (tIndex.a[0].tag !== "number") {
-        // if (tObj.a[0].tag === "dict") {
-        //   ...
-        // }
         throw new TypeCheckError(`Index is of non-integer type \`${tIndex.a[0].tag}\``, expr.a);
       }
-      // if (equalType(tObj.a[0], CLASS("str"))) {
-      //   return { a: [{ tag: "class", name: "str" }, expr.a], tag: "index", obj: tObj, index: tIndex };
-      // }
+      if (tObj.a[0].tag === "tuple") {
+        // tuples are heterogeneous, so the index has to be known to find the element type
+        const contentTypes = tObj.a[0].contentTypes;
+        var tupleIndex = constantIndex(expr.index);
+        if (tupleIndex === undefined)
+          throw new TypeCheckError("Tuple index must be an integer constant", expr.a);
+        if (tupleIndex < 0)
+          tupleIndex += contentTypes.length;
+        if (tupleIndex < 0 || tupleIndex >= contentTypes.length)
+          throw new TypeCheckError("Tuple index out of range", expr.a);
+        const tConstIndex : Expr<[Type, SourceLocation]> = { a: tIndex.a, tag: "literal", value: { a: tIndex.a, tag: "num", value: BigInt(tupleIndex) } };
+        return { ...expr, a: [contentTypes[tupleIndex], expr.a], obj: tObj, index: tConstIndex };
+      }
+      if (equalType(tObj.a[0], STR)) {
+        return { ...expr, a: [STR, expr.a], obj: tObj, index: tIndex };
+      }
       if (tObj.a[0].tag === "list") {
         return { ...expr, a: [tObj.a[0].type, expr.a], obj: tObj, index: tIndex };
       }
-      // if (tObj.a[0].tag === "tuple") {
-      //   ...
-      // }
       throw new TypeCheckError(`Cannot index into type \`${tObj.a[0].tag}\``, expr.a); // Can only index into strings, list, dicts, and tuples
+    case "slice": {
+      const tSliced = tcExpr(env, locals, expr.obj);
+      if (tSliced.a[0].tag !== "list")
+        throw new TypeCheckError(`Cannot slice type \`${tSliced.a[0].tag}\``, expr.a);
+      const tcBound = (bound: Expr<SourceLocation>) => {
+        if (bound === undefined)
+          return undefined;
+        const tBound = tcExpr(env, locals, bound);
+        if (tBound.a[0].tag !== "number")
+          throw new TypeCheckError(`Slice index is of non-integer type \`${tBound.a[0].tag}\``, expr.a);
+        return tBound;
+      };
+      return { ...expr, a: [tSliced.a[0], expr.a], obj: tSliced, start: tcBound(expr.start), stop: tcBound(expr.stop), step: tcBound(expr.step) };
+    }
     case "call":
       if (expr.name === "print") {
-        if (expr.arguments.length===0)
-          throw new TypeCheckError("print needs at least 1 argument", expr.a);
-        const tArgs = expr.arguments.map(arg => tcExpr(env, locals, arg));
-        return {...expr, a: [NONE, expr.a], arguments: tArgs};
+        const tKeywords = (expr.keywords || []).map(([name, value]) : [string, Expr<[Type, SourceLocation]>] => {
+          if (name !== "sep" && name !== "end")
+            throw new TypeCheckError(`print got an unexpected keyword argument \`${name}\``, expr.a);
+          const tValue = tcExpr(env, locals, value);
+          if (!equalType(tValue.a[0], STR) && !equalType(tValue.a[0], NONE))
+            throw new TypeCheckError(`${name} must be None or a string, not \`${tValue.a[0].tag}\``, expr.a);
+          return [name, tValue];
+        });
+        const tArgs = expr.arguments.map(arg => {
+          const tArg = tcExpr(env, locals, arg);
+          // objects print as what their __str__, or else their __repr__, returns
+          const method = ["__str__", "__repr__"].find(m => hasDunder(env, tArg.a[0], m));
+          if (method === undefined)
+            return tArg;
+          const tStr = tcDunderCall(env, arg.a, tArg, method, []);
+          if (!equalType(tStr.a[0], STR))
+            throw new TypeCheckError(`${method} must return a str`, arg.a);
+          return tStr;
+        });
+        return {...expr, a: [NONE, expr.a], arguments: tArgs, keywords: tKeywords};
+      }
+      // only functions and classes of a program have parameters to match keywords to
+      const declared = lookupLocalFunction(locals, expr.name) || env.functions.get(expr.name);
+      if (!env.classes.has(expr.name) && (declared === undefined || declared[2] === undefined))
+        matchArguments(expr.name, expr.a, expr.arguments, expr.keywords || [], undefined);
+      if (expr.name === "len") {
+        if (expr.arguments.length !== 1)
+          throw new TypeCheckError("len takes exactly 1 argument", expr.a);
+        const tArg = tcExpr(env, locals, expr.arguments[0]);
+        const argTyp = tArg.a[0];
+        if (hasDunder(env, argTyp, "__len__")) {
+          const tLen = tcDunderCall(env, expr.a, tArg, "__len__", []);
+          if (!equalType(tLen.a[0], NUM))
+            throw new TypeCheckError("__len__ must return an int", expr.a);
+          return tLen;
+        }
+        if (argTyp.tag !== "str" && argTyp.tag !== "list" && argTyp.tag !== "set" && argTyp.tag !== "dict")
+          throw new TypeCheckError(`object of type \`${argTyp.tag}\` has no len()`, expr.a);
+        return { a: [NUM, expr.a], tag: "call", name: expr.name, arguments: [tArg] };
+      }
+      if (expr.name === "next") {
+        if (expr.arguments.length !== 1)
+          throw new TypeCheckError("next takes exactly 1 argument", expr.a);
+        const tGen = tcExpr(env, locals, expr.arguments[0]);
+        if (hasDunder(env, tGen.a[0], "__next__"))
+          return tcDunderCall(env, expr.a, tGen, "__next__", []);
+        if (tGen.a[0].tag !== "generator")
+          throw new TypeCheckError(`\`${tGen.a[0].tag}\` object is not an iterator`, expr.a);
+        return { a: [tGen.a[0].type, expr.a], tag: "call", name: expr.name, arguments: [tGen] };
+      }
+      if (expr.name === "isinstance") {
+        if (expr.arguments.length !== 2)
+          throw new TypeCheckError("isinstance takes exactly 2 arguments", expr.a);
+        const [obj, cls] = expr.arguments;
+        if (cls.tag !== "id" || (cls.name !== "object" && !env.classes.has(cls.name)))
+          throw new TypeCheckError("the second argument of isinstance must be a class", expr.a);
+        const tObj = tcExpr(env, locals, obj);
+        if (tObj.a[0].tag !== "class" && tObj.a[0].tag !== "none")
+          throw new TypeCheckError(`isinstance expects an object, not \`${tObj.a[0].tag}\``, expr.a);
+        return { a: [BOOL, expr.a], tag: "call", name: expr.name, arguments: [tObj, { a: [CLASS(cls.name), cls.a], tag: "id", name: cls.name }] };
       }
+      var fnTyp = locals.vars.get(expr.name) || lookupOuterVar(locals, expr.name);
+      if (fnTyp === undefined && lookupLocalFunction(locals, expr.name) === undefined && !env.functions.has(expr.name))
+        fnTyp = env.globals.get(expr.name);
+      if (fnTyp !== undefined && fnTyp.tag === "callable") {
+        // a variable holding a function value
+        matchArguments(expr.name, expr.a, expr.arguments, expr.keywords || [], undefined);
+        return tcExpr(env, locals, { a: expr.a, tag: "call-expr", fn: { a: expr.a, tag: "id", name: expr.name }, arguments: expr.arguments });
+      }
+      // unless the program defines its own function of that name
+      if (iterationBuiltins.has(expr.name) && lookupLocalFunction(locals, expr.name) === undefined &&
+        (!env.functions.has(expr.name) || env.functions.get(expr.name) === defaultGlobalFunctions.get(expr.name)))
+        return tcIterationCall(env, locals, expr);
       if(env.classes.has(expr.name)) {
         // surprise surprise this is actually a constructor
         const tConstruct : Expr<[Type, SourceLocation]> = { a: [CLASS(expr.name), expr.a], tag: "construct", name: expr.name };
 
-        //To support range class for now
-        if (expr.name === "range") {
-          return tConstruct;
-        }
-
         const [_, methods] = env.classes.get(expr.name);
-        if (methods.has("__init__")) {
-          const [initArgs, initRet] = methods.get("__init__");
-          if (expr.arguments.length !== initArgs.length - 1)
-            throw new TypeCheckError("__init__ didn't receive the correct number of arguments from the constructor", expr.a);
-          if (initRet !== NONE)
-            throw new TypeCheckError("__init__  must have a void return type", expr.a);
-          return tConstruct;
-        } else {
-          return tConstruct;
+        const [initArgs, initRet] = methods.get("__init__");
+        var args = expr.arguments;
+        // range(stop) and range(start, stop) of the prelude leave out the rest
+        if (expr.name === "range" && initArgs.length === 4 && (args.length === 1 || args.length === 2)) {
+          const num = (n : number) : Expr<SourceLocation> => ({ a: expr.a, tag: "literal", value: { a: expr.a, tag: "num", value: BigInt(n) } });
+          args = args.length === 1 ? [num(0), args[0], num(1)] : [...args, num(1)];
         }
-      } else if(env.functions.has(expr.name)) {
-        const [argTypes, retType] = env.functions.get(expr.name);
-        const tArgs = expr.arguments.map(arg => tcExpr(env, locals, arg));
+        const initParams = methods.get("__init__")[2];
+        const [initCallArgs, initOrder] = matchArguments(expr.name, expr.a, args, expr.keywords || [], initParams && initParams.slice(1));
+        args = initCallArgs;
+        if (args.length !== initArgs.length - 1)
+          throw new TypeCheckError("__init__ didn't receive the correct number of arguments from the constructor", expr.a);
+        if (initRet !== NONE)
+          throw new TypeCheckError("__init__  must have a void return type", expr.a);
+        const tArgs = args.map((arg, i) => tcExpr(env, locals, arg, initArgs[i + 1]));
+        tArgs.forEach((tArg, i) => {
+          if (!isAssignable(env, tArg.a[0], initArgs[i + 1]))
+            throw new TypeCheckError(`Constructor of \`${expr.name}\` expected ${JSON.stringify(initArgs[i + 1].tag)} for argument ${i + 1} but got ${JSON.stringify(tArg.a[0].tag)}`, expr.a);
+        });
+        return {...tConstruct, arguments: tArgs, argOrder: initOrder};
+      } else if(lookupLocalFunction(locals, expr.name) !== undefined || env.functions.has(expr.name)) {
+        const [argTypes, retType, params] = lookupLocalFunction(locals, expr.name) || env.functions.get(expr.name);
+        const [callArgs, argOrder] = matchArguments(expr.name, expr.a, expr.arguments, expr.keywords || [], params);
+        const tArgs = callArgs.map((arg, i) => tcExpr(env, locals, arg, argTypes[i]));
         console.log(tArgs);
 
-        if(argTypes.length === expr.arguments.length &&
+        if(argTypes.length === callArgs.length &&
            tArgs.every((tArg, i) => isAssignable(env, tArg.a[0], argTypes[i]))) {
-             return {...expr, a: [retType, expr.a], arguments: tArgs};
+             return { a: [retType, expr.a], tag: "call", name: expr.name, arguments: tArgs, genericArgs: expr.genericArgs, argOrder };
            } else {
             throw new TypeCheckError("Function call type mismatch: " + expr.name, expr.a);
            }
@@ -648,10 +1436,38 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
         }
         var initial_value = tcExpr(env, locals, expr.arguments[0]);
         console.log("hello", {...expr, a: initial_value.a, arguments: [initial_value]})
-        return {...expr, a: initial_value.a, arguments: [initial_value]};
+        return { a: initial_value.a, tag: "call", name: expr.name, arguments: [initial_value] };
       } else {
         throw new TypeCheckError("Undefined function: " + expr.name, expr.a);
       }
+    case "call-expr":
+      const tFn = tcExpr(env, locals, expr.fn);
+      const fnType = tFn.a[0];
+      if (fnType.tag !== "callable")
+        throw new TypeCheckError(`\`${fnType.tag}\` is not callable`, expr.a);
+      const tCallArgs = expr.arguments.map((arg, i) => tcExpr(env, locals, arg, fnType.params[i]));
+      if (fnType.params.length !== tCallArgs.length ||
+        !tCallArgs.every((tArg, i) => isAssignable(env, tArg.a[0], fnType.params[i])))
+        throw new TypeCheckError("Function call type mismatch", expr.a);
+      return {...expr, a: [fnType.ret, expr.a], fn: tFn, arguments: tCallArgs};
+    case "lambda":
+      // the parameter types come from where the lambda is used
+      if (expected === undefined || expected.tag !== "callable")
+        throw new TypeCheckError("cannot infer the type of lambda, it has to be assigned, passed or returned as a Callable", expr.a);
+      if (expected.params.length !== expr.params.length)
+        throw new TypeCheckError(`lambda takes ${expr.params.length} arguments but ${expected.params.length} were expected`, expr.a);
+      lambdaCount += 1;
+      const lambdaDef : FunDef<SourceLocation> = {
+        a: expr.a,
+        name: `lambda$${lambdaCount}`,
+        parameters: expr.params.map((name, i) => ({ name, type: expected.params[i] })),
+        ret: expected.ret,
+        inits: [],
+        body: [{ a: expr.a, tag: "return", value: expr.body }]
+      };
+      locals.lambdas.push(tcDef(env, lambdaDef, locals.topLevel ? undefined : locals));
+      locals.functions.set(lambdaDef.name, [expected.params, expected.ret]);
+      return { a: [expected, expr.a], tag: "func-ref", name: lambdaDef.name };
     case "lookup":
       var tObj = tcExpr(env, locals, expr.obj);
       if (tObj.a[0].tag === "class") {
@@ -669,8 +1485,25 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
         throw new TypeCheckError("field lookups require an object", expr.a);
       }
     case "method-call":
+      // the keywords are matched to parameters below, leaving only positional arguments
+      const { keywords: methodKeywords, ...methodCall } = expr;
       var tObj = tcExpr(env, locals, expr.obj);
-      var tArgs = expr.arguments.map(arg => tcExpr(env, locals, arg));
+      var paramTypes : Array<Type> = [];
+      var methodParams : Array<Parameter<any>> = undefined;
+      if (tObj.a[0].tag === "class" && env.classes.has(tObj.a[0].name)) {
+        const [fields, methods] = env.classes.get(tObj.a[0].name);
+        if (!methods.has(expr.method) && fields.has(expr.method) && fields.get(expr.method).tag === "callable") {
+          // calling a function stored in a field
+          matchArguments(expr.method, expr.a, expr.arguments, methodKeywords || [], undefined);
+          return tcExpr(env, locals, { a: expr.a, tag: "call-expr", fn: { a: expr.a, tag: "lookup", obj: expr.obj, field: expr.method }, arguments: expr.arguments });
+        }
+        if (methods.has(expr.method)) {
+          paramTypes = methods.get(expr.method)[0].slice(1);
+          methodParams = methods.get(expr.method)[2] && methods.get(expr.method)[2].slice(1);
+        }
+      }
+      const [methodArgs, methodOrder] = matchArguments(expr.method, expr.a, expr.arguments, methodKeywords || [], methodParams);
+      var tArgs = methodArgs.map((arg, i) => tcExpr(env, locals, arg, paramTypes[i]));
       if (tObj.a[0].tag === "class") {
         if (env.classes.has(tObj.a[0].name)) {
           const [_, methods] = env.classes.get(tObj.a[0].name);
@@ -679,9 +1512,9 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
             const realArgs = [tObj].concat(tArgs);
             if(methodArgs.length === realArgs.length &&
               methodArgs.every((argTyp, i) => isAssignable(env, realArgs[i].a[0], argTyp))) {
-                return {...expr, a: [methodRet, expr.a], obj: tObj, arguments: tArgs};
+                return { a: [methodRet, expr.a], tag: "method-call", obj: tObj, method: expr.method, arguments: tArgs, argOrder: methodOrder };
               } else {
-               throw new TypeCheckError(`Method call type mismatch: ${expr.method} --- callArgs: ${JSON.stringify(realArgs)}, methodArgs: ${JSON.stringify(methodArgs)}`, expr.a );
+               throw new TypeCheckError(`Method call type mismatch: ${expr.method} --- callArgs: ${JSON.stringify(realArgs.map(arg => arg.a[0]))}, methodArgs: ${JSON.stringify(methodArgs)}`, expr.a );
               }
           } else {
             throw new TypeCheckError(`could not found method ${expr.method} in class ${tObj.a[0].name}`, expr.a);
@@ -725,27 +1558,90 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
         switch (expr.method) {
           case "contains":
           case "hasnext":
-            return {...expr, a: [BOOL, expr.a], obj: tObj, arguments: tArgs};
+            return {...methodCall, a: [BOOL, expr.a], obj: tObj, arguments: tArgs};
 
           case "add":
           case "remove":
           case "update":
           case "clear":
-            return {...expr, a: [NONE, expr.a], obj: tObj, arguments: tArgs};
+            return {...methodCall, a: [NONE, expr.a], obj: tObj, arguments: tArgs};
 
           case "length":
-            return {...expr, a: [NUM, expr.a], obj: tObj, arguments: tArgs};
+            return {...methodCall, a: [NUM, expr.a], obj: tObj, arguments: tArgs};
 
           case "firstItem":
           case "next":
-            return {...expr, a: [tObj.a[0].valueType, expr.a], obj: tObj, arguments: tArgs};
+            return {...methodCall, a: [tObj.a[0].valueType, expr.a], obj: tObj, arguments: tArgs};
         }
 
-        return {...expr, a:tObj.a, obj: tObj, arguments: tArgs}
+        return {...methodCall, a:tObj.a, obj: tObj, arguments: tArgs}
 
+      } else if (tObj.a[0].tag === "list") {
+        const elemTyp = tObj.a[0].type;
+        const argsMatch = (...argTyps : Array<Type>) =>
+          tArgs.length === argTyps.length && tArgs.every((tArg, i) => isAssignable(env, tArg.a[0], argTyps[i]));
+        switch (expr.method) {
+          case "append":
+            if (!argsMatch(elemTyp))
+              throw new TypeCheckError(`append() takes one argument of type \`${elemTyp.tag}\``, expr.a);
+            return {...methodCall, a: [NONE, expr.a], obj: tObj, arguments: tArgs};
+          case "insert":
+            if (!argsMatch(NUM, elemTyp))
+              throw new TypeCheckError(`insert() takes an index and an argument of type \`${elemTyp.tag}\``, expr.a);
+            return {...methodCall, a: [NONE, expr.a], obj: tObj, arguments: tArgs};
+          case "pop":
+            if (!argsMatch() && !argsMatch(NUM))
+              throw new TypeCheckError("pop() takes at most one index", expr.a);
+            return {...methodCall, a: [elemTyp, expr.a], obj: tObj, arguments: tArgs};
+          case "remove":
+            if (!argsMatch(elemTyp))
+              throw new TypeCheckError(`remove() takes one argument of type \`${elemTyp.tag}\``, expr.a);
+            return {...methodCall, a: [NONE, expr.a], obj: tObj, arguments: tArgs};
+          case "contains":
+            if (!argsMatch(elemTyp))
+              throw new TypeCheckError(`List element must be of type \`${elemTyp.tag}\``, expr.a);
+            return {...methodCall, a: [BOOL, expr.a], obj: tObj, arguments: tArgs};
+          default:
+            throw new TypeCheckError(`Unknown List Method Error: ${expr.method}`, expr.a);
+        }
+      } else if (tObj.a[0].tag === "dict") {
+        const dictTyp = tObj.a[0];
+        switch (expr.method) {
+          case "contains":
+            if (tArgs.length !== 1 || !isAssignable(env, tArgs[0].a[0], dictTyp.key))
+              throw new TypeCheckError(`Dictionary key must be of type \`${dictTyp.key.tag}\``, expr.a);
+            return {...methodCall, a: [BOOL, expr.a], obj: tObj, arguments: tArgs};
+          case "keys":
+          case "values":
+          case "items":
+            if (tArgs.length !== 0)
+              throw new TypeCheckError(`${expr.method}() takes no arguments`, expr.a);
+            const itemTyp : Type = {tag: "tuple", contentTypes: [dictTyp.key, dictTyp.value]};
+            const elemTyp = expr.method === "keys" ? dictTyp.key : expr.method === "values" ? dictTyp.value : itemTyp;
+            return {...methodCall, a: [{tag: "list", type: elemTyp}, expr.a], obj: tObj, arguments: tArgs};
+          default:
+            throw new TypeCheckError("Unknown Dictionary Method Error", expr.a);
+        }
       } else {
         throw new TypeCheckError("method calls require an object", expr.a);
       }
+    case "dict":
+      if (expr.entries.length === 0) {
+        return {...expr, entries: [], a: [{tag: "dict", key: NONE, value: NONE}, expr.a]};
+      }
+      const tEntries = expr.entries.map(([k, v]) : [Expr<[Type, SourceLocation]>, Expr<[Type, SourceLocation]>] => [tcExpr(env, locals, k), tcExpr(env, locals, v)]);
+      const keyTyp = tEntries[0][0].a[0];
+      const valueTyp = tEntries[0][1].a[0];
+      if (keyTyp.tag !== "number" && keyTyp.tag !== "bool" && keyTyp.tag !== "str")
+        throw new TypeCheckError(`unhashable type: \`${keyTyp.tag}\``, expr.a);
+      tEntries.forEach(([k, v]) => {
+        if (!isAssignable(env, k.a[0], keyTyp) || !isAssignable(env, v.a[0], valueTyp))
+          throw new TypeCheckError("Dictionary has incompatible types", expr.a);
+      });
+      return {...expr, entries: tEntries, a: [{tag: "dict", key: keyTyp, value: valueTyp}, expr.a]};
+    case "tuple":
+      const tElements = expr.elements.map(e => tcExpr(env, locals, e));
+      return {...expr, a: [{tag: "tuple", contentTypes: tElements.map(e => e.a[0])}, expr.a], elements: tElements};
     case "ternary":
       const tExprIfTrue = tcExpr(env, locals, expr.exprIfTrue);
       const tIfCond = tcExpr(env, locals, expr.ifcond);
@@ -761,36 +1657,50 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
       const eitherTyp : Type = { tag: "either", left: exprIfTrueTyp, right: exprIfFalseTyp };
       return { ...expr, a: [eitherTyp, expr.a], exprIfTrue: tExprIfTrue, ifcond: tIfCond, exprIfFalse: tExprIfFalse };
     case "comprehension":
-      const tIterable = tcExpr(env, locals, expr.iterable);
-      const [iterable, itemTyp] = isIterable(env, tIterable.a[0])
-      if (!iterable) {
-        throw new TypeCheckError(`Type ${tIterable.a[0]} is not iterable`, expr.a);
-      }
-      // shadow item name always globally
-      const newItemName = generateCompvar(expr.item);
-      env.globals.set(newItemName, itemTyp);
-      var tCompIfCond = undefined;
-      if (expr.ifcond) {
-        tCompIfCond = tcExpr(env, locals, expr.ifcond);
-        if (!equalType(tCompIfCond.a[0], BOOL)) {
-          throw new TypeCheckError("if condition must be a bool", expr.a);
+      // the items of each for clause are visible to the clauses after it and to the lhs
+      const compvarNames : Array<string> = [];
+      const tFors = expr.fors.map(compFor => {
+        const tIterable = tcExpr(env, locals, compFor.iterable);
+        const [iterable, itemTyp] = isIterable(env, tIterable.a[0]);
+        if (!iterable) {
+          throw new TypeCheckError(`Type ${tIterable.a[0].tag} is not iterable`, compFor.a);
         }
-      }
+        var itemTyps = [itemTyp];
+        if (compFor.items.length > 1) {
+          if (itemTyp.tag !== "tuple" || itemTyp.contentTypes.length !== compFor.items.length)
+            throw new TypeCheckError(`cannot unpack ${itemTyp.tag} into ${compFor.items.length} values`, compFor.a);
+          itemTyps = itemTyp.contentTypes;
+        }
+        // shadow item names always globally
+        const items = compFor.items.map((item, i) => {
+          const newItemName = generateCompvar(item);
+          env.globals.set(newItemName, itemTyps[i]);
+          compvarNames.push(newItemName);
+          return newItemName;
+        });
+        const tIfconds = compFor.ifconds.map(ifcond => {
+          const tIfcond = tcExpr(env, locals, ifcond);
+          if (!equalType(tIfcond.a[0], BOOL)) {
+            throw new TypeCheckError("if condition must be a bool", ifcond.a);
+          }
+          return tIfcond;
+        });
+        const tIter = tIterable.a[0].tag === "class" ? tcIter(env, compFor.a, tIterable) : tIterable;
+        return { a: [itemTyp, compFor.a] as [Type, SourceLocation], items, iterable: tIter, ifconds: tIfconds };
+      });
       const tLhs = tcExpr(env, locals, expr.lhs);
-      // TODO: need to talk to the other groups
-      if (expr.type.tag == "generator"
-        || expr.type.tag == "list"
-      ) {
-        expr.type = { ...(expr.type), type: itemTyp };
-      }
-      if (expr.type.tag == "set"
-        // || expr.type.tag == "dictionary"
-      ) {
-        expr.type = { ...(expr.type), valueType: itemTyp };
+      // the element type is the one of the lhs
+      var compTyp : Type;
+      if (expr.type.tag === "set") {
+        compTyp = { tag: "set", valueType: tLhs.a[0] };
+      } else if (expr.type.tag === "list") {
+        compTyp = { tag: "list", type: tLhs.a[0] };
+      } else {
+        compTyp = { tag: "generator", type: tLhs.a[0] };
       }
-      // delete comp var name from globals
-      env.globals.delete(newItemName);
-      return { ...expr, a: [expr.type, expr.a], lhs: tLhs, item: newItemName, iterable: tIterable, ifcond: tCompIfCond };
+      // delete comp var names from globals
+      compvarNames.forEach(name => env.globals.delete(name));
+      return { ...expr, a: [compTyp, expr.a], type: compTyp, lhs: tLhs, fors: tFors };
 
     case "non-paren-vals":
       const nonParenVals = expr.values.map((val) => tcExpr(env, locals, val));
@@ -800,6 +1710,15 @@ export function tcExpr(env : GlobalTypeEnv, locals : LocalTypeEnv, expr : Expr<S
   }
 }
 
+// The value of an integer constant like 1 or -1, or undefined for any other expression
+function constantIndex(expr : Expr<SourceLocation>) : number {
+  if (expr.tag === "literal" && expr.value.tag === "num")
+    return Number(expr.value.value);
+  if (expr.tag === "uniop" && expr.op === UniOp.Neg && expr.expr.tag === "literal" && expr.expr.value.tag === "num")
+    return -Number(expr.expr.value.value);
+  return undefined;
+}
+
 export function tcLiteral(literal : Literal<SourceLocation>) : Literal<[Type, SourceLocation]> {
   var typ : Type;
   switch(literal.tag) {
@@ -809,6 +1728,9 @@ export function tcLiteral(literal : Literal<SourceLocation>) : Literal<[Type, So
     case "num":
       typ =  NUM;
       break;
+    case "str":
+      typ = STR;
+      break;
     case "none":
       typ =  NONE;
       break;
@@ -1,11 +1,14 @@
 import { Value, Type } from "./ast";
+import { loadInt } from "./bignum";
 
-export function PyValue(typ: Type, result: number): Value {
+export function PyValue(typ: Type, result: number, memory?: WebAssembly.Memory): Value {
   switch (typ.tag) {
     case "number":
-      return PyInt(result);
+      return PyInt(loadInt(memory, result));
     case "bool":
       return PyBool(Boolean(result));
+    case "str":
+      return PyStr(loadStr(memory, result));
     case "class":
       return PyObj(typ.name, result);
     case "none":
@@ -13,7 +16,7 @@ export function PyValue(typ: Type, result: number): Value {
   }
 }
 
-export function PyInt(n: number): Value {
+export function PyInt(n: bigint): Value {
   return { tag: "num", value: n };
 }
 
@@ -21,6 +24,10 @@ export function PyBool(b: boolean): Value {
   return { tag: "bool", value: b };
 }
 
+export function PyStr(s: string): Value {
+  return { tag: "str", value: s };
+}
+
 export function PyObj(name: string, address: number): Value {
   if (address === 0) return PyNone();
   else return { tag: "object", name, address };
@@ -30,8 +37,42 @@ export function PyNone(): Value {
   return { tag: "none" };
 }
 
+// Strings live on the heap as [length, char0, char1, ...], one char code per word
+export function loadStr(memory: WebAssembly.Memory, address: number): string {
+  const heap = new Int32Array(memory.buffer);
+  const length = heap[address / 4];
+  var chars = "";
+  for (let i = 1; i <= length; i++) {
+    chars += String.fromCharCode(heap[address / 4 + i]);
+  }
+  return chars;
+}
+
+// Allocates a string on the heap through libmemory, returning its address
+export function storeStr(importObject: any, value: string): number {
+  const address = importObject.libmemory.alloc(value.length + 1);
+  const heap = new Int32Array(importObject.js.memory.buffer);
+  heap[address / 4] = value.length;
+  for (let i = 0; i < value.length; i++) {
+    heap[address / 4 + 1 + i] = value.charCodeAt(i);
+  }
+  return address;
+}
+
+// Finds the class of an object by the vtable global it points at, among the
+// classes of the running program, which can come from earlier REPL entries
+export function objectClassName(importObject: any, instance: WebAssembly.Instance, obj: number): string {
+  const heap = new Int32Array(importObject.js.memory.buffer);
+  const globals : any = { ...(importObject.env || {}), ...instance.exports };
+  return [...importObject.globalEnv.vtables.keys()].find((name: string) => {
+    const vtable = globals[`${name}$vtable`];
+    return vtable instanceof WebAssembly.Global && vtable.value === heap[obj / 4];
+  });
+}
+
 export const NUM : Type = {tag: "number"};
 export const BOOL : Type = {tag: "bool"};
+export const STR : Type = {tag: "str"};
 export const NONE : Type = {tag: "none"};
 export const TYPE_VAR : Type = {tag: "type-var"};
 export function CLASS(name : string, genericArgs: Array<Type> = null) : Type {return {tag: "class", name, genericArgs}};
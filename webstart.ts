@@ -1,8 +1,9 @@
 import { BasicREPL} from './repl';
 import { Type, Value } from './ast';
 import { defaultTypeEnv } from './type-check';
-import { NUM, BOOL, NONE } from './utils';
 import * as RUNTIME_ERROR from './runtime_error'
+import * as RUNTIME_PRINT from './runtime_print'
+import * as BIGNUM from './bignum'
 import { renderResult, renderError, renderPrint } from "./outputrender";
 import { log } from 'console';
 import { sources } from 'webpack';
@@ -32,25 +33,57 @@ function webStart() {
 
     var importObject:any = {
       imports: {
-        ...BuiltinLib.reduce((o:Record<string, Function>, key)=>Object.assign(o, {[key.name]:key.body}), {}),
-        index_out_of_bounds: (length: any, index: any, line: number, col: number) => RUNTIME_ERROR.index_out_of_bounds(length, index, line, col),
+        ...BuiltinLib.reduce((o:Record<string, Function>, key)=>Object.assign(o, {[key.name]:key.bigints ? (...args: Array<number>) => BIGNUM.big_builtin(importObject, key.body, ...args) : key.body}), {}),
+        index_out_of_bounds: (length: any, index: any, line: number, col: number) => RUNTIME_ERROR.index_out_of_bounds(importObject, length, index, line, col),
+        key_not_found: (line: number, col: number) => RUNTIME_ERROR.key_not_found(line, col),
+        value_not_found: (line: number, col: number) => RUNTIME_ERROR.value_not_found(line, col),
+        slice_step_zero: (line: number, col: number) => RUNTIME_ERROR.slice_step_zero(line, col),
+        list_too_long: (line: number, col: number) => RUNTIME_ERROR.list_too_long(line, col),
+        stop_iteration: (state: number, line: number, col: number) => RUNTIME_ERROR.stop_iteration(state, line, col),
+        assertion_failed: (msg: number, line: number, col: number) => RUNTIME_ERROR.assertion_failed(importObject, msg, line, col),
+        big_binop: (op: number, left: number, right: number) => BIGNUM.big_binop(importObject, op, left, right),
+        big_cmp: (left: number, right: number) => BIGNUM.big_cmp(importObject, left, right),
         division_by_zero: (arg: number, line: number, col: number) => RUNTIME_ERROR.division_by_zero(arg, line, col),
+        negative_exponent: (arg: number, line: number, col: number) => RUNTIME_ERROR.negative_exponent(importObject, arg, line, col),
         stack_push: (line: number) => RUNTIME_ERROR.stack_push(line),
+        stack_pop: () => RUNTIME_ERROR.stack_pop(),
+        stack_depth: () => RUNTIME_ERROR.stack_depth(),
+        stack_truncate: (depth: number) => RUNTIME_ERROR.stack_truncate(depth),
         stack_clear: () => RUNTIME_ERROR.stack_clear(),
         assert_not_none: (arg: any, line: number, col: number) => RUNTIME_ERROR.assert_not_none(arg, line, col),
-        print_num: (arg: number) => renderPrint(NUM, arg),
-        print_bool: (arg: number) => renderPrint(BOOL, arg),
-        print_none: (arg: number) => renderPrint(NONE, arg),
-        abs: Math.abs,
-        min: Math.min,
-        max: Math.max,
-        pow: Math.pow
+        builtin_exception: (...vtables: Array<number>) => RUNTIME_ERROR.builtin_exception(importObject, ...vtables),
+        equal: (value: number, other: number, type: number) => RUNTIME_PRINT.equal(importObject, value, other, type),
+        print: (value: number, type: number, after: number, isEnd: number) => renderPrint(RUNTIME_PRINT.print(importObject, value, type, after, isEnd)),
       },
       libmemory: memoryModule.instance.exports,
       memory_values: memory, //it is kind of pointer pointing to heap
       js: {memory: memory}
     };
 
+    const strModule = await fetch('strings.wasm').then(response =>
+      response.arrayBuffer()
+    ).then(bytes =>
+      WebAssembly.instantiate(bytes, {...importObject, js: { mem: memory } })
+    );
+
+    importObject.libstr = strModule.instance.exports;
+
+    const bigModule = await fetch('bignum.wasm').then(response =>
+      response.arrayBuffer()
+    ).then(bytes =>
+      WebAssembly.instantiate(bytes, importObject)
+    );
+
+    importObject.libbig = bigModule.instance.exports;
+
+    const listModule = await fetch('lists.wasm').then(response =>
+      response.arrayBuffer()
+    ).then(bytes =>
+      WebAssembly.instantiate(bytes, {...importObject, js: { mem: memory } })
+    );
+
+    importObject.liblist = listModule.instance.exports;
+
     const setModule = await fetch('sets.wasm').then(response =>
       response.arrayBuffer()
     ).then(bytes =>
@@ -58,6 +91,22 @@ function webStart() {
     );
 
     importObject.libset = setModule.instance.exports;
+
+    const dictModule = await fetch('dicts.wasm').then(response =>
+      response.arrayBuffer()
+    ).then(bytes =>
+      WebAssembly.instantiate(bytes, {...importObject, js: { mem: memory } })
+    );
+
+    importObject.libdict = dictModule.instance.exports;
+
+    const objectModule = await fetch('objects.wasm').then(response =>
+      response.arrayBuffer()
+    ).then(bytes =>
+      WebAssembly.instantiate(bytes, importObject)
+    );
+
+    importObject.libobjects = objectModule.instance.exports;
     
     var repl = new BasicREPL(importObject);
 